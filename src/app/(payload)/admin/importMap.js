@@ -1,3 +1,6 @@
+import { ExtractMetadataButton as ExtractMetadataButton_c201c810433eb236397ee855b58322ec } from '@/components/admin/fields/ExtractMetadataButton'
+import { ShareLinkButton as ShareLinkButton_da231de072070b371d31be3a8d04ef2b } from '@/components/admin/fields/ShareLinkButton'
+import { ProofingExportButton as ProofingExportButton_99f705c3776bb56778d4bc5735ee187c } from '@/components/admin/fields/ProofingExportButton'
 import { RscEntryLexicalCell as RscEntryLexicalCell_44fe37237e0ebf4470c9990d8cb7b07e } from '@payloadcms/richtext-lexical/rsc'
 import { RscEntryLexicalField as RscEntryLexicalField_44fe37237e0ebf4470c9990d8cb7b07e } from '@payloadcms/richtext-lexical/rsc'
 import { LexicalDiffComponent as LexicalDiffComponent_44fe37237e0ebf4470c9990d8cb7b07e } from '@payloadcms/richtext-lexical/rsc'
@@ -6,10 +9,14 @@ import { BoldFeatureClient as BoldFeatureClient_e70f5e05f09f93e00b997edb1ef0c864
 import { ItalicFeatureClient as ItalicFeatureClient_e70f5e05f09f93e00b997edb1ef0c864 } from '@payloadcms/richtext-lexical/client'
 import { UnderlineFeatureClient as UnderlineFeatureClient_e70f5e05f09f93e00b997edb1ef0c864 } from '@payloadcms/richtext-lexical/client'
 import { ParagraphFeatureClient as ParagraphFeatureClient_e70f5e05f09f93e00b997edb1ef0c864 } from '@payloadcms/richtext-lexical/client'
+import { CreateGearButton as CreateGearButton_ef14d8ed0219996b7aff849687c58373 } from '@/components/admin/fields/CreateGearButton'
 import { default as default_e90ccfc5ebe608891310c44ed83c84ad } from '@/components/admin/dashboard/BeforeDashboard'
 import { default as default_b186dd48bfdfa655e95670a89369ad18 } from '@/components/admin/dashboard/BeforeLogin'
 
 export const importMap = {
+  "@/components/admin/fields/ExtractMetadataButton#ExtractMetadataButton": ExtractMetadataButton_c201c810433eb236397ee855b58322ec,
+  "@/components/admin/fields/ShareLinkButton#ShareLinkButton": ShareLinkButton_da231de072070b371d31be3a8d04ef2b,
+  "@/components/admin/fields/ProofingExportButton#ProofingExportButton": ProofingExportButton_99f705c3776bb56778d4bc5735ee187c,
   "@payloadcms/richtext-lexical/rsc#RscEntryLexicalCell": RscEntryLexicalCell_44fe37237e0ebf4470c9990d8cb7b07e,
   "@payloadcms/richtext-lexical/rsc#RscEntryLexicalField": RscEntryLexicalField_44fe37237e0ebf4470c9990d8cb7b07e,
   "@payloadcms/richtext-lexical/rsc#LexicalDiffComponent": LexicalDiffComponent_44fe37237e0ebf4470c9990d8cb7b07e,
@@ -18,6 +25,7 @@ export const importMap = {
   "@payloadcms/richtext-lexical/client#ItalicFeatureClient": ItalicFeatureClient_e70f5e05f09f93e00b997edb1ef0c864,
   "@payloadcms/richtext-lexical/client#UnderlineFeatureClient": UnderlineFeatureClient_e70f5e05f09f93e00b997edb1ef0c864,
   "@payloadcms/richtext-lexical/client#ParagraphFeatureClient": ParagraphFeatureClient_e70f5e05f09f93e00b997edb1ef0c864,
+  "@/components/admin/fields/CreateGearButton#CreateGearButton": CreateGearButton_ef14d8ed0219996b7aff849687c58373,
   "@/components/admin/dashboard/BeforeDashboard#default": default_e90ccfc5ebe608891310c44ed83c84ad,
   "@/components/admin/dashboard/BeforeLogin#default": default_b186dd48bfdfa655e95670a89369ad18
 }
@@ -2,7 +2,7 @@ import { getTranslations } from 'next-intl/server'
 import type { Metadata } from 'next'
 import Link from 'next/link'
 import { getAboutPage, getCurrentGear, getSiteMetadata } from '@/lib/api/api-client'
-import { getLocalizedValue } from '@/lib/utils/localization'
+import { getLocalizedValue, getLanguageAlternates } from '@/lib/utils/localization'
 import OptimizedImage from '@/components/ui/base/OptimizedImage'
 import RichTextRenderer from '@/components/ui/base/RichTextRenderer'
 import { getResponsiveImageProps } from '@/lib/utils/image-utils'
@@ -19,20 +19,20 @@ export async function generateMetadata({ params }: AboutPageProps): Promise<Meta
   // Fetch all CMS data - prioritize SiteMetadata as primary source
   const [aboutData, siteMetadata] = await Promise.all([
     getAboutPage(),
-    getSiteMetadata(locale as 'en').catch(() => null)
+    getSiteMetadata(locale).catch(() => null)
   ])
   
   // Extract SEO fields from About global (new!)
   const seo = aboutData?.seo || {}
-  const customTitle = seo.metaTitle ? getLocalizedValue(seo.metaTitle as any, locale as 'en') : null
-  const customDescription = seo.metaDescription ? getLocalizedValue(seo.metaDescription as any, locale as 'en') : null
+  const customTitle = seo.metaTitle ? getLocalizedValue(seo.metaTitle as any, locale) : null
+  const customDescription = seo.metaDescription ? getLocalizedValue(seo.metaDescription as any, locale) : null
   const seoKeywords = seo.keywords || []
   const customOgImage = seo.ogImage || null
   const canonicalUrl = seo.canonicalUrl || `${SITE_CONFIG.url.base}/${locale}/about`
   
   // Enhanced person schema data
   const schema = seo.schema || {}
-  const customJobTitle = schema.jobTitle ? getLocalizedValue(schema.jobTitle as any, locale as 'en') : null
+  const customJobTitle = schema.jobTitle ? getLocalizedValue(schema.jobTitle as any, locale) : null
   const worksFor = schema.worksFor || null
   const alumniOf = schema.alumniOf || null
   const awards = schema.awards || []
@@ -46,19 +46,19 @@ export async function generateMetadata({ params }: AboutPageProps): Promise<Meta
   
   // Priority: About page content blocks > SiteMetadata > SITE_CONFIG
   const name = (heroBlock && heroBlock.blockType === 'heroSection' && heroBlock.name 
-      ? getLocalizedValue(heroBlock.name, locale as 'en') : null)
+      ? getLocalizedValue(heroBlock.name, locale) : null)
     || pageHeader?.title 
     || siteMetadata?.personal?.name?.[locale as keyof typeof siteMetadata.personal.name]
     || SITE_CONFIG.personal.name
     
   const title = customJobTitle || (heroBlock && heroBlock.blockType === 'heroSection' && heroBlock.title
-      ? getLocalizedValue(heroBlock.title, locale as 'en') : null)
+      ? getLocalizedValue(heroBlock.title, locale) : null)
     || pageHeader?.subtitle 
     || siteMetadata?.personal?.title?.[locale as keyof typeof siteMetadata.personal.title]
     || SITE_CONFIG.personal.title
     
   const location = (heroBlock && heroBlock.blockType === 'heroSection' && heroBlock.location
-      ? getLocalizedValue(heroBlock.location, locale as 'en') : null) 
+      ? getLocalizedValue(heroBlock.location, locale) : null) 
     || siteMetadata?.personal?.location?.[locale as keyof typeof siteMetadata.personal.location]
     || SITE_CONFIG.personal.location
   
@@ -66,7 +66,7 @@ export async function generateMetadata({ params }: AboutPageProps): Promise<Meta
   let introduction: string
   if (heroBlock && heroBlock.blockType === 'heroSection' && heroBlock.introduction) {
     // CMS has custom introduction - use as-is
-    const richTextIntro = getLocalizedValue(heroBlock.introduction, locale as 'en')
+    const richTextIntro = getLocalizedValue(heroBlock.introduction, locale)
     introduction = typeof richTextIntro === 'string' ? richTextIntro : richTextIntro?.toString() || ''
   } else {
     // Generate fallback introduction without location (since we'll add it separately if needed)
@@ -127,10 +127,7 @@ export async function generateMetadata({ params }: AboutPageProps): Promise<Meta
     },
     alternates: {
       canonical: canonicalUrl,
-      languages: {
-        'en': `${SITE_CONFIG.url.base}/en/about`,
-        'ta': `${SITE_CONFIG.url.base}/ta/about`,
-      }
+      languages: getLanguageAlternates('/about')
     },
     robots: {
       index: true,
@@ -160,7 +157,7 @@ export default async function AboutPage({ params }: AboutPageProps) {
   // Fetch CMS data - include SiteMetadata for fallbacks
   const [aboutData, siteMetadata] = await Promise.all([
     getAboutPage(),
-    getSiteMetadata(locale as 'en').catch(() => null)
+    getSiteMetadata(locale).catch(() => null)
   ])
   
   const gearLimit = (aboutData as any)?.gearSection?.maxGearItems || 12
@@ -336,7 +333,7 @@ export default async function AboutPage({ params }: AboutPageProps) {
                     }`}>
                       <div className="aspect-[4/5] bg-muted rounded-2xl overflow-hidden border border-border shadow-xl">
                         {(heroBlockData && heroBlockData.blockType === 'heroSection' ? heroBlockData.profileImage : null) || heroImageUrl ? (
-                          <img 
+                          <OptimizedImage
                             src={heroImageUrl || 
                               (heroBlockData && heroBlockData.blockType === 'heroSection' && heroBlockData.profileImage
                                 ? (typeof heroBlockData.profileImage === 'string' 
@@ -410,11 +407,11 @@ export default async function AboutPage({ params }: AboutPageProps) {
                               <div key={blockIndex} className={`${block.style === 'centered' ? 'text-center' : ''} ${block.style === 'narrow' ? 'max-w-4xl mx-auto' : ''}`}>
                                 {block.title && (
                                   <h2 className="font-serif text-2xl md:text-3xl font-bold text-foreground mb-4">
-                                    {getLocalizedValue(block.title, locale as 'en')}
+                                    {getLocalizedValue(block.title, locale)}
                                   </h2>
                                 )}
                                 <div className={`text-foreground leading-relaxed ${block.style === 'large' ? 'text-lg md:text-xl' : ''} ${blockIndex < group.length - 1 ? 'mb-6' : ''}`}>
-                                  <RichTextRenderer content={getLocalizedValue(block.content, locale as 'en')} />
+                                  <RichTextRenderer content={getLocalizedValue(block.content, locale)} />
                                 </div>
                               </div>
                             ))}
@@ -431,11 +428,11 @@ export default async function AboutPage({ params }: AboutPageProps) {
                             <div className={`space-y-6 ${block.style === 'centered' ? 'text-center' : ''} ${block.style === 'narrow' ? 'max-w-4xl mx-auto' : ''}`}>
                               {block.title && (
                                 <h2 className="font-serif text-2xl md:text-3xl font-bold text-foreground">
-                                  {getLocalizedValue(block.title, locale as 'en')}
+                                  {getLocalizedValue(block.title, locale)}
                                 </h2>
                               )}
                               <div className={`text-foreground leading-relaxed ${block.style === 'large' ? 'text-lg md:text-xl' : ''}`}>
-                                <RichTextRenderer content={getLocalizedValue(block.content, locale as 'en')} />
+                                <RichTextRenderer content={getLocalizedValue(block.content, locale)} />
                               </div>
                             </div>
                           )}
@@ -444,11 +441,11 @@ export default async function AboutPage({ params }: AboutPageProps) {
                       {block.blockType === 'quoteBlock' && (
                         <div className="text-center space-y-6">
                           <blockquote className={`italic border-l-4 border-primary pl-6 ${block.style === 'large' ? 'text-xl md:text-2xl' : 'text-lg'} text-muted-foreground`}>
-                            "{getLocalizedValue(block.quote, locale as 'en')}"
+                            "{getLocalizedValue(block.quote, locale)}"
                           </blockquote>
                           {block.author && (
                             <cite className="text-sm text-muted-foreground not-italic">
-                              — {getLocalizedValue(block.author, locale as 'en')}
+                              — {getLocalizedValue(block.author, locale)}
                             </cite>
                           )}
                         </div>
@@ -458,11 +455,11 @@ export default async function AboutPage({ params }: AboutPageProps) {
                       {block.blockType === 'skillsList' && (
                         <div className="space-y-6">
                           <h2 className="font-serif text-2xl md:text-3xl font-bold text-foreground">
-                            {getLocalizedValue(block.title, locale as 'en')}
+                            {getLocalizedValue(block.title, locale)}
                           </h2>
                           {block.description && (
                             <p className="text-muted-foreground">
-                              {getLocalizedValue(block.description, locale as 'en')}
+                              {getLocalizedValue(block.description, locale)}
                             </p>
                           )}
                           <div className={`${
@@ -498,15 +495,15 @@ export default async function AboutPage({ params }: AboutPageProps) {
                                     block.size === 'large' ? 'max-w-2xl' :
                                     'w-full'
                                   }`}>
-                                    <img
+                                    <OptimizedImage
                                       src={(block.image as any)?.imageUrls?.full || ''}
-                                      alt={block.caption ? getLocalizedValue(block.caption, locale as 'en') : 'About image'}
+                                      alt={block.caption ? getLocalizedValue(block.caption, locale) : 'About image'}
                                       className="w-full h-auto rounded-lg"
                                     />
                                   </div>
                                   {block.caption && (
                                     <p className="text-sm text-muted-foreground italic">
-                                      {getLocalizedValue(block.caption, locale as 'en')}
+                                      {getLocalizedValue(block.caption, locale)}
                                     </p>
                                   )}
                                 </>
@@ -520,7 +517,7 @@ export default async function AboutPage({ params }: AboutPageProps) {
                                   <p>Image Block (No image selected)</p>
                                   {block.caption && (
                                     <p className="text-sm mt-2 italic">
-                                      Caption: {getLocalizedValue(block.caption, locale as 'en')}
+                                      Caption: {getLocalizedValue(block.caption, locale)}
                                     </p>
                                   )}
                                 </div>
@@ -538,20 +535,20 @@ export default async function AboutPage({ params }: AboutPageProps) {
                           }`}>
                             {block.title && (
                               <h2 className="font-serif text-2xl md:text-3xl font-bold text-foreground">
-                                {getLocalizedValue(block.title, locale as 'en')}
+                                {getLocalizedValue(block.title, locale)}
                               </h2>
                             )}
                             <div className="text-foreground leading-relaxed">
-                              <RichTextRenderer content={getLocalizedValue(block.content, locale as 'en')} />
+                              <RichTextRenderer content={getLocalizedValue(block.content, locale)} />
                             </div>
                           </div>
                           {block.image && (
                             <div className={`${
                               block.layout === 'image-left' ? 'md:order-1' : ''
                             }`}>
-                              <img
+                              <OptimizedImage
                                 src={(block.image as any)?.imageUrls?.full || ''}
-                                alt={block.title ? getLocalizedValue(block.title, locale as 'en') : 'About image'}
+                                alt={block.title ? getLocalizedValue(block.title, locale) : 'About image'}
                                 className="w-full h-auto rounded-lg"
                               />
                             </div>
@@ -564,21 +561,21 @@ export default async function AboutPage({ params }: AboutPageProps) {
                         <div className="space-y-8">
                           {block.title && (
                             <h2 className="font-serif text-2xl md:text-3xl font-bold text-foreground text-center">
-                              {getLocalizedValue(block.title, locale as 'en')}
+                              {getLocalizedValue(block.title, locale)}
                             </h2>
                           )}
                           {block.description && (
                             <p className="text-muted-foreground text-center max-w-2xl mx-auto">
-                              {getLocalizedValue(block.description, locale as 'en')}
+                              {getLocalizedValue(block.description, locale)}
                             </p>
                           )}
                           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                             {block.gallery.images?.slice(0, block.maxImages || 6).map((image: any) => (
                               <Link key={image.id} href={`/${locale}/galleries/${block.gallery.slug}`}>
                                 <div className="aspect-square bg-muted rounded-lg overflow-hidden group cursor-pointer">
-                                  <img
+                                  <OptimizedImage
                                     src={(image as any)?.imageUrls?.full || ''}
-                                    alt={getLocalizedValue(image.title, locale as 'en') || 'Gallery image'}
+                                    alt={getLocalizedValue(image.title, locale) || 'Gallery image'}
                                     className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
                                   />
                                 </div>
@@ -603,12 +600,12 @@ export default async function AboutPage({ params }: AboutPageProps) {
                         <div className="text-center space-y-6">
                           {block.title && (
                             <h2 className="font-serif text-2xl md:text-3xl font-bold text-foreground">
-                              {getLocalizedValue(block.title, locale as 'en')}
+                              {getLocalizedValue(block.title, locale)}
                             </h2>
                           )}
                           {block.description && (
                             <p className="text-muted-foreground max-w-2xl mx-auto">
-                              {getLocalizedValue(block.description, locale as 'en')}
+                              {getLocalizedValue(block.description, locale)}
                             </p>
                           )}
                           <div className={`flex flex-wrap gap-3 justify-center ${
@@ -661,10 +658,10 @@ export default async function AboutPage({ params }: AboutPageProps) {
               <div className="max-w-7xl mx-auto">
                 <div className="text-center mb-16">
                   <h2 className="font-serif text-3xl md:text-4xl font-bold text-foreground mb-6">
-                    {getLocalizedValue((aboutData as any)?.gearSection?.gearTitle, locale as 'en') || 'My Photography Gear'}
+                    {getLocalizedValue((aboutData as any)?.gearSection?.gearTitle, locale) || 'My Photography Gear'}
                   </h2>
                   <p className="text-xl text-muted-foreground max-w-2xl mx-auto leading-relaxed">
-                    {getLocalizedValue((aboutData as any)?.gearSection?.gearDescription, locale as 'en') || 'The tools that help me capture and create the images I share with the world.'}
+                    {getLocalizedValue((aboutData as any)?.gearSection?.gearDescription, locale) || 'The tools that help me capture and create the images I share with the world.'}
                   </p>
                 </div>
                 
@@ -676,7 +673,7 @@ export default async function AboutPage({ params }: AboutPageProps) {
                           {gear.category.replace('-', ' ').replace(/\b\w/g, (l: string) => l.toUpperCase())}
                         </div>
                         <h3 className="font-serif text-xl font-bold text-foreground mb-2">
-                          {getLocalizedValue(gear.name, locale as 'en')}
+                          {getLocalizedValue(gear.name, locale)}
                         </h3>
                         <p className="text-muted-foreground text-sm mb-3">
                           {gear.brand} {gear.model}
@@ -685,7 +682,7 @@ export default async function AboutPage({ params }: AboutPageProps) {
                       
                       {gear.description && (
                         <div className="text-foreground text-sm leading-relaxed mb-4">
-                          <RichTextRenderer content={getLocalizedValue(gear.description, locale as 'en')} />
+                          <RichTextRenderer content={getLocalizedValue(gear.description, locale)} />
                         </div>
                       )}
                       
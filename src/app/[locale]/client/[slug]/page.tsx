@@ -0,0 +1,169 @@
+import { cookies } from 'next/headers'
+import { notFound } from 'next/navigation'
+import { getTranslations } from 'next-intl/server'
+import type { Metadata } from 'next'
+import { getPayloadClient } from '@/lib/api/payload-client'
+import { DERIVED_CONFIG } from '@/config/site.config'
+import { getLocalizedValue } from '@/lib/utils/localization'
+import {
+  findPrivateGallery,
+  getGalleryAccessCookieName,
+  verifyGalleryAccessToken,
+} from '@/lib/utils/private-gallery'
+import GalleryClient from '../../galleries/[slug]/GalleryClient'
+import PrivateGalleryGate from '@/components/frontend/features/PrivateGalleryGate'
+import { getGalleryDownloadUrl } from '@/lib/utils/gallery-download'
+import { orderGalleryImages } from '@/lib/utils/gallery-membership'
+import { getGalleryImagesOptions, getGalleryImagesWhere, isSmartGallery } from '@/lib/utils/smart-gallery'
+import { buttonVariants } from '@/components/ui/base/button'
+import Link from 'next/link'
+
+// Access depends on the visitor's unlock cookie, so this page is never cached
+export const dynamic = 'force-dynamic'
+
+// Large client shoots are split into pages of this many images
+const PAGE_SIZE = 100
+
+interface ClientGalleryPageProps {
+  params: Promise<{ locale: string; slug: string }>
+  searchParams: Promise<{ expired?: string; page?: string }>
+}
+
+export async function generateMetadata({ params }: ClientGalleryPageProps): Promise<Metadata> {
+  const { locale } = await params
+  const t = await getTranslations({ locale, namespace: 'clientGallery' })
+
+  // The title stays generic so it does not leak the gallery name before unlocking
+  return {
+    title: DERIVED_CONFIG.getPageTitle(t('title')),
+    robots: {
+      index: false,
+      follow: false,
+      nocache: true,
+      googleBot: { index: false, follow: false },
+    },
+  }
+}
+
+export default async function ClientGalleryPage({ params, searchParams }: ClientGalleryPageProps) {
+  const { locale, slug } = await params
+  const { expired, page: pageParam } = await searchParams
+  const t = await getTranslations('clientGallery')
+  const tCommon = await getTranslations('common')
+
+  const payload = await getPayloadClient()
+  const gallery = await findPrivateGallery(payload, slug)
+  if (!gallery) {
+    notFound()
+  }
+
+  const cookieStore = await cookies()
+  const hasAccess = verifyGalleryAccessToken(gallery, cookieStore.get(getGalleryAccessCookieName(gallery.id))?.value)
+
+  if (!hasAccess) {
+    return <PrivateGalleryGate slug={slug} expired={expired === '1'} />
+  }
+
+  // Every image of the gallery in display order, by ID only; manual galleries apply their custom order
+  const isSmart = isSmartGallery(gallery as any)
+  const imagesWhere = getGalleryImagesWhere(gallery as any)
+  const { sort, limit } = getGalleryImagesOptions(gallery as any, { sort: 'sortOrder', limit: 0 })
+  const orderedIds = imagesWhere
+    ? await payload.find({
+        collection: 'images',
+        where: imagesWhere,
+        select: { slug: true },
+        sort,
+        ...(limit ? { limit } : { pagination: false }),
+        depth: 0,
+      }).then(({ docs }) => {
+        const ordered = isSmart ? docs : orderGalleryImages(docs, gallery.imageOrder)
+        return ordered.map((image) => image.id)
+      })
+    : []
+
+  const totalPages = Math.max(1, Math.ceil(orderedIds.length / PAGE_SIZE))
+  const page = Math.min(Math.max(1, parseInt(pageParam || '') || 1), totalPages)
+  const pageIds = orderedIds.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE)
+
+  const pageImages = pageIds.length
+    ? await payload.find({
+        collection: 'images',
+        where: { id: { in: pageIds } },
+        pagination: false,
+        depth: 0,
+      })
+    : { docs: [] }
+  const imagesById = new Map(pageImages.docs.map((image) => [image.id, image]))
+  const pageDocs = pageIds.map((id) => imagesById.get(id)).filter(Boolean) as typeof pageImages.docs
+  // Attaches the caption overrides of manual galleries; the order is already set
+  const images = isSmart ? pageDocs : orderGalleryImages(pageDocs, gallery.imageOrder)
+
+  // Only pass serializable fields to the client component
+  const sanitizedGallery = {
+    id: gallery.id,
+    slug: gallery.slug,
+    title: gallery.title,
+    description: gallery.description,
+    tags: gallery.tags,
+    images: images.map((image: any) => ({
+      id: image.id,
+      slug: image.slug || '',
+      title: image.title || '',
+      description: image.galleryCaption || image.description || '',
+      caption: image.caption || '',
+      alt: image.altText || '',
+      altText: image.altText || '',
+      imageUrls: image.imageUrls || {},
+      fileInfo: image.fileInfo,
+      width: image.fileInfo?.dimensions?.width || 0,
+      height: image.fileInfo?.dimensions?.height || 0,
+    })),
+  }
+
+  const title = getLocalizedValue(gallery.title, locale)
+  const description = getLocalizedValue(gallery.description, locale)
+
+  return (
+    <div className="min-h-screen">
+      <section className="px-6 lg:px-12 xl:px-16 max-w-[1400px] mx-auto pt-16 lg:pt-20 pb-8">
+        <header className="max-w-4xl">
+          <p className="text-sm font-medium text-muted-foreground mb-4">
+            {t('imageCount', { count: orderedIds.length })}
+          </p>
+          <h1 className="font-serif text-2xl md:text-3xl lg:text-4xl font-bold mb-6 leading-tight tracking-tight text-foreground">
+            {title}
+          </h1>
+          {description && (
+            <p className="text-lg text-muted-foreground leading-relaxed">{description}</p>
+          )}
+        </header>
+      </section>
+
+      <section className="px-6 lg:px-12 xl:px-16 max-w-[1400px] mx-auto pb-20">
+        <GalleryClient
+          gallery={sanitizedGallery as any}
+          isPrivate
+          proofing={gallery.privateAccess?.allowProofing !== false}
+          downloadUrl={getGalleryDownloadUrl(gallery.slug, 'full', locale)}
+        />
+
+        {totalPages > 1 && (
+          <nav aria-label={t('pagination')} className="mt-12 flex items-center justify-center gap-4">
+            {page > 1 && (
+              <Link href={`/${locale}/client/${slug}?page=${page - 1}`} className={buttonVariants({ variant: 'outline' })}>
+                {tCommon('previous')}
+              </Link>
+            )}
+            <span className="text-sm text-muted-foreground">{t('pageStatus', { page, totalPages })}</span>
+            {page < totalPages && (
+              <Link href={`/${locale}/client/${slug}?page=${page + 1}`} className={buttonVariants({ variant: 'outline' })}>
+                {tCommon('next')}
+              </Link>
+            )}
+          </nav>
+        )}
+      </section>
+    </div>
+  )
+}
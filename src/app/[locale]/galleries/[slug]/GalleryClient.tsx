@@ -3,9 +3,13 @@
 import { useState } from 'react'
 import Link from 'next/link'
 import dynamic from 'next/dynamic'
-import { useLocale } from 'next-intl'
+import { useLocale, useTranslations } from 'next-intl'
+import { Download } from 'lucide-react'
 import GalleryImage from '@/components/frontend/media/GalleryImage'
+import ProofingSelectionBar from '@/components/frontend/features/ProofingSelectionBar'
+import { useProofingSelection } from '@/lib/hooks/useProofingSelection'
 import { PayloadImage } from '@/types/payload-image'
+import { getLocalizedValue } from '@/lib/utils/localization'
 
 const Lightbox = dynamic(() => import('@/components/frontend/media/Lightbox'), {
   loading: () => <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50"><div className="animate-spin w-8 h-8 border-2 border-white border-t-transparent rounded-full"></div></div>
@@ -31,31 +35,25 @@ interface PayloadGallery {
 
 interface GalleryClientProps {
   gallery: PayloadGallery
+  // Private client galleries open images in the lightbox instead of public image pages
+  isPrivate?: boolean
+  // Lets clients favorite images, add notes and submit a selection
+  proofing?: boolean
+  // ZIP download of the gallery; omitted when nothing may be downloaded
+  downloadUrl?: string
 }
 
-// Helper function for getting localized values
-function getLocalizedValue<T>(value: { en: T; ta: T } | T | undefined, locale: 'en'): T | '' {
-  if (!value) return '' as T
-  
-  // If it's already a plain string/value, return it directly
-  if (typeof value === 'string' || typeof value !== 'object') {
-    return value as T
-  }
-  
-  // If it's a localized object, handle accordingly
-  if (typeof value === 'object' && 'en' in value && 'ta' in value) {
-    const localized = value[locale]
-    const fallback = value.en
-    return localized || fallback || '' as T
-  }
-  
-  return value as T || '' as T
-}
-
-export default function GalleryClient({ gallery }: GalleryClientProps) {
+export default function GalleryClient({ gallery, isPrivate = false, proofing = false, downloadUrl }: GalleryClientProps) {
   const locale = useLocale()
+  const t = useTranslations('galleries')
   const [lightboxOpen, setLightboxOpen] = useState(false)
   const [currentImageIndex, setCurrentImageIndex] = useState(0)
+  const [showFavoritesOnly, setShowFavoritesOnly] = useState(false)
+  const selection = useProofingSelection(gallery.id)
+
+  const images = proofing && showFavoritesOnly
+    ? (gallery.images || []).filter((image) => selection.isFavorite(image.id))
+    : gallery.images
 
   const openLightbox = (index: number) => {
     setCurrentImageIndex(index)
@@ -67,13 +65,18 @@ export default function GalleryClient({ gallery }: GalleryClientProps) {
   }
 
   const nextImage = () => {
-    if (!gallery.images) return
-    setCurrentImageIndex((prev) => (prev + 1) % gallery.images!.length)
+    if (!images?.length) return
+    setCurrentImageIndex((prev) => (prev + 1) % images.length)
   }
 
   const prevImage = () => {
-    if (!gallery.images) return
-    setCurrentImageIndex((prev) => (prev - 1 + gallery.images!.length) % gallery.images!.length)
+    if (!images?.length) return
+    setCurrentImageIndex((prev) => (prev - 1 + images.length) % images.length)
+  }
+
+  const toggleShowFavorites = () => {
+    setShowFavoritesOnly((prev) => !prev)
+    setLightboxOpen(false)
   }
 
   return (
@@ -89,25 +92,39 @@ export default function GalleryClient({ gallery }: GalleryClientProps) {
           </p>
         </div>
         
-        <button
-          onClick={() => openLightbox(0)}
-          className="group inline-flex items-center gap-3 px-8 py-4 bg-primary text-primary-foreground font-medium rounded-full hover:bg-primary/90 transition-all duration-300 shadow-lg hover:shadow-xl"
-        >
-          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
-          </svg>
-          View Slideshow
-          <svg className="w-4 h-4 transform group-hover:translate-x-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8l4 4m0 0l-4 4m4-4H3" />
-          </svg>
-        </button>
+        <div className="flex flex-wrap gap-3">
+          {downloadUrl && (
+            <a
+              href={downloadUrl}
+              download
+              title={t('downloadAllHint')}
+              className="inline-flex items-center gap-3 px-6 py-4 border border-border bg-background text-foreground font-medium rounded-full hover:bg-muted transition-all duration-300"
+            >
+              <Download className="w-5 h-5" />
+              {t('downloadAll')}
+            </a>
+          )}
+
+          <button
+            onClick={() => openLightbox(0)}
+            className="group inline-flex items-center gap-3 px-8 py-4 bg-primary text-primary-foreground font-medium rounded-full hover:bg-primary/90 transition-all duration-300 shadow-lg hover:shadow-xl"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+            </svg>
+            View Slideshow
+            <svg className="w-4 h-4 transform group-hover:translate-x-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8l4 4m0 0l-4 4m4-4H3" />
+            </svg>
+          </button>
+        </div>
       </div>
 
       {/* Apple-style Masonry Photo Grid */}
       <div className="columns-1 md:columns-2 lg:columns-3 xl:columns-4 gap-4 lg:gap-6 space-y-4 lg:space-y-6">
-        {gallery.images?.map((image, index) => {
-          const imageTitle = getLocalizedValue(image.title, locale as 'en')
-          const imageAlt = (getLocalizedValue(image.alt, locale as 'en') || image.altText || imageTitle) as string
+        {images?.map((image, index) => {
+          const imageTitle = getLocalizedValue(image.title, locale)
+          const imageAlt = (getLocalizedValue(image.alt, locale) || image.altText || imageTitle) as string
 
           // Calculate dynamic height for masonry effect
           const imageHeight = (image as any).height
@@ -121,27 +138,51 @@ export default function GalleryClient({ gallery }: GalleryClientProps) {
               key={image.id}
               image={image}
               index={index}
-              locale={locale as 'en'}
+              locale={locale}
               gallerySlug={gallery.slug}
               imageTitle={imageTitle}
               imageAlt={imageAlt}
               dynamicHeight={dynamicHeight}
               onLightboxOpen={openLightbox}
+              linkToDetail={!isPrivate}
+              {...(proofing && {
+                isFavorite: selection.isFavorite(image.id),
+                hasNote: Boolean(selection.notes[image.id]),
+                onToggleFavorite: selection.toggleFavorite,
+              })}
             />
           )
         })}
       </div>
 
+      {proofing && (
+        <ProofingSelectionBar
+          gallerySlug={gallery.slug}
+          favorites={selection.favorites}
+          notes={selection.notes}
+          submittedAt={selection.submittedAt}
+          showFavoritesOnly={showFavoritesOnly}
+          onToggleShowFavorites={toggleShowFavorites}
+          onSubmitted={selection.markSubmitted}
+        />
+      )}
+
       {/* Lightbox */}
-      {gallery.images && (
+      {images && (
         <Lightbox
-          images={gallery.images}
+          images={images}
           currentIndex={currentImageIndex}
           isOpen={lightboxOpen}
           onClose={closeLightbox}
           onNext={nextImage}
           onPrev={prevImage}
-          locale={locale as 'en'}
+          locale={locale}
+          proofing={proofing ? {
+            isFavorite: selection.isFavorite,
+            getNote: (imageId) => selection.notes[imageId] || '',
+            onToggleFavorite: selection.toggleFavorite,
+            onNoteChange: selection.setNote,
+          } : undefined}
         />
       )}
     </>
@@ -7,6 +7,7 @@ import { Maximize2 } from 'lucide-react'
 import SocialShare from '@/components/frontend/sharing/SocialShare'
 import type { PayloadImage as LightboxPayloadImage } from '@/types/payload-image'
 import type { PayloadImage } from '@/lib/api/api-client'
+import { getLocalizedValue } from '@/lib/utils/localization'
 
 const Lightbox = dynamic(() => import('@/components/frontend/media/Lightbox'), {
   loading: () => <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50"><div className="animate-spin w-8 h-8 border-2 border-white border-t-transparent rounded-full"></div></div>
@@ -21,25 +22,6 @@ interface ImageActionsProps {
   variant?: 'card' | 'floating' | 'inline'
 }
 
-// Helper function for getting localized values
-function getLocalizedValue<T>(value: { en: T; ta: T } | T | undefined, locale: 'en'): T | '' {
-  if (!value) return '' as T
-  
-  // If it's already a plain string/value, return it directly
-  if (typeof value === 'string' || typeof value !== 'object') {
-    return value as T
-  }
-  
-  // If it's a localized object, handle accordingly
-  if (typeof value === 'object' && 'en' in value && 'ta' in value) {
-    const localized = value[locale]
-    const fallback = value.en
-    return localized || fallback || '' as T
-  }
-  
-  return value as T || '' as T
-}
-
 export default function ImageActions({ 
   image, 
   galleryImages, 
@@ -58,7 +40,7 @@ export default function ImageActions({
     slug: img.slug,
     title: img.title,
     description: img.description,
-    altText: 'alt' in img ? getLocalizedValue(img.alt, locale as 'en') : '',
+    altText: 'alt' in img ? getLocalizedValue(img.alt, locale) : '',
     imageUrls: img.imageUrls,
     location: img.location as any,
     tags: img.tags,
@@ -115,8 +97,8 @@ export default function ImageActions({
                   if (navigator.share) {
                     // Use native share API if available
                     await navigator.share({
-                      title: getLocalizedValue(image.title, locale as 'en'),
-                      text: `${getLocalizedValue(image.title, locale as 'en')} from ${galleryTitle} gallery`,
+                      title: getLocalizedValue(image.title, locale),
+                      text: `${getLocalizedValue(image.title, locale)} from ${galleryTitle} gallery`,
                       url: shareUrl,
                     })
                   } else {
@@ -150,7 +132,7 @@ export default function ImageActions({
           onClose={closeLightbox}
           onNext={nextImage}
           onPrev={prevImage}
-          locale={locale as 'en'}
+          locale={locale}
           simpleMode={true}
         />
       </>
@@ -181,8 +163,8 @@ export default function ImageActions({
           <div className="flex items-center">
             <SocialShare
               url={shareUrl}
-              title={getLocalizedValue(image.title, locale as 'en')}
-              description={`${getLocalizedValue(image.title, locale as 'en')} from ${galleryTitle} gallery`}
+              title={getLocalizedValue(image.title, locale)}
+              description={`${getLocalizedValue(image.title, locale)} from ${galleryTitle} gallery`}
               hashtags={['photography', 'gallery', 'art']}
               className="flex items-center gap-2"
             />
@@ -197,7 +179,7 @@ export default function ImageActions({
           onClose={closeLightbox}
           onNext={nextImage}
           onPrev={prevImage}
-          locale={locale as 'en'}
+          locale={locale}
           simpleMode={true}
         />
       </>
@@ -225,8 +207,8 @@ export default function ImageActions({
         <h3 className="font-serif text-lg font-semibold mb-4 text-foreground">Share</h3>
         <SocialShare
           url={shareUrl}
-          title={getLocalizedValue(image.title, locale as 'en')}
-          description={`${getLocalizedValue(image.title, locale as 'en')} from ${galleryTitle} gallery`}
+          title={getLocalizedValue(image.title, locale)}
+          description={`${getLocalizedValue(image.title, locale)} from ${galleryTitle} gallery`}
           hashtags={['photography', 'gallery', 'art']}
           className=""
         />
@@ -240,7 +222,7 @@ export default function ImageActions({
         onClose={closeLightbox}
         onNext={nextImage}
         onPrev={prevImage}
-        locale={locale as 'en'}
+        locale={locale}
         simpleMode={true}
       />
     </>
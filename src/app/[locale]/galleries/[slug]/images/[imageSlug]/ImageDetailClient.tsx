@@ -1,38 +1,26 @@
 'use client'
 
+import { useEffect } from 'react'
 import { useLocale } from 'next-intl'
+import { trackUsage } from '@/components/analytics/UsageTracker'
 import OptimizedImage from '@/components/ui/base/OptimizedImage'
 import { getProgressiveImageSrc, getFallbackImageSrc } from '@/lib/utils/image-utils'
 import type { PayloadImage } from '@/lib/api/api-client'
+import { getLocalizedValue } from '@/lib/utils/localization'
 
 interface ImageDetailClientProps {
   image: PayloadImage
   defaultCopyright: string
 }
 
-// Helper function for getting localized values
-function getLocalizedValue<T>(value: { en: T; ta: T } | T | undefined, locale: 'en'): T | '' {
-  if (!value) return '' as T
-  
-  // If it's already a plain string/value, return it directly
-  if (typeof value === 'string' || typeof value !== 'object') {
-    return value as T
-  }
-  
-  // If it's a localized object, handle accordingly
-  if (typeof value === 'object' && 'en' in value && 'ta' in value) {
-    const localized = value[locale]
-    const fallback = value.en
-    return localized || fallback || '' as T
-  }
-  
-  return value as T || '' as T
-}
-
 export default function ImageDetailClient({ image, defaultCopyright }: ImageDetailClientProps) {
   const locale = useLocale()
 
-  const imageAlt = 'alt' in image ? getLocalizedValue(image.alt, locale as 'en') : ''
+  useEffect(() => {
+    trackUsage('view', 'images', image.id)
+  }, [image.id])
+
+  const imageAlt = 'alt' in image ? getLocalizedValue(image.alt, locale) : ''
 
   // Use full-size image for detail page, with fallback hierarchy
   const imageUrls = (image as any).imageUrls
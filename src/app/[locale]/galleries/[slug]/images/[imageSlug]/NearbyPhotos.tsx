@@ -0,0 +1,72 @@
+import Link from 'next/link'
+import { getTranslations } from 'next-intl/server'
+import MapImageCard from '@/components/frontend/content/MapImageCard'
+import { getLocalizedValue } from '@/lib/utils/localization'
+import { findImagesNear, isValidLatitude, isValidLongitude } from '@/lib/utils/geo'
+
+const NEARBY_RADIUS_KM = 50
+const NEARBY_LIMIT = 4
+
+interface NearbyPhotosProps {
+  imageId: string
+  latitude?: number | null
+  longitude?: number | null
+  locale: string
+}
+
+/**
+ * Other public photos taken within 50 km of an image; renders nothing without coordinates or neighbours
+ */
+export default async function NearbyPhotos({ imageId, latitude, longitude, locale }: NearbyPhotosProps) {
+  if (latitude == null || longitude == null || !isValidLatitude(latitude) || !isValidLongitude(longitude)) {
+    return null
+  }
+
+  const [t, nearby] = await Promise.all([
+    getTranslations('map'),
+    findImagesNear({ latitude, longitude }, {
+      locale,
+      radiusKm: NEARBY_RADIUS_KM,
+      limit: NEARBY_LIMIT,
+      excludeId: imageId,
+    }).catch((error) => {
+      console.error('❌ Failed to load nearby photos:', error)
+      return null
+    }),
+  ])
+
+  // Images without a listed gallery have no page to link to
+  const images = nearby?.images.filter((image) => image.gallerySlug) || []
+  if (!images.length) {
+    return null
+  }
+
+  return (
+    <div className="bg-muted/30 rounded-2xl p-6 border border-border/10">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h3 className="font-serif text-base md:text-lg font-semibold text-foreground">{t('nearbyTitle')}</h3>
+        <Link
+          href={`/${locale}/map?lat=${latitude}&lng=${longitude}`}
+          className="text-sm text-primary hover:underline"
+        >
+          {t('viewOnMap')}
+        </Link>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        {images.map((image) => (
+          <MapImageCard
+            key={image.id}
+            href={`/${locale}/galleries/${image.gallerySlug}/images/${image.slug}`}
+            title={getLocalizedValue(image.title, locale)}
+            thumbnail={image.thumbnail}
+            detail={
+              (image.distanceKm ?? 0) < 1
+                ? t('lessThanOneKm')
+                : t('distanceKm', { distance: Math.round(image.distanceKm!) })
+            }
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -9,11 +9,14 @@ import OptimizedImage from '@/components/ui/base/OptimizedImage'
 import { Button } from '@/components/ui/base/button'
 import ImageDetailClient from './ImageDetailClient'
 import ImageActions from './ImageActions'
+import NearbyPhotos from './NearbyPhotos'
 import type { Metadata } from 'next'
 import { DERIVED_CONFIG, SITE_CONFIG } from '@/config/site.config'
 import StructuredData from '@/components/seo/StructuredData'
 import CommentForm from '@/components/frontend/comments/CommentForm'
 import CommentsList from '@/components/frontend/comments/CommentsList'
+import { getLanguageAlternates } from '@/lib/utils/localization'
+import { getOgCardUrl } from '@/lib/utils/og-card'
 
 interface ImageDetailPageProps {
   params: Promise<{ locale: string; slug: string; imageSlug: string }>
@@ -26,7 +29,7 @@ export async function generateMetadata({ params }: ImageDetailPageProps): Promis
   const [image, gallery, personalData] = await Promise.all([
     getImageBySlug(imageSlug),
     getGalleryBySlug(slug),
-    getSEOPersonalData(locale as 'en')
+    getSEOPersonalData(locale)
   ])
   
   if (!image || !gallery) {
@@ -37,18 +40,17 @@ export async function generateMetadata({ params }: ImageDetailPageProps): Promis
   }
 
   // Extract base content
-  const imageTitle = getLocalizedValue(image.title, locale as 'en')
-  const imageDescription = getLocalizedValue(image.description, locale as 'en')
-  const imageCaption = getLocalizedValue(image.caption, locale as 'en')
-  const galleryTitle = getLocalizedValue((gallery as PayloadGallery).title, locale as 'en')
-  const locationName = image.location ? getLocalizedValue(image.location.name, locale as 'en') : null
-  const imageTags = image.tags ? getLocalizedValue(image.tags, locale as 'en') : []
-  const imageUrl = ('imageUrls' in image ? image.imageUrls?.full : null) || ''
+  const imageTitle = getLocalizedValue(image.title, locale)
+  const imageDescription = getLocalizedValue(image.description, locale)
+  const imageCaption = getLocalizedValue(image.caption, locale)
+  const galleryTitle = getLocalizedValue((gallery as PayloadGallery).title, locale)
+  const locationName = image.location ? getLocalizedValue(image.location.name, locale) : null
+  const imageTags = image.tags ? getLocalizedValue(image.tags, locale) : []
 
   // Extract SEO fields (new!)
   const seo = image.seo || {}
-  const customTitle = seo.metaTitle ? getLocalizedValue(seo.metaTitle as any, locale as 'en') : null
-  const customDescription = seo.metaDescription ? getLocalizedValue(seo.metaDescription as any, locale as 'en') : null
+  const customTitle = seo.metaTitle ? getLocalizedValue(seo.metaTitle as any, locale) : null
+  const customDescription = seo.metaDescription ? getLocalizedValue(seo.metaDescription as any, locale) : null
   const seoKeywords = seo.keywords || []
   const customOgImage = seo.ogImage || null
   const canonicalUrl = seo.canonicalUrl || `${SITE_CONFIG.url.base}/${locale}/galleries/${slug}/images/${imageSlug}`
@@ -58,10 +60,10 @@ export async function generateMetadata({ params }: ImageDetailPageProps): Promis
   const technicalDetails = []
   if (image.technical) {
     if (image.technical.cameraBody && typeof image.technical.cameraBody === 'object' && 'name' in image.technical.cameraBody) {
-      technicalDetails.push(getLocalizedValue(image.technical.cameraBody.name, locale as 'en'))
+      technicalDetails.push(getLocalizedValue(image.technical.cameraBody.name, locale))
     }
     if (image.technical.lensGear && typeof image.technical.lensGear === 'object' && 'name' in image.technical.lensGear) {
-      technicalDetails.push(getLocalizedValue(image.technical.lensGear.name, locale as 'en'))
+      technicalDetails.push(getLocalizedValue(image.technical.lensGear.name, locale))
     }
     if (image.technical.aperture) technicalDetails.push(image.technical.aperture)
     if (image.technical.shutterSpeed) technicalDetails.push(image.technical.shutterSpeed)
@@ -74,7 +76,8 @@ export async function generateMetadata({ params }: ImageDetailPageProps): Promis
   const finalDescription = customDescription || imageCaption || imageDescription || autoDescription
   const finalKeywords = seoKeywords.length > 0 ? seoKeywords.join(', ') : 
     (imageTags.length > 0 ? imageTags.join(', ') : `${SITE_CONFIG.site.type}, ${galleryTitle.toLowerCase()}, ${imageTitle.toLowerCase()}`)
-  const finalOgImage = customOgImage || imageUrl
+  // Generated card when no custom OG image is set
+  const finalOgImage = customOgImage || getOgCardUrl('image', image.id, locale, image.updatedAt)
 
   return {
     title: DERIVED_CONFIG.getPageTitle(finalTitle),
@@ -92,7 +95,7 @@ export async function generateMetadata({ params }: ImageDetailPageProps): Promis
         {
           url: finalOgImage,
           width: 1200,
-          height: 800,
+          height: customOgImage ? 800 : 630,
           alt: finalTitle,
         }
       ] : [],
@@ -106,10 +109,7 @@ export async function generateMetadata({ params }: ImageDetailPageProps): Promis
     },
     alternates: {
       canonical: canonicalUrl,
-      languages: {
-        'en': `${SITE_CONFIG.url.base}/en/galleries/${slug}/images/${imageSlug}`,
-        'ta': `${SITE_CONFIG.url.base}/ta/galleries/${slug}/images/${imageSlug}`,
-      }
+      languages: getLanguageAlternates(`/galleries/${slug}/images/${imageSlug}`)
     },
     robots: {
       index: shouldIndex,
@@ -140,10 +140,10 @@ export default async function ImageDetailPage({ params }: ImageDetailPageProps)
   // Fetch image, gallery and default copyright from CMS
   const [image, defaultCopyright] = await Promise.all([
     getImageBySlug(imageSlug),
-    getDefaultCopyright(locale as 'en')
+    getDefaultCopyright(locale)
   ])
   
-  if (!image || !image.gallery) {
+  if (!image || !image.galleries?.length) {
     notFound()
   }
   
@@ -183,10 +183,15 @@ export default async function ImageDetailPage({ params }: ImageDetailPageProps)
   }
 
   // Get localized values
-  const imageTitle = getLocalizedValue(image.title, locale as 'en')
-  const imageDescription = getLocalizedValue(image.description, locale as 'en')
-  const imageAlt = 'alt' in image ? getLocalizedValue(image.alt, locale as 'en') : (image.altText || '')
-  const galleryTitle = getLocalizedValue((gallery as PayloadGallery).title, locale as 'en')
+  const imageTitle = getLocalizedValue(image.title, locale)
+  const imageDescription = getLocalizedValue(image.description, locale)
+  const imageAlt = 'alt' in image ? getLocalizedValue(image.alt, locale) : (image.altText || '')
+  const galleryTitle = getLocalizedValue((gallery as PayloadGallery).title, locale)
+
+  // Public coordinates only: rounded for approximate locations, empty for hidden ones
+  const coordinates = image.location && 'mapCoordinates' in image.location
+    ? image.location.mapCoordinates
+    : null
 
   // Find current image index in gallery for navigation
   const galleryImages = (gallery as PayloadGallery).images
@@ -198,7 +203,7 @@ export default async function ImageDetailPage({ params }: ImageDetailPageProps)
     <>
       {/* JSON-LD Structured Data */}
       <StructuredData 
-        locale={locale as 'en'}
+        locale={locale}
         pageType="image"
         pageData={image}
         customData={{
@@ -286,7 +291,7 @@ export default async function ImageDetailPage({ params }: ImageDetailPageProps)
                       </div>
                       <div>
                         <div className="text-sm text-muted-foreground">Captured</div>
-                        <div className="font-medium text-foreground">{formatDate(image.captureDate, locale as 'en')}</div>
+                        <div className="font-medium text-foreground">{image.captureDate && formatDate(image.captureDate, locale)}</div>
                       </div>
                     </div>
                     
@@ -302,13 +307,13 @@ export default async function ImageDetailPage({ params }: ImageDetailPageProps)
                         <div>
                           <div className="text-sm text-muted-foreground">Location</div>
                           <div className="font-medium text-foreground">
-                            {image.location?.name && getLocalizedValue(image.location.name, locale as 'en')}
+                            {image.location?.name && getLocalizedValue(image.location.name, locale)}
                           </div>
                           <div className="text-sm text-muted-foreground">
                             {[
-                              image.location?.city && getLocalizedValue(image.location.city, locale as 'en'),
-                              image.location?.region && getLocalizedValue(image.location.region, locale as 'en'), 
-                              image.location?.country && getLocalizedValue(image.location.country, locale as 'en')
+                              image.location?.city && getLocalizedValue(image.location.city, locale),
+                              image.location?.region && getLocalizedValue(image.location.region, locale), 
+                              image.location?.country && getLocalizedValue(image.location.country, locale)
                             ].filter(Boolean).join(', ')}
                           </div>
                         </div>
@@ -335,11 +340,11 @@ export default async function ImageDetailPage({ params }: ImageDetailPageProps)
                             <div className="text-sm text-muted-foreground">Equipment</div>
                             <div className="font-medium text-foreground">
                               {(image.technical.cameraBody && typeof image.technical.cameraBody === 'object' && 'name' in image.technical.cameraBody && image.technical.cameraBody.name) && (image.technical.lensGear && typeof image.technical.lensGear === 'object' && 'name' in image.technical.lensGear && image.technical.lensGear.name) ? (
-                                <>{getLocalizedValue(image.technical.cameraBody.name, locale as 'en')} + {getLocalizedValue(image.technical.lensGear.name, locale as 'en')}</>
+                                <>{getLocalizedValue(image.technical.cameraBody.name, locale)} + {getLocalizedValue(image.technical.lensGear.name, locale)}</>
                               ) : (image.technical.cameraBody && typeof image.technical.cameraBody === 'object' && 'name' in image.technical.cameraBody && image.technical.cameraBody.name) ? (
-                                <>{getLocalizedValue(image.technical.cameraBody.name, locale as 'en')}</>
+                                <>{getLocalizedValue(image.technical.cameraBody.name, locale)}</>
                               ) : (image.technical.lensGear && typeof image.technical.lensGear === 'object' && 'name' in image.technical.lensGear && image.technical.lensGear.name) ? (
-                                <>{getLocalizedValue(image.technical.lensGear.name, locale as 'en')}</>
+                                <>{getLocalizedValue(image.technical.lensGear.name, locale)}</>
                               ) : null}
                             </div>
                           </div>
@@ -371,6 +376,14 @@ export default async function ImageDetailPage({ params }: ImageDetailPageProps)
                     </div>
                   </div>
                 )}
+
+                {/* Nearby Photos */}
+                <NearbyPhotos
+                  imageId={image.id}
+                  latitude={coordinates?.latitude}
+                  longitude={coordinates?.longitude}
+                  locale={locale}
+                />
             </div>
 
 
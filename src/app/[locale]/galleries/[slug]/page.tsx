@@ -1,7 +1,8 @@
+import { Fragment } from 'react'
 import Link from 'next/link'
 import { notFound } from 'next/navigation'
 import { getTranslations } from 'next-intl/server'
-import { getGalleries, getGalleryBySlug, getLocalizedValue } from '@/lib/api/api-client'
+import { getGalleries, getGalleryBySlug, getLocalizedValue, getSeriesForGallery } from '@/lib/api/api-client'
 import { getSEOPersonalData } from '@/lib/utils/seo-helpers'
 import type { PayloadGallery } from '@/lib/api/api-client'
 import GalleryClient from './GalleryClient'
@@ -9,6 +10,11 @@ import SocialShare from '@/components/frontend/sharing/SocialShare'
 import type { Metadata } from 'next'
 import { DERIVED_CONFIG, SITE_CONFIG } from '@/config/site.config'
 import StructuredData from '@/components/seo/StructuredData'
+import { getLanguageAlternates } from '@/lib/utils/localization'
+import { getOgCardUrl } from '@/lib/utils/og-card'
+import { isDownloadableLicense, resolveImageLicense } from '@/lib/utils/licenses'
+import { getGalleryDownloadUrl } from '@/lib/utils/gallery-download'
+import OptimizedImage from '@/components/ui/base/OptimizedImage'
 
 interface GalleryPageProps {
   params: Promise<{ locale: string; slug: string }>
@@ -21,7 +27,7 @@ export async function generateMetadata({ params }: GalleryPageProps): Promise<Me
   // Fetch gallery and personal data for SEO
   const [gallery, personalData] = await Promise.all([
     getGalleryBySlug(slug),
-    getSEOPersonalData(locale as 'en')
+    getSEOPersonalData(locale)
   ])
   
   if (!gallery) {
@@ -32,17 +38,16 @@ export async function generateMetadata({ params }: GalleryPageProps): Promise<Me
   }
 
   // Extract base content
-  const title = getLocalizedValue(gallery.title, locale as 'en')
-  const description = getLocalizedValue(gallery.description, locale as 'en')
-  const excerpt = getLocalizedValue(gallery.excerpt, locale as 'en')
-  const tags = getLocalizedValue(gallery.tags, locale as 'en') || []
+  const title = getLocalizedValue(gallery.title, locale)
+  const description = getLocalizedValue(gallery.description, locale)
+  const excerpt = getLocalizedValue(gallery.excerpt, locale)
+  const tags = getLocalizedValue(gallery.tags, locale) || []
   const imageCount = ('imageCount' in gallery ? gallery.imageCount : null) || ('images' in gallery ? gallery.images?.length : 0) || 0
-  const coverImageUrl = gallery.coverImage && typeof gallery.coverImage === 'string' ? gallery.coverImage : null
 
   // Extract SEO fields (new!)
   const seo = gallery.seo || {}
-  const customTitle = seo.metaTitle ? getLocalizedValue(seo.metaTitle, locale as 'en') : null
-  const customDescription = seo.metaDescription ? getLocalizedValue(seo.metaDescription, locale as 'en') : null
+  const customTitle = seo.metaTitle ? getLocalizedValue(seo.metaTitle, locale) : null
+  const customDescription = seo.metaDescription ? getLocalizedValue(seo.metaDescription, locale) : null
   const seoKeywords = seo.keywords || []
   const customOgImage = seo.ogImage || null
   const canonicalUrl = seo.canonicalUrl || `${SITE_CONFIG.url.base}/${locale}/galleries/${slug}`
@@ -70,7 +75,8 @@ export async function generateMetadata({ params }: GalleryPageProps): Promise<Me
   // Priority: SEO keywords from CMS → gallery tags → simple fallback
   const finalKeywords = seoKeywords.length > 0 ? seoKeywords.join(', ') : 
     (tags && tags.length > 0 ? tags.join(', ') : generateSimpleKeywords())
-  const finalOgImage = customOgImage || coverImageUrl
+  // Generated card (with the cover image) when no custom OG image is set
+  const finalOgImage = customOgImage || getOgCardUrl('gallery', gallery.id, locale, gallery.updatedAt)
 
   return {
     title: DERIVED_CONFIG.getPageTitle(finalTitle),
@@ -102,10 +108,7 @@ export async function generateMetadata({ params }: GalleryPageProps): Promise<Me
     },
     alternates: {
       canonical: canonicalUrl,
-      languages: {
-        'en': `${SITE_CONFIG.url.base}/en/galleries/${slug}`,
-        'ta': `${SITE_CONFIG.url.base}/ta/galleries/${slug}`,
-      }
+      languages: getLanguageAlternates(`/galleries/${slug}`)
     },
     robots: {
       index: shouldIndex,
@@ -128,12 +131,23 @@ export default async function GalleryPage({ params }: GalleryPageProps) {
   const tNav = await getTranslations('navigation')
   
   // Fetch gallery from PayloadCMS
-  const gallery = await getGalleryBySlug(slug)
+  const [gallery, personalData] = await Promise.all([
+    getGalleryBySlug(slug),
+    getSEOPersonalData(locale)
+  ])
 
   if (!gallery) {
     notFound()
   }
 
+  // Galleries that belong to a series show it in the breadcrumb trail
+  const parentSeries = await getSeriesForGallery(gallery.id).catch(() => null)
+
+  // Offer the ZIP download only when at least one image is licensed for sharing
+  const canDownload = gallery.images?.some((image: any) =>
+    isDownloadableLicense(resolveImageLicense(image, personalData.legal.defaultLicense))
+  )
+
   // Sanitize gallery data to remove buffers and non-serializable data for client component
   const sanitizedGallery = {
     id: gallery.id,
@@ -152,7 +166,8 @@ export default async function GalleryPage({ params }: GalleryPageProps) {
         id: image.id || image.filename || 'unknown',
         slug: image.slug || '',
         title: image.title || '',
-        description: image.description || '',
+        // Caption override set for this gallery, if any
+        description: image.galleryCaption || image.description || '',
         alt: image.alt || image.altText || '',
         imageUrls: image.imageUrls || {
           full: image.url || '',
@@ -171,23 +186,32 @@ export default async function GalleryPage({ params }: GalleryPageProps) {
     }).filter(Boolean) || []
   }
   
-  const title = getLocalizedValue(gallery.title, locale as 'en')
-  const description = getLocalizedValue(gallery.description, locale as 'en')
-  const tags = getLocalizedValue(gallery.tags, locale as 'en')
+  const title = getLocalizedValue(gallery.title, locale)
+  const description = getLocalizedValue(gallery.description, locale)
+  const tags = getLocalizedValue(gallery.tags, locale)
+  const galleryUrl = `${SITE_CONFIG.url.base}/${locale}/galleries/${slug}`
+  const breadcrumbs = [
+    { name: tNav('galleries'), href: `/${locale}/galleries` },
+    ...(parentSeries ? [{ name: getLocalizedValue(parentSeries.title, locale), href: `/${locale}/series/${parentSeries.slug}` }] : []),
+  ]
 
   return (
     <>
       {/* JSON-LD Structured Data */}
       <StructuredData 
-        locale={locale as 'en'}
+        locale={locale}
         pageType="gallery"
         pageData={gallery}
         customData={{
           title,
           description,
-          url: `${SITE_CONFIG.url.base}/${locale}/galleries/${slug}`,
+          url: galleryUrl,
           image: gallery.coverImage && typeof gallery.coverImage === 'string' ? gallery.coverImage : undefined
         }}
+        breadcrumbs={[
+          ...breadcrumbs.map((crumb) => ({ name: crumb.name, url: `${SITE_CONFIG.url.base}${crumb.href}` })),
+          { name: title, url: galleryUrl },
+        ]}
       />
       
       <div className="min-h-screen">
@@ -196,7 +220,7 @@ export default async function GalleryPage({ params }: GalleryPageProps) {
           {/* Cover Image Background */}
           {gallery.coverImage ? (
             <div className="absolute inset-0">
-              <img
+              <OptimizedImage
                 src={typeof gallery.coverImage === 'string'
                   ? gallery.coverImage
                   : typeof gallery.coverImage === 'object' && 'imageUrls' in gallery.coverImage
@@ -204,6 +228,7 @@ export default async function GalleryPage({ params }: GalleryPageProps) {
                     : gallery.coverImage
                 }
                 alt={title}
+                loading="eager"
                 className="w-full h-full object-cover object-center"
               />
               <div className="absolute inset-0 bg-gradient-to-b from-black/20 via-black/40 to-black/60"></div>
@@ -217,15 +242,19 @@ export default async function GalleryPage({ params }: GalleryPageProps) {
               {/* Breadcrumb */}
               <nav className="mb-12">
                 <ol className="flex items-center space-x-2 text-sm">
-                  <li>
-                    <Link
-                      href={`/${locale}/galleries`}
-                      className={`transition-colors ${gallery.coverImage ? 'text-white/70 hover:text-white' : 'text-muted-foreground hover:text-foreground'}`}
-                    >
-                      {tNav('galleries')}
-                    </Link>
-                  </li>
-                  <li className={gallery.coverImage ? 'text-white/50' : 'text-muted-foreground'}>/</li>
+                  {breadcrumbs.map((crumb) => (
+                    <Fragment key={crumb.href}>
+                      <li>
+                        <Link
+                          href={crumb.href}
+                          className={`transition-colors ${gallery.coverImage ? 'text-white/70 hover:text-white' : 'text-muted-foreground hover:text-foreground'}`}
+                        >
+                          {crumb.name}
+                        </Link>
+                      </li>
+                      <li className={gallery.coverImage ? 'text-white/50' : 'text-muted-foreground'}>/</li>
+                    </Fragment>
+                  ))}
                   <li className={`font-medium ${gallery.coverImage ? 'text-white' : 'text-foreground'}`}>{title}</li>
                 </ol>
               </nav>
@@ -248,7 +277,7 @@ export default async function GalleryPage({ params }: GalleryPageProps) {
                   }`}>
                     <div className={`w-2 h-2 rounded-full ${gallery.coverImage ? 'bg-white/60' : 'bg-primary/60'}`}></div>
                     <span className="font-medium">
-                      {('imageCount' in gallery ? gallery.imageCount : null) || ('images' in gallery ? gallery.images?.length : 0) || 0} {locale === 'ta' ? 'படங்கள்' : 'Images'}
+                      {('imageCount' in gallery ? gallery.imageCount : null) || ('images' in gallery ? gallery.images?.length : 0) || 0} {tGalleries('imagesLabel')}
                     </span>
                   </div>
                 </div>
@@ -303,7 +332,10 @@ export default async function GalleryPage({ params }: GalleryPageProps) {
       <section className="relative">
         <div className="px-6 lg:px-12 xl:px-16 max-w-[1800px] mx-auto py-12 lg:py-16">
           {('images' in gallery && gallery.images && gallery.images.length > 0) ? (
-            <GalleryClient gallery={sanitizedGallery} />
+            <GalleryClient
+              gallery={sanitizedGallery}
+              downloadUrl={canDownload ? getGalleryDownloadUrl(gallery.slug, 'large', locale) : undefined}
+            />
           ) : (
             <div className="text-center py-24">
               <div className="w-24 h-24 mx-auto mb-6 opacity-20 text-muted-foreground">
@@ -313,7 +345,7 @@ export default async function GalleryPage({ params }: GalleryPageProps) {
               </div>
               <h3 className="font-serif text-2xl font-bold text-foreground mb-4">Gallery Coming Soon</h3>
               <p className="text-xl text-muted-foreground mb-8">
-                {locale === 'ta' ? 'இந்த கேலரியில் இன்னும் படங்கள் இல்லை' : 'No images in this gallery yet'}
+                {tGalleries('noImages')}
               </p>
               <Link
                 href={`/${locale}/galleries`}
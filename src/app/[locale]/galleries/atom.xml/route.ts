@@ -0,0 +1,9 @@
+/**
+ * Atom 1.0 feed of new work: recently published galleries and images
+ */
+
+import { createFeedRoute, getNewWorkFeed } from '@/lib/utils/feeds'
+
+export const revalidate = 3600
+
+export const GET = createFeedRoute(getNewWorkFeed, 'atom')
@@ -2,6 +2,7 @@ import { getTranslations } from 'next-intl/server'
 import type { Metadata } from 'next'
 import { DERIVED_CONFIG, SITE_CONFIG } from '@/config/site.config'
 import { getSiteMetadata } from '@/lib/api/api-client'
+import { getLanguageAlternates } from '@/lib/utils/localization'
 
 interface ImageRightsPageProps {
   params: Promise<{ locale: string }>
@@ -16,10 +17,7 @@ export async function generateMetadata({ params }: ImageRightsPageProps): Promis
     robots: { index: true, follow: true },
     alternates: {
       canonical: `${SITE_CONFIG.url.base}/${locale}/image-rights`,
-      languages: {
-        'en': `${SITE_CONFIG.url.base}/en/image-rights`,
-        'ta': `${SITE_CONFIG.url.base}/ta/image-rights`,
-      }
+      languages: getLanguageAlternates('/image-rights')
     }
   }
 }
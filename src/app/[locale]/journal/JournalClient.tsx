@@ -10,6 +10,7 @@ import { Card, CardContent, CardHeader } from '@/components/ui/layout/card'
 import { cn } from '@/lib/utils'
 import { getCardImageSrc } from '@/lib/utils/image-utils'
 import type { PayloadImage } from '@/lib/api/api-client'
+import OptimizedImage from '@/components/ui/base/OptimizedImage'
 
 interface BlogPost {
   id: string
@@ -113,7 +114,7 @@ export default function JournalClient({ blogPosts, categories }: JournalClientPr
                   <div className="aspect-[16/10] bg-muted relative overflow-hidden">
                     {post.coverImage ? (
                       <>
-                        <img
+                        <OptimizedImage
                           src={typeof post.coverImage === 'string'
                             ? post.coverImage
                             : getCardImageSrc(post.coverImage as PayloadImage)
@@ -192,7 +193,7 @@ export default function JournalClient({ blogPosts, categories }: JournalClientPr
                   <div className="aspect-[16/10] bg-muted relative overflow-hidden">
                     {post.coverImage ? (
                       <>
-                        <img
+                        <OptimizedImage
                           src={typeof post.coverImage === 'string'
                             ? post.coverImage
                             : getCardImageSrc(post.coverImage as PayloadImage)
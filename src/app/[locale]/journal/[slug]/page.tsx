@@ -9,9 +9,12 @@ import OptimizedImage from '@/components/ui/base/OptimizedImage'
 import RichTextRenderer from '@/components/ui/base/RichTextRenderer'
 import { calculateReadingTime } from '@/lib/utils/reading-time'
 import ReadingProgress from './ReadingProgress'
+import UsageTracker from '@/components/analytics/UsageTracker'
 import SocialShare from '@/components/frontend/sharing/SocialShare'
 import type { Metadata } from 'next'
 import { DERIVED_CONFIG, SITE_CONFIG } from '@/config/site.config'
+import { getLanguageAlternates } from '@/lib/utils/localization'
+import { getOgCardUrl } from '@/lib/utils/og-card'
 interface BlogPostPageProps {
   params: Promise<{ locale: string; slug: string }>
 }
@@ -22,7 +25,7 @@ export async function generateMetadata({ params }: BlogPostPageProps): Promise<M
   
   const [post, personalData] = await Promise.all([
     getBlogPostBySlug(slug),
-    getSEOPersonalData(locale as 'en')
+    getSEOPersonalData(locale)
   ])
   
   if (!post) {
@@ -33,17 +36,15 @@ export async function generateMetadata({ params }: BlogPostPageProps): Promise<M
   }
 
   // Extract base content
-  const title = getLocalizedValue(post.title, locale as 'en')
-  const subtitle = getLocalizedValue(post.subtitle, locale as 'en')
-  const excerpt = getLocalizedValue(post.excerpt, locale as 'en')
-  const tags = getLocalizedValue(post.tags, locale as 'en') || []
-  const featuredImageUrl = (post.featuredImage && typeof post.featuredImage === 'object' && 'imageUrls' in post.featuredImage) ? 
-    post.featuredImage.imageUrls?.medium || post.featuredImage.imageUrls?.full : undefined
+  const title = getLocalizedValue(post.title, locale)
+  const subtitle = getLocalizedValue(post.subtitle, locale)
+  const excerpt = getLocalizedValue(post.excerpt, locale)
+  const tags = getLocalizedValue(post.tags, locale) || []
 
   // Extract SEO fields (new!)
   const seo = post.seo || {}
-  const customTitle = seo.metaTitle ? getLocalizedValue(seo.metaTitle as any, locale as 'en') : null
-  const customDescription = seo.metaDescription ? getLocalizedValue(seo.metaDescription as any, locale as 'en') : null
+  const customTitle = seo.metaTitle ? getLocalizedValue(seo.metaTitle as any, locale) : null
+  const customDescription = seo.metaDescription ? getLocalizedValue(seo.metaDescription as any, locale) : null
   const seoKeywords = seo.keywords || []
   const customOgImage = seo.ogImage || null
   const canonicalUrl = seo.canonicalUrl || `${SITE_CONFIG.url.base}/${locale}/journal/${slug}`
@@ -60,7 +61,8 @@ export async function generateMetadata({ params }: BlogPostPageProps): Promise<M
   const finalDescription = customDescription || excerpt || `${title} - A photography blog post by ${personalData.name}`
   const finalKeywords = seoKeywords.length > 0 ? seoKeywords.join(', ') : 
     (tags.length > 0 ? tags.join(', ') : `${SITE_CONFIG.site.type} blog, photography, travel, ${personalData.title.toLowerCase()}`)
-  const finalOgImage = customOgImage || featuredImageUrl
+  // Generated card (with the featured image) when no custom OG image is set
+  const finalOgImage = customOgImage || getOgCardUrl('journal', post.id, locale, post.updatedAt)
 
   return {
     title: DERIVED_CONFIG.getPageTitle(finalTitle),
@@ -74,7 +76,7 @@ export async function generateMetadata({ params }: BlogPostPageProps): Promise<M
       description: finalDescription,
       type: 'article',
       publishedTime: (post as any).createdAt,
-      modifiedTime: (post as any).updatedAt,
+      modifiedTime: post.updatedAt,
       authors: [(post as any).author || personalData.name],
       tags: tags.length > 0 ? tags : undefined,
       images: finalOgImage ? [
@@ -96,10 +98,7 @@ export async function generateMetadata({ params }: BlogPostPageProps): Promise<M
     },
     alternates: {
       canonical: canonicalUrl,
-      languages: {
-        'en': `${SITE_CONFIG.url.base}/en/journal/${slug}`,
-        'ta': `${SITE_CONFIG.url.base}/ta/journal/${slug}`,
-      }
+      languages: getLanguageAlternates(`/journal/${slug}`)
     },
     robots: {
       index: shouldIndex,
@@ -138,12 +137,12 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
   const siteMetadata = await getSiteMetadata(locale)
 
   // Get localized values
-  const title = getLocalizedValue(post.title, locale as 'en')
-  const subtitle = getLocalizedValue(post.subtitle, locale as 'en')
-  const tripDates = getLocalizedValue(post.tripDates, locale as 'en')
-  const excerpt = getLocalizedValue(post.excerpt, locale as 'en')
-  const contentBlocks = getLocalizedValue(post.contentBlocks, locale as 'en') || []
-  const tags = getLocalizedValue(post.tags, locale as 'en') || []
+  const title = getLocalizedValue(post.title, locale)
+  const subtitle = getLocalizedValue(post.subtitle, locale)
+  const tripDates = getLocalizedValue(post.tripDates, locale)
+  const excerpt = getLocalizedValue(post.excerpt, locale)
+  const contentBlocks = getLocalizedValue(post.contentBlocks, locale) || []
+  const tags = getLocalizedValue(post.tags, locale) || []
   const readTime = calculateReadingTime(contentBlocks)
 
 
@@ -151,7 +150,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
   const allPosts = await getBlogPosts(10)
   const relatedPosts = allPosts
     .filter(p => p.id !== post.id && 
-      getLocalizedValue(p.tags, locale as 'en')?.some(tag => tags.includes(tag))
+      getLocalizedValue(p.tags, locale)?.some(tag => tags.includes(tag))
     )
     .slice(0, 3)
 
@@ -177,7 +176,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
       "name": settings?.site?.name?.[locale] || siteMetadata?.personal?.name?.[locale] || "Photography Portfolio"
     },
     "datePublished": (post as any).createdAt,
-    "dateModified": (post as any).updatedAt,
+    "dateModified": post.updatedAt,
     "mainEntityOfPage": {
       "@type": "WebPage",
       "@id": `${settings?.site?.url || process.env.NEXT_PUBLIC_SERVER_URL || 'https://yoursite.com'}/${locale}/journal/${slug}`
@@ -195,6 +194,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
         dangerouslySetInnerHTML={{ __html: JSON.stringify(structuredData) }}
       />
       <ReadingProgress readTime={readTime} />
+      <UsageTracker collection="blog-posts" id={post.id} />
       
       <div className="min-h-screen">
         {/* Immersive Article Hero */}
@@ -204,7 +204,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
             <div className="absolute inset-0">
               <OptimizedImage
                 {...getResponsiveImageProps(post.featuredImage as PayloadImage, 'detail-main')}
-                alt={getLocalizedValue((post.featuredImage as PayloadImage).alt, locale as 'en')}
+                alt={getLocalizedValue((post.featuredImage as PayloadImage).alt, locale)}
                 className="w-full h-full object-cover object-top"
               />
               <div className="absolute inset-0 bg-gradient-to-b from-black/20 via-black/40 to-black/60"></div>
@@ -253,7 +253,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                     )}
                     {((post as any)._status === 'published' && (post as any).createdAt) && (
                       <>
-                        <span>{formatDate((post as any).createdAt, locale as 'en')}</span>
+                        <span>{formatDate((post as any).createdAt, locale)}</span>
                         <span>•</span>
                       </>
                     )}
@@ -318,11 +318,11 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                   }`}>
                     {block.title && (
                       <h2 className="font-serif text-2xl md:text-3xl font-bold text-foreground mb-6">
-                        {getLocalizedValue(block.title, locale as 'en')}
+                        {getLocalizedValue(block.title, locale)}
                       </h2>
                     )}
                     <div className="text-foreground leading-relaxed">
-                      <RichTextRenderer content={getLocalizedValue(block.content, locale as 'en')} />
+                      <RichTextRenderer content={getLocalizedValue(block.content, locale)} />
                     </div>
                   </div>
                 )}
@@ -332,7 +332,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                   <div className="space-y-6">
                     {block.title && (
                       <h2 className="font-serif text-2xl md:text-3xl font-bold text-foreground text-center">
-                        {getLocalizedValue(block.title, locale as 'en')}
+                        {getLocalizedValue(block.title, locale)}
                       </h2>
                     )}
                     <div className={`grid gap-4 ${
@@ -351,7 +351,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                         } ${block.layout === 'full-bleed' ? '-mx-4 md:-mx-8' : ''} overflow-hidden rounded-lg`}>
                           <OptimizedImage
                             {...getSafeImageProps(image, 'detail-main')}
-                            alt={getLocalizedValue(image.alt, locale as 'en') || getLocalizedValue(image.title, locale as 'en')}
+                            alt={getLocalizedValue(image.alt, locale) || getLocalizedValue(image.title, locale)}
                             className="w-full h-full object-cover"
                           />
                         </div>
@@ -359,7 +359,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                     </div>
                     {block.caption && (
                       <p className="text-sm text-muted-foreground text-center italic mt-4">
-                        {getLocalizedValue(block.caption, locale as 'en')}
+                        {getLocalizedValue(block.caption, locale)}
                       </p>
                     )}
                   </div>
@@ -375,11 +375,11 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                     }`}>
                       {block.title && (
                         <h2 className="font-serif text-2xl md:text-3xl font-bold text-foreground">
-                          {getLocalizedValue(block.title, locale as 'en')}
+                          {getLocalizedValue(block.title, locale)}
                         </h2>
                       )}
                       <div className="text-foreground leading-relaxed">
-                        <RichTextRenderer content={getLocalizedValue(block.content, locale as 'en')} />
+                        <RichTextRenderer content={getLocalizedValue(block.content, locale)} />
                       </div>
                     </div>
                     {block.image && (
@@ -389,7 +389,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                         <div className="aspect-auto overflow-hidden rounded-lg">
                           <OptimizedImage
                             {...getSafeImageProps(block.image, 'detail-main')}
-                            alt={getLocalizedValue(block.image.alt, locale as 'en') || block.title}
+                            alt={getLocalizedValue(block.image.alt, locale) || block.title}
                             className="w-full h-auto"
                           />
                         </div>
@@ -409,11 +409,11 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                       block.style === 'minimal' ? 'text-lg' :
                       'text-xl md:text-2xl'
                     } text-foreground italic leading-relaxed max-w-5xl mx-auto`}>
-                      "{getLocalizedValue(block.quote, locale as 'en')}"
+                      "{getLocalizedValue(block.quote, locale)}"
                     </blockquote>
                     {block.author && (
                       <cite className="text-muted-foreground not-italic">
-                        — {getLocalizedValue(block.author, locale as 'en')}
+                        — {getLocalizedValue(block.author, locale)}
                       </cite>
                     )}
                   </div>
@@ -440,11 +440,11 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                     }`}>
                       {block.title && (
                         <h2 className="font-serif text-2xl md:text-3xl font-bold text-foreground">
-                          {getLocalizedValue(block.title, locale as 'en')}
+                          {getLocalizedValue(block.title, locale)}
                         </h2>
                       )}
                       <div className="text-foreground leading-relaxed">
-                        <RichTextRenderer content={getLocalizedValue(block.content, locale as 'en')} />
+                        <RichTextRenderer content={getLocalizedValue(block.content, locale)} />
                       </div>
                     </div>
 
@@ -478,7 +478,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                               >
                                 <OptimizedImage
                                   {...getSafeImageProps(image, 'detail-main')}
-                                  alt={getLocalizedValue(image.alt, locale as 'en') || getLocalizedValue(image.title, locale as 'en')}
+                                  alt={getLocalizedValue(image.alt, locale) || getLocalizedValue(image.title, locale)}
                                   className="w-full h-full object-cover"
                                 />
                               </div>
@@ -507,7 +507,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                             >
                               <OptimizedImage
                                 {...getSafeImageProps(image, 'detail-main')}
-                                alt={getLocalizedValue(image.alt, locale as 'en') || getLocalizedValue(image.title, locale as 'en')}
+                                alt={getLocalizedValue(image.alt, locale) || getLocalizedValue(image.title, locale)}
                                 className="w-full h-full object-cover hover:scale-105 transition-transform duration-300"
                               />
                             </div>
@@ -522,7 +522,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                             <div key={image.id} className="break-inside-avoid overflow-hidden rounded-lg">
                               <OptimizedImage
                                 {...getSafeImageProps(image, 'detail-main')}
-                                alt={getLocalizedValue(image.alt, locale as 'en') || getLocalizedValue(image.title, locale as 'en')}
+                                alt={getLocalizedValue(image.alt, locale) || getLocalizedValue(image.title, locale)}
                                 className="w-full h-auto hover:scale-105 transition-transform duration-300"
                               />
                             </div>
@@ -537,7 +537,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                             <div key={image.id} className="overflow-hidden rounded-lg">
                               <OptimizedImage
                                 {...getSafeImageProps(image, 'detail-main')}
-                                alt={getLocalizedValue(image.alt, locale as 'en') || getLocalizedValue(image.title, locale as 'en')}
+                                alt={getLocalizedValue(image.alt, locale) || getLocalizedValue(image.title, locale)}
                                 className="w-full h-auto"
                               />
                             </div>
@@ -556,7 +556,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                   }`}>
                     {block.title && (
                       <h2 className="font-serif text-2xl md:text-3xl font-bold text-foreground mb-8">
-                        {getLocalizedValue(block.title, locale as 'en')}
+                        {getLocalizedValue(block.title, locale)}
                       </h2>
                     )}
                     
@@ -576,7 +576,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                               element.style === 'quote' ? 'prose italic text-center text-lg border-l-4 border-primary pl-6' :
                               'prose'
                             } text-foreground leading-relaxed`}>
-                              <RichTextRenderer content={getLocalizedValue(element.content, locale as 'en')} />
+                              <RichTextRenderer content={getLocalizedValue(element.content, locale)} />
                             </div>
                           </div>
                         )}
@@ -602,7 +602,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                             }`}>
                               <OptimizedImage
                                 {...getSafeImageProps(element.image, 'detail-main')}
-                                alt={getLocalizedValue(element.image.alt, locale as 'en') || getLocalizedValue(element.image.title, locale as 'en')}
+                                alt={getLocalizedValue(element.image.alt, locale) || getLocalizedValue(element.image.title, locale)}
                                 className="w-full h-full object-cover"
                               />
                             </div>
@@ -628,7 +628,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                   <div className="space-y-6">
                     {block.title && (
                       <h2 className="font-serif text-2xl md:text-3xl font-bold text-foreground text-center">
-                        {getLocalizedValue(block.title, locale as 'en')}
+                        {getLocalizedValue(block.title, locale)}
                       </h2>
                     )}
                     <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
@@ -636,7 +636,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                         <div key={image.id} className="aspect-square overflow-hidden rounded-lg">
                           <OptimizedImage
                             {...getSafeImageProps(image, 'gallery-thumb')}
-                            alt={getLocalizedValue(image.title, locale as 'en')}
+                            alt={getLocalizedValue(image.title, locale)}
                             className="w-full h-full object-cover hover:scale-105 transition-transform duration-300"
                           />
                         </div>
@@ -688,7 +688,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                   <div className="min-w-0">
                     <p className="text-sm text-muted-foreground mb-1">Previous Story</p>
                     <p className="font-serif text-lg font-semibold text-foreground group-hover:text-primary transition-colors line-clamp-2 leading-tight">
-                      {getLocalizedValue(prevPost.title, locale as 'en')}
+                      {getLocalizedValue(prevPost.title, locale)}
                     </p>
                   </div>
                 </Link>
@@ -714,7 +714,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                   <div className="text-right min-w-0">
                     <p className="text-sm text-muted-foreground mb-1">Next Story</p>
                     <p className="font-serif text-lg font-semibold text-foreground group-hover:text-primary transition-colors line-clamp-2 leading-tight">
-                      {getLocalizedValue(nextPost.title, locale as 'en')}
+                      {getLocalizedValue(nextPost.title, locale)}
                     </p>
                   </div>
                   <svg className="w-6 h-6 text-muted-foreground group-hover:text-foreground transition-colors flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -743,17 +743,17 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                       <div className="absolute inset-0 bg-black/0 group-hover:bg-black/10 transition-all duration-500"></div>
                       <OptimizedImage
                         {...getResponsiveImageProps((post as PayloadBlogPost).gallery?.coverImage as PayloadImage, 'gallery-card')}
-                        alt={getLocalizedValue(((post as PayloadBlogPost).gallery?.coverImage as PayloadImage)?.alt, locale as 'en')}
+                        alt={getLocalizedValue(((post as PayloadBlogPost).gallery?.coverImage as PayloadImage)?.alt, locale)}
                         className="w-full h-full object-cover group-hover:scale-[1.02] transition-transform duration-700"
                       />
                     </div>
                   )}
                   <div className="flex-1 p-8 lg:p-12 flex flex-col justify-center">
                     <h3 className="font-serif text-2xl lg:text-3xl font-bold text-foreground mb-4 group-hover:text-primary transition-colors">
-                      {getLocalizedValue((post as PayloadBlogPost).gallery?.title, locale as 'en')}
+                      {getLocalizedValue((post as PayloadBlogPost).gallery?.title, locale)}
                     </h3>
                     <p className="text-lg text-muted-foreground mb-6 leading-relaxed">
-                      {getLocalizedValue((post as PayloadBlogPost).gallery?.description, locale as 'en')}
+                      {getLocalizedValue((post as PayloadBlogPost).gallery?.description, locale)}
                     </p>
                     <div className="flex items-center justify-between">
                       <span className="flex items-center gap-2 text-muted-foreground">
@@ -787,7 +787,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                         {relatedPost.featuredImage && typeof relatedPost.featuredImage === 'object' && 'imageUrls' in relatedPost.featuredImage ? (
                           <OptimizedImage
                             {...getResponsiveImageProps(relatedPost.featuredImage as PayloadImage, 'gallery-card')}
-                            alt={getLocalizedValue((relatedPost.featuredImage as PayloadImage).alt, locale as 'en')}
+                            alt={getLocalizedValue((relatedPost.featuredImage as PayloadImage).alt, locale)}
                             className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500"
                           />
                         ) : (
@@ -798,22 +798,22 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
                                   <path d="M19 3H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm-5 14H7v-2h7v2zm3-4H7v-2h10v2zm0-4H7V7h10v2z"/>
                                 </svg>
                               </div>
-                              <p className="text-xs">{getLocalizedValue(relatedPost.title, locale as 'en')}</p>
+                              <p className="text-xs">{getLocalizedValue(relatedPost.title, locale)}</p>
                             </div>
                           </div>
                         )}
                       </div>
                       <div className="p-6">
                         <div className="flex items-center gap-2 text-xs text-muted-foreground mb-3">
-                          <span>{formatDate((relatedPost as any).publishedAt || relatedPost.createdAt, locale as 'en')}</span>
+                          <span>{formatDate((relatedPost as any).publishedAt || relatedPost.createdAt, locale)}</span>
                           <span>•</span>
-                          <span>{calculateReadingTime(getLocalizedValue(relatedPost.contentBlocks, locale as 'en'))}</span>
+                          <span>{calculateReadingTime(getLocalizedValue(relatedPost.contentBlocks, locale))}</span>
                         </div>
                         <h3 className="font-serif text-lg font-bold text-foreground mb-2 group-hover:text-primary transition-colors line-clamp-2">
-                          {getLocalizedValue(relatedPost.title, locale as 'en')}
+                          {getLocalizedValue(relatedPost.title, locale)}
                         </h3>
                         <p className="text-sm text-muted-foreground leading-relaxed line-clamp-3">
-                          {getLocalizedValue(relatedPost.excerpt, locale as 'en')}
+                          {getLocalizedValue(relatedPost.excerpt, locale)}
                         </p>
                       </div>
                     </article>
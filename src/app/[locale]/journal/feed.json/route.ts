@@ -0,0 +1,9 @@
+/**
+ * JSON Feed 1.1 of journal posts with their full content
+ */
+
+import { createFeedRoute, getJournalFeed } from '@/lib/utils/feeds'
+
+export const revalidate = 3600
+
+export const GET = createFeedRoute(getJournalFeed, 'json')
@@ -9,6 +9,8 @@ import type { PayloadBlogPost } from '@/lib/api/api-client'
 import JournalClient from './JournalClient'
 import type { Metadata } from 'next'
 import { DERIVED_CONFIG, SITE_CONFIG } from '@/config/site.config'
+import { getLanguageAlternates } from '@/lib/utils/localization'
+import { getFeedAlternateTypes } from '@/lib/utils/feeds'
 interface JournalPageProps {
   params: Promise<{ locale: string }>
 }
@@ -19,7 +21,7 @@ export async function generateMetadata({ params }: JournalPageProps): Promise<Me
   const t = await getTranslations('journal')
   
   // Get personal data from SiteMetadata
-  const personalData = await getSEOPersonalData(locale as 'en')
+  const personalData = await getSEOPersonalData(locale)
   
   return {
     title: DERIVED_CONFIG.getPageTitle(t('title')),
@@ -51,10 +53,8 @@ export async function generateMetadata({ params }: JournalPageProps): Promise<Me
     },
     alternates: {
       canonical: `${SITE_CONFIG.url.base}/${locale}/journal`,
-      languages: {
-        'en': `${SITE_CONFIG.url.base}/en/journal`,
-        'ta': `${SITE_CONFIG.url.base}/ta/journal`,
-      }
+      languages: getLanguageAlternates('/journal'),
+      types: getFeedAlternateTypes('/journal', locale, DERIVED_CONFIG.getPageTitle(t('title'))),
     },
     robots: {
       index: true,
@@ -75,14 +75,14 @@ export default async function JournalPage({ params }: JournalPageProps) {
   const t = await getTranslations('journal')
 
   // Get personal data for name placeholder
-  const personalData = await getSEOPersonalData(locale as 'en')
+  const personalData = await getSEOPersonalData(locale)
 
   // Fetch blog posts from PayloadCMS
   const blogPosts = await getBlogPosts(20)
   
   // Extract unique categories from blog posts
   const allCategories = Array.from(
-    new Set(blogPosts.flatMap(post => getLocalizedValue(post.tags, locale as 'en') || []))
+    new Set(blogPosts.flatMap(post => getLocalizedValue(post.tags, locale) || []))
   )
   const categories = ['All', ...allCategories.sort()]
   
@@ -90,13 +90,13 @@ export default async function JournalPage({ params }: JournalPageProps) {
   const transformedBlogPosts = blogPosts.map(post => ({
     id: post.id,
     slug: post.slug,
-    title: getLocalizedValue(post.title, locale as 'en'),
-    excerpt: getLocalizedValue(post.excerpt, locale as 'en'),
+    title: getLocalizedValue(post.title, locale),
+    excerpt: getLocalizedValue(post.excerpt, locale),
     coverImage: (post.featuredImage && typeof post.featuredImage === 'object' && 'imageUrls' in post.featuredImage) ? post.featuredImage.imageUrls?.medium || post.featuredImage.imageUrls?.full || '' : '',
     publishDate: (post as any).publishDate || post.createdAt,
-    readTime: calculateReadTime((post as any).content?.[locale as 'en'] || ''),
-    category: getLocalizedValue(post.tags, locale as 'en')?.[0] || 'General',
-    tags: getLocalizedValue(post.tags, locale as 'en') || [],
+    readTime: calculateReadTime((post as any).content?.[locale] || ''),
+    category: getLocalizedValue(post.tags, locale)?.[0] || 'General',
+    tags: getLocalizedValue(post.tags, locale) || [],
     featured: false // We can add this field to PayloadCMS later if needed
   }))
 
@@ -6,6 +6,8 @@ import { SITE_CONFIG, DERIVED_CONFIG } from '@/config/site.config'
 import Header from '@/components/frontend/layout/Header'
 import Footer from '@/components/frontend/layout/Footer'
 import AnalyticsProvider from '@/components/providers/AnalyticsProvider'
+import ImageProtectionProvider from '@/components/providers/ImageProtectionProvider'
+import { getSettings } from '@/lib/api/api-client'
 import GoogleAnalytics from '@/components/analytics/GoogleAnalytics'
 import ConsentManager from '@/components/analytics/ConsentManager'
 import PerformanceMonitor from '@/components/analytics/PerformanceMonitor'
@@ -54,6 +56,9 @@ export default async function LocaleLayout({ children, params }: Props) {
   // Providing all messages to the client side is the easiest way to get started
   const messages = await getMessages({ locale })
 
+  // Image protections are configured in Settings; fall back to none if the CMS is unreachable
+  const settings = await getSettings(locale).catch(() => null)
+
   return (
     <NextIntlClientProvider messages={messages}>
       <AnalyticsProvider>
@@ -65,13 +70,15 @@ export default async function LocaleLayout({ children, params }: Props) {
         <ConsentManager />
         <BrowserCompatibilityWarning />
 
-        <div className="relative flex min-h-screen flex-col">
-          <Header />
-          <main className="flex-1">
-            {children}
-          </main>
-          <Footer />
-        </div>
+        <ImageProtectionProvider protections={settings?.photography?.protections}>
+          <div className="relative flex min-h-screen flex-col">
+            <Header />
+            <main className="flex-1">
+              {children}
+            </main>
+            <Footer />
+          </div>
+        </ImageProtectionProvider>
       </AnalyticsProvider>
     </NextIntlClientProvider>
   )
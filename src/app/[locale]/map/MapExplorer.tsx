@@ -0,0 +1,304 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent, type PointerEvent, type ReactNode } from 'react'
+import { useTranslations } from 'next-intl'
+import { Minus, Plus, RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/base/button'
+import MapImageCard from '@/components/frontend/content/MapImageCard'
+import { getLocalizedValue } from '@/lib/utils/localization'
+import {
+  clusterPoints,
+  projectPoint,
+  viewBoxToBounds,
+  WORLD_MAP_HEIGHT,
+  WORLD_MAP_WIDTH,
+  type MapCluster,
+} from '@/lib/utils/world-map'
+import type { GeoImage, GeoPoint, GeoSearchResponse } from '@/types/geo'
+
+// Deepest zoom, as a multiple of the whole world's width
+const MAX_ZOOM = 128
+// Zoom used when the page opens centred on a location
+const FOCUS_ZOOM = 64
+// Grid cells across the visible width; markers in one cell are clustered
+const CLUSTER_CELLS = 24
+// Photos listed for the visible area
+const PANEL_LIMIT = 24
+
+// The visible part of the map in map coordinates; the height is always half the width
+interface MapView {
+  x: number
+  y: number
+  width: number
+}
+
+interface MapExplorerProps {
+  locale: string
+  points: GeoPoint[]
+  // Server-rendered land outlines in map coordinates
+  basemap: ReactNode
+  // Open centred on this location instead of fitting all points
+  focus?: { latitude: number; longitude: number } | null
+}
+
+function clampView(view: MapView): MapView {
+  const width = Math.min(WORLD_MAP_WIDTH, Math.max(WORLD_MAP_WIDTH / MAX_ZOOM, view.width))
+  return {
+    width,
+    x: Math.min(WORLD_MAP_WIDTH - width, Math.max(0, view.x)),
+    y: Math.min(WORLD_MAP_HEIGHT - width / 2, Math.max(0, view.y)),
+  }
+}
+
+function centerView(width: number, x: number, y: number): MapView {
+  return clampView({ width, x: x - width / 2, y: y - width / 4 })
+}
+
+// Zoom by `factor` keeping the map position (x, y) under the cursor
+function zoomView(view: MapView, factor: number, x: number, y: number): MapView {
+  return clampView({
+    width: view.width / factor,
+    x: x - (x - view.x) / factor,
+    y: y - (y - view.y) / factor,
+  })
+}
+
+// Fit every point with a margin, or show the whole world
+function getInitialView(points: GeoPoint[], focus: MapExplorerProps['focus']): MapView {
+  if (focus) {
+    const { x, y } = projectPoint(focus.latitude, focus.longitude)
+    return centerView(WORLD_MAP_WIDTH / FOCUS_ZOOM, x, y)
+  }
+  if (!points.length) return { x: 0, y: 0, width: WORLD_MAP_WIDTH }
+
+  let minX = WORLD_MAP_WIDTH, maxX = 0, minY = WORLD_MAP_HEIGHT, maxY = 0
+  for (const point of points) {
+    const { x, y } = projectPoint(point.latitude, point.longitude)
+    minX = Math.min(minX, x)
+    maxX = Math.max(maxX, x)
+    minY = Math.min(minY, y)
+    maxY = Math.max(maxY, y)
+  }
+
+  const width = Math.max((maxX - minX) * 1.2, (maxY - minY) * 2.4, 20)
+  return centerView(width, (minX + maxX) / 2, (minY + maxY) / 2)
+}
+
+export default function MapExplorer({ locale, points, basemap, focus }: MapExplorerProps) {
+  const t = useTranslations('map')
+  const svgRef = useRef<SVGSVGElement>(null)
+  const dragRef = useRef<{ pointerId: number; clientX: number; clientY: number; view: MapView; moved: boolean } | null>(null)
+  const [view, setView] = useState<MapView>(() => getInitialView(points, focus))
+  const [images, setImages] = useState<GeoImage[]>([])
+  const [total, setTotal] = useState(0)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const height = view.width / 2
+  // Marker sizes are relative to the visible width so they stay the same size on screen
+  const unit = view.width / 100
+  const clusters = useMemo(() => clusterPoints(points, view.width / CLUSTER_CELLS), [points, view.width])
+
+  // Photos in the visible area, refreshed once the map settles
+  useEffect(() => {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(async () => {
+      const bounds = viewBoxToBounds(view.x, view.y, view.width, view.width / 2)
+      const searchParams = new URLSearchParams({
+        bbox: [bounds.west, bounds.south, bounds.east, bounds.north].map((value) => value.toFixed(4)).join(','),
+        locale,
+        limit: String(PANEL_LIMIT)
+      })
+
+      setIsLoading(true)
+      try {
+        const response = await fetch(`/api/geo?${searchParams}`, { signal: controller.signal })
+        if (response.ok) {
+          const data: GeoSearchResponse = await response.json()
+          setImages(data.images)
+          setTotal(data.total)
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Map search error:', error)
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false)
+        }
+      }
+    }, 300)
+
+    return () => {
+      clearTimeout(timeoutId)
+      controller.abort()
+    }
+  }, [view, locale])
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const svg = svgRef.current
+    if (!svg) return
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const rect = svg.getBoundingClientRect()
+      setView((current) => zoomView(
+        current,
+        event.deltaY < 0 ? 1.25 : 0.8,
+        current.x + ((event.clientX - rect.left) / rect.width) * current.width,
+        current.y + ((event.clientY - rect.top) / rect.height) * (current.width / 2)
+      ))
+    }
+
+    svg.addEventListener('wheel', handleWheel, { passive: false })
+    return () => svg.removeEventListener('wheel', handleWheel)
+  }, [])
+
+  const handlePointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    dragRef.current = { pointerId: event.pointerId, clientX: event.clientX, clientY: event.clientY, view, moved: false }
+  }
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current
+    if (!drag || drag.pointerId !== event.pointerId) return
+
+    const dx = event.clientX - drag.clientX
+    const dy = event.clientY - drag.clientY
+    // Small movements are still clicks on a marker
+    if (!drag.moved && Math.hypot(dx, dy) < 4) return
+    if (!drag.moved) {
+      drag.moved = true
+      event.currentTarget.setPointerCapture(event.pointerId)
+    }
+
+    const rect = event.currentTarget.getBoundingClientRect()
+    setView(clampView({
+      width: drag.view.width,
+      x: drag.view.x - (dx / rect.width) * drag.view.width,
+      y: drag.view.y - (dy / rect.height) * (drag.view.width / 2),
+    }))
+  }
+
+  const handlePointerUp = (event: PointerEvent<SVGSVGElement>) => {
+    if (dragRef.current?.pointerId === event.pointerId) {
+      dragRef.current = null
+    }
+  }
+
+  const zoomAroundCenter = (factor: number) => {
+    setView((current) => zoomView(current, factor, current.x + current.width / 2, current.y + current.width / 4))
+  }
+
+  // Zoom into a marker; the panel then lists its photos
+  const openCluster = (cluster: MapCluster) => {
+    setView((current) => centerView(current.width / 3, cluster.x, cluster.y))
+  }
+
+  const handleMarkerKeyDown = (event: KeyboardEvent<SVGGElement>, cluster: MapCluster) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault()
+      openCluster(cluster)
+    }
+  }
+
+  return (
+    <div className="grid lg:grid-cols-3 gap-8">
+      {/* Map */}
+      <div className="lg:col-span-2">
+        <div className="relative">
+          <svg
+            ref={svgRef}
+            viewBox={`${view.x} ${view.y} ${view.width} ${height}`}
+            className="w-full aspect-[2/1] rounded-2xl border border-border/20 bg-muted/40 touch-none select-none cursor-grab active:cursor-grabbing"
+            aria-label={t('mapLabel')}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <g className="fill-muted-foreground/25">{basemap}</g>
+
+            {clusters.map((cluster) => {
+              const count = cluster.points.length
+              const radius = unit * (count > 1 ? Math.min(2.6, 1.3 + Math.log10(count) * 0.8) : 0.8)
+              return (
+                <g
+                  key={cluster.key}
+                  role="button"
+                  tabIndex={0}
+                  aria-label={t('markerLabel', { count })}
+                  className="cursor-pointer group focus:outline-none"
+                  onClick={() => openCluster(cluster)}
+                  onKeyDown={(event) => handleMarkerKeyDown(event, cluster)}
+                >
+                  <circle
+                    cx={cluster.x}
+                    cy={cluster.y}
+                    r={radius}
+                    strokeWidth={unit * 0.25}
+                    className="fill-primary stroke-background group-hover:fill-primary/80 group-focus-visible:stroke-foreground"
+                  />
+                  {count > 1 && (
+                    <text
+                      x={cluster.x}
+                      y={cluster.y}
+                      dy="0.35em"
+                      textAnchor="middle"
+                      fontSize={unit * 1.2}
+                      className="fill-primary-foreground font-medium pointer-events-none"
+                    >
+                      {count}
+                    </text>
+                  )}
+                </g>
+              )
+            })}
+          </svg>
+
+          {/* Zoom Controls */}
+          <div className="absolute top-3 right-3 flex flex-col gap-2">
+            <Button variant="secondary" size="sm" onClick={() => zoomAroundCenter(2)} aria-label={t('zoomIn')}>
+              <Plus className="w-4 h-4" />
+            </Button>
+            <Button variant="secondary" size="sm" onClick={() => zoomAroundCenter(0.5)} aria-label={t('zoomOut')}>
+              <Minus className="w-4 h-4" />
+            </Button>
+            <Button variant="secondary" size="sm" onClick={() => setView(getInitialView(points, null))} aria-label={t('reset')}>
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <p className="mt-3 text-xs text-muted-foreground">
+          {points.length > 0 ? t('hint') : t('noLocations')}
+        </p>
+      </div>
+
+      {/* Photos in View */}
+      <aside className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <h2 className="font-serif text-xl font-semibold text-foreground">
+            {t('photosInView', { count: total })}
+          </h2>
+          {isLoading && (
+            <div className="animate-spin w-4 h-4 border-2 border-primary border-t-transparent rounded-full"></div>
+          )}
+        </div>
+        {total > images.length && (
+          <p className="text-xs text-muted-foreground">{t('showingRecent', { count: images.length })}</p>
+        )}
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-2 gap-4">
+          {images.filter((image) => image.gallerySlug).map((image) => (
+            <MapImageCard
+              key={image.id}
+              href={`/${locale}/galleries/${image.gallerySlug}/images/${image.slug}`}
+              title={getLocalizedValue(image.title, locale)}
+              thumbnail={image.thumbnail}
+              detail={getLocalizedValue(image.locationName, locale) || undefined}
+            />
+          ))}
+        </div>
+      </aside>
+    </div>
+  )
+}
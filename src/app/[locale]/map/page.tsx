@@ -0,0 +1,85 @@
+import { getTranslations } from 'next-intl/server'
+import { Metadata } from 'next'
+import { DERIVED_CONFIG, SITE_CONFIG } from '@/config/site.config'
+import { getSEOPersonalData } from '@/lib/utils/seo-helpers'
+import { getLanguageAlternates } from '@/lib/utils/localization'
+import { getMapPoints, isValidLatitude, isValidLongitude } from '@/lib/utils/geo'
+import { WORLD_LAND_PATH } from '@/lib/utils/world-land'
+import MapExplorer from './MapExplorer'
+
+interface MapPageProps {
+  params: Promise<{ locale: string }>
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>
+}
+
+// Generate metadata for SEO
+export async function generateMetadata({ params }: MapPageProps): Promise<Metadata> {
+  const { locale } = await params
+  const personalData = await getSEOPersonalData(locale)
+
+  const t = await getTranslations({ locale, namespace: 'map' })
+  const title = t('title')
+  const description = t('description', { name: personalData.name })
+
+  return {
+    title: DERIVED_CONFIG.getPageTitle(title),
+    description,
+    authors: [{ name: personalData.name }],
+    openGraph: {
+      title,
+      description,
+      type: 'website',
+      siteName: SITE_CONFIG.site.name,
+    },
+    twitter: {
+      card: 'summary',
+      title: `${title} - ${SITE_CONFIG.site.name}`,
+      description,
+    },
+    alternates: {
+      canonical: `${SITE_CONFIG.url.base}/${locale}/map`,
+      languages: getLanguageAlternates('/map')
+    },
+  }
+}
+
+export default async function MapPage({ params, searchParams }: MapPageProps) {
+  const { locale } = await params
+  const resolvedSearchParams = await searchParams
+  const [t, personalData, points] = await Promise.all([
+    getTranslations('map'),
+    getSEOPersonalData(locale),
+    getMapPoints()
+  ])
+
+  // ?lat=..&lng=.. opens the map centred on a location, e.g. from an image's nearby photos
+  const latitude = Number(resolvedSearchParams.lat)
+  const longitude = Number(resolvedSearchParams.lng)
+  const focus = typeof resolvedSearchParams.lat === 'string' && typeof resolvedSearchParams.lng === 'string' &&
+    isValidLatitude(latitude) && isValidLongitude(longitude)
+    ? { latitude, longitude }
+    : null
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-20">
+        {/* Page Header */}
+        <div className="mb-12 text-center">
+          <h1 className="font-serif text-4xl md:text-5xl font-bold text-foreground mb-4">
+            {t('title')}
+          </h1>
+          <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+            {t('description', { name: personalData.name })}
+          </p>
+        </div>
+
+        <MapExplorer
+          locale={locale}
+          points={points}
+          focus={focus}
+          basemap={<path d={WORLD_LAND_PATH} />}
+        />
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,4 @@
 import Link from 'next/link'
-import Image from 'next/image'
 import { getTranslations, getFormatter, setRequestLocale } from 'next-intl/server'
 import { getCachedGlobal } from '@/lib/utils/getGlobals'
 import { getLocalizedValue } from '@/lib/utils/localization'
@@ -11,6 +10,7 @@ import StructuredData from '@/components/seo/StructuredData'
 import { getCardImageSrc } from '@/lib/utils/image-utils'
 import FeaturedGalleryImage from '@/components/frontend/media/FeaturedGalleryImage'
 import FeaturedGalleryThumbnail from '@/components/frontend/media/FeaturedGalleryThumbnail'
+import OptimizedImage from '@/components/ui/base/OptimizedImage'
 
 type Props = {
   params: Promise<{ locale: string }>
@@ -27,15 +27,15 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
   // Fetch site metadata from CMS
   let siteMetadata
   try {
-    siteMetadata = await getSiteMetadata(locale as 'en')
+    siteMetadata = await getSiteMetadata(locale)
   } catch (error) {
     console.warn('Could not fetch site metadata from CMS, falling back to config')
   }
 
   // Extract SEO fields from Home global (new!)
   const homeSeo = homeData?.seo || {}
-  const customTitle = homeSeo.metaTitle ? getLocalizedValue(homeSeo.metaTitle, locale as 'en') : null
-  const customDescription = homeSeo.metaDescription ? getLocalizedValue(homeSeo.metaDescription, locale as 'en') : null
+  const customTitle = homeSeo.metaTitle ? getLocalizedValue(homeSeo.metaTitle, locale) : null
+  const customDescription = homeSeo.metaDescription ? getLocalizedValue(homeSeo.metaDescription, locale) : null
 
   // Use CMS metadata first, then config as fallback
   const personalName = siteMetadata?.personal?.name?.[locale as keyof typeof siteMetadata.personal.name] || 
@@ -140,7 +140,7 @@ export default async function HomePage({ params }: Props) {
   // Fetch site metadata for personal name
   let siteMetadata
   try {
-    siteMetadata = await getSiteMetadata(locale as 'en')
+    siteMetadata = await getSiteMetadata(locale)
   } catch (error) {
     console.warn('Could not fetch site metadata from CMS, falling back to config')
   }
@@ -201,7 +201,7 @@ export default async function HomePage({ params }: Props) {
     <>
       {/* JSON-LD Structured Data */}
       <StructuredData 
-        locale={locale as 'en'}
+        locale={locale}
         pageType="homepage"
         pageData={{ featuredGallery }}
         customData={{
@@ -257,10 +257,10 @@ export default async function HomePage({ params }: Props) {
                   {/* Gallery info */}
                   <div className="space-y-6">
                     <h3 className="font-serif text-2xl lg:text-3xl font-bold text-foreground leading-tight">
-                      {getLocalizedValue(featuredGallery.title, locale as 'en')}
+                      {getLocalizedValue(featuredGallery.title, locale)}
                     </h3>
                     <p className="text-base lg:text-lg text-muted-foreground leading-relaxed">
-                      {getLocalizedValue(featuredGallery.description, locale as 'en') || 'Explore this featured collection of photography.'}
+                      {getLocalizedValue(featuredGallery.description, locale) || 'Explore this featured collection of photography.'}
                     </p>
                     
                     <div className="flex items-center gap-6 text-sm text-muted-foreground">
@@ -409,8 +409,8 @@ export default async function HomePage({ params }: Props) {
             
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 mb-20">
             {blogPosts.length > 0 ? blogPosts.map((post) => {
-              const postTitle = getLocalizedValue(post.title, locale as 'en')
-              const postExcerpt = getLocalizedValue(post.excerpt, locale as 'en')
+              const postTitle = getLocalizedValue(post.title, locale)
+              const postExcerpt = getLocalizedValue(post.excerpt, locale)
               
               return (
                 <Link key={post.id} href={`/${locale}/journal/${post.slug}`} className="group">
@@ -418,13 +418,12 @@ export default async function HomePage({ params }: Props) {
                     <div className="aspect-[16/10] bg-slate-800 dark:bg-slate-200 relative overflow-hidden">
                       {post.featuredImage ? (
                         <>
-                          <Image
+                          <OptimizedImage
                             src={(post.featuredImage && typeof post.featuredImage === 'object' && 'imageUrls' in post.featuredImage) ? getCardImageSrc(post.featuredImage as any) : (post.featuredImage as any)?.url || ''}
                             alt={postTitle}
                             width={600}
                             height={400}
                             className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
-                            quality={85}
                             loading="lazy"
                             sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
                           />
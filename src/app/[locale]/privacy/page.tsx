@@ -1,6 +1,7 @@
 import { getTranslations } from 'next-intl/server'
 import type { Metadata } from 'next'
 import { DERIVED_CONFIG, SITE_CONFIG } from '@/config/site.config'
+import { getLanguageAlternates } from '@/lib/utils/localization'
 
 interface PrivacyPageProps {
   params: Promise<{ locale: string }>
@@ -15,10 +16,7 @@ export async function generateMetadata({ params }: PrivacyPageProps): Promise<Me
     robots: { index: true, follow: true },
     alternates: {
       canonical: `${SITE_CONFIG.url.base}/${locale}/privacy`,
-      languages: {
-        'en': `${SITE_CONFIG.url.base}/en/privacy`,
-        'ta': `${SITE_CONFIG.url.base}/ta/privacy`,
-      }
+      languages: getLanguageAlternates('/privacy')
     }
   }
 }
@@ -35,7 +33,7 @@ export default async function PrivacyPage({ params }: PrivacyPageProps) {
             Privacy Policy
           </h1>
           <p className="text-muted-foreground text-lg leading-relaxed">
-            Last updated: {new Date().toLocaleDateString(locale === 'ta' ? 'ta-IN' : 'en-US')}
+            Last updated: {new Date().toLocaleDateString(locale)}
           </p>
         </div>
 
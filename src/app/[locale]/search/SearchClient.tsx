@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
+import { useTranslations } from 'next-intl'
 import Link from 'next/link'
 import { Search, Filter, Grid, List, Calendar, Camera, BookOpen, MapPin, Tag } from 'lucide-react'
 import { Button } from '@/components/ui/base/button'
@@ -9,89 +10,122 @@ import { Input } from '@/components/ui/base/input'
 import { Badge } from '@/components/ui/base/badge'
 import { Card, CardContent } from '@/components/ui/layout/card'
 import { cn } from '@/lib/utils'
-
-interface SearchResult {
-  id: string
-  title: { en: string; ta: string }
-  slug: string
-  description?: { en: string; ta: string }
-  excerpt?: { en: string; ta: string }
-  subtitle?: { en: string; ta: string }
-  tags?: { en: string[]; ta: string[] }
-  type: 'gallery' | 'image' | 'blog'
-  imageUrls?: {
-    thumbnail?: string
-    medium?: string
-    full?: string
-  }
-  coverImage?: any
-  featuredImage?: any
-  imageCount?: number
-  photographyStyle?: string
-  publishedAt?: string
-  captureDate?: string
-  gallery?: {
-    title: { en: string; ta: string }
-    slug: string
-  }
-}
-
-interface SearchResults {
-  galleries: SearchResult[]
-  images: SearchResult[]
-  blogPosts: SearchResult[]
-  totalResults: number
-}
+import { getLocalizedValue } from '@/lib/utils/localization'
+import type { Locale } from '@/lib/i18n/config'
+import {
+  appendSearchFacetFilters,
+  appendSearchRangeInputs,
+  hasSearchFacetFilters,
+  hasSearchRangeInputs,
+  parseSearchFacetFilters,
+  readSearchRangeInputs,
+  SEARCH_RANGES,
+  toggleSearchFacetFilter,
+  type SearchRangeInputs,
+} from '@/lib/utils/search-facets'
+import type {
+  SearchFacet,
+  SearchFacetFilters,
+  SearchRangeKey,
+  SearchResponse,
+  SearchResult,
+  SearchResultType,
+  SearchTypeFilter,
+} from '@/types/search'
+import HighlightedText from '@/components/frontend/features/HighlightedText'
+import OptimizedImage from '@/components/ui/base/OptimizedImage'
+
+// Results per request; a multiple of the three grid columns
+const PAGE_SIZE = 24
+
+const emptyCounts: Record<SearchResultType, number> = { gallery: 0, image: 0, blog: 0 }
+
+const typeFilterKeys: SearchTypeFilter[] = ['all', 'galleries', 'images', 'blog']
 
 interface SearchClientProps {
-  locale: 'en'
+  locale: Locale
   initialQuery?: string
 }
 
-// Helper function for getting localized values
-function getLocalizedValue<T>(value: { en: T; ta: T } | T | undefined, locale: 'en'): T | '' {
-  if (!value) return '' as T
-  
-  // If it's already a plain string/value, return it directly
-  if (typeof value === 'string' || typeof value !== 'object') {
-    return value as T
-  }
-  
-  // If it's a localized object, handle accordingly
-  if (typeof value === 'object' && 'en' in value && 'ta' in value) {
-    const localized = value[locale]
-    const fallback = value.en
-    return localized || fallback || '' as T
-  }
-  
-  return value as T || '' as T
-}
-
 export default function SearchClient({ locale, initialQuery = '' }: SearchClientProps) {
+  const t = useTranslations('search')
   const router = useRouter()
   const searchParams = useSearchParams()
   const [searchTerm, setSearchTerm] = useState(initialQuery)
-  const [results, setResults] = useState<SearchResults>({
-    galleries: [],
-    images: [],
-    blogPosts: [],
-    totalResults: 0
-  })
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [counts, setCounts] = useState(emptyCounts)
+  const [facets, setFacets] = useState<SearchFacet[]>([])
+  const [totalResults, setTotalResults] = useState(0)
+  // Typo handling: results found for a corrected query, or a correction to offer
+  const [correctedQuery, setCorrectedQuery] = useState<string | null>(null)
+  const [didYouMean, setDidYouMean] = useState<string | null>(null)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
   const [isSearching, setIsSearching] = useState(false)
-  const [selectedType, setSelectedType] = useState('all')
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  // Type and facet filters live in the URL so a filtered view can be shared
+  const [selectedType, setSelectedType] = useState<SearchTypeFilter>(() => {
+    const type = searchParams.get('type') as SearchTypeFilter | null
+    return type && typeFilterKeys.includes(type) ? type : 'all'
+  })
+  const [filters, setFilters] = useState<SearchFacetFilters>(() => parseSearchFacetFilters(searchParams))
+  const [ranges, setRanges] = useState<SearchRangeInputs>(() => readSearchRangeInputs(searchParams))
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid')
-  const [hasSearched, setHasSearched] = useState(!!initialQuery)
+  const [hasSearched, setHasSearched] = useState(
+    () => !!initialQuery || hasSearchFacetFilters(filters) || hasSearchRangeInputs(ranges)
+  )
+
+  const resetResults = useCallback(() => {
+    setResults([])
+    setCounts(emptyCounts)
+    setFacets([])
+    setTotalResults(0)
+    setNextCursor(null)
+    setCorrectedQuery(null)
+    setDidYouMean(null)
+  }, [])
+
+  const fetchResults = useCallback(
+    async (
+      query: string,
+      type: SearchTypeFilter,
+      facetFilters: SearchFacetFilters,
+      rangeInputs: SearchRangeInputs,
+      cursor?: string | null
+    ): Promise<SearchResponse | null> => {
+      const searchParams = new URLSearchParams({
+        q: query,
+        locale,
+        type: type !== 'all' ? type : '',
+        limit: String(PAGE_SIZE)
+      })
+      appendSearchFacetFilters(searchParams, facetFilters)
+      appendSearchRangeInputs(searchParams, rangeInputs)
+      if (cursor) {
+        searchParams.set('cursor', cursor)
+      }
+
+      const response = await fetch(`/api/search?${searchParams}`)
+      if (!response.ok) {
+        console.error('Search failed:', response.statusText)
+        return null
+      }
+      return response.json()
+    },
+    [locale]
+  )
 
   // Debounced search function
   const performSearch = useCallback(
-    async (query: string, type: string = 'all') => {
-      if (!query.trim() || query.length < 2) {
-        setResults({
-          galleries: [],
-          images: [],
-          blogPosts: [],
-          totalResults: 0
-        })
+    async (
+      query: string,
+      type: SearchTypeFilter = 'all',
+      facetFilters: SearchFacetFilters = {},
+      rangeInputs: SearchRangeInputs = {}
+    ) => {
+      // Selected filters list matching images even without a query
+      const hasQuery = query.trim().length >= 2
+      if (!hasQuery && !hasSearchFacetFilters(facetFilters) && !hasSearchRangeInputs(rangeInputs)) {
+        resetResults()
         setHasSearched(false)
         return
       }
@@ -100,82 +134,84 @@ export default function SearchClient({ locale, initialQuery = '' }: SearchClient
       setHasSearched(true)
       
       try {
-        const searchParams = new URLSearchParams({
-          q: query,
-          locale,
-          type: type !== 'all' ? type : '',
-          limit: '50'
-        })
-
-        const response = await fetch(`/api/search?${searchParams}`)
-        if (response.ok) {
-          const data = await response.json()
+        const data = await fetchResults(hasQuery ? query : '', type, facetFilters, rangeInputs)
+        if (data) {
           setResults(data.results)
+          setCounts(data.counts)
+          setFacets(data.facets)
+          setTotalResults(data.pagination.totalResults)
+          setNextCursor(data.pagination.nextCursor)
+          setCorrectedQuery(data.correctedQuery)
+          setDidYouMean(data.didYouMean)
         } else {
-          console.error('Search failed:', response.statusText)
-          setResults({
-            galleries: [],
-            images: [],
-            blogPosts: [],
-            totalResults: 0
-          })
+          resetResults()
         }
       } catch (error) {
         console.error('Search error:', error)
-        setResults({
-          galleries: [],
-          images: [],
-          blogPosts: [],
-          totalResults: 0
-        })
+        resetResults()
       } finally {
         setIsSearching(false)
       }
     },
-    [locale]
+    [fetchResults, resetResults]
   )
 
+  // Append the next ranked page after the last result shown
+  const loadMore = async () => {
+    if (!nextCursor || isLoadingMore) return
+
+    setIsLoadingMore(true)
+    try {
+      const data = await fetchResults(searchTerm, selectedType, filters, ranges, nextCursor)
+      if (data) {
+        setResults((current) => [...current, ...data.results])
+        setNextCursor(data.pagination.nextCursor)
+      }
+    } catch (error) {
+      console.error('Search error:', error)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
+
   // Update URL when search changes
-  const updateURL = useCallback((query: string) => {
+  const updateURL = useCallback((
+    query: string,
+    type: SearchTypeFilter,
+    facetFilters: SearchFacetFilters,
+    rangeInputs: SearchRangeInputs
+  ) => {
     const params = new URLSearchParams()
     if (query) {
       params.set('q', query)
     }
+    if (type !== 'all') {
+      params.set('type', type)
+    }
+    appendSearchFacetFilters(params, facetFilters)
+    appendSearchRangeInputs(params, rangeInputs)
     
     const newURL = `/search${params.toString() ? `?${params.toString()}` : ''}`
     router.replace(newURL, { scroll: false })
   }, [router])
 
-  // Debounce search
+  // Debounce search; also runs the initial search for a query from the URL
   useEffect(() => {
     const timeoutId = setTimeout(() => {
-      if (searchTerm !== initialQuery) {
-        updateURL(searchTerm)
-      }
-      performSearch(searchTerm, selectedType)
+      updateURL(searchTerm, selectedType, filters, ranges)
+      performSearch(searchTerm, selectedType, filters, ranges)
     }, 300)
 
     return () => clearTimeout(timeoutId)
-  }, [searchTerm, selectedType, performSearch, updateURL, initialQuery])
+  }, [searchTerm, selectedType, filters, ranges, performSearch, updateURL])
 
-  // Initial search if query provided
-  useEffect(() => {
-    if (initialQuery) {
-      performSearch(initialQuery, selectedType)
-    }
-  }, [initialQuery, selectedType, performSearch])
-
-  const filteredResults = () => {
-    switch (selectedType) {
-      case 'galleries':
-        return [...results.galleries]
-      case 'images':
-        return [...results.images]
-      case 'blog':
-        return [...results.blogPosts]
-      default:
-        return [...results.galleries, ...results.images, ...results.blogPosts]
-    }
+  const setRangeBound = (key: SearchRangeKey, bound: 'min' | 'max', value: string) => {
+    setRanges((current) => ({ ...current, [key]: { ...current[key], [bound]: value } }))
+  }
+
+  const clearFilters = () => {
+    setFilters({})
+    setRanges({})
   }
 
   const getResultUrl = (result: SearchResult) => {
@@ -204,27 +240,17 @@ export default function SearchClient({ locale, initialQuery = '' }: SearchClient
     }
   }
 
-  const getResultImage = (result: SearchResult) => {
-    if (result.imageUrls?.thumbnail) {
-      return result.imageUrls.thumbnail
-    }
-    if (result.coverImage?.imageUrls?.thumbnail) {
-      return result.coverImage.imageUrls.thumbnail
-    }
-    if (result.featuredImage?.imageUrls?.thumbnail) {
-      return result.featuredImage.imageUrls.thumbnail
-    }
-    return null
-  }
-
-  const typeFilters = [
-    { key: 'all', label: 'All' },
-    { key: 'galleries', label: 'Galleries' },
-    { key: 'images', label: 'Images' },
-    { key: 'blog', label: 'Journal' }
+  const typeFilters: { key: SearchTypeFilter; label: string; count: number }[] = [
+    { key: 'all', label: 'All', count: counts.gallery + counts.image + counts.blog },
+    { key: 'galleries', label: 'Galleries', count: counts.gallery },
+    { key: 'images', label: 'Images', count: counts.image },
+    { key: 'blog', label: 'Journal', count: counts.blog }
   ]
 
-  const displayResults = filteredResults()
+  const displayResults = results
+  const isFiltered = hasSearchFacetFilters(filters) || hasSearchRangeInputs(ranges)
+  // Facets describe image metadata, so they are hidden for galleries and journal results
+  const showFacets = hasSearched && (facets.length > 0 || isFiltered) && (selectedType === 'all' || selectedType === 'images')
 
   return (
     <div className="max-w-6xl mx-auto space-y-8">
@@ -257,10 +283,86 @@ export default function SearchClient({ locale, initialQuery = '' }: SearchClient
               className="rounded-full"
             >
               {filter.label}
+              {hasSearched && !isSearching && (
+                <span className="ml-1.5 opacity-70">{filter.count}</span>
+              )}
             </Button>
           ))}
         </div>
 
+        {/* Image Facets */}
+        {showFacets && (
+          <div className="rounded-xl border bg-card p-4 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <h2 className="flex items-center gap-2 text-sm font-semibold text-foreground">
+                <Filter className="w-4 h-4" />
+                {t('facets.title')}
+                {isFiltered && (
+                  <span className="font-normal text-muted-foreground">{t('facets.imagesOnly')}</span>
+                )}
+              </h2>
+              {isFiltered && (
+                <Button variant="ghost" size="sm" onClick={clearFilters}>
+                  {t('facets.clear')}
+                </Button>
+              )}
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {facets.map((facet) => (
+                <div key={facet.key}>
+                  <h3 className="text-xs font-medium uppercase tracking-wide text-muted-foreground mb-2">
+                    {t(`facets.${facet.key}`)}
+                  </h3>
+                  <div className="flex flex-wrap gap-1.5">
+                    {facet.values.map((value) => (
+                      <Button
+                        key={value.value}
+                        variant={value.selected ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setFilters((current) => toggleSearchFacetFilter(current, facet.key, value.value))}
+                        className="h-7 rounded-full px-3 text-xs"
+                      >
+                        {value.label}
+                        <span className="ml-1.5 opacity-70">{value.count}</span>
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Camera setting ranges */}
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              {SEARCH_RANGES.map((range) => (
+                <div key={range.key}>
+                  <h3 className="text-xs font-medium uppercase tracking-wide text-muted-foreground mb-2">
+                    {t(`facets.${range.key}`)}
+                  </h3>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="text"
+                      inputMode="decimal"
+                      placeholder={t('facets.min')}
+                      value={ranges[range.key]?.min || ''}
+                      onChange={(e) => setRangeBound(range.key, 'min', e.target.value)}
+                      className="h-8 text-xs"
+                    />
+                    <span className="text-muted-foreground">–</span>
+                    <Input
+                      type="text"
+                      inputMode="decimal"
+                      placeholder={t('facets.max')}
+                      value={ranges[range.key]?.max || ''}
+                      onChange={(e) => setRangeBound(range.key, 'max', e.target.value)}
+                      className="h-8 text-xs"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* View Mode Toggle */}
         {displayResults.length > 0 && (
           <div className="flex justify-center gap-2">
@@ -291,9 +393,14 @@ export default function SearchClient({ locale, initialQuery = '' }: SearchClient
             ) : displayResults.length === 0 ? (
 'No results found'
             ) : (
-`Found ${displayResults.length} results${searchTerm ? ` for "${searchTerm}"` : ''}`
+`Found ${totalResults} results${searchTerm ? ` for "${correctedQuery || searchTerm}"` : ''}`
             )}
           </p>
+          {!isSearching && correctedQuery && displayResults.length > 0 && (
+            <p className="mt-1 text-sm text-muted-foreground">
+              {t('noExactMatches', { query: searchTerm.trim() })}
+            </p>
+          )}
         </div>
       )}
 
@@ -304,7 +411,7 @@ export default function SearchClient({ locale, initialQuery = '' }: SearchClient
           viewMode === 'grid' ? "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3" : "space-y-4"
         )}>
           {displayResults.map((result) => (
-            <Link key={result.id} href={getResultUrl(result)} className="group">
+            <Link key={`${result.type}-${result.id}`} href={getResultUrl(result)} className="group">
               <Card className={cn(
                 "overflow-hidden hover:shadow-lg transition-all duration-300 transform hover:scale-[1.02]",
                 viewMode === 'list' ? "flex" : ""
@@ -315,9 +422,9 @@ export default function SearchClient({ locale, initialQuery = '' }: SearchClient
                   viewMode === 'grid' ? "aspect-[4/3]" : "w-40 h-28 flex-shrink-0",
                   viewMode === 'list' ? "md:w-48 md:h-32" : ""
                 )}>
-                  {getResultImage(result) ? (
-                    <img
-                      src={getResultImage(result)!}
+                  {result.thumbnail ? (
+                    <OptimizedImage
+                      src={result.thumbnail}
                       alt={getLocalizedValue(result.title, locale)}
                       className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
                     />
@@ -358,7 +465,10 @@ export default function SearchClient({ locale, initialQuery = '' }: SearchClient
                     "font-serif font-bold text-foreground mb-2 group-hover:text-primary transition-colors line-clamp-2",
                     viewMode === 'grid' ? "text-lg" : "text-base"
                   )}>
-                    {getLocalizedValue(result.title, locale)}
+                    <HighlightedText
+                      segments={result.highlights.title}
+                      fallback={getLocalizedValue(result.title, locale)}
+                    />
                   </h3>
 
                   {/* Subtitle for blog posts */}
@@ -373,7 +483,10 @@ export default function SearchClient({ locale, initialQuery = '' }: SearchClient
                     "text-muted-foreground leading-relaxed mb-3",
                     viewMode === 'grid' ? "text-sm line-clamp-3" : "text-xs line-clamp-2"
                   )}>
-                    {getLocalizedValue(result.excerpt || result.description, locale)}
+                    <HighlightedText
+                      segments={result.highlights.snippet}
+                      fallback={getLocalizedValue(result.excerpt || result.description, locale)}
+                    />
                   </p>
 
                   {/* Meta Information */}
@@ -411,17 +524,17 @@ export default function SearchClient({ locale, initialQuery = '' }: SearchClient
                   </div>
 
                   {/* Tags */}
-                  {result.tags && Array.isArray(getLocalizedValue(result.tags, locale)) && (getLocalizedValue(result.tags, locale) as string[]).length > 0 && (
+                  {result.tags && result.tags.length > 0 && (
                     <div className="flex flex-wrap gap-1 mt-3">
-                      {Array.isArray(getLocalizedValue(result.tags, locale)) && (getLocalizedValue(result.tags, locale) as string[]).slice(0, 3).map((tag: string) => (
+                      {result.tags.slice(0, 3).map((tag: string) => (
                         <Badge key={tag} variant="secondary" className="text-xs">
                           <Tag className="w-2 h-2 mr-1" />
                           {tag}
                         </Badge>
                       ))}
-                      {Array.isArray(getLocalizedValue(result.tags, locale)) && (getLocalizedValue(result.tags, locale) as string[]).length > 3 && (
+                      {result.tags.length > 3 && (
                         <Badge variant="secondary" className="text-xs">
-                          +{(getLocalizedValue(result.tags, locale) as string[]).length - 3}
+                          +{result.tags.length - 3}
                         </Badge>
                       )}
                     </div>
@@ -433,8 +546,17 @@ export default function SearchClient({ locale, initialQuery = '' }: SearchClient
         </div>
       )}
 
+      {/* Load More */}
+      {nextCursor && !isSearching && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+            {isLoadingMore ? t('searching') : t('loadMore')}
+          </Button>
+        </div>
+      )}
+
       {/* No Results State */}
-      {hasSearched && !isSearching && displayResults.length === 0 && searchTerm.length >= 2 && (
+      {hasSearched && !isSearching && displayResults.length === 0 && (searchTerm.length >= 2 || isFiltered) && (
         <div className="text-center py-16">
           <div className="w-24 h-24 mx-auto mb-6 opacity-20">
             <Search className="w-full h-full" />
@@ -445,6 +567,18 @@ No results found
           <p className="text-muted-foreground mb-6 max-w-md mx-auto">
 `Couldn't find anything matching "${searchTerm}". Try different search terms or browse our content.`
           </p>
+          {didYouMean && (
+            <p className="text-foreground mb-6">
+              {t('didYouMean')}{' '}
+              <button
+                type="button"
+                className="font-medium text-primary hover:underline"
+                onClick={() => setSearchTerm(didYouMean)}
+              >
+                {didYouMean}
+              </button>
+            </p>
+          )}
           <div className="flex flex-wrap justify-center gap-4">
             <Button asChild variant="outline">
               <Link href={`/${locale}/galleries`}>
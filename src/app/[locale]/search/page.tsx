@@ -4,6 +4,7 @@ import { getTranslations } from 'next-intl/server'
 import { Metadata } from 'next'
 import { DERIVED_CONFIG, SITE_CONFIG } from '@/config/site.config'
 import { getSEOPersonalData } from '@/lib/utils/seo-helpers'
+import { getLanguageAlternates } from '@/lib/utils/localization'
 
 const SearchClient = dynamic(() => import('./SearchClient'), {
   loading: () => (
@@ -34,12 +35,11 @@ export async function generateMetadata({ params }: SearchPageProps): Promise<Met
   const { locale } = await params
   
   // Fetch personal data for SEO
-  const personalData = await getSEOPersonalData(locale as 'en')
+  const personalData = await getSEOPersonalData(locale)
   
-  const title = locale === 'ta' ? 'தேடல்' : 'Search'
-  const description = locale === 'ta' ? 
-    'எனது ஃபோட்டோகிராஃபி போர்ட்போலியோவில் கேலரிகள், படங்கள் மற்றும் பதிவுகளைத் தேடுங்கள்' :
-    'Search through my photography portfolio for galleries, images, and journal entries'
+  const t = await getTranslations({ locale, namespace: 'search' })
+  const title = t('title')
+  const description = t('description', { name: personalData.name })
 
   return {
     title: DERIVED_CONFIG.getPageTitle(title),
@@ -62,10 +62,7 @@ export async function generateMetadata({ params }: SearchPageProps): Promise<Met
     },
     alternates: {
       canonical: `${SITE_CONFIG.url.base}/${locale}/search`,
-      languages: {
-        'en': `${SITE_CONFIG.url.base}/en/search`,
-        'ta': `${SITE_CONFIG.url.base}/ta/search`,
-      }
+      languages: getLanguageAlternates('/search')
     },
     robots: {
       index: true,
@@ -85,6 +82,7 @@ export default async function SearchPage({ params, searchParams }: SearchPagePro
   const { locale } = await params
   const resolvedSearchParams = await searchParams
   const t = await getTranslations('search')
+  const personalData = await getSEOPersonalData(locale)
   
   return (
     <div className="min-h-screen bg-background">
@@ -92,13 +90,10 @@ export default async function SearchPage({ params, searchParams }: SearchPagePro
         {/* Page Header */}
         <div className="mb-12 text-center">
           <h1 className="font-serif text-4xl md:text-5xl font-bold text-foreground mb-4">
-            {locale === 'ta' ? 'தேடல்' : 'Search'}
+            {t('title')}
           </h1>
           <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
-            {locale === 'ta' ? 
-              'எனது ஃபோட்டோகிராஃபி போர்ட்போலியோவில் கேலரிகள், படங்கள் மற்றும் பதிவுகளைத் தேடுங்கள்' :
-              'Search through my photography portfolio for galleries, images, and journal entries'
-            }
+            {t('description', { name: personalData.name })}
           </p>
         </div>
 
@@ -109,7 +104,7 @@ export default async function SearchPage({ params, searchParams }: SearchPagePro
           </div>
         }>
           <SearchClient 
-            locale={locale as 'en'} 
+            locale={locale} 
             initialQuery={typeof resolvedSearchParams.q === 'string' ? resolvedSearchParams.q : ''}
           />
         </Suspense>
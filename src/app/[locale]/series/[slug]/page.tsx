@@ -0,0 +1,204 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { getTranslations } from 'next-intl/server'
+import type { Metadata } from 'next'
+import { getLocalizedValue, getSeriesBySlug, getSeriesList } from '@/lib/api/api-client'
+import { getSEOPersonalData } from '@/lib/utils/seo-helpers'
+import { DERIVED_CONFIG, SITE_CONFIG } from '@/config/site.config'
+import StructuredData from '@/components/seo/StructuredData'
+import GalleryCard from '@/components/frontend/content/GalleryCard'
+import { getLanguageAlternates } from '@/lib/utils/localization'
+import OptimizedImage from '@/components/ui/base/OptimizedImage'
+
+interface SeriesPageProps {
+  params: Promise<{ locale: string; slug: string }>
+}
+
+// Generate metadata for SEO
+export async function generateMetadata({ params }: SeriesPageProps): Promise<Metadata> {
+  const { locale, slug } = await params
+
+  const [series, personalData] = await Promise.all([
+    getSeriesBySlug(slug),
+    getSEOPersonalData(locale)
+  ])
+
+  if (!series) {
+    return {
+      title: DERIVED_CONFIG.getPageTitle('Series Not Found'),
+      description: 'The requested series could not be found.'
+    }
+  }
+
+  const title = getLocalizedValue(series.title, locale)
+  const seo = series.seo || {}
+  const finalTitle = getLocalizedValue(seo.metaTitle, locale) || title
+  const finalDescription = getLocalizedValue(seo.metaDescription, locale)
+    || getLocalizedValue(series.excerpt, locale)
+    || getLocalizedValue(series.description, locale)
+  const keywords = seo.keywords?.length ? seo.keywords.join(', ') : `${title.toLowerCase()}, ${personalData.name.toLowerCase()} photography`
+  const ogImage = seo.ogImage || series.coverImage
+
+  return {
+    title: DERIVED_CONFIG.getPageTitle(finalTitle),
+    description: finalDescription,
+    keywords,
+    authors: [{ name: personalData.name }],
+    publisher: SITE_CONFIG.site.name,
+    openGraph: {
+      title: finalTitle,
+      description: finalDescription,
+      type: 'website',
+      siteName: SITE_CONFIG.site.name,
+      images: ogImage ? [{ url: ogImage, width: 1200, height: 630, alt: finalTitle }] : [],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: finalTitle,
+      description: finalDescription,
+      creator: SITE_CONFIG.social.twitter ? `@${SITE_CONFIG.social.twitter.split('/').pop()}` : undefined,
+      images: ogImage ? [ogImage] : [],
+    },
+    alternates: {
+      canonical: seo.canonicalUrl || `${SITE_CONFIG.url.base}/${locale}/series/${slug}`,
+      languages: getLanguageAlternates(`/series/${slug}`)
+    },
+    robots: {
+      index: !seo.noIndex,
+      follow: true,
+    },
+  }
+}
+
+export default async function SeriesPage({ params }: SeriesPageProps) {
+  const { locale, slug } = await params
+  const t = await getTranslations('galleries')
+  const tNav = await getTranslations('navigation')
+  const tCommon = await getTranslations('common')
+
+  const series = await getSeriesBySlug(slug)
+  if (!series) {
+    notFound()
+  }
+
+  const title = getLocalizedValue(series.title, locale)
+  const description = getLocalizedValue(series.description, locale)
+  const url = `${SITE_CONFIG.url.base}/${locale}/series/${slug}`
+
+  return (
+    <>
+      {/* JSON-LD Structured Data */}
+      <StructuredData
+        locale={locale}
+        pageType="series"
+        pageData={series}
+        customData={{
+          title,
+          description,
+          url,
+          image: series.coverImage || undefined
+        }}
+        breadcrumbs={[
+          { name: tNav('galleries'), url: `${SITE_CONFIG.url.base}/${locale}/galleries` },
+          { name: title, url },
+        ]}
+      />
+
+      <div className="min-h-screen">
+        {/* Series Hero */}
+        <section className="relative overflow-hidden">
+          {series.coverImage ? (
+            <div className="absolute inset-0">
+              <OptimizedImage
+                src={series.coverImage}
+                alt={title}
+                loading="eager"
+                className="w-full h-full object-cover object-center"
+              />
+              <div className="absolute inset-0 bg-gradient-to-b from-black/20 via-black/40 to-black/60"></div>
+            </div>
+          ) : (
+            <div className="absolute inset-0 bg-gradient-to-b from-background via-background/95 to-muted/50"></div>
+          )}
+
+          <div className="relative py-16 lg:py-20">
+            <div className="px-6 lg:px-12 xl:px-16 max-w-[1400px] mx-auto">
+              {/* Breadcrumb */}
+              <nav className="mb-12">
+                <ol className="flex items-center space-x-2 text-sm">
+                  <li>
+                    <Link
+                      href={`/${locale}/galleries`}
+                      className={`transition-colors ${series.coverImage ? 'text-white/70 hover:text-white' : 'text-muted-foreground hover:text-foreground'}`}
+                    >
+                      {tNav('galleries')}
+                    </Link>
+                  </li>
+                  <li className={series.coverImage ? 'text-white/50' : 'text-muted-foreground'}>/</li>
+                  <li className={`font-medium ${series.coverImage ? 'text-white' : 'text-foreground'}`}>{title}</li>
+                </ol>
+              </nav>
+
+              <header className="max-w-4xl">
+                <p className={`text-sm font-medium mb-6 ${series.coverImage ? 'text-white/80' : 'text-muted-foreground'}`}>
+                  {t(series.kind === 'portfolio' ? 'portfolioLabel' : 'seriesLabel')} · {t('galleryCount', { count: series.galleryCount })} · {t('imageCount', { count: series.imageCount })}
+                </p>
+
+                <h1 className={`font-serif text-2xl md:text-3xl lg:text-4xl font-bold mb-6 leading-tight tracking-tight ${
+                  series.coverImage ? 'text-white drop-shadow-2xl' : 'text-foreground'
+                }`}>
+                  {title}
+                </h1>
+
+                {description && (
+                  <p className={`text-base md:text-lg font-light max-w-3xl leading-relaxed ${
+                    series.coverImage ? 'text-white/90 drop-shadow-xl' : 'text-muted-foreground'
+                  }`}>
+                    {description}
+                  </p>
+                )}
+              </header>
+            </div>
+          </div>
+        </section>
+
+        {/* Child galleries */}
+        <section className="relative">
+          <div className="px-6 lg:px-12 xl:px-16 max-w-[1800px] mx-auto pt-12 lg:pt-16 pb-24">
+            <h2 className="font-serif text-xl md:text-2xl font-bold text-foreground mb-8 tracking-tight">
+              {t('seriesGalleriesHeading', { kind: series.kind || 'series' })}
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-8 lg:gap-16">
+              {series.galleries.map((gallery, index) => (
+                <GalleryCard
+                  key={gallery.id}
+                  href={`/${locale}/galleries/${gallery.slug}`}
+                  title={getLocalizedValue(gallery.title, locale)}
+                  description={getLocalizedValue(gallery.description, locale)}
+                  coverSrc={gallery.coverImage}
+                  badge={gallery.featured ? tCommon('featured') : undefined}
+                  countLabel={t('imageCount', { count: gallery.imageCount || 0 })}
+                  ctaLabel={t('viewGallery')}
+                  eager={index < 2}
+                />
+              ))}
+            </div>
+          </div>
+        </section>
+      </div>
+    </>
+  )
+}
+
+// Generate static params for all series slugs
+export async function generateStaticParams() {
+  try {
+    const series = await getSeriesList()
+    return series.map((item) => ({
+      slug: item.slug,
+    }))
+  } catch (error) {
+    console.warn('Failed to generate static params for series:', error)
+    return []
+  }
+}
@@ -2,6 +2,7 @@ import { getTranslations } from 'next-intl/server'
 import type { Metadata } from 'next'
 import { DERIVED_CONFIG, SITE_CONFIG } from '@/config/site.config'
 import { getSiteMetadata } from '@/lib/api/api-client'
+import { getLanguageAlternates } from '@/lib/utils/localization'
 
 interface TermsPageProps {
   params: Promise<{ locale: string }>
@@ -16,10 +17,7 @@ export async function generateMetadata({ params }: TermsPageProps): Promise<Meta
     robots: { index: true, follow: true },
     alternates: {
       canonical: `${SITE_CONFIG.url.base}/${locale}/terms`,
-      languages: {
-        'en': `${SITE_CONFIG.url.base}/en/terms`,
-        'ta': `${SITE_CONFIG.url.base}/ta/terms`,
-      }
+      languages: getLanguageAlternates('/terms')
     }
   }
 }
@@ -39,7 +37,7 @@ export default async function TermsPage({ params }: TermsPageProps) {
             Terms of Use
           </h1>
           <p className="text-muted-foreground text-lg leading-relaxed">
-            Last updated: {new Date().toLocaleDateString(locale === 'ta' ? 'ta-IN' : 'en-US')}
+            Last updated: {new Date().toLocaleDateString(locale)}
           </p>
         </div>
 
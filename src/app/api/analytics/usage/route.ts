@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import crypto from 'crypto'
+import { checkRateLimit, getClientIP, RATE_LIMITS } from '@/lib/utils/rate-limiter'
+import {
+  isBotUserAgent,
+  isFirstInSession,
+  recordUsage,
+  type UsageCollection,
+  type UsageEvent,
+} from '@/lib/utils/usage-counter'
+
+interface UsagePayload {
+  event: UsageEvent
+  collection: UsageCollection
+  id: string
+  sessionId?: string
+}
+
+const EVENTS: UsageEvent[] = ['view', 'download']
+const COLLECTIONS: UsageCollection[] = ['images', 'blog-posts']
+
+/**
+ * POST /api/analytics/usage - Count a view or download
+ * Independent of Google Analytics; nothing about the visitor is stored.
+ */
+export async function POST(request: NextRequest) {
+  let body: UsagePayload
+  try {
+    // sendBeacon posts text/plain, so parse the raw body
+    body = JSON.parse(await request.text())
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  if (!EVENTS.includes(body.event) || !COLLECTIONS.includes(body.collection) || !/^[a-f0-9]{24}$/i.test(body.id || '')) {
+    return NextResponse.json({ error: 'Invalid usage event' }, { status: 400 })
+  }
+
+  const userAgent = request.headers.get('user-agent')
+  // Accepted but not counted, so bots get no signal to work around
+  if (isBotUserAgent(userAgent)) {
+    return NextResponse.json({ counted: false })
+  }
+
+  const ipAddress = getClientIP(request)
+  if (!checkRateLimit(`usage:${ipAddress}`, RATE_LIMITS.USAGE_EVENTS_PER_IP_PER_MINUTE).allowed) {
+    return NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429 })
+  }
+
+  // Prefer the browser session ID; fall back to a hash of IP and user agent
+  const sessionKey = typeof body.sessionId === 'string' && body.sessionId.length <= 64
+    ? body.sessionId
+    : crypto.createHash('sha1').update(`${ipAddress}:${userAgent}`).digest('hex')
+
+  if (!isFirstInSession(sessionKey, body.event, body.collection, body.id)) {
+    return NextResponse.json({ counted: false })
+  }
+
+  recordUsage(body.event, body.collection, body.id)
+  return NextResponse.json({ counted: true })
+}
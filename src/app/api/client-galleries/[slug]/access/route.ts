@@ -0,0 +1,121 @@
+/**
+ * Private gallery access
+ * GET  - opens a signed share link, then redirects to the gallery
+ * POST - unlocks a gallery with its password
+ * Both set a signed cookie for the gallery and write an access log entry.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayloadClient } from '@/lib/api/payload-client'
+import { defaultLocale, isLocale } from '@/lib/i18n/config'
+import { checkRateLimit, getClientIP, RATE_LIMITS } from '@/lib/utils/rate-limiter'
+import {
+  createGalleryAccessToken,
+  findPrivateGallery,
+  getGalleryAccessCookieName,
+  getPasswordAccessExpiry,
+  logGalleryAccess,
+  verifyGalleryAccessToken,
+  verifyGalleryPassword,
+} from '@/lib/utils/private-gallery'
+
+function setAccessCookie(response: NextResponse, galleryId: string, token: string) {
+  const expires = new Date(parseInt(token.split('.')[0], 36))
+  response.cookies.set(getGalleryAccessCookieName(galleryId), token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires,
+  })
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params
+  const token = request.nextUrl.searchParams.get('token')
+  const requestedLocale = request.nextUrl.searchParams.get('locale')
+  const locale = isLocale(requestedLocale) ? requestedLocale : defaultLocale
+  const galleryUrl = new URL(`/${locale}/client/${slug}`, request.url)
+
+  try {
+    const payload = await getPayloadClient()
+    const gallery = await findPrivateGallery(payload, slug)
+    if (!gallery) {
+      return NextResponse.json({ error: 'Gallery not found' }, { status: 404 })
+    }
+
+    const valid = verifyGalleryAccessToken(gallery, token)
+    await logGalleryAccess(payload, {
+      galleryId: gallery.id,
+      method: 'link',
+      success: valid,
+      ipAddress: getClientIP(request),
+      userAgent: request.headers.get('user-agent'),
+    })
+
+    // Expired or revoked links land on the password prompt
+    if (!valid) {
+      galleryUrl.searchParams.set('expired', '1')
+      return NextResponse.redirect(galleryUrl)
+    }
+
+    const response = NextResponse.redirect(galleryUrl)
+    setAccessCookie(response, gallery.id, token!)
+    response.headers.set('Cache-Control', 'private, no-store')
+    return response
+  } catch (error) {
+    console.error('❌ Error opening gallery share link:', error)
+    return NextResponse.json({ error: 'Failed to open gallery' }, { status: 500 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params
+  const ipAddress = getClientIP(request)
+
+  if (!checkRateLimit(`gallery-password:${ipAddress}`, RATE_LIMITS.GALLERY_PASSWORD_PER_IP_PER_HOUR).allowed) {
+    return NextResponse.json({ error: 'Too many attempts. Please try again later.' }, { status: 429 })
+  }
+
+  let password: string | undefined
+  try {
+    const body = await request.json()
+    password = typeof body?.password === 'string' ? body.password : undefined
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  try {
+    const payload = await getPayloadClient()
+    const gallery = await findPrivateGallery(payload, slug)
+    if (!gallery) {
+      return NextResponse.json({ error: 'Gallery not found' }, { status: 404 })
+    }
+
+    const valid = await verifyGalleryPassword(gallery, password)
+    await logGalleryAccess(payload, {
+      galleryId: gallery.id,
+      method: 'password',
+      success: valid,
+      ipAddress,
+      userAgent: request.headers.get('user-agent'),
+    })
+
+    if (!valid) {
+      return NextResponse.json({ error: 'Incorrect password' }, { status: 401 })
+    }
+
+    const response = NextResponse.json({ success: true })
+    setAccessCookie(response, gallery.id, createGalleryAccessToken(gallery, getPasswordAccessExpiry()))
+    return response
+  } catch (error) {
+    console.error('❌ Error unlocking gallery:', error)
+    return NextResponse.json({ error: 'Failed to unlock gallery' }, { status: 500 })
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Client proofing selection
+ * POST - submits the client's favorites and notes for an unlocked private gallery
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayloadClient } from '@/lib/api/payload-client'
+import { checkRateLimit, getClientIP, RATE_LIMITS } from '@/lib/utils/rate-limiter'
+import {
+  findPrivateGallery,
+  getGalleryAccessCookieName,
+  verifyGalleryAccessToken,
+} from '@/lib/utils/private-gallery'
+import { sanitizeProofingSubmission } from '@/lib/utils/proofing'
+import { getGalleryImagesOptions, getGalleryImagesWhere, type GalleryMembershipDoc } from '@/lib/utils/smart-gallery'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params
+  const ipAddress = getClientIP(request)
+
+  if (!checkRateLimit(`proofing:${ipAddress}`, RATE_LIMITS.PROOFING_SUBMISSIONS_PER_IP_PER_HOUR).allowed) {
+    return NextResponse.json({ error: 'Too many submissions. Please try again later.' }, { status: 429 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  try {
+    const payload = await getPayloadClient()
+    const gallery = await findPrivateGallery(payload, slug)
+    if (!gallery || gallery.privateAccess?.allowProofing === false) {
+      return NextResponse.json({ error: 'Gallery not found' }, { status: 404 })
+    }
+
+    const token = request.cookies.get(getGalleryAccessCookieName(gallery.id))?.value
+    if (!verifyGalleryAccessToken(gallery, token)) {
+      return NextResponse.json({ error: 'Gallery access has expired' }, { status: 403 })
+    }
+
+    // The images the client page shows, manual or smart
+    const imagesWhere = getGalleryImagesWhere(gallery as GalleryMembershipDoc)
+    const { sort, limit } = getGalleryImagesOptions(gallery as GalleryMembershipDoc, { sort: 'sortOrder', limit: 0 })
+    const images = imagesWhere ? await payload.find({
+      collection: 'images',
+      where: imagesWhere,
+      select: { slug: true },
+      sort,
+      ...(limit ? { limit } : { pagination: false }),
+      depth: 0,
+    }) : { docs: [] }
+
+    const submission = sanitizeProofingSubmission(body, new Set(images.docs.map((image) => String(image.id))))
+    if (!submission) {
+      return NextResponse.json({ error: 'Add your name and favorite at least one image' }, { status: 400 })
+    }
+
+    const selection = await payload.create({
+      collection: 'proofing-selections',
+      data: {
+        gallery: gallery.id,
+        ...submission,
+        ipAddress,
+      },
+    })
+
+    console.log(`✅ Proofing selection received for gallery ${gallery.slug} (${submission.items.length} images)`)
+
+    return NextResponse.json({ success: true, selectionId: selection.id }, { status: 201 })
+  } catch (error) {
+    console.error('❌ Error saving proofing selection:', error)
+    return NextResponse.json({ error: 'Failed to submit selection' }, { status: 500 })
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Gallery ZIP downloads
+ * Streams every downloadable image of a gallery in the requested size, with a README.
+ * Visitors get images whose license allows redistribution, with the watermark applied;
+ * clients with access to a private gallery and editors get every image, unwatermarked.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayloadClient } from '@/lib/api/payload-client'
+import { SITE_CONFIG } from '@/config/site.config'
+import { defaultLocale, isLocale } from '@/lib/i18n/config'
+import { getLocalizedValue } from '@/lib/utils/localization'
+import { checkRateLimit, getClientIP, RATE_LIMITS } from '@/lib/utils/rate-limiter'
+import { getLicenseUrl, isDownloadableLicense, resolveImageLicense } from '@/lib/utils/licenses'
+import { getGalleryAccessCookieName, isPrivateGallery, verifyGalleryAccessToken } from '@/lib/utils/private-gallery'
+import { isBotUserAgent, recordUsage } from '@/lib/utils/usage-counter'
+import { fetchImageBuffer } from '@/lib/utils/watermark'
+import { getGalleryImagesOptions, getGalleryImagesWhere, isSmartGallery } from '@/lib/utils/smart-gallery'
+import { LISTED_GALLERY_WHERE, orderGalleryImages } from '@/lib/utils/gallery-membership'
+import { createZipStream, type ZipEntry } from '@/lib/utils/zip'
+import {
+  DOWNLOAD_SIZES,
+  buildDownloadReadme,
+  getArchiveFilename,
+  type DownloadReadmeFile,
+  type DownloadSize,
+} from '@/lib/utils/gallery-download'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; size: string }> }
+) {
+  const { slug, size } = await params
+  const requestedLocale = request.nextUrl.searchParams.get('locale')
+  const locale = isLocale(requestedLocale) ? requestedLocale : defaultLocale
+
+  if (!DOWNLOAD_SIZES.includes(size as DownloadSize)) {
+    return NextResponse.json({ error: 'Invalid image size' }, { status: 400 })
+  }
+
+  const ipAddress = getClientIP(request)
+  if (!checkRateLimit(`gallery-download:${ipAddress}`, RATE_LIMITS.GALLERY_DOWNLOADS_PER_IP_PER_HOUR).allowed) {
+    return NextResponse.json({ error: 'Too many downloads. Please try again later.' }, { status: 429 })
+  }
+
+  try {
+    const payload = await getPayloadClient()
+    const { user } = await payload.auth({ headers: request.headers })
+    const isEditor = ['admin', 'editor', 'photographer'].includes((user as any)?.role || '')
+
+    const { docs: [gallery] } = await payload.find({
+      collection: 'galleries',
+      // Listed galleries, or client galleries that are checked for access below
+      where: {
+        and: [
+          { slug: { equals: slug } },
+          {
+            or: [
+              LISTED_GALLERY_WHERE,
+              { _status: { equals: 'published' }, visibility: { equals: 'private' } },
+            ],
+          },
+        ],
+      },
+      locale: locale as any,
+      limit: 1,
+      depth: 0,
+    })
+
+    if (!gallery) {
+      return NextResponse.json({ error: 'Gallery not found' }, { status: 404 })
+    }
+
+    const isPrivate = isPrivateGallery(gallery)
+    const clientAccess = isPrivate && verifyGalleryAccessToken(
+      gallery as any,
+      request.cookies.get(getGalleryAccessCookieName(gallery.id))?.value
+    )
+
+    // Private galleries are not acknowledged without access
+    if (isPrivate && !clientAccess && !isEditor) {
+      return NextResponse.json({ error: 'Gallery not found' }, { status: 404 })
+    }
+
+    const fullAccess = clientAccess || isEditor
+    // Originals are reserved for clients and editors, like the watermark route
+    const sourceSize = size === 'full' && !fullAccess ? 'large' : size as DownloadSize
+
+    const imagesWhere = getGalleryImagesWhere(gallery as any)
+    if (!imagesWhere) {
+      return NextResponse.json({ error: 'No images in this gallery are available for download' }, { status: 404 })
+    }
+    const { sort, limit } = getGalleryImagesOptions(gallery as any, { sort: 'sortOrder', limit: 0 })
+
+    const [images, siteMetadata] = await Promise.all([
+      payload.find({
+        collection: 'images',
+        where: imagesWhere,
+        sort,
+        locale: locale as any,
+        // Smart galleries download the same images they display
+        ...(limit ? { limit } : { pagination: false }),
+        depth: 0,
+        // Public downloads keep the watermark URLs from the afterRead hook
+        context: fullAccess ? { skipWatermark: true } : undefined,
+      }),
+      payload.findGlobal({ slug: 'site-metadata', locale: locale as any, depth: 0 }).catch(() => null),
+    ])
+
+    const legal = siteMetadata?.legal
+    const copyrightHolder = getLocalizedValue(legal?.copyrightHolder, locale)
+      || getLocalizedValue(siteMetadata?.personal?.name, locale)
+      || SITE_CONFIG.personal.name
+    const currentYear = new Date().getFullYear()
+    const copyrightYear = legal?.copyrightYear && legal.copyrightYear !== currentYear
+      ? `${legal.copyrightYear}-${currentYear}`
+      : currentYear
+
+    const files: (DownloadReadmeFile & { id: string; url: string })[] = []
+    const orderedImages = isSmartGallery(gallery) ? images.docs : orderGalleryImages(images.docs, gallery.imageOrder)
+    orderedImages.forEach((image) => {
+      const license = resolveImageLicense(image, legal?.defaultLicense)
+      if (!fullAccess && !isDownloadableLicense(license)) return
+
+      const urls = image.imageUrls
+      const url = urls?.[sourceSize] || urls?.large || urls?.full
+      if (!url) return
+
+      const useCustomRights = Boolean(image.rights?.useCustomRights)
+      const holder = (useCustomRights && getLocalizedValue(image.rights?.customCopyright, locale)) || copyrightHolder
+
+      files.push({
+        id: image.id,
+        url,
+        filename: getArchiveFilename(files.length, image, url),
+        title: getLocalizedValue(image.title, locale),
+        license,
+        licenseUrl: getLicenseUrl(license, locale),
+        attribution: (useCustomRights && getLocalizedValue(image.rights?.customAttribution, locale))
+          || getLocalizedValue(legal?.defaultAttribution, locale)
+          || `Photo by ${holder}`,
+      })
+    })
+
+    if (files.length === 0) {
+      return NextResponse.json({ error: 'No images in this gallery are available for download' }, { status: 404 })
+    }
+
+    const galleryTitle = getLocalizedValue(gallery.title, locale) || slug
+    const readme = buildDownloadReadme({
+      galleryTitle,
+      galleryUrl: `${SITE_CONFIG.url.base}/${locale}/${isPrivate ? 'client' : 'galleries'}/${slug}`,
+      siteName: SITE_CONFIG.site.name || SITE_CONFIG.url.base,
+      copyright: `© ${copyrightYear} ${copyrightHolder}`,
+      files,
+      clientDelivery: fullAccess,
+    })
+
+    const countDownloads = !isEditor && !isBotUserAgent(request.headers.get('user-agent'))
+
+    const entries = async function* (): AsyncGenerator<ZipEntry> {
+      yield { name: 'README.txt', data: Buffer.from(readme, 'utf8') }
+
+      for (const file of files) {
+        const data = await fetchImageBuffer(file.url).catch(() => null)
+        if (!data) {
+          console.warn(`⚠️ Skipping ${file.filename} in ${slug} download: file could not be loaded`)
+          continue
+        }
+        if (countDownloads) {
+          recordUsage('download', 'images', file.id)
+        }
+        yield { name: file.filename, data }
+      }
+    }
+
+    return new NextResponse(createZipStream(entries()), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${slug}-${sourceSize}.zip"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('❌ Gallery download error:', error)
+    return NextResponse.json({ error: 'Failed to prepare download' }, { status: 500 })
+  }
+}
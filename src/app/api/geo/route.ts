@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { defaultLocale, isLocale } from '@/lib/i18n/config'
+import {
+  findImagesInBounds,
+  findImagesNear,
+  GEO_DEFAULT_LIMIT,
+  GEO_MAX_LIMIT,
+  GEO_MAX_RADIUS_KM,
+  isValidLatitude,
+  isValidLongitude,
+} from '@/lib/utils/geo'
+
+/**
+ * Geotagged images in an area.
+ * Bounding box: ?bbox=west,south,east,north (west > east crosses the antimeridian)
+ * Radius: ?lat=64.1&lng=-21.9&radius=50 (kilometres, nearest first)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const locale = searchParams.get('locale')
+    const bbox = searchParams.get('bbox')
+    const options = {
+      locale: isLocale(locale) ? locale : defaultLocale,
+      limit: Math.min(GEO_MAX_LIMIT, Math.max(1, parseInt(searchParams.get('limit') || '') || GEO_DEFAULT_LIMIT)),
+    }
+
+    if (bbox) {
+      const [west, south, east, north] = bbox.split(',').map(Number)
+      if (
+        bbox.split(',').length !== 4 ||
+        !isValidLongitude(west) ||
+        !isValidLongitude(east) ||
+        !isValidLatitude(south) ||
+        !isValidLatitude(north) ||
+        south > north
+      ) {
+        return NextResponse.json(
+          { error: 'bbox must be west,south,east,north in degrees' },
+          { status: 400 }
+        )
+      }
+
+      return NextResponse.json(await findImagesInBounds({ west, south, east, north }, options))
+    }
+
+    const latitude = Number(searchParams.get('lat'))
+    const longitude = Number(searchParams.get('lng'))
+    const radiusKm = Number(searchParams.get('radius') || undefined)
+    if (!searchParams.has('lat') || !searchParams.has('lng') || !isValidLatitude(latitude) || !isValidLongitude(longitude)) {
+      return NextResponse.json(
+        { error: 'Either bbox or lat and lng are required' },
+        { status: 400 }
+      )
+    }
+    if (searchParams.has('radius') && !(radiusKm > 0 && radiusKm <= GEO_MAX_RADIUS_KM)) {
+      return NextResponse.json(
+        { error: `radius must be between 0 and ${GEO_MAX_RADIUS_KM} km` },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      await findImagesNear(
+        { latitude, longitude },
+        { ...options, radiusKm: radiusKm || undefined, excludeId: searchParams.get('exclude') || undefined }
+      )
+    )
+  } catch (error) {
+    console.error('Geo search API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Open Graph cards
+ * Renders branded 1200x630 share images for galleries, images and journal posts,
+ * caching the rendered files on disk per content version.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { ImageResponse } from 'next/og'
+import fs from 'fs/promises'
+import path from 'path'
+import sharp from 'sharp'
+import { SITE_CONFIG } from '@/config/site.config'
+import { defaultLocale, isLocale } from '@/lib/i18n/config'
+import { getPayloadClient } from '@/lib/api/payload-client'
+import { getLocalizedValue } from '@/lib/utils/localization'
+import { fetchImageBuffer, hashParts } from '@/lib/utils/watermark'
+import { OG_CARD_COLLECTIONS, OG_CARD_SIZE, OG_CARD_TYPES, type OgCardType } from '@/lib/utils/og-card'
+import { isPrivateGallery } from '@/lib/utils/private-gallery'
+import { getGalleryImagesOptions, getGalleryImagesWhere, isSmartGallery } from '@/lib/utils/smart-gallery'
+import { getGalleryIds, isPrivateImage, orderGalleryImages } from '@/lib/utils/gallery-membership'
+
+const CACHE_DIR = process.env.OG_CACHE_DIR || path.join(process.cwd(), '.next/cache/og')
+
+/**
+ * Load an image as a PNG/JPEG data URI.
+ * The card renderer cannot decode WebP or AVIF derivatives, so everything is re-encoded.
+ */
+async function loadImageDataUri(url: string | null | undefined, resize: sharp.ResizeOptions, format: 'jpeg' | 'png'): Promise<string | null> {
+  if (!url) return null
+
+  try {
+    const source = await fetchImageBuffer(url)
+    if (!source) return null
+
+    const image = sharp(source).rotate().resize(resize)
+    const buffer = format === 'png' ? await image.png().toBuffer() : await image.jpeg({ quality: 80 }).toBuffer()
+    return `data:image/${format};base64,${buffer.toString('base64')}`
+  } catch (error) {
+    console.warn(`⚠️ Could not load OG card image ${url}:`, error)
+    return null
+  }
+}
+
+/**
+ * The photo shown on the card: gallery cover (or first image), the image itself, or the post's featured image
+ */
+async function getCardPhotoUrl(payload: Awaited<ReturnType<typeof getPayloadClient>>, type: OgCardType, doc: any): Promise<string | null> {
+  if (type === 'image') {
+    return doc.imageUrls?.large || doc.imageUrls?.full || null
+  }
+
+  if (type === 'journal') {
+    const featured = typeof doc.featuredImage === 'object' ? doc.featuredImage : null
+    return featured?.imageUrls?.large || featured?.imageUrls?.full || null
+  }
+
+  if (doc.coverImage) return doc.coverImage
+
+  const where = getGalleryImagesWhere(doc)
+  if (!where) return null
+
+  // Manual galleries open with the first image of their custom order
+  const orderedIds = isSmartGallery(doc) ? [] : getGalleryIds((doc.imageOrder || []).map((row: any) => row.image))
+  if (orderedIds.length) {
+    const { docs } = await payload.find({
+      collection: 'images',
+      where: { and: [where, { id: { in: orderedIds } }] },
+      select: { imageUrls: true },
+      pagination: false,
+      depth: 0,
+    })
+    const [first] = orderGalleryImages(docs, doc.imageOrder)
+    if (first) return first.imageUrls?.large || first.imageUrls?.full || null
+  }
+
+  const { docs } = await payload.find({
+    collection: 'images',
+    where,
+    sort: getGalleryImagesOptions(doc, { sort: 'sortOrder', limit: 1 }).sort,
+    limit: 1,
+    depth: 0,
+  })
+  return docs[0]?.imageUrls?.large || docs[0]?.imageUrls?.full || null
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ type: string; id: string }> }
+) {
+  const { type, id } = await params
+  const requestedLocale = request.nextUrl.searchParams.get('locale')
+  const locale = isLocale(requestedLocale) ? requestedLocale : defaultLocale
+
+  if (!OG_CARD_TYPES.includes(type as OgCardType)) {
+    return NextResponse.json({ error: 'Invalid card type' }, { status: 400 })
+  }
+  const cardType = type as OgCardType
+
+  try {
+    const payload = await getPayloadClient()
+
+    const doc: any = await payload.findByID({
+      collection: OG_CARD_COLLECTIONS[cardType],
+      id,
+      locale: locale as any,
+      depth: 1,
+    }).catch(() => null)
+
+    // Client galleries and their images never get public share cards
+    const isPrivate = cardType === 'gallery' ? isPrivateGallery(doc) : cardType === 'image' && isPrivateImage(doc)
+    if (!doc || doc._status !== 'published' || isPrivate) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const [settings, siteMetadata] = await Promise.all([
+      payload.findGlobal({ slug: 'settings', locale: locale as any, depth: 0 }).catch(() => null),
+      payload.findGlobal({ slug: 'site-metadata', locale: locale as any, depth: 0 }).catch(() => null),
+    ])
+
+    const cacheKey = hashParts('og', cardType, id, locale, doc.updatedAt, settings?.updatedAt, siteMetadata?.updatedAt)
+    const cachePath = path.join(CACHE_DIR, `${cacheKey}.png`)
+
+    if (request.headers.get('if-none-match') === `"${cacheKey}"`) {
+      return new NextResponse(null, { status: 304 })
+    }
+
+    let body = await fs.readFile(cachePath).catch(() => null)
+
+    if (!body) {
+      const title = getLocalizedValue(doc.title, locale) || SITE_CONFIG.site.name
+      const photographer = getLocalizedValue((siteMetadata as any)?.personal?.name, locale) || SITE_CONFIG.site.name
+      const logoUrl = settings?.branding?.logoUrl
+
+      const [photo, logo] = await Promise.all([
+        loadImageDataUri(await getCardPhotoUrl(payload, cardType, doc), { ...OG_CARD_SIZE, fit: 'cover' }, 'jpeg'),
+        loadImageDataUri(logoUrl, { height: 64, fit: 'inside' }, 'png'),
+      ])
+
+      const card = new ImageResponse(
+        (
+          <div style={{ width: '100%', height: '100%', display: 'flex', position: 'relative', backgroundColor: '#0a0a0a' }}>
+            {photo && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={photo} alt="" width={OG_CARD_SIZE.width} height={OG_CARD_SIZE.height} style={{ position: 'absolute', top: 0, left: 0 }} />
+            )}
+            <div
+              style={{
+                position: 'absolute',
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                display: 'flex',
+                flexDirection: 'column',
+                justifyContent: 'space-between',
+                padding: '56px 64px',
+                backgroundImage: 'linear-gradient(to bottom, rgba(0,0,0,0.35) 0%, rgba(0,0,0,0) 40%, rgba(0,0,0,0.75) 100%)',
+                color: '#ffffff',
+              }}
+            >
+              <div style={{ display: 'flex', alignItems: 'center' }}>
+                {logo ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={logo} alt="" style={{ height: 64 }} />
+                ) : (
+                  <span style={{ fontSize: 28, letterSpacing: 2, textTransform: 'uppercase' }}>{SITE_CONFIG.site.name}</span>
+                )}
+              </div>
+              <div style={{ display: 'flex', flexDirection: 'column' }}>
+                <span style={{ fontSize: title.length > 40 ? 56 : 72, fontWeight: 700, lineHeight: 1.1 }}>{title}</span>
+                <span style={{ fontSize: 30, marginTop: 20, opacity: 0.85 }}>{photographer}</span>
+              </div>
+            </div>
+          </div>
+        ),
+        OG_CARD_SIZE
+      )
+
+      body = Buffer.from(await card.arrayBuffer())
+
+      try {
+        await fs.mkdir(CACHE_DIR, { recursive: true })
+        await fs.writeFile(cachePath, body)
+      } catch (error) {
+        console.warn('⚠️ Could not write OG card cache:', error)
+      }
+    }
+
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        'Content-Type': 'image/png',
+        'Cache-Control': 'public, max-age=86400, stale-while-revalidate=604800',
+        ETag: `"${cacheKey}"`,
+      },
+    })
+  } catch (error) {
+    console.error('❌ OG card route error:', error)
+    return NextResponse.json({ error: 'Failed to render card' }, { status: 500 })
+  }
+}
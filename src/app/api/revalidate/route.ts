@@ -23,6 +23,15 @@ export async function POST(request: NextRequest) {
         revalidateTag('global_home')
         revalidateTag('global_settings')
       }
+
+      // Image URLs depend on the watermark settings
+      if (global === 'settings') {
+        revalidateTag('images')
+        revalidateTag('galleries')
+        revalidateTag('galleries-list-optimized')
+        revalidateTag('galleries-paginated')
+        revalidateTag('gallery-by-slug')
+      }
     }
 
     if (collection) {
@@ -42,6 +51,11 @@ export async function POST(request: NextRequest) {
         }
       }
       
+      if (collection === 'series') {
+        // Series pages and gallery breadcrumbs
+        revalidateTag('series')
+      }
+
       if (collection === 'blog-posts') {
         // Revalidate blog-related caches
         revalidateTag('blog-posts')
@@ -52,6 +66,10 @@ export async function POST(request: NextRequest) {
         }
       }
       
+      if (collection === 'redirects') {
+        revalidateTag('redirects')
+      }
+
       if (collection === 'images') {
         // Revalidate image caches and dependent galleries
         revalidateTag('images')
@@ -60,10 +78,12 @@ export async function POST(request: NextRequest) {
         revalidateTag('galleries-paginated')
         revalidateTag('gallery-by-slug')
         
-        // If image belongs to a specific gallery, invalidate that gallery
-        if (doc?.gallery && typeof doc.gallery === 'object' && doc.gallery.slug) {
-          revalidateTag(`gallery_${doc.gallery.slug}`)
-        }
+        // Invalidate every gallery the image belongs to
+        ;(doc?.galleries || []).forEach((gallery: any) => {
+          if (gallery && typeof gallery === 'object' && gallery.slug) {
+            revalidateTag(`gallery_${gallery.slug}`)
+          }
+        })
       }
     }
 
@@ -1,176 +1,61 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getPayloadClient } from '@/lib/api/payload-client'
+import { defaultLocale, isLocale } from '@/lib/i18n/config'
+import {
+  decodeSearchCursor,
+  hasSearchRangeFilters,
+  parseSearchRangeFilters,
+  SEARCH_DEFAULT_LIMIT,
+  SEARCH_MIN_QUERY_LENGTH,
+  searchContent,
+} from '@/lib/utils/search'
+import { getSearchVocabulary } from '@/lib/utils/search-suggestions'
+import { hasSearchFacetFilters, parseSearchFacetFilters } from '@/lib/utils/search-facets'
+import type { SearchTypeFilter } from '@/types/search'
+
+const TYPE_FILTERS: SearchTypeFilter[] = ['all', 'galleries', 'images', 'blog']
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams
     const query = searchParams.get('q')
-    const locale = searchParams.get('locale') || 'en'
-    const type = searchParams.get('type') // 'all', 'galleries', 'images', 'blog'
-    const limit = parseInt(searchParams.get('limit') || '20')
+    const locale = searchParams.get('locale')
+    const type = searchParams.get('type') as SearchTypeFilter | null // 'all', 'galleries', 'images', 'blog'
+    const cursorParam = searchParams.get('cursor')
+    // Image facets, e.g. ?style=wildlife&year=2024&year=2023
+    const filters = parseSearchFacetFilters(searchParams)
+    // Camera setting ranges, e.g. ?focalLengthMin=200&focalLengthMax=600&isoMax=800
+    const ranges = parseSearchRangeFilters(searchParams)
+    const isFiltered = hasSearchFacetFilters(filters) || hasSearchRangeFilters(ranges)
+    const hasQuery = (query?.trim().length || 0) >= SEARCH_MIN_QUERY_LENGTH
 
-    if (!query || query.trim().length < 2) {
+    // Filters alone are enough to browse images, e.g. from a species suggestion
+    if (!hasQuery && !isFiltered) {
       return NextResponse.json(
-        { error: 'Search query must be at least 2 characters' },
+        { error: `Search query must be at least ${SEARCH_MIN_QUERY_LENGTH} characters` },
         { status: 400 }
       )
     }
 
-    const payload = await getPayloadClient()
-    const searchTerm = query.trim()
-    
-    // Create search conditions for different content types
-    const createSearchCondition = (fields: string[]) => ({
-      or: fields.map(field => ({
-        [field]: {
-          contains: searchTerm
-        }
-      }))
-    })
-
-    const results: {
-      galleries: any[]
-      images: any[]
-      blogPosts: any[]
-      totalResults: number
-    } = {
-      galleries: [],
-      images: [],
-      blogPosts: [],
-      totalResults: 0
+    // Cursors continue after the last result of a previous response; pages jump by offset
+    const cursor = cursorParam ? decodeSearchCursor(cursorParam) : null
+    if (cursorParam && !cursor) {
+      return NextResponse.json({ error: 'Invalid search cursor' }, { status: 400 })
     }
 
-    // Search galleries if type is 'all' or 'galleries'
-    if (!type || type === 'all' || type === 'galleries') {
-      try {
-        const galleries = await payload.find({
-          collection: 'galleries',
-          where: {
-            and: [
-              { published: { equals: true } },
-              createSearchCondition([
-                'title',
-                'description',
-                'excerpt',
-                'tags'
-              ])
-            ]
-          },
-          limit,
-          depth: 2,
-          locale: locale as any
-        })
-
-        results.galleries = galleries.docs.map((gallery: any) => ({
-          id: gallery.id,
-          title: gallery.title,
-          slug: gallery.slug,
-          description: gallery.description,
-          excerpt: gallery.excerpt,
-          imageCount: gallery.imageCount || 0,
-          tags: gallery.tags,
-          coverImage: gallery.coverImage,
-          type: 'gallery'
-        }))
-      } catch (error) {
-        console.warn('Gallery search failed:', error)
-      }
-    }
-
-    // Search images if type is 'all' or 'images'
-    if (!type || type === 'all' || type === 'images') {
-      try {
-        const images = await payload.find({
-          collection: 'images',
-          where: {
-            and: [
-              { _status: { equals: 'published' } },
-              createSearchCondition([
-                'title',
-                'description',
-                'caption',
-                'altText',
-                'tags',
-                'location.name',
-                'location.city',
-                'location.region',
-                'location.country',
-                'photographyStyle'
-              ])
-            ]
-          },
-          limit,
-          depth: 2,
-          locale: locale as any
-        })
-
-        results.images = images.docs.map((image: any) => ({
-          id: image.id,
-          title: image.title,
-          slug: image.slug,
-          description: image.description,
-          alt: image.alt,
-          tags: image.tags,
-          imageUrls: image.imageUrls,
-          gallery: image.gallery,
-          photographyStyle: image.photographyStyle,
-          captureDate: image.captureDate,
-          type: 'image'
-        }))
-      } catch (error) {
-        console.warn('Image search failed:', error)
-      }
-    }
-
-    // Search blog posts if type is 'all' or 'blog'
-    if (!type || type === 'all' || type === 'blog') {
-      try {
-        const blogPosts = await payload.find({
-          collection: 'blog-posts',
-          where: {
-            and: [
-              { _status: { equals: 'published' } },
-              createSearchCondition([
-                'title',
-                'subtitle', 
-                'excerpt',
-                'tags'
-              ])
-            ]
-          },
-          limit,
-          depth: 2,
-          locale: locale as any
-        })
-
-        results.blogPosts = blogPosts.docs.map((post: any) => ({
-          id: post.id,
-          title: post.title,
-          slug: post.slug,
-          subtitle: post.subtitle,
-          excerpt: post.excerpt,
-          tags: post.tags,
-          featuredImage: post.featuredImage,
-          publishedAt: post.publishedAt || post.createdAt,
-          type: 'blog'
-        }))
-      } catch (error) {
-        console.warn('Blog search failed:', error)
-      }
-    }
-
-    results.totalResults = results.galleries.length + results.images.length + results.blogPosts.length
-
-    return NextResponse.json({
-      query: searchTerm,
-      locale,
-      results,
-      pagination: {
-        limit,
-        total: results.totalResults
-      }
+    const resolvedLocale = isLocale(locale) ? locale : defaultLocale
+    const response = await searchContent({
+      query: hasQuery ? query! : '',
+      locale: resolvedLocale,
+      type: type && TYPE_FILTERS.includes(type) ? type : 'all',
+      limit: parseInt(searchParams.get('limit') || '') || SEARCH_DEFAULT_LIMIT,
+      page: parseInt(searchParams.get('page') || '') || 1,
+      cursor,
+      filters,
+      ranges,
+      getVocabulary: () => getSearchVocabulary(resolvedLocale),
     })
 
+    return NextResponse.json(response)
   } catch (error) {
     console.error('Search API error:', error)
     return NextResponse.json(
@@ -178,4 +63,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { defaultLocale, isLocale } from '@/lib/i18n/config'
+import { getSearchSuggestions, SUGGEST_DEFAULT_LIMIT } from '@/lib/utils/search-suggestions'
+
+/**
+ * Prefix suggestions for the search dropdown, grouped by type.
+ * ?q=red f&locale=en&limit=4 (per group)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const locale = searchParams.get('locale')
+
+    const response = await getSearchSuggestions({
+      query: searchParams.get('q') || '',
+      locale: isLocale(locale) ? locale : defaultLocale,
+      limit: parseInt(searchParams.get('limit') || '') || SUGGEST_DEFAULT_LIMIT,
+    })
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Search suggest API error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Watermarked image derivatives
+ * Serves large/medium derivatives with the Settings watermark composited on,
+ * caching the rendered files on disk.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import fs from 'fs/promises'
+import path from 'path'
+import { getPayloadClient } from '@/lib/api/payload-client'
+import { isPrivateImage } from '@/lib/utils/gallery-membership'
+import { getGalleryAccessCookieName, verifyGalleryAccessToken, type PrivateGalleryDoc } from '@/lib/utils/private-gallery'
+import {
+  WATERMARKED_SIZES,
+  compositeWatermark,
+  fetchImageBuffer,
+  hashParts,
+  type WatermarkPosition,
+  type WatermarkedSize,
+} from '@/lib/utils/watermark'
+
+const CACHE_DIR = process.env.WATERMARK_CACHE_DIR || path.join(process.cwd(), '.next/cache/watermarks')
+
+function hasUnlockedGallery(request: NextRequest, galleries: (string | PrivateGalleryDoc)[] | null | undefined): boolean {
+  return (galleries || []).some((gallery) =>
+    typeof gallery === 'object' &&
+    verifyGalleryAccessToken(gallery, request.cookies.get(getGalleryAccessCookieName(gallery.id))?.value)
+  )
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; size: string }> }
+) {
+  const { id, size } = await params
+
+  if (!WATERMARKED_SIZES.includes(size as WatermarkedSize)) {
+    return NextResponse.json({ error: 'Invalid image size' }, { status: 400 })
+  }
+
+  try {
+    const payload = await getPayloadClient()
+    const { user } = await payload.auth({ headers: request.headers })
+    const isEditor = ['admin', 'editor', 'photographer'].includes((user as any)?.role || '')
+
+    // skipWatermark keeps the afterRead hook from rewriting the URLs we need to read
+    const image = await payload.findByID({
+      collection: 'images',
+      id,
+      depth: 1,
+      draft: isEditor,
+      // Only what the private gallery check needs
+      populate: { galleries: { slug: true, visibility: true, privateAccess: true } },
+      context: { skipWatermark: true },
+    }).catch(() => null)
+
+    if (!image || (!isEditor && image._status !== 'published')) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 })
+    }
+
+    // Images only in client galleries are served to clients who unlocked one of those galleries
+    const isPrivate = isPrivateImage(image)
+    if (!isEditor && isPrivate && !hasUnlockedGallery(request, image.galleries)) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 })
+    }
+
+    const urls = image.imageUrls
+    const sourceUrl = size === 'full'
+      ? (isEditor ? urls?.full : urls?.large || urls?.full)
+      : urls?.[size as 'large' | 'medium'] || urls?.large || urls?.full
+
+    if (!sourceUrl) {
+      return NextResponse.json({ error: 'Image file not found' }, { status: 404 })
+    }
+
+    const settings = await payload.findGlobal({
+      slug: 'settings',
+      depth: 1,
+      context: { skipWatermark: true },
+    })
+    const watermark = settings.photography?.watermark
+    const watermarkImage = typeof watermark?.image === 'object' ? watermark.image : null
+    const watermarkUrl = watermarkImage?.imageUrls?.full
+
+    // Editors see clean files; opted-out images and disabled watermarks serve the plain derivative
+    if (isEditor || !watermark?.enabled || !watermarkUrl || image.rights?.excludeFromWatermark) {
+      const response = NextResponse.redirect(new URL(sourceUrl, request.url))
+      response.headers.set('Cache-Control', isEditor || isPrivate ? 'private, no-store' : 'public, max-age=3600')
+      return response
+    }
+
+    const opacity = watermark.opacity ?? 50
+    const position = (watermark.position || 'bottom-right') as WatermarkPosition
+    const cacheKey = hashParts(id, size, sourceUrl, image.updatedAt, watermarkUrl, watermarkImage?.updatedAt, opacity, position)
+    const cachePath = path.join(CACHE_DIR, `${cacheKey}.jpg`)
+
+    if (request.headers.get('if-none-match') === `"${cacheKey}"`) {
+      return new NextResponse(null, { status: 304 })
+    }
+
+    let body = await fs.readFile(cachePath).catch(() => null)
+
+    if (!body) {
+      const [photo, mark] = await Promise.all([
+        fetchImageBuffer(sourceUrl),
+        fetchImageBuffer(watermarkUrl),
+      ])
+
+      if (!photo || !mark) {
+        console.error('❌ Watermark source files could not be loaded:', { sourceUrl, watermarkUrl })
+        return NextResponse.json({ error: 'Image file not found' }, { status: 404 })
+      }
+
+      body = await compositeWatermark(photo, mark, { opacity, position })
+
+      try {
+        await fs.mkdir(CACHE_DIR, { recursive: true })
+        await fs.writeFile(cachePath, body)
+      } catch (error) {
+        console.warn('⚠️ Could not write watermark cache:', error)
+      }
+    }
+
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        'Content-Type': 'image/jpeg',
+        'Cache-Control': isPrivate ? 'private, max-age=3600' : 'public, max-age=86400, stale-while-revalidate=604800',
+        ETag: `"${cacheKey}"`,
+      },
+    })
+  } catch (error) {
+    console.error('❌ Watermark route error:', error)
+    return NextResponse.json({ error: 'Failed to serve image' }, { status: 500 })
+  }
+}
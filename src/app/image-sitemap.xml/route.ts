@@ -0,0 +1,32 @@
+/**
+ * Image sitemap entry point
+ * Serves the image sitemap directly, or a sitemap index once it needs more than one file
+ */
+
+import { NextResponse } from 'next/server'
+import {
+  getImageSitemapCount,
+  getImageSitemapEntries,
+  getImageSitemapUrl,
+  renderImageSitemap,
+  renderSitemapIndex,
+} from '@/lib/utils/image-sitemap'
+
+export const revalidate = 3600
+
+export async function GET() {
+  try {
+    const count = await getImageSitemapCount()
+
+    const xml = count > 1
+      ? renderSitemapIndex(Array.from({ length: count }, (_, index) => getImageSitemapUrl(index + 1)))
+      : renderImageSitemap(await getImageSitemapEntries(1))
+
+    return new NextResponse(xml, {
+      headers: { 'Content-Type': 'application/xml; charset=utf-8' },
+    })
+  } catch (error) {
+    console.error('❌ Error generating image sitemap:', error)
+    return new NextResponse('Failed to generate image sitemap', { status: 500 })
+  }
+}
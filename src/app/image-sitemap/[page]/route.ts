@@ -0,0 +1,31 @@
+/**
+ * Paged image sitemap files (/image-sitemap/2.xml), listed by the image sitemap index
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getImageSitemapCount, getImageSitemapEntries, renderImageSitemap } from '@/lib/utils/image-sitemap'
+
+export const revalidate = 3600
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ page: string }> }
+) {
+  const { page: pageParam } = await params
+  const match = pageParam.match(/^(\d+)\.xml$/)
+  const page = match ? Number(match[1]) : 0
+
+  try {
+    if (page < 1 || page > await getImageSitemapCount()) {
+      return new NextResponse('Not Found', { status: 404 })
+    }
+
+    const xml = renderImageSitemap(await getImageSitemapEntries(page))
+    return new NextResponse(xml, {
+      headers: { 'Content-Type': 'application/xml; charset=utf-8' },
+    })
+  } catch (error) {
+    console.error('❌ Error generating image sitemap page:', error)
+    return new NextResponse('Failed to generate image sitemap', { status: 500 })
+  }
+}
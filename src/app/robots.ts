@@ -20,7 +20,7 @@ export default async function robots(): Promise<MetadataRoute.Robots> {
           userAgent: '*',
           disallow: '/',
         },
-        sitemap: `${baseUrl}/sitemap.xml`,
+        sitemap: [`${baseUrl}/sitemap.xml`, `${baseUrl}/image-sitemap.xml`],
       }
     }
     
@@ -60,7 +60,7 @@ export default async function robots(): Promise<MetadataRoute.Robots> {
           allow: '/',
           disallow: ['/admin', '/api']
         },
-        sitemap: `${baseUrl}/sitemap.xml`,
+        sitemap: [`${baseUrl}/sitemap.xml`, `${baseUrl}/image-sitemap.xml`],
       }
     }
     
@@ -98,7 +98,7 @@ export default async function robots(): Promise<MetadataRoute.Robots> {
           disallow: '/',
         },
       ],
-      sitemap: `${baseUrl}/sitemap.xml`,
+      sitemap: [`${baseUrl}/sitemap.xml`, `${baseUrl}/image-sitemap.xml`],
     }
     
   } catch (error) {
@@ -111,7 +111,7 @@ export default async function robots(): Promise<MetadataRoute.Robots> {
         allow: '/',
         disallow: ['/admin', '/api'],
       },
-      sitemap: `${baseUrl}/sitemap.xml`,
+      sitemap: [`${baseUrl}/sitemap.xml`, `${baseUrl}/image-sitemap.xml`],
     }
   }
 }
\ No newline at end of file
@@ -1,6 +1,10 @@
 import { MetadataRoute } from 'next'
 import { getPayloadClient } from '@/lib/api/payload-client'
+import { getSeriesList } from '@/lib/api/api-client'
 import { SITE_CONFIG } from '@/config/site.config'
+import { locales } from '@/lib/i18n/config'
+import { LISTED_GALLERY_WHERE } from '@/lib/utils/gallery-membership'
+import { getLanguageAlternates } from '@/lib/utils/localization'
 
 /**
  * Enhanced sitemap generation with SEO optimizations
@@ -18,19 +22,19 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     '/about',
     '/galleries', 
     '/journal',
+    '/map',
     '/terms',
     '/privacy',
     '/image-rights'
   ]
   
-  const locales = ['en']
-  
   // SEO-optimized page priorities and frequencies
   const pageConfig: Record<string, { priority: number; frequency: any }> = {
     '': { priority: 1.0, frequency: 'weekly' },
     '/about': { priority: 0.9, frequency: 'monthly' },
     '/galleries': { priority: 0.9, frequency: 'weekly' },
     '/journal': { priority: 0.8, frequency: 'weekly' },
+    '/map': { priority: 0.7, frequency: 'weekly' },
     '/terms': { priority: 0.3, frequency: 'yearly' },
     '/privacy': { priority: 0.3, frequency: 'yearly' },
     '/image-rights': { priority: 0.3, frequency: 'yearly' },
@@ -49,22 +53,24 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
         changeFrequency: config.frequency,
         priority: config.priority,
         alternates: {
-          languages: {
-            en: `${baseUrl}/en${page}`,
-          }
+          languages: getLanguageAlternates(page)
         }
       })
     }
   }
   
   try {
-    // Get all galleries
+    // Listed galleries only, by the same rule as the gallery pages
     const galleries = await payload.find({
       collection: 'galleries',
+      where: LISTED_GALLERY_WHERE,
       limit: 1000,
       sort: '-createdAt'
     })
     
+    // Listed series only: series without public galleries have no page
+    const series = await getSeriesList()
+    
     // Get all blog posts
     const blogPosts = await payload.find({
       collection: 'blog-posts',
@@ -82,9 +88,24 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
           changeFrequency: 'weekly',
           priority: 0.8,
           alternates: {
-            languages: {
-              en: `${baseUrl}/en/galleries/${gallery.slug}`,
-            }
+            languages: getLanguageAlternates(`/galleries/${gallery.slug}`)
+          }
+        })
+      }
+    }
+    
+    // Series URLs
+    const seriesUrls: MetadataRoute.Sitemap = []
+    for (const item of series) {
+      if (item.seo?.noIndex) continue
+      for (const locale of locales) {
+        seriesUrls.push({
+          url: `${baseUrl}/${locale}/series/${item.slug}`,
+          lastModified: new Date(item.updatedAt),
+          changeFrequency: 'weekly',
+          priority: 0.8,
+          alternates: {
+            languages: getLanguageAlternates(`/series/${item.slug}`)
           }
         })
       }
@@ -100,15 +121,13 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
           changeFrequency: 'monthly',
           priority: 0.7,
           alternates: {
-            languages: {
-              en: `${baseUrl}/en/journal/${post.slug}`,
-            }
+            languages: getLanguageAlternates(`/journal/${post.slug}`)
           }
         })
       }
     }
     
-    return [...staticUrls, ...galleryUrls, ...blogUrls]
+    return [...staticUrls, ...seriesUrls, ...galleryUrls, ...blogUrls]
     
   } catch (error) {
     console.error('Error generating sitemap:', error)
@@ -0,0 +1,58 @@
+'use client'
+
+import React, { useCallback, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast, useDocumentInfo } from '@payloadcms/ui'
+
+export const CreateGearButton: React.FC = () => {
+  const { id } = useDocumentInfo()
+  const router = useRouter()
+  const [loading, setLoading] = useState(false)
+
+  const handleClick = useCallback(
+    async (e: React.MouseEvent<HTMLButtonElement>) => {
+      e.preventDefault()
+
+      if (loading) return
+
+      setLoading(true)
+
+      try {
+        const res = await fetch(`/api/gear-review/${id}/create-gear`, {
+          method: 'POST',
+          credentials: 'include',
+        })
+        const result = await res.json()
+
+        if (!res.ok) {
+          toast.error(result.error || 'An error occurred while creating gear.')
+          return
+        }
+
+        toast.success('Gear created and linked.')
+        router.refresh()
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err)
+        toast.error(`An error occurred: ${error}`)
+      } finally {
+        setLoading(false)
+      }
+    },
+    [id, loading, router],
+  )
+
+  if (!id) return null
+
+  return (
+    <div className="field-type" style={{ marginBottom: '1rem' }}>
+      <button
+        type="button"
+        className="btn btn--style-secondary btn--size-small"
+        onClick={handleClick}
+        disabled={loading}
+      >
+        {loading ? 'Creating…' : 'Create new gear from this identifier'}
+      </button>
+    </div>
+  )
+}
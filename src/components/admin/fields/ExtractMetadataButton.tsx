@@ -0,0 +1,62 @@
+'use client'
+
+import React, { useCallback, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast, useDocumentInfo } from '@payloadcms/ui'
+
+export const ExtractMetadataButton: React.FC = () => {
+  const { id } = useDocumentInfo()
+  const router = useRouter()
+  const [loading, setLoading] = useState(false)
+
+  const handleClick = useCallback(
+    async (e: React.MouseEvent<HTMLButtonElement>) => {
+      e.preventDefault()
+
+      if (loading) {
+        toast.info('Extraction already in progress.')
+        return
+      }
+
+      setLoading(true)
+
+      try {
+        const res = await fetch(`/api/images/${id}/extract-metadata`, {
+          method: 'POST',
+          credentials: 'include',
+        })
+        const result = await res.json()
+
+        if (!res.ok) {
+          toast.error(result.error || 'An error occurred while extracting metadata.')
+          return
+        }
+
+        toast.success(`Metadata re-extracted (${result.extractedFields.length} values found).`)
+        router.refresh()
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err)
+        toast.error(`An error occurred: ${error}`)
+      } finally {
+        setLoading(false)
+      }
+    },
+    [id, loading, router],
+  )
+
+  // Only saved images have a file to read from
+  if (!id) return null
+
+  return (
+    <div className="field-type" style={{ marginBottom: '1rem' }}>
+      <button
+        type="button"
+        className="btn btn--style-secondary btn--size-small"
+        onClick={handleClick}
+        disabled={loading}
+      >
+        {loading ? 'Extracting…' : 'Re-extract embedded metadata'}
+      </button>
+    </div>
+  )
+}
@@ -66,7 +66,7 @@ export const KeywordField: React.FC<KeywordFieldProps> = ({
   const title = useFormFields(([fields]) => fields.title?.value)
   const description = useFormFields(([fields]) => fields.description?.value)
   const locationName = useFormFields(([fields]) => fields.location?.name?.value)
-  const gallery = useFormFields(([fields]) => fields.gallery?.value)
+  const galleries = useFormFields(([fields]) => fields.galleries?.value)
 
   // Generate smart suggestions based on form data
   const generateSuggestions = useCallback(() => {
@@ -0,0 +1,57 @@
+'use client'
+
+import React, { useCallback, useState } from 'react'
+import { toast, useDocumentInfo } from '@payloadcms/ui'
+
+export const ProofingExportButton: React.FC = () => {
+  const { id } = useDocumentInfo()
+  const [loading, setLoading] = useState(false)
+
+  const handleCopy = useCallback(
+    async (e: React.MouseEvent<HTMLButtonElement>) => {
+      e.preventDefault()
+      if (loading) return
+
+      setLoading(true)
+      try {
+        const res = await fetch(`/api/proofing-selections/${id}/filenames?format=lightroom`, {
+          credentials: 'include',
+        })
+        if (!res.ok) throw new Error((await res.json().catch(() => ({}))).error || 'Request failed')
+
+        await navigator.clipboard.writeText(await res.text())
+        toast.success('Filenames copied. Paste them into the Lightroom filter bar (Text → Filename → Contains).')
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err)
+        toast.error(`An error occurred: ${error}`)
+      } finally {
+        setLoading(false)
+      }
+    },
+    [id, loading],
+  )
+
+  if (!id) return null
+
+  return (
+    <div className="field-type" style={{ marginBottom: '1rem' }}>
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <a
+          className="btn btn--style-secondary btn--size-small"
+          href={`/api/proofing-selections/${id}/filenames`}
+          download
+        >
+          Download filename list
+        </a>
+        <button
+          type="button"
+          className="btn btn--style-secondary btn--size-small"
+          onClick={handleCopy}
+          disabled={loading}
+        >
+          {loading ? 'Copying…' : 'Copy for Lightroom'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -11,10 +11,10 @@ interface Image {
   slug: string
   description?: string
   photographyStyle: string
-  gallery: {
+  galleries?: {
     id: string
     title: string
-  }
+  }[]
   imageUrls: {
     thumbnail?: string
     small?: string
@@ -141,7 +141,7 @@ export const SearchableImageField: React.FC<SearchableImageFieldProps> = ({
             <div>
               <div className="font-medium">{selectedImage.title}</div>
               <div className="text-sm text-gray-500">
-                {selectedImage.gallery?.title} • {selectedImage.photographyStyle}
+                {selectedImage.galleries?.[0]?.title} • {selectedImage.photographyStyle}
               </div>
             </div>
           </div>
@@ -176,7 +176,7 @@ export const SearchableImageField: React.FC<SearchableImageFieldProps> = ({
           <div className="flex-1">
             <div className="font-medium">{selectedImage.title}</div>
             <div className="text-sm text-gray-500">
-              {selectedImage.gallery?.title} • {selectedImage.photographyStyle}
+              {selectedImage.galleries?.[0]?.title} • {selectedImage.photographyStyle}
             </div>
           </div>
           <Button
@@ -238,7 +238,7 @@ export const SearchableImageField: React.FC<SearchableImageFieldProps> = ({
                     <div className="flex-1 min-w-0">
                       <div className="font-medium truncate">{image.title}</div>
                       <div className="text-sm text-gray-500 truncate">
-                        {image.gallery?.title} • {image.photographyStyle}
+                        {image.galleries?.[0]?.title} • {image.photographyStyle}
                       </div>
                     </div>
                   </button>
@@ -0,0 +1,103 @@
+'use client'
+
+import React, { useCallback, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast, useDocumentInfo, useFormFields } from '@payloadcms/ui'
+
+export const ShareLinkButton: React.FC = () => {
+  const { id } = useDocumentInfo()
+  const router = useRouter()
+  const expiryDays = useFormFields(([fields]) => fields['privateAccess.linkExpiryDays']?.value as number | undefined)
+  const [loading, setLoading] = useState(false)
+  const [link, setLink] = useState<{ url: string; expiresAt: string } | null>(null)
+
+  const post = useCallback(
+    async (action: 'share-link' | 'revoke-access', body?: Record<string, unknown>) => {
+      const res = await fetch(`/api/galleries/${id}/${action}`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body || {}),
+      })
+      const result = await res.json()
+      if (!res.ok) throw new Error(result.error || 'Request failed')
+      return result
+    },
+    [id],
+  )
+
+  const handleCreate = useCallback(
+    async (e: React.MouseEvent<HTMLButtonElement>) => {
+      e.preventDefault()
+      if (loading) return
+
+      setLoading(true)
+      try {
+        const result = await post('share-link', { days: expiryDays })
+        setLink({ url: result.url, expiresAt: result.expiresAt })
+        await navigator.clipboard?.writeText(result.url).catch(() => undefined)
+        toast.success('Share link created and copied to the clipboard.')
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err)
+        toast.error(`An error occurred: ${error}`)
+      } finally {
+        setLoading(false)
+      }
+    },
+    [expiryDays, loading, post],
+  )
+
+  const handleRevoke = useCallback(
+    async (e: React.MouseEvent<HTMLButtonElement>) => {
+      e.preventDefault()
+      if (loading || !window.confirm('Revoke every share link and unlock issued for this gallery?')) return
+
+      setLoading(true)
+      try {
+        await post('revoke-access')
+        setLink(null)
+        toast.success('All existing links have been revoked.')
+        router.refresh()
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err)
+        toast.error(`An error occurred: ${error}`)
+      } finally {
+        setLoading(false)
+      }
+    },
+    [loading, post, router],
+  )
+
+  if (!id) return null
+
+  return (
+    <div className="field-type" style={{ marginBottom: '1rem' }}>
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button
+          type="button"
+          className="btn btn--style-secondary btn--size-small"
+          onClick={handleCreate}
+          disabled={loading}
+        >
+          {loading ? 'Working…' : 'Create share link'}
+        </button>
+        <button
+          type="button"
+          className="btn btn--style-secondary btn--size-small"
+          onClick={handleRevoke}
+          disabled={loading}
+        >
+          Revoke all links
+        </button>
+      </div>
+      {link && (
+        <div style={{ marginTop: '0.5rem' }}>
+          <input type="text" readOnly value={link.url} onFocus={(e) => e.target.select()} style={{ width: '100%' }} />
+          <p style={{ marginTop: '0.25rem', fontSize: '0.8rem', opacity: 0.7 }}>
+            Expires {new Date(link.expiresAt).toLocaleString()}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+'use client'
+
+import { useEffect } from 'react'
+
+type UsageEvent = 'view' | 'download'
+type UsageCollection = 'images' | 'blog-posts'
+
+const SESSION_KEY = 'usage-session'
+
+// Random per-tab session ID; sessionStorage clears when the tab closes
+function getSessionId(): string | undefined {
+  try {
+    let sessionId = sessionStorage.getItem(SESSION_KEY)
+    if (!sessionId) {
+      sessionId = crypto.randomUUID()
+      sessionStorage.setItem(SESSION_KEY, sessionId)
+    }
+    return sessionId
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Report a view or download to the first-party usage counter.
+ * Skips events already sent in this session; the server de-duplicates too.
+ */
+export function trackUsage(event: UsageEvent, collection: UsageCollection, id: string | undefined) {
+  if (typeof window === 'undefined' || !id) return
+
+  const sentKey = `${SESSION_KEY}:${event}:${collection}:${id}`
+  try {
+    if (sessionStorage.getItem(sentKey)) return
+    sessionStorage.setItem(sentKey, '1')
+  } catch {
+    // Storage can be unavailable in private modes; the server still de-duplicates
+  }
+
+  const body = JSON.stringify({ event, collection, id, sessionId: getSessionId() })
+
+  // sendBeacon survives navigation away from the page
+  if (navigator.sendBeacon?.('/api/analytics/usage', body)) return
+
+  fetch('/api/analytics/usage', { method: 'POST', body, keepalive: true }).catch(() => {
+    // Counting is best-effort
+  })
+}
+
+interface UsageTrackerProps {
+  collection: UsageCollection
+  id: string
+}
+
+// Counts a view of the page's document once it renders in the browser
+export default function UsageTracker({ collection, id }: UsageTrackerProps) {
+  useEffect(() => {
+    trackUsage('view', collection, id)
+  }, [collection, id])
+
+  return null
+}
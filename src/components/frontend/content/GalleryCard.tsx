@@ -0,0 +1,130 @@
+import Link from 'next/link'
+import OptimizedImage from '@/components/ui/base/OptimizedImage'
+
+interface GalleryCardProps {
+  href: string
+  title: string
+  description?: string
+  coverSrc?: string | null
+  // Small label in the top-left corner, e.g. "Featured"
+  badge?: string
+  countLabel: string
+  ctaLabel: string
+  tags?: string[]
+  eager?: boolean
+}
+
+/**
+ * Large immersive card used for galleries and series on listing pages
+ */
+export default function GalleryCard({
+  href,
+  title,
+  description,
+  coverSrc,
+  badge,
+  countLabel,
+  ctaLabel,
+  tags,
+  eager = false,
+}: GalleryCardProps) {
+  return (
+    <Link href={href} className="group block">
+      <article className="relative overflow-hidden">
+        {/* Large immersive image */}
+        <div className="aspect-square md:aspect-[4/3] bg-slate-800 dark:bg-slate-200 overflow-hidden relative rounded-3xl shadow-xl group-hover:shadow-2xl transition-all duration-700">
+          <div className="absolute inset-0 bg-black/5 group-hover:bg-black/10 transition-all duration-700"></div>
+
+          {coverSrc ? (
+            <>
+              <OptimizedImage
+                src={coverSrc}
+                alt={title}
+                className="w-full h-full object-cover group-hover:scale-[1.02] transition-transform duration-700"
+                loading={eager ? 'eager' : 'lazy'}
+              />
+              {/* Always visible gradient for text readability */}
+              <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent"></div>
+              {/* Enhanced gradient on hover */}
+              <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-700" />
+            </>
+          ) : (
+            <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+              <div className="text-center">
+                <div className="w-20 h-20 mx-auto mb-4 opacity-30">
+                  <svg fill="currentColor" viewBox="0 0 24 24">
+                    <path d="M4 4h16v16H4V4zm2 2v12h12V6H6zm3 3l2.5 3.5L15 8.5l3 4.5H6l3-4z"/>
+                  </svg>
+                </div>
+                <p className="text-lg font-medium">{title}</p>
+              </div>
+            </div>
+          )}
+
+          {/* Badge - subtle */}
+          {badge && (
+            <div className="absolute top-6 left-6">
+              <span className="px-3 py-1.5 bg-white/90 text-foreground text-xs font-medium rounded-full backdrop-blur-sm">
+                {badge}
+              </span>
+            </div>
+          )}
+
+          {/* Default content - visible on load */}
+          <div className="absolute bottom-0 left-0 right-0 p-6 lg:p-8 opacity-100 group-hover:opacity-0 transition-opacity duration-500">
+            <div className="text-white">
+              <h3 className="font-serif text-xl lg:text-2xl font-bold mb-2 drop-shadow-xl">
+                {title}
+              </h3>
+              <div className="flex items-center justify-between">
+                <span className="text-white/80 text-sm drop-shadow-lg">
+                  {countLabel}
+                </span>
+              </div>
+            </div>
+          </div>
+
+          {/* Enhanced content on hover - replaces default content */}
+          <div className="absolute bottom-0 left-0 right-0 p-6 lg:p-8 transform translate-y-4 opacity-0 group-hover:translate-y-0 group-hover:opacity-100 transition-all duration-500">
+            <div className="text-white">
+              <h3 className="font-serif text-xl lg:text-2xl font-bold mb-3 drop-shadow-xl">
+                {title}
+              </h3>
+              <p className="text-white/90 text-sm lg:text-base drop-shadow-lg line-clamp-2 mb-4">
+                {description}
+              </p>
+
+              {/* Enhanced meta info on hover */}
+              <div className="flex items-center justify-between">
+                <span className="text-white/80 text-sm drop-shadow-lg">
+                  {countLabel}
+                </span>
+
+                <div className="flex items-center text-white/90 text-sm font-medium drop-shadow-lg">
+                  {ctaLabel}
+                  <svg className="w-4 h-4 ml-2 transform group-hover:translate-x-1 transition-transform duration-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8l4 4m0 0l-4 4m4-4H3" />
+                  </svg>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Clean minimal tags only - no title duplication */}
+        <div className="pt-4">
+          <div className="flex flex-wrap gap-2">
+            {tags && Array.isArray(tags) && tags.slice(0, 3).map((tag) => (
+              <span
+                key={tag}
+                className="text-xs text-muted-foreground bg-muted/50 px-2 py-1 rounded-full"
+              >
+                {tag}
+              </span>
+            ))}
+          </div>
+        </div>
+      </article>
+    </Link>
+  )
+}
@@ -0,0 +1,41 @@
+import Link from 'next/link'
+import { MapPin } from 'lucide-react'
+import OptimizedImage from '@/components/ui/base/OptimizedImage'
+
+interface MapImageCardProps {
+  href: string
+  title: string
+  thumbnail?: string
+  // Place name or distance shown under the title
+  detail?: string
+}
+
+/**
+ * Compact image card used by the map explorer and the nearby photos panel
+ */
+export default function MapImageCard({ href, title, thumbnail, detail }: MapImageCardProps) {
+  return (
+    <Link href={href} className="group block">
+      <div className="aspect-[4/3] bg-muted rounded-xl overflow-hidden">
+        {thumbnail ? (
+          <OptimizedImage
+            src={thumbnail}
+            alt={title}
+            loading="lazy"
+            className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+            <MapPin className="w-5 h-5" />
+          </div>
+        )}
+      </div>
+      <h3 className="mt-2 text-sm font-medium text-foreground line-clamp-1 group-hover:text-primary transition-colors">
+        {title}
+      </h3>
+      {detail && (
+        <p className="text-xs text-muted-foreground line-clamp-1">{detail}</p>
+      )}
+    </Link>
+  )
+}
@@ -1,59 +1,44 @@
 'use client'
 
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useState, useEffect, useRef, type KeyboardEvent } from 'react'
 import { useRouter } from 'next/navigation'
 import { useLocale, useTranslations } from 'next-intl'
 import Link from 'next/link'
-import { Search, X, Grid, Camera, BookOpen, ChevronRight } from 'lucide-react'
+import { Search, X, Grid, Camera, BookOpen, ChevronRight, Tag, MapPin, PawPrint, Aperture } from 'lucide-react'
 import { Button } from '@/components/ui/base/button'
 import { Input } from '@/components/ui/base/input'
-import { Badge } from '@/components/ui/base/badge'
 import { cn } from '@/lib/utils'
+import type { HighlightSegment, SearchSuggestion, SearchSuggestionGroup, SearchSuggestionType, SearchSuggestResponse } from '@/types/search'
+import HighlightedText from '@/components/frontend/features/HighlightedText'
 
-interface SearchResult {
-  id: string
-  title: { en: string; ta: string }
-  slug: string
-  description?: { en: string; ta: string }
-  excerpt?: { en: string; ta: string }
-  type: 'gallery' | 'image' | 'blog'
-  imageUrls?: {
-    thumbnail?: string
-    medium?: string
-    full?: string
-  }
-  coverImage?: any
-  featuredImage?: any
-  gallery?: {
-    title: { en: string; ta: string }
-    slug: string
-  }
-}
+// Suggestions shown per group
+const GROUP_LIMIT = 4
+
+const LISTBOX_ID = 'header-search-suggestions'
 
-interface SearchResults {
-  galleries: SearchResult[]
-  images: SearchResult[]
-  blogPosts: SearchResult[]
-  totalResults: number
+const suggestionIcons: Record<SearchSuggestionType, typeof Search> = {
+  gallery: Grid,
+  image: Camera,
+  blog: BookOpen,
+  tag: Tag,
+  location: MapPin,
+  species: PawPrint,
+  gear: Aperture,
 }
 
-// Helper function for getting localized values
-function getLocalizedValue<T>(value: { en: T; ta: T } | T | undefined, locale: 'en'): T | '' {
-  if (!value) return '' as T
-  
-  // If it's already a plain string/value, return it directly
-  if (typeof value === 'string' || typeof value !== 'object') {
-    return value as T
-  }
-  
-  // If it's a localized object, handle accordingly
-  if (typeof value === 'object' && 'en' in value && 'ta' in value) {
-    const localized = value[locale]
-    const fallback = value.en
-    return localized || fallback || '' as T
-  }
-  
-  return value as T || '' as T
+// Mark where a word of the label starts with the query, as the suggestion index matched it
+function highlightPrefix(label: string, query: string): HighlightSegment[] {
+  const escaped = query.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const match = escaped && new RegExp(`(^|[\\s\\-/(&,.])(${escaped})`, 'i').exec(label)
+  if (!match) return [{ text: label, match: false }]
+
+  const start = match.index + match[1].length
+  const end = start + match[2].length
+  return [
+    { text: label.slice(0, start), match: false },
+    { text: label.slice(start, end), match: true },
+    { text: label.slice(end), match: false },
+  ].filter((segment) => segment.text)
 }
 
 interface HeaderSearchProps {
@@ -66,73 +51,60 @@ export default function HeaderSearch({ className }: HeaderSearchProps) {
   const locale = useLocale()
   const [isOpen, setIsOpen] = useState(false)
   const [searchTerm, setSearchTerm] = useState('')
-  const [results, setResults] = useState<SearchResults>({
-    galleries: [],
-    images: [],
-    blogPosts: [],
-    totalResults: 0
-  })
-  const [isSearching, setIsSearching] = useState(false)
+  const [groups, setGroups] = useState<SearchSuggestionGroup[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  // Highlighted option: a suggestion, or the "search for" row after them; -1 is none
+  const [activeIndex, setActiveIndex] = useState(-1)
   const inputRef = useRef<HTMLInputElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
 
-  // Debounced search function
-  const performSearch = useCallback(
-    async (query: string) => {
-      if (!query.trim() || query.length < 2) {
-        setResults({
-          galleries: [],
-          images: [],
-          blogPosts: [],
-          totalResults: 0
-        })
-        return
-      }
+  const hasQuery = searchTerm.trim().length >= 2
+  const suggestions = groups.flatMap((group) => group.suggestions)
+  // The last option always runs the full search
+  const optionCount = hasQuery ? suggestions.length + 1 : 0
 
-      setIsSearching(true)
-      
+  // Suggestions are answered from an in-memory index, so a short debounce is enough
+  useEffect(() => {
+    setActiveIndex(-1)
+    if (!hasQuery) {
+      setGroups([])
+      return
+    }
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(async () => {
+      setIsLoading(true)
       try {
         const searchParams = new URLSearchParams({
-          q: query,
+          q: searchTerm,
           locale,
-          limit: '8' // Fewer results for header dropdown
+          limit: String(GROUP_LIMIT)
         })
 
-        const response = await fetch(`/api/search?${searchParams}`)
+        const response = await fetch(`/api/search/suggest?${searchParams}`, { signal: controller.signal })
         if (response.ok) {
-          const data = await response.json()
-          setResults(data.results)
+          const data: SearchSuggestResponse = await response.json()
+          setGroups(data.groups)
         } else {
-          setResults({
-            galleries: [],
-            images: [],
-            blogPosts: [],
-            totalResults: 0
-          })
+          setGroups([])
         }
       } catch (error) {
-        console.error('Header search error:', error)
-        setResults({
-          galleries: [],
-          images: [],
-          blogPosts: [],
-          totalResults: 0
-        })
+        if (!controller.signal.aborted) {
+          console.error('Header search error:', error)
+          setGroups([])
+        }
       } finally {
-        setIsSearching(false)
+        if (!controller.signal.aborted) {
+          setIsLoading(false)
+        }
       }
-    },
-    [locale]
-  )
-
-  // Debounce search
-  useEffect(() => {
-    const timeoutId = setTimeout(() => {
-      performSearch(searchTerm)
-    }, 300)
+    }, 100)
 
-    return () => clearTimeout(timeoutId)
-  }, [searchTerm, performSearch])
+    return () => {
+      clearTimeout(timeoutId)
+      controller.abort()
+    }
+  }, [searchTerm, hasQuery, locale])
 
   // Handle click outside to close
   useEffect(() => {
@@ -153,14 +125,14 @@ export default function HeaderSearch({ className }: HeaderSearchProps) {
 
   // Handle keyboard shortcuts
   useEffect(() => {
-    function handleKeyDown(event: KeyboardEvent) {
+    function handleKeyDown(event: globalThis.KeyboardEvent) {
       // CMD/CTRL + K to open search
       if ((event.metaKey || event.ctrlKey) && event.key === 'k') {
         event.preventDefault()
         setIsOpen(true)
         inputRef.current?.focus()
       }
-      
+
       // Escape to close
       if (event.key === 'Escape' && isOpen) {
         setIsOpen(false)
@@ -171,62 +143,44 @@ export default function HeaderSearch({ className }: HeaderSearchProps) {
     return () => document.removeEventListener('keydown', handleKeyDown)
   }, [isOpen])
 
-  const getResultUrl = (result: SearchResult) => {
-    switch (result.type) {
-      case 'gallery':
-        return `/${locale}/galleries/${result.slug}`
-      case 'image':
-        return `/${locale}/galleries/${result.gallery?.slug || 'gallery'}/images/${result.slug}`
-      case 'blog':
-        return `/${locale}/journal/${result.slug}`
-      default:
-        return '#'
-    }
+  const closeAndNavigate = (href: string) => {
+    setIsOpen(false)
+    setSearchTerm('')
+    router.push(href)
   }
 
-  const getResultIcon = (type: string) => {
-    switch (type) {
-      case 'gallery':
-        return <Grid className="w-3 h-3" />
-      case 'image':
-        return <Camera className="w-3 h-3" />
-      case 'blog':
-        return <BookOpen className="w-3 h-3" />
-      default:
-        return null
-    }
+  const handleSuggestionClick = (suggestion: SearchSuggestion) => {
+    closeAndNavigate(`/${locale}${suggestion.path}`)
   }
 
-  const getResultImage = (result: SearchResult) => {
-    if (result.imageUrls?.thumbnail) {
-      return result.imageUrls.thumbnail
-    }
-    if (result.coverImage?.imageUrls?.thumbnail) {
-      return result.coverImage.imageUrls.thumbnail
-    }
-    if (result.featuredImage?.imageUrls?.thumbnail) {
-      return result.featuredImage.imageUrls.thumbnail
-    }
-    return null
+  const handleViewAllResults = () => {
+    closeAndNavigate(`/${locale}/search?q=${encodeURIComponent(searchTerm.trim())}`)
   }
 
-  const handleResultClick = (result: SearchResult) => {
-    setIsOpen(false)
-    setSearchTerm('')
-    router.push(getResultUrl(result))
+  // Arrow keys move through the options, wrapping around; Enter opens the highlighted one
+  const handleInputKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      if (!optionCount) return
+      event.preventDefault()
+      const step = event.key === 'ArrowDown' ? 1 : -1
+      setActiveIndex((current) => current === -1
+        ? (step > 0 ? 0 : optionCount - 1)
+        : (current + step + optionCount) % optionCount)
+    } else if (event.key === 'Enter' && hasQuery) {
+      event.preventDefault()
+      const suggestion = suggestions[activeIndex]
+      if (suggestion) {
+        handleSuggestionClick(suggestion)
+      } else {
+        handleViewAllResults()
+      }
+    }
   }
 
-  const handleViewAllResults = () => {
-    setIsOpen(false)
-    router.push(`/${locale}/search?q=${encodeURIComponent(searchTerm)}`)
-  }
+  const getOptionId = (index: number) => `${LISTBOX_ID}-${index}`
 
-  // Get top results for quick display (2 from each category)
-  const topResults = [
-    ...results.galleries.slice(0, 2),
-    ...results.images.slice(0, 2),
-    ...results.blogPosts.slice(0, 2)
-  ].slice(0, 6)
+  // Running option index across the groups
+  let optionIndex = 0
 
   return (
     <div className={cn("relative", className)} ref={containerRef}>
@@ -248,11 +202,11 @@ export default function HeaderSearch({ className }: HeaderSearchProps) {
       {isOpen && (
         <>
           {/* Backdrop */}
-          <div 
-            className="fixed inset-0 bg-black/20 backdrop-blur-sm z-40" 
+          <div
+            className="fixed inset-0 bg-black/20 backdrop-blur-sm z-40"
             onClick={() => setIsOpen(false)}
           />
-          
+
           {/* Search Dropdown */}
           <div className="absolute top-full right-0 mt-2 w-80 bg-background border border-border rounded-xl shadow-xl z-50 overflow-hidden">
             {/* Search Input */}
@@ -262,9 +216,15 @@ export default function HeaderSearch({ className }: HeaderSearchProps) {
                 <Input
                   ref={inputRef}
                   type="text"
+                  role="combobox"
+                  aria-expanded={optionCount > 0}
+                  aria-controls={LISTBOX_ID}
+                  aria-autocomplete="list"
+                  aria-activedescendant={activeIndex >= 0 ? getOptionId(activeIndex) : undefined}
                   placeholder={t('search.shortPlaceholder')}
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
+                  onKeyDown={handleInputKeyDown}
                   className="pl-10 pr-10 border-0 focus:ring-0 bg-secondary/50"
                 />
                 {searchTerm && (
@@ -278,102 +238,90 @@ export default function HeaderSearch({ className }: HeaderSearchProps) {
                   </Button>
                 )}
               </div>
-              
+
               {/* Quick tip */}
               <div className="mt-2 text-xs text-muted-foreground text-center">
-                {locale === 'ta' ? 'Cmd+K செய்து திறக்கவும்' : 'Press Cmd+K to open'}
+                {t('search.quickSearchTip')}
               </div>
             </div>
 
-            {/* Search Results */}
+            {/* Suggestions */}
             <div className="max-h-80 overflow-y-auto">
-              {isSearching ? (
-                <div className="p-4 text-center text-muted-foreground">
-                  <div className="animate-spin w-4 h-4 border-2 border-primary border-t-transparent rounded-full mx-auto mb-2"></div>
-                  <span className="text-sm">{locale === 'ta' ? 'தேடப்படுகிறது...' : 'Searching...'}</span>
-                </div>
-              ) : topResults.length > 0 ? (
-                <div className="py-2">
-                  {topResults.map((result) => (
-                    <button
-                      key={result.id}
-                      className="w-full flex items-center gap-3 p-3 hover:bg-secondary/50 transition-colors text-left"
-                      onClick={() => handleResultClick(result)}
-                    >
-                      {/* Result Image */}
-                      <div className="w-10 h-10 bg-muted rounded flex-shrink-0 overflow-hidden">
-                        {getResultImage(result) ? (
-                          <img
-                            src={getResultImage(result)!}
-                            alt={getLocalizedValue(result.title, locale as 'en')}
-                            className="w-full h-full object-cover"
-                          />
-                        ) : (
-                          <div className="w-full h-full flex items-center justify-center text-muted-foreground">
-                            {getResultIcon(result.type)}
-                          </div>
-                        )}
+              {hasQuery ? (
+                <div id={LISTBOX_ID} role="listbox" aria-label={t('search.suggestionsLabel')} className="py-2">
+                  {groups.map((group) => (
+                    <div key={group.type} role="group" aria-label={t(`search.suggestionGroups.${group.type}`)}>
+                      <div className="px-3 pt-2 pb-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                        {t(`search.suggestionGroups.${group.type}`)}
                       </div>
-
-                      {/* Result Content */}
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center gap-2 mb-1">
-                          <h4 className="font-medium text-sm truncate">
-                            {getLocalizedValue(result.title, locale as 'en')}
-                          </h4>
-                          <Badge variant="secondary" className="text-xs flex-shrink-0">
-                            {getResultIcon(result.type)}
-                            <span className="ml-1">
-                              {result.type === 'gallery' ? (locale === 'ta' ? 'கேலரி' : 'Gallery') :
-                               result.type === 'image' ? (locale === 'ta' ? 'படம்' : 'Image') :
-                               (locale === 'ta' ? 'பதிவு' : 'Journal')}
+                      {group.suggestions.map((suggestion) => {
+                        const index = optionIndex++
+                        const Icon = suggestionIcons[suggestion.type]
+                        return (
+                          <div
+                            key={`${suggestion.type}-${suggestion.path}`}
+                            id={getOptionId(index)}
+                            role="option"
+                            aria-selected={index === activeIndex}
+                            className={cn(
+                              "flex items-center gap-3 px-3 py-2 text-sm cursor-pointer transition-colors",
+                              index === activeIndex && "bg-secondary/50"
+                            )}
+                            onMouseEnter={() => setActiveIndex(index)}
+                            onClick={() => handleSuggestionClick(suggestion)}
+                          >
+                            <Icon className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+                            <span className="flex-1 min-w-0 truncate">
+                              <HighlightedText segments={highlightPrefix(suggestion.label, searchTerm)} />
                             </span>
-                          </Badge>
-                        </div>
-                        <p className="text-xs text-muted-foreground truncate">
-                          {getLocalizedValue(result.excerpt || result.description, locale as 'en')}
-                        </p>
-                      </div>
-                    </button>
+                            {suggestion.count !== undefined && (
+                              <span className="text-xs text-muted-foreground">{suggestion.count}</span>
+                            )}
+                          </div>
+                        )
+                      })}
+                    </div>
                   ))}
-                  
-                  {/* View All Results */}
-                  {results.totalResults > topResults.length && (
-                    <div className="border-t border-border p-2">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        className="w-full justify-between"
-                        onClick={handleViewAllResults}
-                      >
-                        <span>
-                          {locale === 'ta' ? 
-                            `மேலும் ${results.totalResults - topResults.length} முடிவுகளைக் காண்க` :
-                            `View ${results.totalResults - topResults.length} more results`
-                          }
-                        </span>
-                        <ChevronRight className="w-4 h-4" />
-                      </Button>
+
+                  {!isLoading && groups.length === 0 && (
+                    <div className="px-3 py-2 text-sm text-muted-foreground">
+                      {t('search.noSuggestions')}
                     </div>
                   )}
-                </div>
-              ) : searchTerm.length >= 2 ? (
-                <div className="p-4 text-center text-muted-foreground">
-                  <span className="text-sm">
-                    {locale === 'ta' ? 'முடிவுகள் இல்லை' : 'No results found'}
-                  </span>
+
+                  {/* Full Search */}
+                  <div className={cn(groups.length > 0 && "border-t border-border mt-2 pt-2")}>
+                    <div
+                      id={getOptionId(suggestions.length)}
+                      role="option"
+                      aria-selected={activeIndex === suggestions.length}
+                      className={cn(
+                        "flex items-center justify-between gap-3 px-3 py-2 text-sm cursor-pointer transition-colors",
+                        activeIndex === suggestions.length && "bg-secondary/50"
+                      )}
+                      onMouseEnter={() => setActiveIndex(suggestions.length)}
+                      onClick={handleViewAllResults}
+                    >
+                      <span className="truncate">{t('search.searchFor', { query: searchTerm.trim() })}</span>
+                      {isLoading ? (
+                        <div className="animate-spin w-4 h-4 border-2 border-primary border-t-transparent rounded-full flex-shrink-0"></div>
+                      ) : (
+                        <ChevronRight className="w-4 h-4 flex-shrink-0" />
+                      )}
+                    </div>
+                  </div>
                 </div>
               ) : searchTerm.length > 0 ? (
                 <div className="p-4 text-center text-muted-foreground">
                   <span className="text-sm">
-                    {locale === 'ta' ? 'குறைந்தது 2 எழுத்துக்களை உள்ளிடவும்' : 'Type at least 2 characters'}
+                    {t('search.typeMoreCharacters')}
                   </span>
                 </div>
               ) : (
                 <div className="p-4 text-center text-muted-foreground">
                   <Search className="w-8 h-8 mx-auto mb-2 opacity-50" />
                   <p className="text-sm mb-2">
-                    {locale === 'ta' ? 'கேலரிகள், படங்கள், பதிவுகளைத் தேடுங்கள்' : 'Search galleries, images, and journal entries'}
+                    {t('search.dropdownHint')}
                   </p>
                   <Button
                     variant="ghost"
@@ -382,7 +330,7 @@ export default function HeaderSearch({ className }: HeaderSearchProps) {
                     onClick={() => setIsOpen(false)}
                   >
                     <Link href={`/${locale}/search`}>
-                      {locale === 'ta' ? 'மேம்பட்ட தேடல்' : 'Advanced Search'}
+                      {t('search.advancedSearch')}
                     </Link>
                   </Button>
                 </div>
@@ -393,4 +341,4 @@ export default function HeaderSearch({ className }: HeaderSearchProps) {
       )}
     </div>
   )
-}
\ No newline at end of file
+}
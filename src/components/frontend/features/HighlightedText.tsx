@@ -0,0 +1,26 @@
+import type { HighlightSegment } from '@/types/search'
+
+interface HighlightedTextProps {
+  segments: HighlightSegment[]
+  // Shown when there are no segments
+  fallback?: string
+}
+
+/**
+ * Render search highlight segments with the matched terms marked
+ */
+export default function HighlightedText({ segments, fallback = '' }: HighlightedTextProps) {
+  if (!segments.length) return <>{fallback}</>
+
+  return (
+    <>
+      {segments.map((segment, index) => segment.match ? (
+        <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      ))}
+    </>
+  )
+}
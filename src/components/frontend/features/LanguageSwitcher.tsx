@@ -121,7 +121,8 @@ export function CompactLanguageSwitcher({ isDarkMode }: LanguageSwitcherProps) {
 
   const handleLocaleChange = () => {
     const segments = pathname.split('/')
-    const newLocale = locale === 'en' ? 'ta' : 'en'
+    // Cycle through the enabled locales
+    const newLocale = locales[(locales.indexOf(locale) + 1) % locales.length]
     segments[1] = newLocale
     const newPath = segments.join('/')
     router.push(newPath)
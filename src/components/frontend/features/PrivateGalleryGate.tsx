@@ -0,0 +1,84 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTranslations } from 'next-intl'
+import { Lock } from 'lucide-react'
+import { Button } from '@/components/ui/base/button'
+import { Input } from '@/components/ui/base/input'
+import { Label } from '@/components/ui/base/label'
+
+interface PrivateGalleryGateProps {
+  slug: string
+  expired?: boolean
+}
+
+/**
+ * Password prompt shown in place of a private gallery until it is unlocked
+ */
+export default function PrivateGalleryGate({ slug, expired }: PrivateGalleryGateProps) {
+  const t = useTranslations('clientGallery')
+  const router = useRouter()
+  const [password, setPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!password || submitting) return
+
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/client-galleries/${slug}/access`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      })
+
+      if (res.ok) {
+        // The access cookie is set; re-render the page on the server
+        router.refresh()
+        return
+      }
+
+      const result = await res.json().catch(() => ({}))
+      setError(res.status === 401 ? t('incorrectPassword') : result.error || t('error'))
+    } catch {
+      setError(t('error'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-[70vh] flex items-center justify-center px-6 py-20">
+      <div className="w-full max-w-sm text-center">
+        <div className="w-12 h-12 mx-auto mb-6 rounded-full bg-muted flex items-center justify-center">
+          <Lock className="w-5 h-5 text-muted-foreground" />
+        </div>
+        <h1 className="font-serif text-3xl font-bold text-foreground mb-3">{t('title')}</h1>
+        <p className="text-muted-foreground mb-8">{expired ? t('expired') : t('description')}</p>
+
+        <form onSubmit={handleSubmit} className="space-y-4 text-left">
+          <div className="space-y-2">
+            <Label htmlFor="gallery-password">{t('passwordLabel')}</Label>
+            <Input
+              id="gallery-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoFocus
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button type="submit" className="w-full" disabled={!password || submitting}>
+            {submitting ? t('unlocking') : t('unlock')}
+          </Button>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,161 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { Heart } from 'lucide-react'
+import { Button } from '@/components/ui/base/button'
+import { Input } from '@/components/ui/base/input'
+import { Label } from '@/components/ui/base/label'
+import { Textarea } from '@/components/ui/base/textarea'
+
+interface ProofingSelectionBarProps {
+  gallerySlug: string
+  favorites: string[]
+  notes: Record<string, string>
+  submittedAt?: string
+  showFavoritesOnly: boolean
+  onToggleShowFavorites: () => void
+  onSubmitted: () => void
+}
+
+/**
+ * Sticky bar for client proofing: favorites count, favorites filter and selection submission
+ */
+export default function ProofingSelectionBar({
+  gallerySlug,
+  favorites,
+  notes,
+  submittedAt,
+  showFavoritesOnly,
+  onToggleShowFavorites,
+  onSubmitted,
+}: ProofingSelectionBarProps) {
+  const t = useTranslations('clientGallery.proofing')
+  const [formOpen, setFormOpen] = useState(false)
+  const [clientName, setClientName] = useState('')
+  const [clientEmail, setClientEmail] = useState('')
+  const [message, setMessage] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!clientName.trim() || submitting) return
+
+    setSubmitting(true)
+    setError(null)
+
+    // Favorites plus any other image the client left a note on
+    const imageIds = Array.from(new Set([...favorites, ...Object.keys(notes)]))
+    const items = imageIds.map((image) => ({
+      image,
+      favorite: favorites.includes(image),
+      note: notes[image] || undefined,
+    }))
+
+    try {
+      const res = await fetch(`/api/client-galleries/${gallerySlug}/selection`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ clientName, clientEmail, message, items }),
+      })
+
+      if (!res.ok) {
+        const result = await res.json().catch(() => ({}))
+        setError(result.error || t('error'))
+        return
+      }
+
+      setFormOpen(false)
+      onSubmitted()
+    } catch {
+      setError(t('error'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <>
+      <div className="sticky bottom-4 z-30 mt-12">
+        <div className="mx-auto max-w-3xl rounded-full border border-border bg-background/95 backdrop-blur shadow-xl px-4 py-3 flex items-center gap-3">
+          <Heart className={`w-5 h-5 shrink-0 ${favorites.length > 0 ? 'fill-red-500 text-red-500' : 'text-muted-foreground'}`} />
+          <p className="flex-1 min-w-0 text-sm text-foreground truncate">
+            {submittedAt ? t('submitted') : favorites.length > 0 ? t('favoritesCount', { count: favorites.length }) : t('hint')}
+          </p>
+          <Button variant="ghost" size="sm" onClick={onToggleShowFavorites} disabled={favorites.length === 0 && !showFavoritesOnly}>
+            {showFavoritesOnly ? t('showAll') : t('showFavorites')}
+          </Button>
+          <Button size="sm" onClick={() => setFormOpen(true)} disabled={favorites.length === 0}>
+            {t('submit')}
+          </Button>
+        </div>
+      </div>
+
+      {formOpen && (
+        <div
+          className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center px-6"
+          onClick={() => !submitting && setFormOpen(false)}
+        >
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="proofing-submit-title"
+            className="w-full max-w-md rounded-2xl bg-background p-6 shadow-2xl"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h2 id="proofing-submit-title" className="font-serif text-2xl font-bold text-foreground mb-2">
+              {t('submitTitle')}
+            </h2>
+            <p className="text-sm text-muted-foreground mb-6">
+              {t('submitDescription', { count: favorites.length })}
+            </p>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="proofing-name">{t('nameLabel')}</Label>
+                <Input
+                  id="proofing-name"
+                  value={clientName}
+                  onChange={(e) => setClientName(e.target.value)}
+                  maxLength={100}
+                  required
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="proofing-email">{t('emailLabel')}</Label>
+                <Input
+                  id="proofing-email"
+                  type="email"
+                  value={clientEmail}
+                  onChange={(e) => setClientEmail(e.target.value)}
+                  maxLength={200}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="proofing-message">{t('messageLabel')}</Label>
+                <Textarea
+                  id="proofing-message"
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  maxLength={2000}
+                  rows={3}
+                />
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <div className="flex justify-end gap-2 pt-2">
+                <Button type="button" variant="ghost" onClick={() => setFormOpen(false)} disabled={submitting}>
+                  {t('cancel')}
+                </Button>
+                <Button type="submit" disabled={!clientName.trim() || submitting}>
+                  {submitting ? t('sending') : t('send')}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
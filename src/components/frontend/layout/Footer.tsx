@@ -5,9 +5,10 @@ import { useLocale, useTranslations, useFormatter } from 'next-intl'
 import { useState, useEffect } from 'react'
 import { Instagram, Twitter, Facebook, Linkedin, Youtube, Camera, Palette, Globe } from 'lucide-react'
 import { getLocalizedValue } from '@/lib/utils/localization'
+import type { Locale } from '@/lib/i18n/config'
 
 // Client-side data fetchers
-async function fetchSettings(locale: 'en') {
+async function fetchSettings(locale: Locale) {
   try {
     const response = await fetch(`/api/globals/settings?locale=${locale}&depth=2`)
     if (!response.ok) throw new Error('Failed to fetch settings')
@@ -18,7 +19,7 @@ async function fetchSettings(locale: 'en') {
   }
 }
 
-async function fetchSiteMetadata(locale: 'en') {
+async function fetchSiteMetadata(locale: Locale) {
   try {
     const response = await fetch(`/api/globals/site-metadata?locale=${locale}&depth=2`)
     if (!response.ok) throw new Error('Failed to fetch site metadata')
@@ -41,8 +42,8 @@ export default function Footer() {
   useEffect(() => {
     const loadData = async () => {
       const [settingsData, metadataData] = await Promise.all([
-        fetchSettings(locale as 'en'),
-        fetchSiteMetadata(locale as 'en')
+        fetchSettings(locale),
+        fetchSiteMetadata(locale)
       ])
       setSettings(settingsData)
       setSiteMetadata(metadataData)
@@ -52,10 +53,10 @@ export default function Footer() {
   
   const currentYear = format.dateTime(new Date(), { year: 'numeric' })
   const copyrightText = settings?.footer?.copyrightStatement
-    ? getLocalizedValue(settings.footer.copyrightStatement, locale as 'en')?.replace('{year}', currentYear)
+    ? getLocalizedValue(settings.footer.copyrightStatement, locale)?.replace('{year}', currentYear)
     : tFooter('copyright', {
         year: currentYear,
-        name: getLocalizedValue(siteMetadata?.personal?.name, locale as 'en') || 'Website Owner'
+        name: getLocalizedValue(siteMetadata?.personal?.name, locale) || 'Website Owner'
       })
   
   const getSocialIcon = (platform: string) => {
@@ -87,6 +88,7 @@ export default function Footer() {
                 <Link href={`/${locale}/about`} className="text-white/70 hover:text-white transition-colors">{t('about')}</Link>
                 <Link href={`/${locale}/galleries`} className="text-white/70 hover:text-white transition-colors">{t('galleries')}</Link>
                 <Link href={`/${locale}/journal`} className="text-white/70 hover:text-white transition-colors">{t('journal')}</Link>
+                <Link href={`/${locale}/map`} className="text-white/70 hover:text-white transition-colors">{t('map')}</Link>
               </div>
             </div>
             
@@ -145,7 +147,7 @@ export default function Footer() {
             </p>
             {settings?.footer?.imageRightsNotice && (
               <p className="text-white/60 text-xs text-center max-w-2xl mx-auto">
-                {getLocalizedValue(settings.footer.imageRightsNotice, locale as 'en')}
+                {getLocalizedValue(settings.footer.imageRightsNotice, locale)}
               </p>
             )}
           </div>
@@ -11,9 +11,10 @@ import ThemeSwitcher from '../features/ThemeSwitcher'
 import HeaderSearch from '../features/HeaderSearch'
 import { cn } from '@/lib/utils'
 import { getLocalizedValue } from '@/lib/utils/localization'
+import type { Locale } from '@/lib/i18n/config'
 
 // Client-side settings fetcher to avoid PayloadCMS imports
-async function fetchSettings(locale: 'en') {
+async function fetchSettings(locale: Locale) {
   try {
     const response = await fetch(`/api/globals/settings?locale=${locale}&depth=2`)
     if (!response.ok) throw new Error('Failed to fetch settings')
@@ -38,7 +39,7 @@ export default function Header() {
   // Fetch settings
   useEffect(() => {
     const loadSettings = async () => {
-      const settingsData = await fetchSettings(locale as 'en')
+      const settingsData = await fetchSettings(locale)
       setSettings(settingsData)
     }
     loadSettings()
@@ -64,6 +65,7 @@ export default function Header() {
     { href: `/${locale}`, label: t('home') },
     { href: `/${locale}/galleries`, label: t('galleries') },
     { href: `/${locale}/journal`, label: t('journal') },
+    { href: `/${locale}/map`, label: t('map') },
     { href: `/${locale}/about`, label: t('about') },
   ]
 
@@ -121,13 +123,13 @@ export default function Header() {
                 <div className="text-right">
                   <div className={cn("font-serif text-lg font-bold transition-colors leading-tight", getTextColorClass(), getHoverTextColorClass())}>
                     {settings?.branding ? 
-                      (getLocalizedValue(settings.branding.title, locale as 'en') || 'Portfolio') :
+                      (getLocalizedValue(settings.branding.title, locale) || 'Portfolio') :
                       'Portfolio'
                     }
                   </div>
                   <div className={cn("font-serif text-sm font-medium transition-colors leading-tight", getMutedTextColorClass())}>
                     {settings?.branding ? 
-                      (getLocalizedValue(settings.branding.subtitle, locale as 'en') || 'Photography') :
+                      (getLocalizedValue(settings.branding.subtitle, locale) || 'Photography') :
                       'Photography'
                     }
                   </div>
@@ -5,6 +5,7 @@ import Image from 'next/image'
 import Link from 'next/link'
 import { useImageOrientation } from '@/lib/hooks/useImageOrientation'
 import { getLocalizedValue } from '@/lib/utils/localization'
+import { useImageProtection } from '@/components/providers/ImageProtectionProvider'
 
 interface FeaturedGalleryImageProps {
   gallery: any
@@ -18,6 +19,7 @@ export default function FeaturedGalleryImage({
   className = ""
 }: FeaturedGalleryImageProps) {
   const { orientation, handleImageLoad, getObjectFitClass } = useImageOrientation()
+  const { imageProps: protectionProps } = useImageProtection()
 
   return (
     <Link href={`/${locale}/galleries/${gallery.slug}`} className="block group">
@@ -28,13 +30,14 @@ export default function FeaturedGalleryImage({
         {gallery.coverImage && typeof gallery.coverImage === 'string' ? (
           <Image
             src={gallery.coverImage}
-            alt={getLocalizedValue(gallery.title, locale as 'en')}
+            alt={getLocalizedValue(gallery.title, locale)}
             width={800}
             height={600}
             className={`w-full h-full ${getObjectFitClass()} group-hover:scale-[1.02] transition-transform duration-700`}
             quality={85}
             loading="lazy"
             sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
+            {...protectionProps}
             onLoad={handleImageLoad as any}
           />
         ) : (
@@ -53,7 +56,7 @@ export default function FeaturedGalleryImage({
         {/* Overlay text on hover */}
         <div className="absolute bottom-8 left-8 right-8 transform translate-y-4 opacity-0 group-hover:translate-y-0 group-hover:opacity-100 transition-all duration-500">
           <h3 className="font-serif text-xl lg:text-2xl font-bold text-white mb-2 drop-shadow-xl">
-            {getLocalizedValue(gallery.title, locale as 'en')}
+            {getLocalizedValue(gallery.title, locale)}
           </h3>
           <p className="text-white/90 text-sm lg:text-base drop-shadow-lg">
             {gallery.imageCount || gallery.images?.length || 0} photographs
@@ -5,6 +5,7 @@ import Image from 'next/image'
 import Link from 'next/link'
 import { useImageOrientation } from '@/lib/hooks/useImageOrientation'
 import { getLocalizedValue } from '@/lib/utils/localization'
+import { useImageProtection } from '@/components/providers/ImageProtectionProvider'
 
 interface FeaturedGalleryThumbnailProps {
   image: any
@@ -18,6 +19,7 @@ export default function FeaturedGalleryThumbnail({
   locale
 }: FeaturedGalleryThumbnailProps) {
   const { orientation, handleImageLoad, getObjectFitClass } = useImageOrientation()
+  const { imageProps: protectionProps } = useImageProtection()
 
   return (
     <Link href={`/${locale}/galleries/${gallerySlug}/images/${image.slug}`} className="group">
@@ -27,13 +29,14 @@ export default function FeaturedGalleryThumbnail({
         {image.imageUrls?.thumbnail || image.imageUrls?.medium || image.imageUrls?.full ? (
           <Image
             src={image.imageUrls.thumbnail || image.imageUrls.medium || image.imageUrls.full}
-            alt={getLocalizedValue(image.title, locale as 'en')}
+            alt={getLocalizedValue(image.title, locale)}
             width={400}
             height={400}
             className={`w-full h-full ${getObjectFitClass()} group-hover:scale-110 transition-transform duration-500`}
             quality={85}
             loading="lazy"
             sizes="(max-width: 768px) 50vw, (max-width: 1200px) 33vw, 25vw"
+            {...protectionProps}
             onLoad={handleImageLoad as any}
           />
         ) : (
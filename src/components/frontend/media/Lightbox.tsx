@@ -2,8 +2,20 @@
 
 import { useEffect, useState } from 'react'
 import { useTranslations } from 'next-intl'
+import { Heart } from 'lucide-react'
 import OptimizedImage from '@/components/ui/base/OptimizedImage'
+import { trackUsage } from '@/components/analytics/UsageTracker'
 import { PayloadImage } from '@/types/payload-image'
+import { getLocalizedValue } from '@/lib/utils/localization'
+import type { Locale } from '@/lib/i18n/config'
+
+// Client proofing controls shown for private galleries
+export interface LightboxProofing {
+  isFavorite: (imageId: string) => boolean
+  getNote: (imageId: string) => string
+  onToggleFavorite: (imageId: string) => void
+  onNoteChange: (imageId: string, note: string) => void
+}
 
 interface LightboxProps {
   images: PayloadImage[]
@@ -12,24 +24,9 @@ interface LightboxProps {
   onClose: () => void
   onNext: () => void
   onPrev: () => void
-  locale?: 'en'
+  locale?: Locale
   simpleMode?: boolean // When true, hides navigation and info sidebar
-}
-
-// Helper function for getting localized values (supports both localized and non-localized strings)
-function getLocalizedValue<T>(value: { en: T; ta: T } | T | undefined, locale: 'en'): T | '' {
-  if (!value) return '' as T
-  
-  // If value is a localized object
-  if (typeof value === 'object' && value !== null && 'en' in value) {
-    const localizedObj = value as { en: T; ta: T }
-    const localized = localizedObj[locale]
-    const fallback = localizedObj.en
-    return localized || fallback || '' as T
-  }
-  
-  // If value is a plain string/primitive
-  return value as T
+  proofing?: LightboxProofing
 }
 
 export default function Lightbox({
@@ -40,7 +37,8 @@ export default function Lightbox({
   onNext,
   onPrev,
   locale = 'en',
-  simpleMode = false
+  simpleMode = false,
+  proofing
 }: LightboxProps) {
   const t = useTranslations('lightbox')
   const currentImage = images[currentIndex]
@@ -49,6 +47,8 @@ export default function Lightbox({
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (!isOpen) return
+      // Let arrow keys move the cursor while typing a proofing note
+      if (e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLInputElement) return
 
       // Detect keyboard usage
       setHasKeyboard(true)
@@ -79,8 +79,28 @@ export default function Lightbox({
     }
   }, [isOpen, onClose, onNext, onPrev, simpleMode])
 
+  // Each image shown in the lightbox counts as a view
+  useEffect(() => {
+    if (isOpen && currentImage?.id) {
+      trackUsage('view', 'images', currentImage.id)
+    }
+  }, [isOpen, currentImage?.id])
+
   if (!isOpen || !currentImage) return null
 
+  const isFavorite = proofing?.isFavorite(currentImage.id) ?? false
+  const noteField = proofing && (
+    <textarea
+      value={proofing.getNote(currentImage.id)}
+      onChange={(e) => proofing.onNoteChange(currentImage.id, e.target.value)}
+      placeholder={t('notePlaceholder')}
+      aria-label={t('noteLabel')}
+      maxLength={1000}
+      rows={3}
+      className="w-full rounded-lg bg-white/10 border border-white/20 p-3 text-sm text-white placeholder:text-white/40 focus:outline-none focus:border-white/50 resize-none"
+    />
+  )
+
   return (
     <div className="fixed inset-0 z-50 bg-black/95">
       <div className="flex h-full">
@@ -120,8 +140,20 @@ export default function Lightbox({
           </svg>
         </button>
 
+        {/* Proofing favorite toggle */}
+        {proofing && (
+          <button
+            onClick={() => proofing.onToggleFavorite(currentImage.id)}
+            className="absolute top-4 right-20 z-10 p-3 bg-black/50 text-white rounded-full hover:bg-black/70 transition-colors"
+            aria-pressed={isFavorite}
+            aria-label={isFavorite ? t('unfavorite') : t('favorite')}
+          >
+            <Heart className={`w-6 h-6 ${isFavorite ? 'fill-red-500 text-red-500' : ''}`} />
+          </button>
+        )}
+
         {/* Image area */}
-        <div className="flex-1 flex items-center justify-center p-4">
+        <div className="flex-1 flex flex-col items-center justify-center gap-4 p-4">
           <div className="relative max-w-full max-h-full">
             {(() => {
               // Use full-size image for lightbox slideshow, with fallback hierarchy
@@ -166,6 +198,13 @@ export default function Lightbox({
               )
             })()}
           </div>
+
+          {/* Proofing note on mobile, where the sidebar is hidden */}
+          {noteField && (
+            <div className="lg:hidden w-full max-w-md">
+              {noteField}
+            </div>
+          )}
         </div>
 
         {/* Info sidebar - hidden in simple mode and on mobile */}
@@ -179,6 +218,16 @@ export default function Lightbox({
               </h1>
             </section>
 
+            {/* Proofing note */}
+            {noteField && (
+              <section>
+                <h2 className="text-sm font-semibold text-white/60 uppercase tracking-wider mb-2">
+                  {t('noteLabel')}
+                </h2>
+                {noteField}
+              </section>
+            )}
+
             {/* Technical Details */}
             {currentImage.technical && (currentImage.technical.cameraBody || currentImage.technical.lensGear || currentImage.technical.aperture || currentImage.technical.shutterSpeed || currentImage.technical.iso) && (
               <>
@@ -0,0 +1,109 @@
+'use client'
+
+import React, { createContext, useContext, useEffect, useMemo, useState, ReactNode } from 'react'
+
+// Mirrors Settings.photography.protections
+export interface ImageProtectionSettings {
+  rightClickDisabled?: boolean | null
+  dragDisabled?: boolean | null
+  printDisabled?: boolean | null
+}
+
+interface ImageProtectionContextType {
+  rightClickDisabled: boolean
+  dragDisabled: boolean
+  printDisabled: boolean
+  // Props to spread onto any <img> that shows portfolio work
+  imageProps: {
+    draggable?: boolean
+    onContextMenu?: (event: React.MouseEvent) => void
+    onDragStart?: (event: React.DragEvent) => void
+    'data-protected'?: boolean
+  }
+}
+
+const noProtection: ImageProtectionContextType = {
+  rightClickDisabled: false,
+  dragDisabled: false,
+  printDisabled: false,
+  imageProps: {},
+}
+
+// Default to no protection so images render normally outside the provider (e.g. admin previews)
+const ImageProtectionContext = createContext<ImageProtectionContextType>(noProtection)
+
+export const useImageProtection = (): ImageProtectionContextType => useContext(ImageProtectionContext)
+
+const preventDefault = (event: React.SyntheticEvent) => event.preventDefault()
+
+interface ImageProtectionProviderProps {
+  protections?: ImageProtectionSettings | null
+  children: ReactNode
+}
+
+export const ImageProtectionProvider: React.FC<ImageProtectionProviderProps> = ({ protections, children }) => {
+  const [isEditor, setIsEditor] = useState(false)
+
+  const enabled = Boolean(
+    protections?.rightClickDisabled || protections?.dragDisabled || protections?.printDisabled
+  )
+
+  // Logged-in editors see unprotected images. The auth cookie is httpOnly,
+  // so ask Payload who is signed in instead of reading it here.
+  useEffect(() => {
+    if (!enabled) return
+
+    const controller = new AbortController()
+    fetch('/api/users/me', { credentials: 'include', signal: controller.signal })
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (['admin', 'editor', 'photographer'].includes(data?.user?.role || '')) {
+          setIsEditor(true)
+        }
+      })
+      .catch(() => {
+        // Visitors and network errors keep protection on
+      })
+
+    return () => controller.abort()
+  }, [enabled])
+
+  const value = useMemo<ImageProtectionContextType>(() => {
+    if (!enabled || isEditor) return noProtection
+
+    const rightClickDisabled = Boolean(protections?.rightClickDisabled)
+    const dragDisabled = Boolean(protections?.dragDisabled)
+    const printDisabled = Boolean(protections?.printDisabled)
+
+    return {
+      rightClickDisabled,
+      dragDisabled,
+      printDisabled,
+      imageProps: {
+        ...(rightClickDisabled && { onContextMenu: preventDefault }),
+        ...(dragDisabled && { draggable: false, onDragStart: preventDefault }),
+        'data-protected': true,
+      },
+    }
+  }, [enabled, isEditor, protections])
+
+  // The print stylesheet in globals.css keys off this attribute
+  useEffect(() => {
+    const root = document.documentElement
+    if (value.printDisabled) {
+      root.setAttribute('data-print-protected', 'true')
+    } else {
+      root.removeAttribute('data-print-protected')
+    }
+
+    return () => root.removeAttribute('data-print-protected')
+  }, [value.printDisabled])
+
+  return (
+    <ImageProtectionContext.Provider value={value}>
+      {children}
+    </ImageProtectionContext.Provider>
+  )
+}
+
+export default ImageProtectionProvider
@@ -1,11 +1,14 @@
 import { SITE_CONFIG } from '@/config/site.config'
 import { getSiteMetadata } from '@/lib/api/payload-client'
 import { getCachedGlobal } from '@/lib/utils/getGlobals'
+import type { Locale } from '@/lib/i18n/config'
 
 interface BaseStructuredDataProps {
-  locale: 'en'
-  pageType: 'homepage' | 'gallery' | 'galleryList' | 'image' | 'blog' | 'blogList' | 'about'
+  locale: Locale
+  pageType: 'homepage' | 'gallery' | 'galleryList' | 'series' | 'image' | 'blog' | 'blogList' | 'about'
   pageData?: any
+  // Trail from the top-level section down to the current page, rendered as a BreadcrumbList
+  breadcrumbs?: { name: string; url: string }[]
   customData?: {
     title?: string
     description?: string
@@ -69,7 +72,8 @@ export async function generateStructuredData({
   locale,
   pageType,
   pageData,
-  customData = {}
+  customData = {},
+  breadcrumbs
 }: BaseStructuredDataProps) {
   // Fetch CMS data
   const settings = await getCachedGlobal('settings', 2)().catch(() => null) as any
@@ -360,6 +364,39 @@ export async function generateStructuredData({
       })
       break
 
+    case 'series':
+      if (pageData) {
+        pageSpecificSchemas.push({
+          "@context": "https://schema.org",
+          "@type": "CollectionPage",
+          "@id": `${customData.url}#collection`,
+          "name": customData.title || pageData.title || '',
+          "description": customData.description || pageData.description || '',
+          "url": customData.url,
+          "author": { "@id": `${SITE_CONFIG.url.base}/#person` },
+          "creator": { "@id": `${SITE_CONFIG.url.base}/#person` },
+          "dateModified": pageData.updatedAt,
+          ...(customData.image && {
+            "image": {
+              "@type": "ImageObject",
+              "url": customData.image
+            }
+          }),
+          "mainEntity": {
+            "@type": "ItemList",
+            "numberOfItems": pageData.galleries?.length || 0,
+            "itemListElement": pageData.galleries?.map((gallery: any, index: number) => ({
+              "@type": "ImageGallery",
+              "position": index + 1,
+              "name": gallery.title?.[locale as keyof typeof gallery.title] || gallery.title?.en || gallery.title || '',
+              "url": `${baseUrl}/galleries/${gallery.slug}`,
+              "numberOfItems": gallery.imageCount || 0
+            })) || []
+          }
+        })
+      }
+      break
+
     case 'blog':
       if (pageData) {
         pageSpecificSchemas.push({
@@ -389,6 +426,19 @@ export async function generateStructuredData({
       break
   }
 
+  if (breadcrumbs && breadcrumbs.length > 0) {
+    pageSpecificSchemas.push({
+      "@context": "https://schema.org",
+      "@type": "BreadcrumbList",
+      "itemListElement": breadcrumbs.map((crumb, index) => ({
+        "@type": "ListItem",
+        "position": index + 1,
+        "name": crumb.name,
+        "item": crumb.url
+      }))
+    })
+  }
+
   // Combine all schemas
   const allSchemas = [
     personSchema,
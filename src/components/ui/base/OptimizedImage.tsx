@@ -1,6 +1,7 @@
 'use client'
 
 import { HTMLAttributes, useState, useEffect } from 'react'
+import { useImageProtection } from '@/components/providers/ImageProtectionProvider'
 
 interface OptimizedImageProps extends HTMLAttributes<HTMLImageElement> {
   src?: string
@@ -32,6 +33,7 @@ export default function OptimizedImage({
   ...props
 }: OptimizedImageProps) {
   const [currentSrc, setCurrentSrc] = useState(src)
+  const { imageProps: protectionProps } = useImageProtection()
   const [hasError, setHasError] = useState(false)
 
   // Reset state when src changes
@@ -75,6 +77,7 @@ export default function OptimizedImage({
           onError={handleError}
           onLoad={handleLoad}
           {...props}
+          {...protectionProps}
         />
       </picture>
     )
@@ -94,6 +97,7 @@ export default function OptimizedImage({
       onError={handleError}
       onLoad={handleLoad}
       {...props}
+      {...protectionProps}
     />
   )
 }
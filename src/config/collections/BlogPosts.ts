@@ -1,13 +1,22 @@
 import type { CollectionConfig } from 'payload'
 import { createCollectionHook } from '@/lib/utils/revalidation-hooks'
+import { createSlugRedirectHook } from '@/lib/utils/redirect-hooks'
 import { createKeywordsHook, createTagsHook } from '@/lib/utils/field-hooks'
+import { createSchedulePublishingHook, scheduledPublishingFields } from '@/lib/utils/scheduled-publishing'
 
 const BlogPosts: CollectionConfig = {
   slug: 'blog-posts',
-  hooks: createCollectionHook('blog-posts'),
+  hooks: {
+    ...createCollectionHook('blog-posts'),
+    afterChange: [
+      ...createCollectionHook('blog-posts').afterChange,
+      createSlugRedirectHook((doc) => `/journal/${doc.slug}`),
+      createSchedulePublishingHook('blog-posts'),
+    ],
+  },
   admin: {
     useAsTitle: 'title',
-    defaultColumns: ['title', 'category', '_status', 'featured'],
+    defaultColumns: ['title', 'category', '_status', 'featured', 'viewCount'],
     description: 'Photography blog posts and articles',
   },
   access: {
@@ -695,6 +704,28 @@ const BlogPosts: CollectionConfig = {
         description: 'Feature this post on homepage?',
       },
     },
+    ...scheduledPublishingFields('post'),
+    {
+      name: 'publishedAt',
+      type: 'date',
+      index: true,
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        date: { pickerAppearance: 'dayAndTime' },
+        description: 'When this post was first published, by hand or on schedule',
+      },
+      hooks: {
+        beforeChange: [
+          // Set once, on the first save that publishes the post
+          ({ value, originalDoc, siblingData }) => {
+            if (value || originalDoc?.publishedAt) return value || originalDoc.publishedAt
+            if (siblingData?._status === 'published') return new Date().toISOString()
+            return value
+          },
+        ],
+      },
+    },
 
 
     // Analytics
@@ -770,7 +801,7 @@ const BlogPosts: CollectionConfig = {
           name: 'ogImage',
           type: 'text',
           admin: {
-            description: 'Custom OpenGraph image URL for social sharing. Leave empty to use featured image.',
+            description: 'Custom OpenGraph image URL for social sharing. Leave empty to use a generated card with the featured image.',
             placeholder: 'https://example.com/social-image.jpg',
           },
         },
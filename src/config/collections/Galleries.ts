@@ -1,24 +1,57 @@
 import type { CollectionConfig } from 'payload'
 import { createCollectionHook } from '@/lib/utils/revalidation-hooks'
+import { createSlugRedirectHook } from '@/lib/utils/redirect-hooks'
 import { createKeywordsHook, createTagsHook } from '@/lib/utils/field-hooks'
+import { createSchedulePublishingHook, scheduledPublishingFields } from '@/lib/utils/scheduled-publishing'
+import { DEFAULT_LINK_EXPIRY_DAYS, generateLinkSecret, hashGalleryPasswordHook, isPrivateGallery } from '@/lib/utils/private-gallery'
+import { createShareLinkEndpoint, revokeAccessEndpoint } from '@/lib/utils/private-gallery-endpoint'
+import {
+  DEFAULT_SMART_GALLERY_LIMIT,
+  SMART_QUERY_FIELDS,
+  SMART_QUERY_OPERATORS,
+  SMART_QUERY_SORTS,
+} from '@/lib/utils/smart-gallery'
 
 const Galleries: CollectionConfig = {
   slug: 'galleries',
   admin: {
     useAsTitle: 'title',
-    defaultColumns: ['title', 'photographyStyle', 'featured', 'published'],
+    defaultColumns: ['title', 'photographyStyle', 'visibility', 'featured', 'published'],
     description: 'Photo galleries for organizing and presenting collections of images',
   },
-  hooks: createCollectionHook('galleries'),
+  hooks: {
+    ...createCollectionHook('galleries'),
+    beforeChange: [
+      // Private galleries need a link secret to sign share links
+      ({ data, originalDoc }) => {
+        if (data?.visibility === 'private' && !data.privateAccess?.linkSecret && !originalDoc?.privateAccess?.linkSecret) {
+          data.privateAccess = { ...data.privateAccess, linkSecret: generateLinkSecret() }
+        }
+        return data
+      },
+    ],
+    afterChange: [
+      ...createCollectionHook('galleries').afterChange,
+      // Subpaths included so images inside a renamed gallery keep working.
+      // Client gallery slugs stay private, so renaming one leaves no public redirect behind.
+      createSlugRedirectHook((doc) => (isPrivateGallery(doc) ? null : `/galleries/${doc.slug}`), { includeSubpaths: true }),
+      createSchedulePublishingHook('galleries'),
+    ],
+  },
   access: {
     read: ({ req: { user } }) => {
       if (user?.role === 'admin' || user?.role === 'editor' || user?.role === 'photographer') return true
-      return { published: { equals: true } }
+      // Client galleries are only served through their share link or password
+      return {
+        published: { equals: true },
+        visibility: { not_equals: 'private' },
+      }
     },
     create: ({ req: { user } }) => ['admin', 'editor', 'photographer'].includes(user?.role || ''),
     update: ({ req: { user } }) => ['admin', 'editor', 'photographer'].includes(user?.role || ''),
     delete: ({ req: { user } }) => user?.role === 'admin',
   },
+  endpoints: [createShareLinkEndpoint, revokeAccessEndpoint],
   fields: [
     // Basic Information
     {
@@ -103,7 +136,225 @@ const Galleries: CollectionConfig = {
       },
     },
 
+    // Smart galleries
+    {
+      name: 'galleryType',
+      type: 'select',
+      defaultValue: 'manual',
+      options: [
+        { label: 'Manual (images assigned to this gallery)', value: 'manual' },
+        { label: 'Smart (images matching a query)', value: 'smart' },
+      ],
+      admin: {
+        position: 'sidebar',
+        description: 'Smart galleries collect published images from other galleries by their metadata',
+      },
+    },
+    {
+      name: 'smartQuery',
+      type: 'group',
+      label: 'Smart Gallery Query',
+      admin: {
+        condition: (data) => data?.galleryType === 'smart',
+        description: 'Images that only belong to private client galleries are never included',
+      },
+      fields: [
+        {
+          name: 'match',
+          type: 'select',
+          defaultValue: 'all',
+          options: [
+            { label: 'All rules', value: 'all' },
+            { label: 'Any rule', value: 'any' },
+          ],
+        },
+        {
+          name: 'rules',
+          type: 'array',
+          admin: {
+            description: 'Example: Photography Style is astrophotography, Country is Iceland, Capture Date is in year 2024',
+          },
+          fields: [
+            {
+              type: 'row',
+              fields: [
+                {
+                  name: 'field',
+                  type: 'select',
+                  required: true,
+                  options: SMART_QUERY_FIELDS.map(({ label, value }) => ({ label, value })),
+                  admin: { width: '35%' },
+                },
+                {
+                  name: 'operator',
+                  type: 'select',
+                  required: true,
+                  defaultValue: 'equals',
+                  options: SMART_QUERY_OPERATORS,
+                  admin: { width: '30%' },
+                },
+                {
+                  name: 'value',
+                  type: 'text',
+                  required: true,
+                  admin: {
+                    width: '35%',
+                    description: 'Dates as YYYY-MM-DD; style values in lowercase (e.g. astrophotography)',
+                  },
+                },
+              ],
+            },
+          ],
+        },
+        {
+          name: 'sort',
+          type: 'select',
+          defaultValue: '-captureDate',
+          options: SMART_QUERY_SORTS,
+        },
+        {
+          name: 'limit',
+          type: 'number',
+          min: 1,
+          defaultValue: DEFAULT_SMART_GALLERY_LIMIT,
+          admin: {
+            description: 'Maximum number of images shown',
+          },
+        },
+      ],
+    },
+
+    // Per-gallery image order, kept in sync with each image's galleries
+    {
+      name: 'imageOrder',
+      type: 'array',
+      label: 'Image Order',
+      labels: {
+        singular: 'Image',
+        plural: 'Images',
+      },
+      admin: {
+        condition: (data) => data?.galleryType !== 'smart',
+        description: 'Drag to reorder. Images are added here when this gallery is selected on the image, and removed when it is unselected.',
+        initCollapsed: true,
+      },
+      fields: [
+        {
+          name: 'image',
+          type: 'relationship',
+          relationTo: 'images',
+          required: true,
+          filterOptions: ({ id }) => ({
+            galleries: { in: [id] },
+          }),
+        },
+        {
+          name: 'caption',
+          type: 'textarea',
+          localized: true,
+          admin: {
+            description: 'Optional caption shown in this gallery instead of the image description',
+          },
+        },
+      ],
+    },
+
     // Publishing and Display
+    {
+      name: 'visibility',
+      type: 'select',
+      defaultValue: 'public',
+      options: [
+        { label: 'Public', value: 'public' },
+        { label: 'Private (client gallery)', value: 'private' },
+      ],
+      admin: {
+        position: 'sidebar',
+        description: 'Private galleries are hidden from listings, search and the sitemap, and open only through a share link or password',
+      },
+    },
+    {
+      name: 'privateAccess',
+      type: 'group',
+      label: 'Client Access',
+      admin: {
+        condition: (data) => data?.visibility === 'private',
+      },
+      fields: [
+        {
+          name: 'password',
+          type: 'text',
+          access: {
+            read: ({ req: { user } }) => ['admin', 'editor', 'photographer'].includes(user?.role || ''),
+          },
+          hooks: {
+            beforeChange: [hashGalleryPasswordHook],
+          },
+          admin: {
+            description: 'Optional password clients can enter instead of using a share link. Stored hashed: type a new password to replace it, or clear the field to remove it',
+          },
+        },
+        {
+          name: 'linkExpiryDays',
+          type: 'number',
+          min: 1,
+          defaultValue: DEFAULT_LINK_EXPIRY_DAYS,
+          admin: {
+            description: 'How many days new share links stay valid',
+          },
+        },
+        {
+          name: 'allowProofing',
+          type: 'checkbox',
+          defaultValue: true,
+          admin: {
+            description: 'Let clients favorite images, add notes and submit a final selection',
+          },
+        },
+        {
+          name: 'shareLink',
+          type: 'ui',
+          admin: {
+            components: {
+              Field: '@/components/admin/fields/ShareLinkButton#ShareLinkButton',
+            },
+          },
+        },
+        {
+          name: 'linkSecret',
+          type: 'text',
+          access: {
+            read: ({ req: { user } }) => ['admin', 'editor', 'photographer'].includes(user?.role || ''),
+          },
+          admin: {
+            hidden: true,
+          },
+        },
+        {
+          name: 'accessLog',
+          type: 'join',
+          collection: 'gallery-access-logs',
+          on: 'gallery',
+          defaultSort: '-createdAt',
+          defaultLimit: 20,
+          admin: {
+            defaultColumns: ['method', 'success', 'ipAddress', 'createdAt'],
+            description: 'When clients opened this gallery',
+          },
+        },
+        {
+          name: 'proofingSelections',
+          type: 'join',
+          collection: 'proofing-selections',
+          on: 'gallery',
+          defaultSort: '-createdAt',
+          admin: {
+            defaultColumns: ['clientName', 'favoriteCount', 'status', 'createdAt'],
+            description: 'Selections submitted by clients',
+          },
+        },
+      ],
+    },
     {
       name: 'published',
       type: 'checkbox',
@@ -123,6 +374,7 @@ const Galleries: CollectionConfig = {
         description: 'Feature this gallery on homepage?',
       },
     },
+    ...scheduledPublishingFields('gallery'),
     {
       name: 'sortOrder',
       type: 'number',
@@ -174,7 +426,7 @@ const Galleries: CollectionConfig = {
           name: 'ogImage',
           type: 'text',
           admin: {
-            description: 'Custom OpenGraph image URL for social sharing. Leave empty to use cover image.',
+            description: 'Custom OpenGraph image URL for social sharing. Leave empty to use a generated card with the cover image.',
             placeholder: 'https://example.com/social-image.jpg',
           },
         },
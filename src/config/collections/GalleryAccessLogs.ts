@@ -0,0 +1,72 @@
+import type { CollectionConfig } from 'payload'
+
+const GalleryAccessLogs: CollectionConfig = {
+  slug: 'gallery-access-logs',
+  labels: {
+    singular: 'Gallery Access',
+    plural: 'Gallery Access Log',
+  },
+  admin: {
+    useAsTitle: 'gallery',
+    defaultColumns: ['gallery', 'method', 'success', 'ipAddress', 'createdAt'],
+    description: 'When private client galleries were opened, by share link or password',
+    group: 'Settings',
+  },
+  access: {
+    read: ({ req: { user } }) => ['admin', 'editor', 'photographer'].includes(user?.role || ''),
+    // Entries are written by the access route through the local API
+    create: () => false,
+    update: () => false,
+    delete: ({ req: { user } }) => user?.role === 'admin',
+  },
+  fields: [
+    {
+      name: 'gallery',
+      type: 'relationship',
+      relationTo: 'galleries',
+      required: true,
+      index: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'method',
+      type: 'select',
+      required: true,
+      options: [
+        { label: 'Share Link', value: 'link' },
+        { label: 'Password', value: 'password' },
+      ],
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'success',
+      type: 'checkbox',
+      defaultValue: true,
+      admin: {
+        readOnly: true,
+        description: 'Unchecked for wrong passwords and expired or revoked links',
+      },
+    },
+    {
+      name: 'ipAddress',
+      type: 'text',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'userAgent',
+      type: 'text',
+      admin: {
+        readOnly: true,
+      },
+    },
+  ],
+  timestamps: true,
+}
+
+export default GalleryAccessLogs
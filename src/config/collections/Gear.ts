@@ -52,6 +52,14 @@ const Gear: CollectionConfig = {
       label: 'Model Number/Name',
       required: true,
     },
+    {
+      name: 'aliases',
+      type: 'text',
+      hasMany: true,
+      admin: {
+        description: 'Alternative names found in photo EXIF data (e.g., "ILCE-7M3" for Sony A7 III). Used to link images automatically.',
+      },
+    },
     {
       name: 'description',
       type: 'richText',
@@ -0,0 +1,158 @@
+import type { CollectionConfig } from 'payload'
+import { normalizeGearIdentifier } from '@/lib/utils/gear-matching'
+import { createGearFromReviewEndpoint } from '@/lib/utils/gear-review-endpoint'
+
+const GearReview: CollectionConfig = {
+  slug: 'gear-review',
+  labels: {
+    singular: 'Unmatched Gear',
+    plural: 'Gear Review Queue',
+  },
+  admin: {
+    useAsTitle: 'identifier',
+    defaultColumns: ['identifier', 'kind', 'status', 'gear', 'updatedAt'],
+    description: 'EXIF camera and lens identifiers that did not match any gear entry',
+    listSearchableFields: ['identifier', 'make'],
+  },
+  access: {
+    read: ({ req: { user } }) => ['admin', 'editor', 'photographer'].includes(user?.role || ''),
+    create: ({ req: { user } }) => ['admin', 'editor', 'photographer'].includes(user?.role || ''),
+    update: ({ req: { user } }) => ['admin', 'editor', 'photographer'].includes(user?.role || ''),
+    delete: ({ req: { user } }) => user?.role === 'admin',
+  },
+  endpoints: [createGearFromReviewEndpoint],
+  fields: [
+    {
+      name: 'identifier',
+      type: 'text',
+      required: true,
+      index: true,
+      admin: {
+        readOnly: true,
+        description: 'Camera or lens name as written in the photo EXIF data',
+      },
+    },
+    {
+      name: 'kind',
+      type: 'select',
+      required: true,
+      options: [
+        { label: 'Camera Body', value: 'camera-body' },
+        { label: 'Lens', value: 'lens' },
+      ],
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'make',
+      type: 'text',
+      admin: {
+        readOnly: true,
+        description: 'EXIF camera make, used as the brand when creating gear',
+      },
+    },
+    {
+      name: 'gear',
+      type: 'relationship',
+      relationTo: 'gear',
+      filterOptions: ({ siblingData }: any) => ({
+        category: { equals: siblingData?.kind },
+      }),
+      admin: {
+        description: 'Link existing gear - the identifier is saved as an alias and affected images are updated',
+      },
+    },
+    {
+      name: 'createGear',
+      type: 'ui',
+      admin: {
+        condition: (data) => !data?.gear,
+        components: {
+          Field: '@/components/admin/fields/CreateGearButton#CreateGearButton',
+        },
+      },
+    },
+    {
+      name: 'images',
+      type: 'relationship',
+      relationTo: 'images',
+      hasMany: true,
+      admin: {
+        readOnly: true,
+        description: 'Images carrying this identifier',
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      defaultValue: 'pending',
+      options: [
+        { label: 'Pending', value: 'pending' },
+        { label: 'Linked', value: 'linked' },
+        { label: 'Ignored', value: 'ignored' },
+      ],
+      admin: {
+        position: 'sidebar',
+        description: 'Ignored identifiers are not queued again',
+      },
+    },
+  ],
+  hooks: {
+    beforeChange: [
+      ({ data }) => {
+        if (data.gear) {
+          data.status = 'linked'
+        }
+        return data
+      },
+    ],
+    afterChange: [
+      async ({ doc, previousDoc, req }: any) => {
+        const gearId = typeof doc.gear === 'object' ? doc.gear?.id : doc.gear
+        const previousGearId = typeof previousDoc?.gear === 'object' ? previousDoc?.gear?.id : previousDoc?.gear
+        if (!gearId || gearId === previousGearId) return doc
+
+        try {
+          // Remember the identifier so future uploads match automatically
+          const gear = await req.payload.findByID({ collection: 'gear', id: gearId, depth: 0, req })
+          const aliases: string[] = gear.aliases || []
+          const target = normalizeGearIdentifier(doc.identifier)
+          if (!aliases.some(alias => normalizeGearIdentifier(alias) === target)) {
+            await req.payload.update({
+              collection: 'gear',
+              id: gearId,
+              data: { aliases: [...aliases, doc.identifier] },
+              req,
+            })
+          }
+
+          // Fill the relationship on images that were waiting for this gear
+          const field = doc.kind === 'camera-body' ? 'cameraBody' : 'lensGear'
+          for (const image of doc.images || []) {
+            const imageId = typeof image === 'object' ? image.id : image
+            const current = await req.payload.findByID({ collection: 'images', id: imageId, depth: 0, draft: true, req })
+            if (current.technical?.[field]) continue
+
+            await req.payload.update({
+              collection: 'images',
+              id: imageId,
+              draft: current._status !== 'published',
+              data: { technical: { ...current.technical, [field]: gearId } },
+              req,
+            })
+          }
+
+          console.log(`✅ Linked ${doc.identifier} to gear ${gearId}`)
+        } catch (error) {
+          console.error('❌ Failed to link reviewed gear:', error)
+        }
+
+        return doc
+      },
+    ],
+  },
+  timestamps: true,
+}
+
+export default GearReview
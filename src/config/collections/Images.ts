@@ -1,20 +1,69 @@
-import type { CollectionConfig } from 'payload'
+import type { CollectionConfig, Where } from 'payload'
 import { createCollectionHook } from '@/lib/utils/revalidation-hooks'
-import { createKeywordsHook, createTagsHook } from '@/lib/utils/field-hooks'
+import { createKeywordsHook, createMapCoordinatesHook, createNumericCompanionHook, createTagsHook } from '@/lib/utils/field-hooks'
+import { createUploadDerivativesHook } from '@/lib/utils/upload-hooks'
+import { createGearReviewHook } from '@/lib/utils/gear-matching'
+import { createWatermarkUrlsHook } from '@/lib/utils/watermark'
+import { createSmartGalleryRevalidationHook } from '@/lib/utils/smart-gallery'
+import { createGalleryOrderSyncHook, getGalleryIds, getListedGallery } from '@/lib/utils/gallery-membership'
+import { createSlugRedirectHook } from '@/lib/utils/redirect-hooks'
+import { createSchedulePublishingHook, scheduledPublishingFields } from '@/lib/utils/scheduled-publishing'
+import { extractMetadataEndpoint } from '@/lib/utils/metadata-endpoint'
+import { EXTRACTABLE_FIELDS, parseAperture, parseShutterSpeed } from '@/lib/utils/photo-metadata'
 
 const Images: CollectionConfig = {
   slug: 'images',
-  hooks: createCollectionHook('images'),
+  hooks: {
+    ...createCollectionHook('images'),
+    beforeValidate: [createUploadDerivativesHook()],
+    afterChange: [
+      ...createCollectionHook('images').afterChange,
+      createGearReviewHook(),
+      createSmartGalleryRevalidationHook(),
+      createGalleryOrderSyncHook(),
+      createSchedulePublishingHook('images'),
+      // Image URLs are nested under their first listed gallery, so changing it counts as a path change too.
+      // Images without one (e.g. only in client galleries) have no public path and get no redirect.
+      createSlugRedirectHook(async (doc, req) => {
+        const galleryIds = getGalleryIds(doc.galleries)
+        if (!galleryIds.length) return null
+        const { docs } = await req.payload.find({
+          collection: 'galleries',
+          where: { id: { in: galleryIds } },
+          select: { slug: true, _status: true, published: true, visibility: true },
+          pagination: false,
+          depth: 0,
+          req,
+        })
+        const galleriesById = new Map(docs.map((gallery) => [String(gallery.id), gallery]))
+        const gallery = getListedGallery(galleryIds.map((id) => galleriesById.get(id)))
+        return gallery ? `/galleries/${gallery.slug}/images/${doc.slug}` : null
+      }),
+    ],
+    afterDelete: [
+      ...createCollectionHook('images').afterDelete,
+      createSmartGalleryRevalidationHook(),
+      createGalleryOrderSyncHook(),
+    ],
+    afterRead: [createWatermarkUrlsHook()],
+  },
+  endpoints: [extractMetadataEndpoint],
   admin: {
     useAsTitle: 'title',
-    defaultColumns: ['title', 'gallery', 'photographyStyle', 'featured'],
+    defaultColumns: ['title', 'galleries', 'photographyStyle', 'featured'],
     description: 'Individual images with basic metadata',
   },
   access: {
     read: ({ req: { user } }) => {
       if (user?.role === 'admin' || user?.role === 'editor' || user?.role === 'photographer') return true
-      // Use PayloadCMS built-in draft/publish system
-      return { _status: { equals: 'published' } }
+      // Use PayloadCMS built-in draft/publish system; images only in client galleries stay private
+      return {
+        _status: { equals: 'published' },
+        or: [
+          { galleries: { exists: false } } as Where,
+          { 'galleries.visibility': { not_equals: 'private' } },
+        ],
+      }
     },
     create: ({ req: { user } }) => ['admin', 'editor', 'photographer'].includes(user?.role || ''),
     update: ({ req: { user } }) => ['admin', 'editor', 'photographer'].includes(user?.role || ''),
@@ -63,6 +112,16 @@ const Images: CollectionConfig = {
       },
     },
 
+    // Source Upload
+    {
+      name: 'sourceFile',
+      type: 'upload',
+      relationTo: 'media',
+      admin: {
+        description: 'Upload the original photo - image URLs and file info are filled in automatically',
+      },
+    },
+
     // Image URLs
     {
       name: 'imageUrls',
@@ -71,7 +130,10 @@ const Images: CollectionConfig = {
         {
           name: 'full',
           type: 'text',
-          required: true,
+          validate: (value: string | null | undefined, { data }: { data: any }) => {
+            if (value || data?.sourceFile) return true
+            return 'Provide a full resolution image URL or upload a source file'
+          },
           admin: {
             description: 'Full resolution image URL',
           },
@@ -99,19 +161,24 @@ const Images: CollectionConfig = {
         },
       ],
       admin: {
-        description: 'Image URLs for different sizes',
+        description: 'Image URLs for different sizes (filled in automatically from the source file)',
       },
     },
 
     // Gallery Relationship
     {
-      name: 'gallery',
+      name: 'galleries',
       type: 'relationship',
       relationTo: 'galleries',
+      hasMany: true,
       required: true,
+      // Smart galleries pick their images by query
+      filterOptions: {
+        galleryType: { not_equals: 'smart' },
+      },
       admin: {
         position: 'sidebar',
-        description: 'Gallery this image belongs to',
+        description: 'Galleries this image appears in. The first one is used for the image\'s own URL.',
       },
     },
 
@@ -169,10 +236,43 @@ const Images: CollectionConfig = {
               },
             },
           ],
+          access: {
+            // Staff always see the exact spot; visitors only when it is shown as is
+            read: ({ req: { user }, doc }) =>
+              ['admin', 'editor', 'photographer'].includes(user?.role || '') || !doc?.location?.visibility || doc.location.visibility === 'exact',
+          },
           admin: {
             description: 'GPS coordinates',
           },
         },
+        {
+          name: 'visibility',
+          type: 'select',
+          defaultValue: 'exact',
+          options: [
+            { label: 'Exact location', value: 'exact' },
+            { label: 'Approximate location (about 10 km)', value: 'approximate' },
+            { label: 'Hide location', value: 'hidden' },
+          ],
+          admin: {
+            description: 'How precisely the map and nearby photos show where this was taken, e.g. to protect nesting sites',
+          },
+        },
+        {
+          name: 'mapCoordinates',
+          type: 'group',
+          fields: [
+            { name: 'latitude', type: 'number' },
+            { name: 'longitude', type: 'number' },
+          ],
+          hooks: {
+            beforeChange: [createMapCoordinatesHook()],
+          },
+          admin: {
+            hidden: true,
+            description: 'Public coordinates derived from GPS coordinates and location visibility',
+          },
+        },
         {
           name: 'country',
           type: 'text',
@@ -211,7 +311,7 @@ const Images: CollectionConfig = {
           relationTo: 'gear',
           required: false,
           admin: {
-            description: 'Select camera body from gear collection (shows all gear for now)',
+            description: 'Camera body from gear collection - matched automatically from EXIF when possible',
           },
         },
         {
@@ -220,7 +320,7 @@ const Images: CollectionConfig = {
           relationTo: 'gear',
           required: false,
           admin: {
-            description: 'Select lens from gear collection (shows all gear for now)',
+            description: 'Lens from gear collection - matched automatically from EXIF when possible',
           },
         },
         {
@@ -237,6 +337,28 @@ const Images: CollectionConfig = {
             description: 'Shutter speed (e.g., 1/125s)',
           },
         },
+        {
+          name: 'fNumber',
+          type: 'number',
+          admin: {
+            readOnly: true,
+            description: 'Aperture as a number, parsed from Aperture for range search',
+          },
+          hooks: {
+            beforeChange: [createNumericCompanionHook('aperture', parseAperture)],
+          },
+        },
+        {
+          name: 'exposureTime',
+          type: 'number',
+          admin: {
+            readOnly: true,
+            description: 'Shutter speed in seconds, parsed from Shutter Speed for range search',
+          },
+          hooks: {
+            beforeChange: [createNumericCompanionHook('shutterSpeed', parseShutterSpeed)],
+          },
+        },
         {
           name: 'iso',
           type: 'number',
@@ -428,6 +550,14 @@ const Images: CollectionConfig = {
             description: 'Custom attribution text (if different from default)',
           },
         },
+        {
+          name: 'excludeFromWatermark',
+          type: 'checkbox',
+          defaultValue: false,
+          admin: {
+            description: 'Serve this image without the site watermark',
+          },
+        },
         {
           name: 'availableForPrint',
           type: 'checkbox',
@@ -738,18 +868,64 @@ const Images: CollectionConfig = {
       defaultValue: 0,
       admin: {
         position: 'sidebar',
-        description: 'Order in gallery (lower numbers appear first)',
+        description: 'Fallback order for images not yet placed in a gallery\'s Image Order (lower numbers appear first)',
       },
     },
+    ...scheduledPublishingFields('image'),
 
     // Dates
     {
       name: 'captureDate',
       type: 'date',
-      required: true,
+      validate: (value: Date | string | null | undefined, { data }: { data: any }) => {
+        if (value || data?.sourceFile) return true
+        return 'Capture date is required (it is read from EXIF when a source file is uploaded)'
+      },
+      admin: {
+        position: 'sidebar',
+        description: 'When was this photo taken? Filled from EXIF when available.',
+      },
+    },
+
+    // Embedded Metadata Extraction
+    {
+      name: 'metadataPolicy',
+      type: 'group',
+      label: 'Embedded Metadata',
+      fields: [
+        {
+          name: 'overwrite',
+          type: 'select',
+          hasMany: true,
+          options: [...EXTRACTABLE_FIELDS],
+          admin: {
+            description: 'Fields where EXIF/IPTC/XMP values replace manual entries. Other fields are only filled when empty.',
+          },
+        },
+        {
+          name: 'lastExtractedAt',
+          type: 'date',
+          admin: {
+            readOnly: true,
+            description: 'Last time embedded metadata was applied',
+            date: {
+              pickerAppearance: 'dayAndTime',
+            },
+          },
+        },
+        {
+          name: 'reExtract',
+          type: 'ui',
+          admin: {
+            components: {
+              Field: '@/components/admin/fields/ExtractMetadataButton#ExtractMetadataButton',
+            },
+          },
+        },
+      ],
       admin: {
         position: 'sidebar',
-        description: 'When was this photo taken?',
+        description: 'Camera settings, GPS, capture date, keywords and caption are read from the uploaded file',
       },
     },
 
@@ -794,7 +970,7 @@ const Images: CollectionConfig = {
           name: 'ogImage',
           type: 'text',
           admin: {
-            description: 'Custom OpenGraph image URL for social sharing. Leave empty to use this image.',
+            description: 'Custom OpenGraph image URL for social sharing. Leave empty to use a generated card with this image.',
             placeholder: 'https://example.com/social-image.jpg',
           },
         },
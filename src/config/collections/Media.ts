@@ -0,0 +1,93 @@
+import type { CollectionConfig } from 'payload'
+import { extractPhotoMetadata } from '@/lib/utils/photo-metadata'
+import { MEDIA_STATIC_DIR, getMediaFileAccess } from '@/lib/utils/watermark'
+
+const Media: CollectionConfig = {
+  slug: 'media',
+  admin: {
+    useAsTitle: 'filename',
+    defaultColumns: ['filename', 'mimeType', 'filesize', 'createdAt'],
+    description: 'Original photo uploads - resized variants are generated automatically',
+  },
+  access: {
+    read: ({ req, isReadingStaticFile, data }) => {
+      if (['admin', 'editor', 'photographer'].includes(req.user?.role || '')) return true
+      // Visitors load the files imageUrls point at, but never list uploads with their EXIF
+      return isReadingStaticFile ? getMediaFileAccess(req, data?.filename) : false
+    },
+    create: ({ req: { user } }) => ['admin', 'editor', 'photographer'].includes(user?.role || ''),
+    update: ({ req: { user } }) => ['admin', 'editor', 'photographer'].includes(user?.role || ''),
+    delete: ({ req: { user } }) => user?.role === 'admin',
+  },
+  upload: {
+    // Local disk storage - swap in a storage adapter plugin for cloud hosting
+    staticDir: MEDIA_STATIC_DIR,
+    // Formats sharp re-encodes, so every stored file, the original included, loses its embedded
+    // metadata and GPS position. The metadata is read from the upload before that happens.
+    mimeTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/tiff', 'image/avif', 'image/gif'],
+    withMetadata: false,
+    adminThumbnail: 'thumbnail',
+    focalPoint: true,
+    // Variant widths match the imageUrls fields on the Images collection
+    imageSizes: [
+      {
+        name: 'large',
+        width: 1920,
+        withoutEnlargement: true,
+        formatOptions: { format: 'jpeg', options: { quality: 90 } },
+      },
+      {
+        name: 'medium',
+        width: 1024,
+        withoutEnlargement: true,
+        formatOptions: { format: 'jpeg', options: { quality: 85 } },
+      },
+      {
+        name: 'thumbnail',
+        width: 400,
+        withoutEnlargement: true,
+        formatOptions: { format: 'jpeg', options: { quality: 80 } },
+      },
+    ],
+  },
+  fields: [
+    {
+      name: 'alt',
+      type: 'text',
+      admin: {
+        description: 'Optional alt text - the Images collection altText is used on the site',
+      },
+    },
+    {
+      name: 'exif',
+      type: 'json',
+      admin: {
+        readOnly: true,
+        description: 'Embedded EXIF/IPTC/XMP metadata extracted from the original file',
+      },
+    },
+  ],
+  hooks: {
+    beforeOperation: [
+      async ({ args, operation, req }) => {
+        // Parse embedded metadata whenever a new file is uploaded, before it is re-encoded without it
+        if ((operation === 'create' || operation === 'update') && req.file?.data?.length) {
+          req.context.photoMetadata = await extractPhotoMetadata(req.file.data)
+        }
+        return args
+      },
+    ],
+    beforeChange: [
+      async ({ data, req }) => {
+        if (req.context.photoMetadata) {
+          data.exif = req.context.photoMetadata
+          delete req.context.photoMetadata
+        }
+        return data
+      },
+    ],
+  },
+  timestamps: true,
+}
+
+export default Media
@@ -0,0 +1,138 @@
+import type { CollectionConfig } from 'payload'
+import { exportFilenamesEndpoint } from '@/lib/utils/proofing-endpoint'
+
+const ProofingSelections: CollectionConfig = {
+  slug: 'proofing-selections',
+  labels: {
+    singular: 'Proofing Selection',
+    plural: 'Proofing Selections',
+  },
+  admin: {
+    useAsTitle: 'clientName',
+    defaultColumns: ['clientName', 'gallery', 'favoriteCount', 'status', 'createdAt'],
+    description: 'Final picks submitted by clients from private galleries',
+    group: 'Content',
+    listSearchableFields: ['clientName', 'clientEmail'],
+  },
+  access: {
+    read: ({ req: { user } }) => ['admin', 'editor', 'photographer'].includes(user?.role || ''),
+    // Selections are submitted by clients through the gallery route via the local API
+    create: () => false,
+    update: ({ req: { user } }) => ['admin', 'editor', 'photographer'].includes(user?.role || ''),
+    delete: ({ req: { user } }) => user?.role === 'admin',
+  },
+  hooks: {
+    beforeChange: [
+      ({ data }) => {
+        if (Array.isArray(data?.items)) {
+          data.favoriteCount = data.items.filter((item: any) => item?.favorite).length
+        }
+        return data
+      },
+    ],
+  },
+  endpoints: [exportFilenamesEndpoint],
+  fields: [
+    {
+      name: 'gallery',
+      type: 'relationship',
+      relationTo: 'galleries',
+      required: true,
+      index: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'clientName',
+      type: 'text',
+      required: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'clientEmail',
+      type: 'email',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'message',
+      type: 'textarea',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'exportFilenames',
+      type: 'ui',
+      admin: {
+        components: {
+          Field: '@/components/admin/fields/ProofingExportButton#ProofingExportButton',
+        },
+      },
+    },
+    {
+      name: 'items',
+      type: 'array',
+      label: 'Selected Images',
+      admin: {
+        readOnly: true,
+        description: 'Favorited images and images the client left a note on',
+      },
+      fields: [
+        {
+          name: 'image',
+          type: 'relationship',
+          relationTo: 'images',
+          required: true,
+        },
+        {
+          name: 'favorite',
+          type: 'checkbox',
+          defaultValue: true,
+        },
+        {
+          name: 'note',
+          type: 'textarea',
+        },
+      ],
+    },
+
+    // Sidebar
+    {
+      name: 'status',
+      type: 'select',
+      defaultValue: 'new',
+      options: [
+        { label: 'New', value: 'new' },
+        { label: 'In Progress', value: 'in-progress' },
+        { label: 'Delivered', value: 'delivered' },
+      ],
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'favoriteCount',
+      type: 'number',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'ipAddress',
+      type: 'text',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+  ],
+  timestamps: true,
+}
+
+export default ProofingSelections
@@ -0,0 +1,89 @@
+import type { CollectionConfig } from 'payload'
+import { SITE_CONFIG } from '@/config/site.config'
+import { createCollectionHook } from '@/lib/utils/revalidation-hooks'
+import { normalizeRedirectPath } from '@/lib/utils/redirects'
+
+const Redirects: CollectionConfig = {
+  slug: 'redirects',
+  admin: {
+    useAsTitle: 'source',
+    defaultColumns: ['source', 'destination', 'type', 'locale', 'updatedAt'],
+    description: 'URL redirects - created automatically when a gallery, image or journal slug changes',
+    group: 'Settings',
+    listSearchableFields: ['source', 'destination'],
+  },
+  access: {
+    // Middleware reads redirects through the public REST API
+    read: () => true,
+    create: ({ req: { user } }) => ['admin', 'editor', 'photographer'].includes(user?.role || ''),
+    update: ({ req: { user } }) => ['admin', 'editor', 'photographer'].includes(user?.role || ''),
+    delete: ({ req: { user } }) => ['admin', 'editor'].includes(user?.role || ''),
+  },
+  hooks: createCollectionHook('redirects'),
+  fields: [
+    {
+      name: 'source',
+      type: 'text',
+      required: true,
+      index: true,
+      admin: {
+        description: 'Old path without the locale prefix (e.g., /galleries/old-name)',
+      },
+      hooks: {
+        beforeValidate: [({ value }) => (typeof value === 'string' ? normalizeRedirectPath(value) : value)],
+      },
+    },
+    {
+      name: 'destination',
+      type: 'text',
+      required: true,
+      admin: {
+        description: 'New path without the locale prefix (e.g., /galleries/new-name) or a full URL',
+      },
+      hooks: {
+        beforeValidate: [({ value }) =>
+          typeof value === 'string' && !/^https?:\/\//.test(value) ? normalizeRedirectPath(value) : value,
+        ],
+      },
+      validate: (value: string | null | undefined, { siblingData }: any) => {
+        if (!value) return 'Destination is required'
+        if (value === siblingData?.source) return 'Destination must differ from the source'
+        return true
+      },
+    },
+    {
+      name: 'type',
+      type: 'select',
+      required: true,
+      defaultValue: '301',
+      options: [
+        { label: '301 - Permanent', value: '301' },
+        { label: '302 - Temporary', value: '302' },
+      ],
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'locale',
+      type: 'select',
+      options: SITE_CONFIG.i18n.locales.map(locale => ({ label: locale.name, value: locale.code })),
+      admin: {
+        position: 'sidebar',
+        description: 'Leave empty to apply in every language',
+      },
+    },
+    {
+      name: 'includeSubpaths',
+      type: 'checkbox',
+      defaultValue: false,
+      admin: {
+        position: 'sidebar',
+        description: 'Also redirect paths below the source (e.g., images inside a renamed gallery)',
+      },
+    },
+  ],
+  timestamps: true,
+}
+
+export default Redirects
@@ -0,0 +1,196 @@
+import type { CollectionConfig } from 'payload'
+import { createCollectionHook } from '@/lib/utils/revalidation-hooks'
+import { createSlugRedirectHook } from '@/lib/utils/redirect-hooks'
+import { createKeywordsHook } from '@/lib/utils/field-hooks'
+
+const Series: CollectionConfig = {
+  slug: 'series',
+  labels: {
+    singular: 'Series',
+    plural: 'Series',
+  },
+  admin: {
+    useAsTitle: 'title',
+    defaultColumns: ['title', 'kind', 'featured', 'sortOrder'],
+    description: 'Series and portfolios that group related galleries, e.g. "Iceland 2019-2024" or "Commercial Work"',
+  },
+  hooks: {
+    ...createCollectionHook('series'),
+    afterChange: [
+      ...createCollectionHook('series').afterChange,
+      createSlugRedirectHook((doc) => `/series/${doc.slug}`),
+    ],
+  },
+  access: {
+    read: ({ req: { user } }) => {
+      if (user?.role === 'admin' || user?.role === 'editor' || user?.role === 'photographer') return true
+      return {
+        _status: { equals: 'published' },
+      }
+    },
+    create: ({ req: { user } }) => ['admin', 'editor', 'photographer'].includes(user?.role || ''),
+    update: ({ req: { user } }) => ['admin', 'editor', 'photographer'].includes(user?.role || ''),
+    delete: ({ req: { user } }) => user?.role === 'admin',
+  },
+  fields: [
+    // Basic Information
+    {
+      name: 'title',
+      type: 'text',
+      required: true,
+      admin: {
+        description: 'Series title',
+      },
+    },
+    {
+      name: 'slug',
+      type: 'text',
+      required: true,
+      unique: true,
+      admin: {
+        position: 'sidebar',
+        description: 'URL-friendly version of title',
+      },
+    },
+    {
+      name: 'kind',
+      type: 'select',
+      defaultValue: 'series',
+      options: [
+        { label: 'Series', value: 'series' },
+        { label: 'Portfolio', value: 'portfolio' },
+      ],
+      admin: {
+        position: 'sidebar',
+        description: 'Series follow a place or project over time; portfolios collect work of one kind',
+      },
+    },
+    {
+      name: 'description',
+      type: 'textarea',
+      required: true,
+      admin: {
+        description: 'Detailed description of the series',
+      },
+    },
+    {
+      name: 'excerpt',
+      type: 'textarea',
+      admin: {
+        description: 'Short excerpt for series previews',
+      },
+    },
+    {
+      name: 'coverImage',
+      type: 'text',
+      admin: {
+        description: 'URL of the cover image. Leave empty to use the cover of the first gallery.',
+        placeholder: 'https://example.com/image.jpg',
+      },
+    },
+
+    // Child galleries
+    {
+      name: 'galleries',
+      type: 'relationship',
+      relationTo: 'galleries',
+      hasMany: true,
+      filterOptions: {
+        visibility: { not_equals: 'private' },
+      },
+      admin: {
+        description: 'Galleries in this series, in the order they are shown. Drag to reorder.',
+      },
+    },
+
+    // Publishing and Display
+    {
+      name: 'featured',
+      type: 'checkbox',
+      defaultValue: false,
+      admin: {
+        position: 'sidebar',
+        description: 'Show this series first on the galleries page?',
+      },
+    },
+    {
+      name: 'sortOrder',
+      type: 'number',
+      defaultValue: 0,
+      admin: {
+        position: 'sidebar',
+        description: 'Display order (lower numbers appear first)',
+      },
+    },
+
+    // SEO Settings
+    {
+      name: 'seo',
+      type: 'group',
+      label: 'SEO Settings',
+      fields: [
+        {
+          name: 'metaTitle',
+          type: 'text',
+          localized: true,
+          admin: {
+            description: 'Custom page title for this series (overrides default). Leave empty to use series title.',
+          },
+        },
+        {
+          name: 'metaDescription',
+          type: 'textarea',
+          localized: true,
+          maxLength: 160,
+          admin: {
+            description: 'Custom meta description for search engines (150-160 characters recommended). Leave empty to use series excerpt.',
+          },
+        },
+        {
+          name: 'keywords',
+          type: 'text',
+          hasMany: true,
+          admin: {
+            description: 'SEO keywords and phrases for this series - supports comma-separated input!',
+          },
+          hooks: {
+            beforeChange: [createKeywordsHook({ maxItems: 20, maxLength: 50 })],
+          },
+        },
+        {
+          name: 'ogImage',
+          type: 'text',
+          admin: {
+            description: 'Custom OpenGraph image URL for social sharing. Leave empty to use the cover image.',
+            placeholder: 'https://example.com/social-image.jpg',
+          },
+        },
+        {
+          name: 'canonicalUrl',
+          type: 'text',
+          admin: {
+            description: 'Custom canonical URL if different from default. Usually leave empty.',
+          },
+        },
+        {
+          name: 'noIndex',
+          type: 'checkbox',
+          defaultValue: false,
+          admin: {
+            description: 'Check to prevent search engines from indexing this series',
+          },
+        },
+      ],
+      admin: {
+        description: 'Search Engine Optimization settings for this series',
+      },
+    },
+  ],
+  timestamps: true,
+  versions: {
+    drafts: true,
+    maxPerDoc: 2,
+  },
+}
+
+export default Series
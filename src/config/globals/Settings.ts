@@ -384,6 +384,7 @@ const Settings: GlobalConfig = {
               relationTo: 'images',
               admin: {
                 condition: (data, siblingData) => siblingData.enabled,
+                description: 'Transparent PNG works best. Applied to large and medium images for visitors.',
               },
             },
             {
@@ -628,7 +629,17 @@ const Settings: GlobalConfig = {
           hasMany: true,
           admin: {
             condition: (data, siblingData) => siblingData.enabled,
-            description: 'IP addresses allowed during maintenance',
+            description: 'IP addresses or CIDR ranges (e.g., 203.0.113.0/24) that can browse the site during maintenance. Logged-in admins always can.',
+          },
+        },
+        {
+          name: 'retryAfterMinutes',
+          type: 'number',
+          min: 1,
+          defaultValue: 30,
+          admin: {
+            condition: (data, siblingData) => siblingData.enabled,
+            description: 'Expected downtime in minutes, sent to browsers and crawlers as Retry-After',
           },
         },
       ],
@@ -69,22 +69,41 @@ export interface Config {
   collections: {
     users: User;
     images: Image;
+    media: Media;
     galleries: Gallery;
+    series: Series;
+    'gallery-access-logs': GalleryAccessLog;
+    'proofing-selections': ProofingSelection;
     'blog-posts': BlogPost;
     gear: Gear;
+    'gear-review': GearReview;
     comments: Comment;
+    redirects: Redirect;
+    'payload-jobs': PayloadJob;
     'payload-locked-documents': PayloadLockedDocument;
     'payload-preferences': PayloadPreference;
     'payload-migrations': PayloadMigration;
   };
-  collectionsJoins: {};
+  collectionsJoins: {
+    galleries: {
+      'privateAccess.accessLog': 'gallery-access-logs';
+      'privateAccess.proofingSelections': 'proofing-selections';
+    };
+  };
   collectionsSelect: {
     users: UsersSelect<false> | UsersSelect<true>;
     images: ImagesSelect<false> | ImagesSelect<true>;
+    media: MediaSelect<false> | MediaSelect<true>;
     galleries: GalleriesSelect<false> | GalleriesSelect<true>;
+    series: SeriesSelect<false> | SeriesSelect<true>;
+    'gallery-access-logs': GalleryAccessLogsSelect<false> | GalleryAccessLogsSelect<true>;
+    'proofing-selections': ProofingSelectionsSelect<false> | ProofingSelectionsSelect<true>;
     'blog-posts': BlogPostsSelect<false> | BlogPostsSelect<true>;
     gear: GearSelect<false> | GearSelect<true>;
+    'gear-review': GearReviewSelect<false> | GearReviewSelect<true>;
     comments: CommentsSelect<false> | CommentsSelect<true>;
+    redirects: RedirectsSelect<false> | RedirectsSelect<true>;
+    'payload-jobs': PayloadJobsSelect<false> | PayloadJobsSelect<true>;
     'payload-locked-documents': PayloadLockedDocumentsSelect<false> | PayloadLockedDocumentsSelect<true>;
     'payload-preferences': PayloadPreferencesSelect<false> | PayloadPreferencesSelect<true>;
     'payload-migrations': PayloadMigrationsSelect<false> | PayloadMigrationsSelect<true>;
@@ -109,7 +128,13 @@ export interface Config {
     collection: 'users';
   };
   jobs: {
-    tasks: unknown;
+    tasks: {
+      publishScheduled: TaskPublishScheduled;
+      inline: {
+        input: unknown;
+        output: unknown;
+      };
+    };
     workflows: unknown;
   };
 }
@@ -204,13 +229,17 @@ export interface Image {
    */
   altText: string;
   /**
-   * Image URLs for different sizes
+   * Upload the original photo - image URLs and file info are filled in automatically
    */
-  imageUrls: {
+  sourceFile?: (string | null) | Media;
+  /**
+   * Image URLs for different sizes (filled in automatically from the source file)
+   */
+  imageUrls?: {
     /**
      * Full resolution image URL
      */
-    full: string;
+    full?: string | null;
     /**
      * Large size image URL (1920px width)
      */
@@ -225,9 +254,9 @@ export interface Image {
     thumbnail?: string | null;
   };
   /**
-   * Gallery this image belongs to
+   * Galleries this image appears in. The first one is used for the image's own URL.
    */
-  gallery: string | Gallery;
+  galleries: (string | Gallery)[];
   /**
    * Photography style/genre of this image
    */
@@ -263,6 +292,17 @@ export interface Image {
        */
       longitude?: number | null;
     };
+    /**
+     * How precisely the map and nearby photos show where this was taken, e.g. to protect nesting sites
+     */
+    visibility?: ('exact' | 'approximate' | 'hidden') | null;
+    /**
+     * Public coordinates derived from GPS coordinates and location visibility
+     */
+    mapCoordinates?: {
+      latitude?: number | null;
+      longitude?: number | null;
+    };
     /**
      * Country where photo was taken
      */
@@ -281,11 +321,11 @@ export interface Image {
    */
   technical?: {
     /**
-     * Select camera body from gear collection (shows all gear for now)
+     * Camera body from gear collection - matched automatically from EXIF when possible
      */
     cameraBody?: (string | null) | Gear;
     /**
-     * Select lens from gear collection (shows all gear for now)
+     * Lens from gear collection - matched automatically from EXIF when possible
      */
     lensGear?: (string | null) | Gear;
     /**
@@ -296,6 +336,14 @@ export interface Image {
      * Shutter speed (e.g., 1/125s)
      */
     shutterSpeed?: string | null;
+    /**
+     * Aperture as a number, parsed from Aperture for range search
+     */
+    fNumber?: number | null;
+    /**
+     * Shutter speed in seconds, parsed from Shutter Speed for range search
+     */
+    exposureTime?: number | null;
     /**
      * ISO value (e.g., 400)
      */
@@ -381,6 +429,10 @@ export interface Image {
      * Custom attribution text (if different from default)
      */
     customAttribution?: string | null;
+    /**
+     * Serve this image without the site watermark
+     */
+    excludeFromWatermark?: boolean | null;
     /**
      * Available for print sales?
      */
@@ -518,13 +570,46 @@ export interface Image {
    */
   featured?: boolean | null;
   /**
-   * Order in gallery (lower numbers appear first)
+   * Fallback order for images not yet placed in a gallery's Image Order (lower numbers appear first)
    */
   sortOrder?: number | null;
   /**
-   * When was this photo taken?
+   * Publish this image automatically at this time. Save it as a draft until then.
    */
-  captureDate: string;
+  publishAt?: string | null;
+  /**
+   * Take this image offline automatically at this time
+   */
+  unpublishAt?: string | null;
+  /**
+   * When was this photo taken? Filled from EXIF when available.
+   */
+  captureDate?: string | null;
+  /**
+   * Camera settings, GPS, capture date, keywords and caption are read from the uploaded file
+   */
+  metadataPolicy?: {
+    /**
+     * Fields where EXIF/IPTC/XMP values replace manual entries. Other fields are only filled when empty.
+     */
+    overwrite?:
+      | (
+          | 'aperture'
+          | 'shutterSpeed'
+          | 'iso'
+          | 'focalLength'
+          | 'flash'
+          | 'coordinates'
+          | 'captureDate'
+          | 'keywords'
+          | 'caption'
+        )[]
+      | null;
+    /**
+     * Last time embedded metadata was applied
+     */
+    lastExtractedAt?: string | null;
+  };
   /**
    * Search Engine Optimization and structured data settings for this image
    */
@@ -542,7 +627,7 @@ export interface Image {
      */
     keywords?: string[] | null;
     /**
-     * Custom OpenGraph image URL for social sharing. Leave empty to use this image.
+     * Custom OpenGraph image URL for social sharing. Leave empty to use a generated card with this image.
      */
     ogImage?: string | null;
     /**
@@ -588,6 +673,68 @@ export interface Image {
   createdAt: string;
   _status?: ('draft' | 'published') | null;
 }
+/**
+ * Original photo uploads - resized variants are generated automatically
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "media".
+ */
+export interface Media {
+  id: string;
+  /**
+   * Optional alt text - the Images collection altText is used on the site
+   */
+  alt?: string | null;
+  /**
+   * Embedded EXIF/IPTC/XMP metadata extracted from the original file
+   */
+  exif?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  updatedAt: string;
+  createdAt: string;
+  url?: string | null;
+  thumbnailURL?: string | null;
+  filename?: string | null;
+  mimeType?: string | null;
+  filesize?: number | null;
+  width?: number | null;
+  height?: number | null;
+  focalX?: number | null;
+  focalY?: number | null;
+  sizes?: {
+    large?: {
+      url?: string | null;
+      width?: number | null;
+      height?: number | null;
+      mimeType?: string | null;
+      filesize?: number | null;
+      filename?: string | null;
+    };
+    medium?: {
+      url?: string | null;
+      width?: number | null;
+      height?: number | null;
+      mimeType?: string | null;
+      filesize?: number | null;
+      filename?: string | null;
+    };
+    thumbnail?: {
+      url?: string | null;
+      width?: number | null;
+      height?: number | null;
+      mimeType?: string | null;
+      filesize?: number | null;
+      filename?: string | null;
+    };
+  };
+}
 /**
  * Photo galleries for organizing and presenting collections of images
  *
@@ -635,6 +782,95 @@ export interface Gallery {
    * URL of the cover image for this gallery
    */
   coverImage?: string | null;
+  /**
+   * Smart galleries collect published images from other galleries by their metadata
+   */
+  galleryType?: ('manual' | 'smart') | null;
+  /**
+   * Images that only belong to private client galleries are never included
+   */
+  smartQuery?: {
+    match?: ('all' | 'any') | null;
+    /**
+     * Example: Photography Style is astrophotography, Country is Iceland, Capture Date is in year 2024
+     */
+    rules?:
+      | {
+          field:
+            | 'photographyStyle'
+            | 'location.country'
+            | 'location.region'
+            | 'location.city'
+            | 'tags'
+            | 'keywords'
+            | 'captureDate'
+            | 'technical.focalLength'
+            | 'technical.iso'
+            | 'technical.fNumber'
+            | 'technical.exposureTime'
+            | 'featured';
+          operator: 'equals' | 'not_equals' | 'contains' | 'in' | 'greater_than_equal' | 'less_than_equal' | 'year';
+          /**
+           * Dates as YYYY-MM-DD; style values in lowercase (e.g. astrophotography)
+           */
+          value: string;
+          id?: string | null;
+        }[]
+      | null;
+    sort?: ('-captureDate' | 'captureDate' | '-createdAt' | 'sortOrder') | null;
+    /**
+     * Maximum number of images shown
+     */
+    limit?: number | null;
+  };
+  /**
+   * Drag to reorder. Images are added here when this gallery is selected on the image, and removed when it is unselected.
+   */
+  imageOrder?:
+    | {
+        image: string | Image;
+        /**
+         * Optional caption shown in this gallery instead of the image description
+         */
+        caption?: string | null;
+        id?: string | null;
+      }[]
+    | null;
+  /**
+   * Private galleries are hidden from listings, search and the sitemap, and open only through a share link or password
+   */
+  visibility?: ('public' | 'private') | null;
+  privateAccess?: {
+    /**
+     * Optional password clients can enter instead of using a share link. Stored hashed: type a new password to replace it, or clear the field to remove it
+     */
+    password?: string | null;
+    /**
+     * How many days new share links stay valid
+     */
+    linkExpiryDays?: number | null;
+    /**
+     * Let clients favorite images, add notes and submit a final selection
+     */
+    allowProofing?: boolean | null;
+    linkSecret?: string | null;
+    /**
+     * When clients opened this gallery
+     */
+    accessLog?: {
+      docs?: (string | GalleryAccessLog)[];
+      hasNextPage?: boolean;
+      totalDocs?: number;
+    };
+    /**
+     * Selections submitted by clients
+     */
+    proofingSelections?: {
+      docs?: (string | ProofingSelection)[];
+      hasNextPage?: boolean;
+      totalDocs?: number;
+    };
+  };
   /**
    * Is this gallery published?
    */
@@ -643,6 +879,14 @@ export interface Gallery {
    * Feature this gallery on homepage?
    */
   featured?: boolean | null;
+  /**
+   * Publish this gallery automatically at this time. Save it as a draft until then.
+   */
+  publishAt?: string | null;
+  /**
+   * Take this gallery offline automatically at this time
+   */
+  unpublishAt?: string | null;
   /**
    * Display order (lower numbers appear first)
    */
@@ -664,7 +908,7 @@ export interface Gallery {
      */
     keywords?: string[] | null;
     /**
-     * Custom OpenGraph image URL for social sharing. Leave empty to use cover image.
+     * Custom OpenGraph image URL for social sharing. Leave empty to use a generated card with the cover image.
      */
     ogImage?: string | null;
     /**
@@ -684,6 +928,54 @@ export interface Gallery {
   createdAt: string;
   _status?: ('draft' | 'published') | null;
 }
+/**
+ * When private client galleries were opened, by share link or password
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "gallery-access-logs".
+ */
+export interface GalleryAccessLog {
+  id: string;
+  gallery: string | Gallery;
+  method: 'link' | 'password';
+  /**
+   * Unchecked for wrong passwords and expired or revoked links
+   */
+  success?: boolean | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Final picks submitted by clients from private galleries
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "proofing-selections".
+ */
+export interface ProofingSelection {
+  id: string;
+  gallery: string | Gallery;
+  clientName: string;
+  clientEmail?: string | null;
+  message?: string | null;
+  /**
+   * Favorited images and images the client left a note on
+   */
+  items?:
+    | {
+        image: string | Image;
+        favorite?: boolean | null;
+        note?: string | null;
+        id?: string | null;
+      }[]
+    | null;
+  status?: ('new' | 'in-progress' | 'delivered') | null;
+  favoriteCount?: number | null;
+  ipAddress?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * Photography gear and equipment details
  *
@@ -707,6 +999,10 @@ export interface Gear {
   name: string;
   brand: string;
   model: string;
+  /**
+   * Alternative names found in photo EXIF data (e.g., "ILCE-7M3" for Sony A7 III). Used to link images automatically.
+   */
+  aliases?: string[] | null;
   description?: {
     root: {
       type: string;
@@ -735,6 +1031,83 @@ export interface Gear {
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * Series and portfolios that group related galleries, e.g. "Iceland 2019-2024" or "Commercial Work"
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "series".
+ */
+export interface Series {
+  id: string;
+  /**
+   * Series title
+   */
+  title: string;
+  /**
+   * URL-friendly version of title
+   */
+  slug: string;
+  /**
+   * Series follow a place or project over time; portfolios collect work of one kind
+   */
+  kind?: ('series' | 'portfolio') | null;
+  /**
+   * Detailed description of the series
+   */
+  description: string;
+  /**
+   * Short excerpt for series previews
+   */
+  excerpt?: string | null;
+  /**
+   * URL of the cover image. Leave empty to use the cover of the first gallery.
+   */
+  coverImage?: string | null;
+  /**
+   * Galleries in this series, in the order they are shown. Drag to reorder.
+   */
+  galleries?: (string | Gallery)[] | null;
+  /**
+   * Show this series first on the galleries page?
+   */
+  featured?: boolean | null;
+  /**
+   * Display order (lower numbers appear first)
+   */
+  sortOrder?: number | null;
+  /**
+   * Search Engine Optimization settings for this series
+   */
+  seo?: {
+    /**
+     * Custom page title for this series (overrides default). Leave empty to use series title.
+     */
+    metaTitle?: string | null;
+    /**
+     * Custom meta description for search engines (150-160 characters recommended). Leave empty to use series excerpt.
+     */
+    metaDescription?: string | null;
+    /**
+     * SEO keywords and phrases for this series - supports comma-separated input!
+     */
+    keywords?: string[] | null;
+    /**
+     * Custom OpenGraph image URL for social sharing. Leave empty to use the cover image.
+     */
+    ogImage?: string | null;
+    /**
+     * Custom canonical URL if different from default. Usually leave empty.
+     */
+    canonicalUrl?: string | null;
+    /**
+     * Check to prevent search engines from indexing this series
+     */
+    noIndex?: boolean | null;
+  };
+  updatedAt: string;
+  createdAt: string;
+  _status?: ('draft' | 'published') | null;
+}
 /**
  * Photography blog posts and articles
  *
@@ -1068,6 +1441,18 @@ export interface BlogPost {
    * Feature this post on homepage?
    */
   featured?: boolean | null;
+  /**
+   * Publish this post automatically at this time. Save it as a draft until then.
+   */
+  publishAt?: string | null;
+  /**
+   * Take this post offline automatically at this time
+   */
+  unpublishAt?: string | null;
+  /**
+   * When this post was first published, by hand or on schedule
+   */
+  publishedAt?: string | null;
   /**
    * Total views of this post
    */
@@ -1093,7 +1478,7 @@ export interface BlogPost {
      */
     keywords?: string[] | null;
     /**
-     * Custom OpenGraph image URL for social sharing. Leave empty to use featured image.
+     * Custom OpenGraph image URL for social sharing. Leave empty to use a generated card with the featured image.
      */
     ogImage?: string | null;
     /**
@@ -1126,6 +1511,38 @@ export interface BlogPost {
   createdAt: string;
   _status?: ('draft' | 'published') | null;
 }
+/**
+ * EXIF camera and lens identifiers that did not match any gear entry
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "gear-review".
+ */
+export interface GearReview {
+  id: string;
+  /**
+   * Camera or lens name as written in the photo EXIF data
+   */
+  identifier: string;
+  kind: 'camera-body' | 'lens';
+  /**
+   * EXIF camera make, used as the brand when creating gear
+   */
+  make?: string | null;
+  /**
+   * Link existing gear - the identifier is saved as an alias and affected images are updated
+   */
+  gear?: (string | null) | Gear;
+  /**
+   * Images carrying this identifier
+   */
+  images?: (string | Image)[] | null;
+  /**
+   * Ignored identifiers are not queued again
+   */
+  status?: ('pending' | 'linked' | 'ignored') | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * User comments on images and blog posts with moderation workflow
  *
@@ -1200,6 +1617,126 @@ export interface Comment {
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * URL redirects - created automatically when a gallery, image or journal slug changes
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "redirects".
+ */
+export interface Redirect {
+  id: string;
+  /**
+   * Old path without the locale prefix (e.g., /galleries/old-name)
+   */
+  source: string;
+  /**
+   * New path without the locale prefix (e.g., /galleries/new-name) or a full URL
+   */
+  destination: string;
+  type: '301' | '302';
+  /**
+   * Leave empty to apply in every language
+   */
+  locale?: 'en' | null;
+  /**
+   * Also redirect paths below the source (e.g., images inside a renamed gallery)
+   */
+  includeSubpaths?: boolean | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs".
+ */
+export interface PayloadJob {
+  id: string;
+  /**
+   * Input data provided to the job
+   */
+  input?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  taskStatus?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  completedAt?: string | null;
+  totalTried?: number | null;
+  /**
+   * If hasError is true this job will not be retried
+   */
+  hasError?: boolean | null;
+  /**
+   * If hasError is true, this is the error that caused it
+   */
+  error?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  /**
+   * Task execution log
+   */
+  log?:
+    | {
+        executedAt: string;
+        completedAt: string;
+        taskSlug: 'inline' | 'publishScheduled';
+        taskID: string;
+        input?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        output?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        state: 'failed' | 'succeeded';
+        error?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        id?: string | null;
+      }[]
+    | null;
+  taskSlug?: ('inline' | 'publishScheduled') | null;
+  queue?: string | null;
+  waitUntil?: string | null;
+  processing?: boolean | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-locked-documents".
@@ -1215,10 +1752,26 @@ export interface PayloadLockedDocument {
         relationTo: 'images';
         value: string | Image;
       } | null)
+    | ({
+        relationTo: 'media';
+        value: string | Media;
+      } | null)
     | ({
         relationTo: 'galleries';
         value: string | Gallery;
       } | null)
+    | ({
+        relationTo: 'series';
+        value: string | Series;
+      } | null)
+    | ({
+        relationTo: 'gallery-access-logs';
+        value: string | GalleryAccessLog;
+      } | null)
+    | ({
+        relationTo: 'proofing-selections';
+        value: string | ProofingSelection;
+      } | null)
     | ({
         relationTo: 'blog-posts';
         value: string | BlogPost;
@@ -1227,9 +1780,21 @@ export interface PayloadLockedDocument {
         relationTo: 'gear';
         value: string | Gear;
       } | null)
+    | ({
+        relationTo: 'gear-review';
+        value: string | GearReview;
+      } | null)
     | ({
         relationTo: 'comments';
         value: string | Comment;
+      } | null)
+    | ({
+        relationTo: 'redirects';
+        value: string | Redirect;
+      } | null)
+    | ({
+        relationTo: 'payload-jobs';
+        value: string | PayloadJob;
       } | null);
   globalSlug?: string | null;
   user: {
@@ -1315,6 +1880,7 @@ export interface ImagesSelect<T extends boolean = true> {
   description?: T;
   caption?: T;
   altText?: T;
+  sourceFile?: T;
   imageUrls?:
     | T
     | {
@@ -1323,7 +1889,7 @@ export interface ImagesSelect<T extends boolean = true> {
         medium?: T;
         thumbnail?: T;
       };
-  gallery?: T;
+  galleries?: T;
   photographyStyle?: T;
   location?:
     | T
@@ -1335,6 +1901,13 @@ export interface ImagesSelect<T extends boolean = true> {
               latitude?: T;
               longitude?: T;
             };
+        visibility?: T;
+        mapCoordinates?:
+          | T
+          | {
+              latitude?: T;
+              longitude?: T;
+            };
         country?: T;
         region?: T;
         city?: T;
@@ -1346,6 +1919,8 @@ export interface ImagesSelect<T extends boolean = true> {
         lensGear?: T;
         aperture?: T;
         shutterSpeed?: T;
+        fNumber?: T;
+        exposureTime?: T;
         iso?: T;
         focalLength?: T;
         flash?: T;
@@ -1379,6 +1954,7 @@ export interface ImagesSelect<T extends boolean = true> {
         customCopyright?: T;
         license?: T;
         customAttribution?: T;
+        excludeFromWatermark?: T;
         availableForPrint?: T;
         availableForLicense?: T;
         specialNotes?: T;
@@ -1429,7 +2005,15 @@ export interface ImagesSelect<T extends boolean = true> {
       };
   featured?: T;
   sortOrder?: T;
+  publishAt?: T;
+  unpublishAt?: T;
   captureDate?: T;
+  metadataPolicy?:
+    | T
+    | {
+        overwrite?: T;
+        lastExtractedAt?: T;
+      };
   seo?:
     | T
     | {
@@ -1451,6 +2035,59 @@ export interface ImagesSelect<T extends boolean = true> {
   createdAt?: T;
   _status?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "media_select".
+ */
+export interface MediaSelect<T extends boolean = true> {
+  alt?: T;
+  exif?: T;
+  updatedAt?: T;
+  createdAt?: T;
+  url?: T;
+  thumbnailURL?: T;
+  filename?: T;
+  mimeType?: T;
+  filesize?: T;
+  width?: T;
+  height?: T;
+  focalX?: T;
+  focalY?: T;
+  sizes?:
+    | T
+    | {
+        large?:
+          | T
+          | {
+              url?: T;
+              width?: T;
+              height?: T;
+              mimeType?: T;
+              filesize?: T;
+              filename?: T;
+            };
+        medium?:
+          | T
+          | {
+              url?: T;
+              width?: T;
+              height?: T;
+              mimeType?: T;
+              filesize?: T;
+              filename?: T;
+            };
+        thumbnail?:
+          | T
+          | {
+              url?: T;
+              width?: T;
+              height?: T;
+              mimeType?: T;
+              filesize?: T;
+              filename?: T;
+            };
+      };
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "galleries_select".
@@ -1463,8 +2100,44 @@ export interface GalleriesSelect<T extends boolean = true> {
   photographyStyle?: T;
   tags?: T;
   coverImage?: T;
+  galleryType?: T;
+  smartQuery?:
+    | T
+    | {
+        match?: T;
+        rules?:
+          | T
+          | {
+              field?: T;
+              operator?: T;
+              value?: T;
+              id?: T;
+            };
+        sort?: T;
+        limit?: T;
+      };
+  imageOrder?:
+    | T
+    | {
+        image?: T;
+        caption?: T;
+        id?: T;
+      };
+  visibility?: T;
+  privateAccess?:
+    | T
+    | {
+        password?: T;
+        linkExpiryDays?: T;
+        allowProofing?: T;
+        linkSecret?: T;
+        accessLog?: T;
+        proofingSelections?: T;
+      };
   published?: T;
   featured?: T;
+  publishAt?: T;
+  unpublishAt?: T;
   sortOrder?: T;
   seo?:
     | T
@@ -1481,6 +2154,70 @@ export interface GalleriesSelect<T extends boolean = true> {
   createdAt?: T;
   _status?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "series_select".
+ */
+export interface SeriesSelect<T extends boolean = true> {
+  title?: T;
+  slug?: T;
+  kind?: T;
+  description?: T;
+  excerpt?: T;
+  coverImage?: T;
+  galleries?: T;
+  featured?: T;
+  sortOrder?: T;
+  seo?:
+    | T
+    | {
+        metaTitle?: T;
+        metaDescription?: T;
+        keywords?: T;
+        ogImage?: T;
+        canonicalUrl?: T;
+        noIndex?: T;
+      };
+  updatedAt?: T;
+  createdAt?: T;
+  _status?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "gallery-access-logs_select".
+ */
+export interface GalleryAccessLogsSelect<T extends boolean = true> {
+  gallery?: T;
+  method?: T;
+  success?: T;
+  ipAddress?: T;
+  userAgent?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "proofing-selections_select".
+ */
+export interface ProofingSelectionsSelect<T extends boolean = true> {
+  gallery?: T;
+  clientName?: T;
+  clientEmail?: T;
+  message?: T;
+  items?:
+    | T
+    | {
+        image?: T;
+        favorite?: T;
+        note?: T;
+        id?: T;
+      };
+  status?: T;
+  favoriteCount?: T;
+  ipAddress?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "blog-posts_select".
@@ -1604,6 +2341,9 @@ export interface BlogPostsSelect<T extends boolean = true> {
   readingTime?: T;
   difficulty?: T;
   featured?: T;
+  publishAt?: T;
+  unpublishAt?: T;
+  publishedAt?: T;
   viewCount?: T;
   authorId?: T;
   seo?:
@@ -1636,6 +2376,7 @@ export interface GearSelect<T extends boolean = true> {
   name?: T;
   brand?: T;
   model?: T;
+  aliases?: T;
   description?: T;
   sampleWork?: T;
   purchaseInfo?:
@@ -1652,6 +2393,20 @@ export interface GearSelect<T extends boolean = true> {
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "gear-review_select".
+ */
+export interface GearReviewSelect<T extends boolean = true> {
+  identifier?: T;
+  kind?: T;
+  make?: T;
+  gear?: T;
+  images?: T;
+  status?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "comments_select".
@@ -1687,6 +2442,50 @@ export interface CommentsSelect<T extends boolean = true> {
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "redirects_select".
+ */
+export interface RedirectsSelect<T extends boolean = true> {
+  source?: T;
+  destination?: T;
+  type?: T;
+  locale?: T;
+  includeSubpaths?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs_select".
+ */
+export interface PayloadJobsSelect<T extends boolean = true> {
+  input?: T;
+  taskStatus?: T;
+  completedAt?: T;
+  totalTried?: T;
+  hasError?: T;
+  error?: T;
+  log?:
+    | T
+    | {
+        executedAt?: T;
+        completedAt?: T;
+        taskSlug?: T;
+        taskID?: T;
+        input?: T;
+        output?: T;
+        state?: T;
+        error?: T;
+        id?: T;
+      };
+  taskSlug?: T;
+  queue?: T;
+  waitUntil?: T;
+  processing?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-locked-documents_select".
@@ -1903,6 +2702,9 @@ export interface Setting {
      */
     watermark?: {
       enabled?: boolean | null;
+      /**
+       * Transparent PNG works best. Applied to large and medium images for visitors.
+       */
       image?: (string | null) | Image;
       /**
        * Watermark opacity (0-100)
@@ -2018,9 +2820,13 @@ export interface Setting {
       [k: string]: unknown;
     } | null;
     /**
-     * IP addresses allowed during maintenance
+     * IP addresses or CIDR ranges (e.g., 203.0.113.0/24) that can browse the site during maintenance. Logged-in admins always can.
      */
     allowedIPs?: string[] | null;
+    /**
+     * Expected downtime in minutes, sent to browsers and crawlers as Retry-After
+     */
+    retryAfterMinutes?: number | null;
   };
   updatedAt?: string | null;
   createdAt?: string | null;
@@ -2706,6 +3512,7 @@ export interface SettingsSelect<T extends boolean = true> {
         enabled?: T;
         message?: T;
         allowedIPs?: T;
+        retryAfterMinutes?: T;
       };
   updatedAt?: T;
   createdAt?: T;
@@ -2960,6 +3767,20 @@ export interface SiteMetadataSelect<T extends boolean = true> {
   createdAt?: T;
   globalType?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskPublishScheduled".
+ */
+export interface TaskPublishScheduled {
+  input: {
+    collection: 'images' | 'galleries' | 'blog-posts';
+    id: string;
+    action: 'publish' | 'unpublish';
+  };
+  output: {
+    result?: string | null;
+  };
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "auth".
@@ -10,10 +10,16 @@ import { fileURLToPath } from 'url'
 // Import your existing collections
 import Users from './collections/Users'
 import Images from './collections/Images'
+import Media from './collections/Media'
 import Galleries from './collections/Galleries'
+import Series from './collections/Series'
+import GalleryAccessLogs from './collections/GalleryAccessLogs'
+import ProofingSelections from './collections/ProofingSelections'
 import BlogPosts from './collections/BlogPosts'
 import Gear from './collections/Gear'
+import GearReview from './collections/GearReview'
 import Comments from './collections/Comments'
+import Redirects from './collections/Redirects'
 
 // Import your existing globals
 import Settings from './globals/Settings'
@@ -24,6 +30,7 @@ import SiteMetadata from './globals/SiteMetadata'
 // Import working template components
 import { defaultLexical } from './fields/defaultLexical'
 import { getServerSideURL } from '@/lib/utils/getURL'
+import { publishScheduledTask } from '@/lib/utils/scheduled-publishing'
 import { SITE_CONFIG } from './site.config'
 
 const filename = fileURLToPath(import.meta.url)
@@ -74,10 +81,16 @@ export default buildConfig({
   collections: [
     Users,
     Images,
+    Media,
     Galleries,
+    Series,
+    GalleryAccessLogs,
+    ProofingSelections,
     BlogPosts,
     Gear,
+    GearReview,
     Comments,
+    Redirects,
   ],
   cors: [getServerSideURL()].filter(Boolean),
   globals: [Settings, Home, About, SiteMetadata],
@@ -117,6 +130,9 @@ export default buildConfig({
         return authHeader === `Bearer ${process.env.CRON_SECRET}`
       },
     },
-    tasks: [],
+    // Long-running servers can work the queue themselves; serverless hosts call /api/payload-jobs/run from a cron
+    autoRun: [{ cron: '* * * * *', queue: 'default', limit: 10 }],
+    shouldAutoRun: () => process.env.PAYLOAD_JOBS_AUTORUN === 'true',
+    tasks: [publishScheduledTask],
   }
 })
\ No newline at end of file
@@ -45,7 +45,7 @@ export const SITE_CONFIG = {
 
   // Internationalization
   i18n: {
-    defaultLocale: (process.env.NEXT_PUBLIC_DEFAULT_LOCALE as 'en') || 'en',
+    defaultLocale: process.env.NEXT_PUBLIC_DEFAULT_LOCALE || 'en',
     locales: [
       {
         code: 'en',
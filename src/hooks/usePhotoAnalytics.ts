@@ -1,6 +1,7 @@
 import { useCallback } from 'react'
 import { useAnalytics } from '@/components/providers/AnalyticsProvider'
 import { trackCustomPerformance } from '@/components/analytics/PerformanceMonitor'
+import { trackUsage } from '@/components/analytics/UsageTracker'
 
 // 🎓 LEARNING: Custom Hook Pattern for Photography Analytics
 // This demonstrates how to create domain-specific analytics hooks
@@ -26,6 +27,9 @@ export const usePhotoAnalytics = () => {
       dimensions?: { width: number; height: number }
     }
   ) => {
+    // First-party counts don't depend on GA consent - nothing personal is stored
+    trackUsage('view', 'images', imageId)
+
     if (!hasConsent || !isInitialized) return
 
     // Track the view event
@@ -89,6 +93,10 @@ export const usePhotoAnalytics = () => {
       shareDestination?: string
     }
   ) => {
+    if (action === 'download') {
+      trackUsage('download', 'images', imageId)
+    }
+
     if (!hasConsent || !isInitialized) return
 
     // Performance tracking for zoom actions
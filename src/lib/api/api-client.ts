@@ -2,6 +2,9 @@
 import { unstable_cache } from 'next/cache'
 import { getPayloadClient } from './payload-client'
 import { restApiClient } from './rest-api-client'
+import { notPrivateGallery } from '../utils/private-gallery'
+import { getPublicImagesWhere, isPrivateImage, orderGalleryImages } from '../utils/gallery-membership'
+import { getGalleryImagesOptions, getGalleryImagesWhere, isSmartGallery, type GalleryMembershipDoc } from '../utils/smart-gallery'
 
 // Re-export types
 export type { 
@@ -33,6 +36,8 @@ const getCachedGalleries = unstable_cache(
         featured: true,
         coverImage: true,
         photographyStyle: true,
+        galleryType: true,
+        smartQuery: true,
         createdAt: true,
         updatedAt: true,
         _status: true
@@ -40,30 +45,30 @@ const getCachedGalleries = unstable_cache(
       sort: '-createdAt',
       depth: 0, // No relations, we'll fetch images separately
       where: {
-        _status: { equals: 'published' }
+        _status: { equals: 'published' },
+        ...notPrivateGallery
       }
     })
     
     // Add image count and latest 3 images for each gallery using optimized queries
     const galleriesWithImageCount = await Promise.all(
       galleries.docs.map(async (gallery) => {
+        // Smart galleries resolve their images from the saved query
+        const imagesWhere = getGalleryImagesWhere(gallery as GalleryMembershipDoc)
+        if (!imagesWhere) {
+          return { ...gallery, imageCount: 0, images: [] }
+        }
+
         // Get total count (very fast, no data transfer)
-        const totalImages = await payload.find({
+        const totalImages = await payload.count({
           collection: 'images',
-          where: { 
-            gallery: { equals: gallery.id },
-            _status: { equals: 'published' }
-          },
-          limit: 0, // Count only
+          where: imagesWhere,
         })
         
         // Get latest 3 images with minimal fields for thumbnails
         const latestImages = await payload.find({
           collection: 'images',
-          where: { 
-            gallery: { equals: gallery.id },
-            _status: { equals: 'published' }
-          },
+          where: imagesWhere,
           select: {
             id: true,
             slug: true,
@@ -77,9 +82,12 @@ const getCachedGalleries = unstable_cache(
           depth: 0,
         })
         
+        // Smart galleries never show more than their limit
+        const { limit } = getGalleryImagesOptions(gallery as GalleryMembershipDoc, { sort: '-createdAt', limit: Infinity })
+
         return {
           ...gallery,
-          imageCount: totalImages.totalDocs,
+          imageCount: Math.min(totalImages.totalDocs, limit),
           images: latestImages.docs,
         }
       })
@@ -125,7 +133,8 @@ const getCachedGalleriesPaginated = unstable_cache(
         _status: true
       },
       where: {
-        _status: { equals: 'published' }
+        _status: { equals: 'published' },
+        ...notPrivateGallery
       },
       sort: '-createdAt',
       page,
@@ -172,7 +181,8 @@ const getCachedGalleryBySlug = unstable_cache(
       collection: 'galleries',
       where: { 
         slug: { equals: slug },
-        _status: { equals: 'published' }
+        _status: { equals: 'published' },
+        ...notPrivateGallery
       },
       select: {
         id: true,
@@ -183,6 +193,9 @@ const getCachedGalleryBySlug = unstable_cache(
         coverImage: true,
         featured: true,
         photographyStyle: true,
+        galleryType: true,
+        smartQuery: true,
+        imageOrder: true,
         tags: true,
         seo: true,
         createdAt: true,
@@ -197,14 +210,16 @@ const getCachedGalleryBySlug = unstable_cache(
     }
     
     const gallery = galleries.docs[0]
+    const imagesWhere = getGalleryImagesWhere(gallery as GalleryMembershipDoc)
+    const isSmart = isSmartGallery(gallery)
+    // Smart galleries use their saved sort and limit
+    const { sort, limit: imageLimit } = getGalleryImagesOptions(gallery as GalleryMembershipDoc, { sort: 'sortOrder', limit: 0 })
     
-    // Get paginated images for this gallery (only published) with selective fields
-    const images = await payload.find({
+    // Get images for this gallery (only published) with selective fields.
+    // Manual galleries load every image so their custom order can be applied.
+    const images = imagesWhere ? await payload.find({
       collection: 'images',
-      where: { 
-        gallery: { equals: gallery.id },
-        _status: { equals: 'published' }
-      },
+      where: imagesWhere,
       select: {
         id: true,
         slug: true,
@@ -216,16 +231,20 @@ const getCachedGalleryBySlug = unstable_cache(
         tags: true,
         keywords: true,
         photographyMetadata: true,
+        rights: true,
+        galleries: true,
         createdAt: true
       },
-      sort: '-createdAt', // Sort by newest first
-      limit: 100, // Reasonable limit for gallery images
-      depth: 0,
-    })
+      sort,
+      ...(isSmart ? { limit: imageLimit } : { pagination: false }),
+      depth: 1,
+      // Only the slug of each image's galleries, for image links
+      populate: { galleries: { slug: true } },
+    }) : { docs: [], totalDocs: 0 }
     
     const extendedGallery = gallery as any
-    extendedGallery.images = images.docs
-    extendedGallery.imageCount = images.totalDocs
+    extendedGallery.images = isSmart ? images.docs : orderGalleryImages(images.docs, gallery.imageOrder)
+    extendedGallery.imageCount = isSmart ? Math.min(images.totalDocs, imageLimit) : images.totalDocs
     
     return extendedGallery
   },
@@ -244,6 +263,86 @@ export async function getGalleryBySlug(slug: string) {
   }
 }
 
+// Published series with their child gallery IDs in display order
+const getCachedSeries = unstable_cache(
+  async () => {
+    const payload = await getPayloadClient()
+
+    const series = await payload.find({
+      collection: 'series',
+      where: {
+        _status: { equals: 'published' }
+      },
+      sort: 'sortOrder',
+      pagination: false,
+      depth: 0,
+    })
+
+    return series.docs
+  },
+  ['series-list'],
+  {
+    tags: ['series', 'galleries'],
+    revalidate: 3600, // 1 hour cache
+  }
+)
+
+type ListedGallery = Awaited<ReturnType<typeof getCachedGalleries>>[number]
+
+// Attach the listed (published, public) child galleries and a cover fallback to a series
+function withSeriesGalleries(series: Awaited<ReturnType<typeof getCachedSeries>>[number], galleries: ListedGallery[]) {
+  const byId = new Map(galleries.map((gallery) => [gallery.id, gallery]))
+  const childGalleries = (series.galleries || [])
+    .map((gallery) => byId.get(typeof gallery === 'object' ? gallery.id : gallery))
+    .filter((gallery): gallery is ListedGallery => Boolean(gallery))
+
+  return {
+    ...series,
+    coverImage: series.coverImage || childGalleries.find((gallery) => gallery.coverImage)?.coverImage || null,
+    galleries: childGalleries,
+    galleryCount: childGalleries.length,
+    imageCount: childGalleries.reduce((sum, gallery) => sum + (gallery.imageCount || 0), 0),
+  }
+}
+
+export type SeriesWithGalleries = ReturnType<typeof withSeriesGalleries>
+
+export async function getSeriesList(): Promise<SeriesWithGalleries[]> {
+  if (isBrowser) {
+    throw new Error('getSeriesList is only available server-side')
+  }
+  const [series, galleries] = await Promise.all([getCachedSeries(), getCachedGalleries()])
+  // Featured series first, then by sort order
+  return series
+    .map((item) => withSeriesGalleries(item, galleries))
+    .filter((item) => item.galleryCount > 0)
+    .sort((a, b) => Number(Boolean(b.featured)) - Number(Boolean(a.featured)))
+}
+
+export async function getSeriesBySlug(slug: string): Promise<SeriesWithGalleries | null> {
+  const series = await getSeriesList()
+  return series.find((item) => item.slug === slug) || null
+}
+
+// First series (in display order) that includes a gallery, for breadcrumbs
+export async function getSeriesForGallery(galleryId: string): Promise<SeriesWithGalleries | null> {
+  const series = await getSeriesList()
+  return series.find((item) => item.galleries.some((gallery) => gallery.id === galleryId)) || null
+}
+
+/**
+ * Drop what visitors must not receive with a full image: the source upload with its EXIF,
+ * and the exact GPS coordinates unless the location is shown as is
+ */
+function toPublicImage<T extends { sourceFile?: unknown; location?: { visibility?: string | null; coordinates?: unknown } | null }>(image: T) {
+  const publicImage = { ...image, sourceFile: undefined }
+  const location = image.location
+  if (location?.visibility && location.visibility !== 'exact') {
+    return { ...publicImage, location: { ...location, coordinates: undefined } }
+  }
+  return publicImage
+}
+
 export async function getImageById(id: string) {
   if (isBrowser) {
     return restApiClient.getImageById(id, 'en')
@@ -259,7 +358,11 @@ export async function getImageById(id: string) {
       if (image && image._status !== 'published') {
         return null
       }
-      return image
+      // Images in client galleries are only shown through the private gallery page
+      if (image && isPrivateImage(image)) {
+        return null
+      }
+      return toPublicImage(image)
     } catch (error) {
       return null
     }
@@ -288,13 +391,56 @@ export async function getImageBySlug(slug: string) {
       if (image && image._status !== 'published') {
         return null
       }
-      return image
+      // Images in client galleries are only shown through the private gallery page
+      if (image && isPrivateImage(image)) {
+        return null
+      }
+      return toPublicImage(image)
     } catch (error) {
       return null
     }
   }
 }
 
+// Most viewed published images, ranked by first-party usage counts
+const getCachedMostViewedImages = unstable_cache(
+  async (limit = 12) => {
+    const payload = await getPayloadClient()
+
+    const images = await payload.find({
+      collection: 'images',
+      where: await getPublicImagesWhere(payload),
+      select: {
+        id: true,
+        slug: true,
+        title: true,
+        alt: true,
+        imageUrls: true,
+        galleries: true,
+        usage: true,
+        createdAt: true
+      },
+      sort: '-usage.viewCount',
+      limit,
+      depth: 1,
+    })
+
+    return images.docs
+  },
+  ['most-viewed-images'],
+  {
+    tags: ['images'],
+    revalidate: 1800, // Counts change constantly; 30 minutes is fresh enough for ranking
+  }
+)
+
+export async function getMostViewedImages(limit = 12) {
+  if (isBrowser) {
+    throw new Error('getMostViewedImages is only available server-side')
+  }
+  return getCachedMostViewedImages(limit)
+}
+
 // Optimized cached blog posts fetcher
 const getCachedBlogPosts = unstable_cache(
   async (limit = 10) => {
@@ -1,5 +1,8 @@
 import { getPayload } from 'payload'
 import configPromise from '../../config/payload.config'
+import { notPrivateGallery } from '../utils/private-gallery'
+import { isPrivateImage, orderGalleryImages, type GalleryImageOrderRow } from '../utils/gallery-membership'
+import { getGalleryImagesOptions, getGalleryImagesWhere, isSmartGallery, type GalleryMembershipDoc } from '../utils/smart-gallery'
 
 // PayloadCMS client instance
 let payloadClient: Awaited<ReturnType<typeof getPayload>> | null = null
@@ -62,7 +65,9 @@ export interface PayloadImage {
     } | null
   }
   captureDate: string
-  gallery?: PayloadGallery
+  galleries?: PayloadGallery[]
+  // Caption override from the gallery the image is shown in
+  galleryCaption?: string | { en?: string; ta?: string }
   tags: {
     en: string[]
     ta: string[]
@@ -186,6 +191,7 @@ export interface PayloadGallery {
     ta: string
   }
   images?: PayloadImage[]
+  imageOrder?: GalleryImageOrderRow[]
   imageCount: number
   tags?: {
     en: string[]
@@ -516,6 +522,7 @@ export async function getGalleries(locale: string = 'en') {
   
   const galleries = await payload.find({
     collection: 'galleries',
+    where: notPrivateGallery,
     locale: locale as any,
     sort: '-createdAt',
     depth: 2, // Include related images
@@ -532,7 +539,8 @@ export async function getGalleryBySlug(slug: string, locale: string = 'en') {
     where: {
       slug: {
         equals: slug
-      }
+      },
+      ...notPrivateGallery
     },
     locale: locale as any,
     limit: 1,
@@ -544,23 +552,24 @@ export async function getGalleryBySlug(slug: string, locale: string = 'en') {
   }
   
   const gallery = galleries.docs[0] as unknown as PayloadGallery
+  const membership = galleries.docs[0] as unknown as GalleryMembershipDoc
+  const imagesWhere = getGalleryImagesWhere(membership)
+  const isSmart = isSmartGallery(membership)
+  const { sort, limit } = getGalleryImagesOptions(membership, { sort: 'sortOrder', limit: 0 })
   
-  // Get all images for this gallery (only published)
-  const images = await payload.find({
+  // Get all images for this gallery (only published); smart galleries resolve their saved query
+  const images = imagesWhere ? await payload.find({
     collection: 'images',
-    where: {
-      gallery: {
-        equals: gallery.id
-      },
-      _status: {
-        equals: 'published'
-      }
-    },
-    sort: 'order',
+    where: imagesWhere,
+    sort,
+    ...(isSmart ? { limit } : { pagination: false }),
+    locale: locale as any,
     depth: 1,
-  })
+  }) : { docs: [], totalDocs: 0 }
   
-  gallery.images = images.docs as unknown as PayloadImage[]
+  // Manual galleries follow their drag-and-drop order and caption overrides
+  const orderedImages = isSmart ? images.docs : orderGalleryImages(images.docs, gallery.imageOrder)
+  gallery.images = orderedImages as unknown as PayloadImage[]
   gallery.imageCount = images.totalDocs
   
   return gallery
@@ -580,6 +589,11 @@ export async function getImageById(id: string, locale: string = 'en') {
   if (image && (image as any)._status !== 'published') {
     return null
   }
+
+  // Images in client galleries are only shown through the private gallery page
+  if (image && isPrivateImage(image)) {
+    return null
+  }
   
   return image as unknown as PayloadImage
 }
@@ -707,131 +721,6 @@ export async function getSiteMetadata(locale: string = 'en') {
   return metadata as unknown as PayloadSiteMetadata
 }
 
-// Search functionality
-export interface SearchResults {
-  galleries: PayloadGallery[]
-  images: PayloadImage[]
-  blogPosts: PayloadBlogPost[]
-  totalResults: number
-}
-
-export async function searchContent(
-  query: string,
-  locale: string = 'en',
-  type?: 'galleries' | 'images' | 'blog' | 'all',
-  limit = 20
-): Promise<SearchResults> {
-  if (!query || query.trim().length < 2) {
-    return {
-      galleries: [],
-      images: [],
-      blogPosts: [],
-      totalResults: 0
-    }
-  }
-
-  const payload = await getPayloadClient()
-  const searchTerm = query.trim()
-
-  // Create search conditions for different content types
-  const createSearchCondition = (fields: string[]) => ({
-    or: fields.map(field => ({
-      [field]: {
-        contains: searchTerm
-      }
-    }))
-  })
-
-  const results: SearchResults = {
-    galleries: [],
-    images: [],
-    blogPosts: [],
-    totalResults: 0
-  }
-
-  try {
-    // Search galleries if type is 'all' or 'galleries'
-    if (!type || type === 'all' || type === 'galleries') {
-      const galleries = await payload.find({
-        collection: 'galleries',
-        where: {
-          and: [
-            { published: { equals: true } },
-            createSearchCondition([
-              'title',
-              'description',
-              'excerpt',
-              'tags'
-            ])
-          ]
-        },
-        limit,
-        depth: 2,
-        locale: locale as any
-      })
-      results.galleries = galleries.docs as unknown as PayloadGallery[]
-    }
-
-    // Search images if type is 'all' or 'images'
-    if (!type || type === 'all' || type === 'images') {
-      const images = await payload.find({
-        collection: 'images',
-        where: {
-          and: [
-            { _status: { equals: 'published' } },
-            createSearchCondition([
-              'title',
-              'description',
-              'caption',
-              'altText',
-              'tags',
-              'location.name',
-              'location.city',
-              'location.region',
-              'location.country',
-              'photographyStyle'
-            ])
-          ]
-        },
-        limit,
-        depth: 2,
-        locale: locale as any
-      })
-      results.images = images.docs as unknown as PayloadImage[]
-    }
-
-    // Search blog posts if type is 'all' or 'blog'
-    if (!type || type === 'all' || type === 'blog') {
-      const blogPosts = await payload.find({
-        collection: 'blog-posts',
-        where: {
-          and: [
-            { _status: { equals: 'published' } },
-            createSearchCondition([
-              'title',
-              'subtitle',
-              'excerpt',
-              'tags'
-            ])
-          ]
-        },
-        limit,
-        depth: 2,
-        locale: locale as any
-      })
-      results.blogPosts = blogPosts.docs as unknown as PayloadBlogPost[]
-    }
-
-    results.totalResults = results.galleries.length + results.images.length + results.blogPosts.length
-
-  } catch (error) {
-    console.error('Search content error:', error)
-    // Return empty results on error instead of throwing
-  }
-
-  return results
-}
-
 // Re-export localization helpers for backward compatibility
 export { getLocalizedValue, formatDate } from '../utils/localization'
 
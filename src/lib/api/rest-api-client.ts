@@ -6,6 +6,7 @@ import type {
   PayloadAbout, 
   PayloadGear
 } from './payload-client'
+import { orderGalleryImages } from '../utils/gallery-membership'
 
 const API_BASE_URL = process.env.NODE_ENV === 'production' 
   ? process.env.NEXT_PUBLIC_API_URL || ''
@@ -39,10 +40,10 @@ class RestApiClient {
       result.docs.map(async (gallery) => {
         try {
           // Get total count
-          const totalImages = await this.fetchApi<{ totalDocs: number }>(`/api/images?where[gallery][equals]=${gallery.id}&where[_status][equals]=published&locale=${locale}&limit=0`)
+          const totalImages = await this.fetchApi<{ totalDocs: number }>(`/api/images?where[galleries][in]=${gallery.id}&where[_status][equals]=published&locale=${locale}&limit=0`)
           
           // Get latest 3 images
-          const latestImages = await this.fetchApi<{ docs: PayloadImage[] }>(`/api/images?where[gallery][equals]=${gallery.id}&where[_status][equals]=published&locale=${locale}&sort=-createdAt&limit=3&depth=1`)
+          const latestImages = await this.fetchApi<{ docs: PayloadImage[] }>(`/api/images?where[galleries][in]=${gallery.id}&where[_status][equals]=published&locale=${locale}&sort=-createdAt&limit=3&depth=1`)
           
           return {
             ...gallery,
@@ -74,9 +75,9 @@ class RestApiClient {
       const gallery = result.docs[0]
       
       // Get images for this gallery (only published)
-      const images = await this.fetchApi<{ docs: PayloadImage[]; totalDocs?: number }>(`/api/images?where[gallery][equals]=${gallery.id}&where[_status][equals]=published&locale=${locale}&sort=order&depth=1`)
+      const images = await this.fetchApi<{ docs: PayloadImage[]; totalDocs?: number }>(`/api/images?where[galleries][in]=${gallery.id}&where[_status][equals]=published&locale=${locale}&sort=sortOrder&pagination=false&depth=1`)
       
-      gallery.images = images.docs
+      gallery.images = orderGalleryImages(images.docs, gallery.imageOrder)
       gallery.imageCount = images.totalDocs || images.docs.length
       
       return gallery
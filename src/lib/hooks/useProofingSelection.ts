@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useState } from 'react'
+
+interface ProofingState {
+  favorites: string[]
+  notes: Record<string, string>
+  submittedAt?: string
+}
+
+const EMPTY_STATE: ProofingState = { favorites: [], notes: {} }
+
+/**
+ * Favorites and per-image notes for a client gallery, kept in localStorage
+ * so clients can come back to their picks before submitting
+ */
+export function useProofingSelection(galleryId: string) {
+  const storageKey = `proofing-${galleryId}`
+  const [state, setState] = useState<ProofingState>(EMPTY_STATE)
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(storageKey)
+      setState(stored ? { ...EMPTY_STATE, ...JSON.parse(stored) } : EMPTY_STATE)
+    } catch {
+      setState(EMPTY_STATE)
+    }
+  }, [storageKey])
+
+  const update = useCallback(
+    (updater: (prev: ProofingState) => ProofingState) => {
+      setState((prev) => {
+        const next = updater(prev)
+        try {
+          localStorage.setItem(storageKey, JSON.stringify(next))
+        } catch {
+          // Storage may be full or disabled; the selection still works for this visit
+        }
+        return next
+      })
+    },
+    [storageKey]
+  )
+
+  const toggleFavorite = useCallback(
+    (imageId: string) => {
+      update((prev) => ({
+        ...prev,
+        submittedAt: undefined,
+        favorites: prev.favorites.includes(imageId)
+          ? prev.favorites.filter((id) => id !== imageId)
+          : [...prev.favorites, imageId],
+      }))
+    },
+    [update]
+  )
+
+  const setNote = useCallback(
+    (imageId: string, note: string) => {
+      update((prev) => {
+        const notes = { ...prev.notes }
+        if (note) {
+          notes[imageId] = note
+        } else {
+          delete notes[imageId]
+        }
+        return { ...prev, notes, submittedAt: undefined }
+      })
+    },
+    [update]
+  )
+
+  const markSubmitted = useCallback(() => {
+    update((prev) => ({ ...prev, submittedAt: new Date().toISOString() }))
+  }, [update])
+
+  return {
+    favorites: state.favorites,
+    notes: state.notes,
+    submittedAt: state.submittedAt,
+    isFavorite: (imageId: string) => state.favorites.includes(imageId),
+    toggleFavorite,
+    setNote,
+    markSubmitted,
+  }
+}
@@ -1,9 +1,11 @@
 import { SITE_CONFIG } from '@/config/site.config'
 
-// Generate dynamic locale config from site config
-export const locales = ['en'] as const // Fallback for type safety (Tamil removed for now)
+// Enabled locales come from SITE_CONFIG - add a locale there (plus a messages file) to enable it
+export const locales: string[] = SITE_CONFIG.i18n.locales.map(locale => locale.code)
 export type Locale = (typeof locales)[number]
-export const defaultLocale: Locale = SITE_CONFIG.i18n.defaultLocale as Locale
+export const defaultLocale: Locale = locales.includes(SITE_CONFIG.i18n.defaultLocale)
+  ? SITE_CONFIG.i18n.defaultLocale
+  : locales[0] || 'en'
 
 // Dynamic generation at runtime
 export const localeNames: Record<string, string> = Object.fromEntries(
@@ -16,5 +18,37 @@ export const localeFlags: Record<string, string> = Object.fromEntries(
 
 // Get actual enabled locales
 export function getEnabledLocales(): string[] {
-  return SITE_CONFIG.i18n.locales.map(locale => locale.code)
-}
\ No newline at end of file
+  return locales
+}
+
+export function isLocale(value: string | null | undefined): value is Locale {
+  return Boolean(value) && locales.includes(value as string)
+}
+
+/**
+ * Pick the best enabled locale for an Accept-Language header.
+ * Honors q-values and matches region variants (e.g. "ta-IN") to their base language.
+ */
+export function negotiateLocale(acceptLanguage: string | null | undefined): Locale {
+  if (!acceptLanguage) return defaultLocale
+
+  const preferences = acceptLanguage
+    .split(',')
+    .map(part => {
+      const [tag, ...params] = part.trim().split(';')
+      const q = params.find(param => param.trim().startsWith('q='))
+      return { tag: tag.toLowerCase(), q: q ? Number(q.trim().slice(2)) : 1 }
+    })
+    .filter(preference => preference.tag && preference.q > 0)
+    .sort((a, b) => b.q - a.q)
+
+  for (const { tag } of preferences) {
+    const exact = locales.find(locale => locale.toLowerCase() === tag)
+    if (exact) return exact
+
+    const base = locales.find(locale => locale.toLowerCase() === tag.split('-')[0])
+    if (base) return base
+  }
+
+  return defaultLocale
+}
@@ -0,0 +1,32 @@
+import { defaultLocale } from './config'
+
+type Messages = Record<string, any>
+
+function mergeMessages(base: Messages, override: Messages): Messages {
+  const merged: Messages = { ...base }
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] =
+      value && typeof value === 'object' && !Array.isArray(value) && typeof base[key] === 'object'
+        ? mergeMessages(base[key], value)
+        : value
+  }
+  return merged
+}
+
+/**
+ * Load the message file for a locale.
+ * Missing keys (or a missing file) fall back to the default locale's messages,
+ * so a partially translated locale still renders.
+ */
+export async function loadMessages(locale: string): Promise<Messages> {
+  const fallback: Messages = (await import(`./messages/${defaultLocale}.json`)).default
+  if (locale === defaultLocale) return fallback
+
+  try {
+    const messages: Messages = (await import(`./messages/${locale}.json`)).default
+    return mergeMessages(fallback, messages)
+  } catch {
+    console.warn(`⚠️ No messages found for locale "${locale}", using ${defaultLocale}`)
+    return fallback
+  }
+}
@@ -1,11 +1,14 @@
 import { getRequestConfig } from 'next-intl/server'
+import { defaultLocale, isLocale } from './config'
+import { loadMessages } from './load-messages'
+
+export default getRequestConfig(async ({ requestLocale }) => {
+  // Fall back to the default locale for unknown or missing locales
+  const requested = await requestLocale
+  const resolvedLocale = isLocale(requested) ? requested : defaultLocale
 
-export default getRequestConfig(async ({ locale }) => {
-  // Ensure we have a locale, fallback to 'en' if undefined
-  const resolvedLocale = locale || 'en'
-  
   return {
     locale: resolvedLocale,
-    messages: (await import(`./messages/${resolvedLocale}.json`)).default
+    messages: await loadMessages(resolvedLocale)
   }
-})
\ No newline at end of file
+})
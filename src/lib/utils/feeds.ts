@@ -0,0 +1,469 @@
+/**
+ * Syndication Feeds
+ * Builds RSS 2.0, Atom 1.0 and JSON Feed 1.1 documents for the journal and for new work
+ * (recently published galleries and images)
+ */
+import { unstable_cache } from 'next/cache'
+import { NextResponse } from 'next/server'
+import { getTranslations } from 'next-intl/server'
+import { convertLexicalToHTML, LinkHTMLConverter, TextHTMLConverter } from '@payloadcms/richtext-lexical/html'
+import { DERIVED_CONFIG, SITE_CONFIG } from '@/config/site.config'
+import { isLocale } from '@/lib/i18n/config'
+import { getPayloadClient } from '../api/payload-client'
+import { escapeXML, toAbsoluteUrl } from './image-sitemap'
+import { getListedGallery, getPublicImagesWhere, LISTED_GALLERY_WHERE } from './gallery-membership'
+import { getLocalizedValue } from './localization'
+import { getSEOPersonalData } from './seo-helpers'
+
+export type FeedFormat = 'rss' | 'atom' | 'json'
+
+// File name of each format under a feed's path, e.g. /en/journal/feed.xml
+export const FEED_FILES: Record<FeedFormat, string> = {
+  rss: 'feed.xml',
+  atom: 'atom.xml',
+  json: 'feed.json',
+}
+
+const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+}
+
+const FEED_ITEM_LIMIT = 20
+
+export interface FeedImage {
+  url: string
+  type: string
+}
+
+export interface FeedItem {
+  id: string
+  url: string
+  title: string
+  summary?: string
+  contentHTML?: string
+  published: string
+  updated: string
+  author?: string
+  categories?: string[]
+  image?: FeedImage
+}
+
+export interface Feed {
+  title: string
+  description: string
+  homeUrl: string
+  feedUrls: Record<FeedFormat, string>
+  language: string
+  author: string
+  updated: string
+  items: FeedItem[]
+}
+
+/**
+ * Absolute URL of each feed format for a site path, e.g. `/journal`
+ */
+export function getFeedUrls(path: string, locale: string): Record<FeedFormat, string> {
+  const base = `${SITE_CONFIG.url.base}/${locale}${path}`
+  return {
+    rss: `${base}/${FEED_FILES.rss}`,
+    atom: `${base}/${FEED_FILES.atom}`,
+    json: `${base}/${FEED_FILES.json}`,
+  }
+}
+
+/**
+ * `alternates.types` metadata so browsers and feed readers can discover a page's feeds
+ */
+export function getFeedAlternateTypes(path: string, locale: string, title: string) {
+  const urls = getFeedUrls(path, locale)
+  return {
+    'application/rss+xml': [{ url: urls.rss, title }],
+    'application/atom+xml': [{ url: urls.atom, title }],
+    'application/feed+json': [{ url: urls.json, title }],
+  }
+}
+
+function getImageType(url: string): string {
+  const extension = url.split('?')[0].split('.').pop()?.toLowerCase()
+  if (extension === 'webp') return 'image/webp'
+  if (extension === 'png') return 'image/png'
+  if (extension === 'avif') return 'image/avif'
+  return 'image/jpeg'
+}
+
+function getFeedImage(image: any): FeedImage | undefined {
+  const url = image && typeof image === 'object' ? image.imageUrls?.large || image.imageUrls?.full : null
+  return url ? { url: toAbsoluteUrl(url), type: getImageType(url) } : undefined
+}
+
+// ============================================================================
+// CONTENT RENDERING
+// ============================================================================
+
+function renderRichText(content: unknown, locale: string): string {
+  const data = getLocalizedValue(content as any, locale) as any
+  if (!data?.root) return ''
+
+  return convertLexicalToHTML({
+    data,
+    disableContainer: true,
+    converters: ({ defaultConverters }) => ({
+      ...defaultConverters,
+      // The default text converter outputs text unescaped
+      text: (args) => (TextHTMLConverter.text as any)({ ...args, node: { ...args.node, text: escapeXML(args.node.text) } }),
+      ...LinkHTMLConverter({
+        internalDocToHref: ({ linkNode }) => {
+          const { relationTo, value } = (linkNode.fields.doc || {}) as { relationTo?: string; value?: any }
+          const section = relationTo === 'galleries' ? 'galleries' : 'journal'
+          const slug = value && typeof value === 'object' ? value.slug : null
+          return `${SITE_CONFIG.url.base}/${locale}/${section}${slug ? `/${slug}` : ''}`
+        },
+      }),
+    }),
+  })
+}
+
+function renderImage(image: any, locale: string): string {
+  const feedImage = getFeedImage(image)
+  if (!feedImage) return ''
+
+  const alt = getLocalizedValue(image.alt, locale) || getLocalizedValue(image.title, locale) || ''
+  return `<figure><img src="${escapeXML(feedImage.url)}" alt="${escapeXML(alt)}" /></figure>`
+}
+
+function renderHeading(title: unknown, locale: string): string {
+  const text = getLocalizedValue(title as any, locale) as string | undefined
+  return text ? `<h2>${escapeXML(text)}</h2>` : ''
+}
+
+/**
+ * Render a blog post's content blocks to plain HTML for feed readers.
+ * Layout options are dropped; text, images, quotes and gallery links are kept.
+ */
+export function renderBlogPostHTML(post: any, locale: string): string {
+  const html: string[] = []
+
+  for (const block of post.contentBlocks || []) {
+    html.push(renderHeading(block.title, locale))
+
+    switch (block.blockType) {
+      case 'textSection':
+        html.push(renderRichText(block.content, locale))
+        break
+      case 'imageSection':
+        for (const image of block.images || []) html.push(renderImage(image, locale))
+        if (block.caption) html.push(`<p><em>${escapeXML(getLocalizedValue(block.caption, locale))}</em></p>`)
+        break
+      case 'textImageSection':
+        html.push(renderImage(block.image, locale), renderRichText(block.content, locale))
+        break
+      case 'imageCarouselText':
+        html.push(renderRichText(block.content, locale))
+        for (const image of block.images || []) html.push(renderImage(image, locale))
+        break
+      case 'flexibleContent':
+        for (const element of block.elements || []) {
+          if (element.blockType === 'textElement') html.push(renderRichText(element.content, locale))
+          if (element.blockType === 'imageElement') html.push(renderImage(element.image, locale))
+        }
+        break
+      case 'quoteSection': {
+        const author = getLocalizedValue(block.author, locale)
+        html.push(`<blockquote><p>${escapeXML(getLocalizedValue(block.quote, locale) || '')}</p>${author ? `<cite>${escapeXML(author)}</cite>` : ''}</blockquote>`)
+        break
+      }
+      case 'galleryShowcase':
+        if (block.gallery && typeof block.gallery === 'object') {
+          const title = getLocalizedValue(block.gallery.title, locale)
+          html.push(`<p><a href="${SITE_CONFIG.url.base}/${locale}/galleries/${escapeXML(block.gallery.slug)}">${escapeXML(title)}</a></p>`)
+        }
+        break
+    }
+  }
+
+  return html.filter(Boolean).join('\n')
+}
+
+// ============================================================================
+// FEED DATA
+// ============================================================================
+
+/**
+ * Latest published journal posts with their full content
+ */
+export const getJournalFeed = unstable_cache(
+  async (locale: string): Promise<Feed> => {
+    const payload = await getPayloadClient()
+    const [posts, personalData, t] = await Promise.all([
+      payload.find({
+        collection: 'blog-posts',
+        where: { _status: { equals: 'published' } },
+        sort: '-publishedAt',
+        limit: FEED_ITEM_LIMIT,
+        depth: 2,
+        locale: locale as any,
+      }),
+      getSEOPersonalData(locale),
+      getTranslations({ locale, namespace: 'journal' }),
+    ])
+
+    const items = (posts.docs as any[]).map((post): FeedItem => {
+      const url = `${SITE_CONFIG.url.base}/${locale}/journal/${post.slug}`
+      return {
+        id: url,
+        url,
+        title: getLocalizedValue(post.title, locale),
+        summary: getLocalizedValue(post.excerpt, locale) || undefined,
+        contentHTML: renderBlogPostHTML(post, locale),
+        published: post.publishedAt || post.createdAt,
+        updated: post.updatedAt || post.createdAt,
+        author: post.author || personalData.name,
+        categories: [post.category, ...(post.tags || [])].filter(Boolean),
+        image: getFeedImage(post.featuredImage),
+      }
+    })
+
+    return {
+      title: DERIVED_CONFIG.getPageTitle(t('title')),
+      description: t('description', { name: personalData.name }),
+      homeUrl: `${SITE_CONFIG.url.base}/${locale}/journal`,
+      feedUrls: getFeedUrls('/journal', locale),
+      language: locale,
+      author: personalData.name,
+      updated: items[0]?.updated || new Date().toISOString(),
+      items,
+    }
+  },
+  ['journal-feed'],
+  {
+    tags: ['blog-posts'],
+    revalidate: 3600,
+  }
+)
+
+/**
+ * Recently published public galleries and images, newest first
+ */
+export const getNewWorkFeed = unstable_cache(
+  async (locale: string): Promise<Feed> => {
+    const payload = await getPayloadClient()
+    const [galleries, images, personalData, t] = await Promise.all([
+      payload.find({
+        collection: 'galleries',
+        where: LISTED_GALLERY_WHERE,
+        sort: '-createdAt',
+        limit: FEED_ITEM_LIMIT,
+        depth: 0,
+        locale: locale as any,
+      }),
+      payload.find({
+        collection: 'images',
+        where: await getPublicImagesWhere(payload),
+        sort: '-createdAt',
+        limit: FEED_ITEM_LIMIT,
+        depth: 1,
+        locale: locale as any,
+      }),
+      getSEOPersonalData(locale),
+      getTranslations({ locale, namespace: 'feeds' }),
+    ])
+
+    const galleryItems = (galleries.docs as any[]).map((gallery): FeedItem => {
+      const url = `${SITE_CONFIG.url.base}/${locale}/galleries/${gallery.slug}`
+      const description = getLocalizedValue(gallery.description, locale) || ''
+      const image = gallery.coverImage ? { url: toAbsoluteUrl(gallery.coverImage), type: getImageType(gallery.coverImage) } : undefined
+      return {
+        id: url,
+        url,
+        title: getLocalizedValue(gallery.title, locale),
+        summary: getLocalizedValue(gallery.excerpt, locale) || description || undefined,
+        contentHTML: [
+          image && `<figure><img src="${escapeXML(image.url)}" alt="${escapeXML(getLocalizedValue(gallery.title, locale))}" /></figure>`,
+          description && `<p>${escapeXML(description)}</p>`,
+        ].filter(Boolean).join('\n'),
+        published: gallery.publishedAt || gallery.createdAt,
+        updated: gallery.updatedAt || gallery.createdAt,
+        author: personalData.name,
+        categories: gallery.tags || undefined,
+        image,
+      }
+    })
+
+    const imageItems: FeedItem[] = []
+    for (const image of images.docs as any[]) {
+      const gallery = getListedGallery<any>(image.galleries)
+      if (!gallery) continue
+
+      const url = `${SITE_CONFIG.url.base}/${locale}/galleries/${gallery.slug}/images/${image.slug}`
+      const description = getLocalizedValue(image.description, locale) || ''
+      imageItems.push({
+        id: url,
+        url,
+        title: getLocalizedValue(image.title, locale),
+        summary: description || undefined,
+        contentHTML: [renderImage(image, locale), description && `<p>${escapeXML(description)}</p>`].filter(Boolean).join('\n'),
+        published: image.createdAt,
+        updated: image.updatedAt || image.createdAt,
+        author: personalData.name,
+        categories: image.tags || undefined,
+        image: getFeedImage(image),
+      })
+    }
+
+    const items = galleryItems
+      .concat(imageItems)
+      .sort((a, b) => new Date(b.published).getTime() - new Date(a.published).getTime())
+      .slice(0, FEED_ITEM_LIMIT)
+
+    return {
+      title: DERIVED_CONFIG.getPageTitle(t('newWorkTitle')),
+      description: t('newWorkDescription', { name: personalData.name }),
+      homeUrl: `${SITE_CONFIG.url.base}/${locale}/galleries`,
+      feedUrls: getFeedUrls('/galleries', locale),
+      language: locale,
+      author: personalData.name,
+      updated: items[0]?.updated || new Date().toISOString(),
+      items,
+    }
+  },
+  ['new-work-feed'],
+  {
+    tags: ['galleries', 'images'],
+    revalidate: 3600,
+  }
+)
+
+// ============================================================================
+// RENDERERS
+// ============================================================================
+
+/**
+ * Render an RSS 2.0 channel with full content and image enclosures
+ */
+export function renderRSS(feed: Feed): string {
+  const items = feed.items.map(item => {
+    const tags = [
+      `<title>${escapeXML(item.title)}</title>`,
+      `<link>${escapeXML(item.url)}</link>`,
+      `<guid isPermaLink="true">${escapeXML(item.id)}</guid>`,
+      `<pubDate>${new Date(item.published).toUTCString()}</pubDate>`,
+      item.author && `<dc:creator>${escapeXML(item.author)}</dc:creator>`,
+      item.summary && `<description>${escapeXML(item.summary)}</description>`,
+      item.contentHTML && `<content:encoded>${escapeXML(item.contentHTML)}</content:encoded>`,
+      ...(item.categories || []).map(category => `<category>${escapeXML(category)}</category>`),
+      // Size of the image is unknown; 0 is the accepted placeholder
+      item.image && `<enclosure url="${escapeXML(item.image.url)}" type="${item.image.type}" length="0" />`,
+    ].filter(Boolean)
+
+    return `    <item>
+      ${tags.join('\n      ')}
+    </item>`
+  })
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXML(feed.title)}</title>
+    <link>${escapeXML(feed.homeUrl)}</link>
+    <description>${escapeXML(feed.description)}</description>
+    <language>${feed.language}</language>
+    <lastBuildDate>${new Date(feed.updated).toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXML(feed.feedUrls.rss)}" rel="self" type="application/rss+xml" />
+${items.join('\n')}
+  </channel>
+</rss>`
+}
+
+/**
+ * Render an Atom 1.0 feed with full content and image enclosures
+ */
+export function renderAtom(feed: Feed): string {
+  const entries = feed.items.map(item => {
+    const tags = [
+      `<id>${escapeXML(item.id)}</id>`,
+      `<title>${escapeXML(item.title)}</title>`,
+      `<link rel="alternate" type="text/html" href="${escapeXML(item.url)}" />`,
+      `<published>${new Date(item.published).toISOString()}</published>`,
+      `<updated>${new Date(item.updated).toISOString()}</updated>`,
+      `<author><name>${escapeXML(item.author || feed.author)}</name></author>`,
+      item.summary && `<summary>${escapeXML(item.summary)}</summary>`,
+      item.contentHTML && `<content type="html">${escapeXML(item.contentHTML)}</content>`,
+      ...(item.categories || []).map(category => `<category term="${escapeXML(category)}" />`),
+      item.image && `<link rel="enclosure" type="${item.image.type}" href="${escapeXML(item.image.url)}" />`,
+    ].filter(Boolean)
+
+    return `  <entry>
+    ${tags.join('\n    ')}
+  </entry>`
+  })
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${feed.language}">
+  <id>${escapeXML(feed.feedUrls.atom)}</id>
+  <title>${escapeXML(feed.title)}</title>
+  <subtitle>${escapeXML(feed.description)}</subtitle>
+  <link rel="self" type="application/atom+xml" href="${escapeXML(feed.feedUrls.atom)}" />
+  <link rel="alternate" type="text/html" href="${escapeXML(feed.homeUrl)}" />
+  <updated>${new Date(feed.updated).toISOString()}</updated>
+  <author><name>${escapeXML(feed.author)}</name></author>
+${entries.join('\n')}
+</feed>`
+}
+
+/**
+ * Render a JSON Feed 1.1 document
+ */
+export function renderJSONFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.feedUrls.json,
+    language: feed.language,
+    authors: [{ name: feed.author }],
+    items: feed.items.map(item => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      content_html: item.contentHTML,
+      image: item.image?.url,
+      date_published: new Date(item.published).toISOString(),
+      date_modified: new Date(item.updated).toISOString(),
+      authors: [{ name: item.author || feed.author }],
+      tags: item.categories,
+      attachments: item.image ? [{ url: item.image.url, mime_type: item.image.type }] : undefined,
+    })),
+  }, null, 2)
+}
+
+const renderers: Record<FeedFormat, (feed: Feed) => string> = {
+  rss: renderRSS,
+  atom: renderAtom,
+  json: renderJSONFeed,
+}
+
+/**
+ * GET handler for a feed route under /[locale]
+ */
+export function createFeedRoute(getFeed: (locale: string) => Promise<Feed>, format: FeedFormat) {
+  return async (_request: Request, { params }: { params: Promise<{ locale: string }> }) => {
+    const { locale } = await params
+    if (!isLocale(locale)) {
+      return new NextResponse('Not found', { status: 404 })
+    }
+
+    try {
+      const feed = await getFeed(locale)
+      return new NextResponse(renderers[format](feed), {
+        headers: { 'Content-Type': FEED_CONTENT_TYPES[format] },
+      })
+    } catch (error) {
+      console.error(`❌ Error generating ${format} feed:`, error)
+      return new NextResponse('Failed to generate feed', { status: 500 })
+    }
+  }
+}
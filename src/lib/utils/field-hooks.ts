@@ -97,6 +97,55 @@ export const createTagsHook = ({ maxItems = 15 } = {}) => {
   }
 }
 
+/**
+ * Hook for numeric companion fields - keeps a number in sync with a free-text sibling
+ * Features:
+ * - Parses the sibling field (e.g. "f/2.8" or "1/250s") on every change
+ * - Clears the number when the text is cleared or can't be parsed
+ * - Leaves the number alone when the sibling is not part of the update
+ */
+export const createNumericCompanionHook = (
+  sourceField: string,
+  parse: (value: unknown) => number | undefined
+) => {
+  return ({ siblingData, value }: any) => {
+    if (!siblingData || siblingData[sourceField] === undefined) {
+      return value
+    }
+
+    return parse(siblingData[sourceField]) ?? null
+  }
+}
+
+// Approximate locations are rounded to one decimal place, about 11 km of latitude
+const APPROXIMATE_LOCATION_PRECISION = 10
+
+/**
+ * Field hook that derives the public map coordinates of an image from its GPS coordinates
+ * and location visibility: exact, rounded when approximate, empty when hidden.
+ * Geo search and the map only read these, so the exact spot of a hidden location can't be probed.
+ */
+export const createMapCoordinatesHook = () => {
+  return ({ siblingData, originalDoc, value }: any) => {
+    if (!siblingData || (siblingData.coordinates === undefined && siblingData.visibility === undefined)) {
+      return value
+    }
+
+    const coordinates = siblingData.coordinates ?? originalDoc?.location?.coordinates
+    const visibility = siblingData.visibility ?? originalDoc?.location?.visibility
+    const { latitude, longitude } = coordinates || {}
+
+    if (visibility === 'hidden' || typeof latitude !== 'number' || typeof longitude !== 'number') {
+      return { latitude: null, longitude: null }
+    }
+    if (visibility === 'approximate') {
+      const round = (degrees: number) => Math.round(degrees * APPROXIMATE_LOCATION_PRECISION) / APPROXIMATE_LOCATION_PRECISION
+      return { latitude: round(latitude), longitude: round(longitude) }
+    }
+    return { latitude, longitude }
+  }
+}
+
 /**
  * Clean a keyword string
  * - Strip start/end quotes and double quotes
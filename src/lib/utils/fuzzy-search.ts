@@ -0,0 +1,186 @@
+/**
+ * Fuzzy Search
+ * Typo tolerance for site search: diacritic folding, a rough English stem, edit distance against
+ * the words of public content and joined-word detection ("tamilnadu" finds "Tamil Nadu").
+ * Client-safe; the vocabulary is built by the search suggestion index.
+ */
+
+// Separators between the words of a label or query
+const WORD_SEPARATORS = /[\s\-/(),.&'"!?:;]+/
+
+// Accented letters matched by their base letter in regex searches and highlighting
+const LETTER_VARIANTS: Record<string, string> = {
+  a: 'aàáâãäåāăą',
+  c: 'cçćčĉ',
+  d: 'dďđð',
+  e: 'eèéêëēėęěĕ',
+  g: 'gğĝģ',
+  i: 'iìíîïīįı',
+  l: 'lłľĺļ',
+  n: 'nñńňņ',
+  o: 'oòóôõöøōőŏ',
+  r: 'rřŕ',
+  s: 'sśšşŝș',
+  t: 'tťţț',
+  u: 'uùúûüūůűŭų',
+  y: 'yýÿ',
+  z: 'zźżž',
+}
+
+// Letters NFD leaves whole
+const UNDECOMPOSED_LETTERS: Record<string, string> = { ø: 'o', đ: 'd', ł: 'l', ı: 'i' }
+
+export interface SearchVocabulary {
+  // Folded words of public titles, tags, places, species and gear, with how often they occur
+  words: Map<string, number>
+  // Stems of those words, so "mountains" counts as known when "mountain" is
+  stems: Set<string>
+  // Adjacent word pairs keyed by their joined spelling: "tamilnadu" -> "tamil nadu"
+  compounds: Map<string, string>
+}
+
+/**
+ * Lowercase without accents: "Reykjavík" -> "reykjavik"
+ */
+export function foldText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[øđłı]/g, (letter) => UNDECOMPOSED_LETTERS[letter])
+}
+
+// Rough English stem so "mountains" also matches "mountain"
+export function stemTerm(term: string): string {
+  if (term.length <= 4) return term
+  return term.replace(/(ing|ed|es|s)$/, '')
+}
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Regex source matching a term with or without accents: "reykjavik" also matches "Reykjavík"
+ */
+export function getFoldedPattern(term: string): string {
+  return foldText(term)
+    .split('')
+    .map((letter) => LETTER_VARIANTS[letter] ? `[${LETTER_VARIANTS[letter]}]` : escapeRegExp(letter))
+    .join('')
+}
+
+export function splitWords(text: string): string[] {
+  return foldText(text).split(WORD_SEPARATORS).filter(Boolean)
+}
+
+/**
+ * Build the vocabulary typos are corrected against
+ */
+export function buildSearchVocabulary(labels: { text: string; weight: number }[]): SearchVocabulary {
+  const vocabulary: SearchVocabulary = { words: new Map(), stems: new Set(), compounds: new Map() }
+
+  labels.forEach(({ text, weight }) => {
+    const words = splitWords(text)
+    words.forEach((word, index) => {
+      vocabulary.words.set(word, (vocabulary.words.get(word) || 0) + weight)
+      vocabulary.stems.add(stemTerm(word))
+      if (index > 0) {
+        vocabulary.compounds.set(words[index - 1] + word, `${words[index - 1]} ${word}`)
+      }
+    })
+  })
+
+  return vocabulary
+}
+
+/**
+ * Edits allowed for a term: none for short words, where a typo is as likely another word
+ */
+export function getMaxEdits(term: string): number {
+  if (term.length <= 4) return 0
+  if (term.length <= 8) return 1
+  return 2
+}
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions and adjacent swaps.
+ * Returns `max + 1` as soon as the distance is known to exceed `max`.
+ */
+export function getEditDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let beforePrevious: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1)
+      }
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > max) return max + 1
+    beforePrevious = previous
+    previous = current
+  }
+
+  return Math.min(previous[b.length], max + 1)
+}
+
+function isKnownWord(word: string, vocabulary: SearchVocabulary): boolean {
+  return vocabulary.words.has(word) || vocabulary.stems.has(stemTerm(word))
+}
+
+// Closest vocabulary word or word pair within `maxEdits`, most frequent on a tie
+function findClosest(word: string, vocabulary: SearchVocabulary, maxEdits: number): string | null {
+  const joined = vocabulary.compounds.get(word)
+  if (joined) return joined
+
+  const candidates: { spelling: string; text: string; weight: number }[] = []
+  vocabulary.words.forEach((weight, spelling) => candidates.push({ spelling, text: spelling, weight }))
+  vocabulary.compounds.forEach((text, spelling) => {
+    candidates.push({ spelling, text, weight: vocabulary.words.get(text.split(' ')[1]) || 0 })
+  })
+
+  let best: { text: string; distance: number; weight: number } | null = null
+  for (const candidate of candidates) {
+    const distance = getEditDistance(word, candidate.spelling, maxEdits)
+    if (distance > maxEdits) continue
+    if (!best || distance < best.distance || (distance === best.distance && candidate.weight > best.weight)) {
+      best = { text: candidate.text, distance, weight: candidate.weight }
+    }
+  }
+
+  return best?.text || null
+}
+
+/**
+ * Replace the unknown words of a query with their closest vocabulary words.
+ * `extraEdits` loosens the match for "did you mean" suggestions.
+ * Returns null when nothing changes; quoted phrases and negated terms are kept as typed.
+ */
+export function correctSearchQuery(query: string, vocabulary: SearchVocabulary, extraEdits = 0): string | null {
+  let changed = false
+  const terms = (query.match(/"[^"]+"|\S+/g) || []).map((term) => {
+    if (term.startsWith('"') || term.startsWith('-')) return term
+
+    // Words glued to punctuation ("kingfsher,") are corrected one by one
+    const corrected = term.split(WORD_SEPARATORS).filter(Boolean).map((part) => {
+      const word = foldText(part)
+      const maxEdits = getMaxEdits(word) + extraEdits
+      if (word.length < 3 || isKnownWord(word, vocabulary)) return part
+      const closest = findClosest(word, vocabulary, Math.min(maxEdits, 3))
+      if (!closest || closest === word) return part
+      changed = true
+      return closest
+    })
+    return corrected.join(' ')
+  })
+
+  return changed ? terms.join(' ') : null
+}
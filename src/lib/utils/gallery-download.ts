@@ -0,0 +1,85 @@
+/**
+ * Gallery Downloads
+ * Archive naming and the README bundled with gallery ZIP downloads
+ */
+import path from 'path'
+import { LICENSE_NAMES, type LicenseType } from './licenses'
+
+export const DOWNLOAD_SIZES = ['medium', 'large', 'full'] as const
+export type DownloadSize = (typeof DOWNLOAD_SIZES)[number]
+
+export interface DownloadReadmeFile {
+  filename: string
+  title: string
+  license: LicenseType
+  licenseUrl: string
+  attribution: string
+}
+
+export function getGalleryDownloadUrl(slug: string, size: DownloadSize, locale: string): string {
+  return `/api/gallery-download/${slug}/${size}?locale=${locale}`
+}
+
+/**
+ * Name of an image inside the archive: gallery order prefix plus the original file name.
+ * Watermarked derivatives are always JPEG.
+ */
+export function getArchiveFilename(
+  index: number,
+  image: { slug?: string | null; fileInfo?: { filename?: string | null } | null },
+  sourceUrl: string
+): string {
+  const original = image.fileInfo?.filename || image.slug || 'image'
+  const stem = path.parse(original).name.replace(/[^\w.-]+/g, '-') || 'image'
+  const urlExt = sourceUrl.includes('/api/watermark/') ? '.jpg' : path.extname(new URL(sourceUrl, 'http://localhost').pathname)
+  const ext = urlExt || path.extname(original) || '.jpg'
+
+  return `${String(index + 1).padStart(3, '0')}-${stem}${ext.toLowerCase()}`
+}
+
+/**
+ * Plain-text README with copyright, per-file licenses and attribution
+ */
+export function buildDownloadReadme({
+  galleryTitle,
+  galleryUrl,
+  siteName,
+  copyright,
+  files,
+  clientDelivery,
+}: {
+  galleryTitle: string
+  galleryUrl: string
+  siteName: string
+  copyright: string
+  files: DownloadReadmeFile[]
+  clientDelivery: boolean
+}): string {
+  const lines = [
+    galleryTitle,
+    galleryUrl,
+    '',
+    copyright,
+    '',
+    clientDelivery
+      ? 'These photographs were delivered to you privately. Use them as agreed with the photographer; the license of each file is listed below.'
+      : 'Each photograph is shared under the license listed below. Credit the photographer with the attribution shown whenever you use a file.',
+    '',
+    'FILES',
+    '',
+  ]
+
+  for (const file of files) {
+    lines.push(
+      file.title ? `${file.filename} - ${file.title}` : file.filename,
+      `  License: ${LICENSE_NAMES[file.license]} (${file.licenseUrl})`,
+      `  Attribution: ${file.attribution}`,
+      ''
+    )
+  }
+
+  lines.push(`Downloaded from ${siteName} on ${new Date().toISOString().slice(0, 10)}.`, '')
+
+  // CRLF so the file reads correctly in Notepad as well
+  return lines.join('\r\n')
+}
@@ -0,0 +1,154 @@
+/**
+ * Gallery Membership
+ * Images belong to one or more galleries through their `galleries` relationship.
+ * Each manual gallery keeps its own drag-and-drop order and caption overrides in `imageOrder`,
+ * which is kept in sync with image membership by the hook below.
+ */
+import type { Payload, Where } from 'payload'
+import { isPrivateGallery } from './private-gallery'
+
+type RelationValue<T> = string | T | null | undefined
+
+export interface GalleryImageOrderRow {
+  id?: string | null
+  image?: RelationValue<{ id: string }>
+  caption?: unknown
+}
+
+function getRelationId(value: RelationValue<{ id: string }>): string | null {
+  if (!value) return null
+  return typeof value === 'object' ? value.id : value
+}
+
+export function getGalleryIds(galleries: RelationValue<{ id: string }>[] | null | undefined): string[] {
+  return (galleries || []).map(getRelationId).filter((id): id is string => Boolean(id))
+}
+
+// Galleries visitors can open: published, switched on and not a private client gallery
+export const LISTED_GALLERY_WHERE: Where = {
+  _status: { equals: 'published' },
+  published: { equals: true },
+  visibility: { not_equals: 'private' },
+}
+
+export function isListedGallery(gallery: { _status?: string | null; published?: boolean | null; visibility?: string | null } | null | undefined): boolean {
+  return Boolean(gallery) && gallery!._status === 'published' && gallery!.published === true && !isPrivateGallery(gallery)
+}
+
+/**
+ * The first listed gallery of an image, for its public URL. Only populated galleries are considered.
+ */
+export function getListedGallery<T extends { id: string; _status?: string | null; published?: boolean | null; visibility?: string | null }>(
+  galleries: RelationValue<T>[] | null | undefined
+): T | null {
+  return (galleries || []).find((gallery): gallery is T => typeof gallery === 'object' && isListedGallery(gallery)) || null
+}
+
+export async function getListedGalleryIds(payload: Payload): Promise<string[]> {
+  const { docs } = await payload.find({
+    collection: 'galleries',
+    where: LISTED_GALLERY_WHERE,
+    select: { slug: true },
+    pagination: false,
+    depth: 0,
+  })
+  return docs.map((gallery) => String(gallery.id))
+}
+
+/**
+ * Where clause for public images: published and in at least one listed gallery.
+ * Used by every public image listing so they agree on what is visible.
+ */
+export async function getPublicImagesWhere(payload: Payload): Promise<Where> {
+  return {
+    and: [
+      { _status: { equals: 'published' } },
+      { galleries: { in: await getListedGalleryIds(payload) } },
+    ],
+  }
+}
+
+/**
+ * An image is private when every gallery it belongs to is a private client gallery
+ */
+export function isPrivateImage(image: { galleries?: RelationValue<{ id: string; visibility?: string | null }>[] | null } | null | undefined): boolean {
+  const populated = (image?.galleries || []).filter((gallery) => Boolean(gallery) && typeof gallery === 'object') as { visibility?: string | null }[]
+  return populated.length > 0 && populated.every(isPrivateGallery)
+}
+
+/**
+ * Sort images by a gallery's custom order and attach its caption overrides as `galleryCaption`.
+ * Images missing from the order keep their incoming order after the ordered ones.
+ */
+export function orderGalleryImages<T extends { id: string }>(
+  images: T[],
+  imageOrder: GalleryImageOrderRow[] | null | undefined
+): (T & { galleryCaption?: unknown })[] {
+  const positions = new Map<string, { index: number; caption: unknown }>()
+  ;(imageOrder || []).forEach((row, index) => {
+    const id = getRelationId(row.image)
+    if (id && !positions.has(id)) positions.set(id, { index, caption: row.caption })
+  })
+
+  return images
+    .map((image, index) => ({ image, position: positions.get(image.id)?.index ?? positions.size + index }))
+    .sort((a, b) => a.position - b.position)
+    .map(({ image }) => {
+      const caption = positions.get(image.id)?.caption
+      return caption ? { ...image, galleryCaption: caption } : image
+    })
+}
+
+/**
+ * Images afterChange/afterDelete hook that appends an image to the order of galleries it joined
+ * and removes it from galleries it left or when it is deleted
+ */
+export const createGalleryOrderSyncHook = () => {
+  return async ({ doc, previousDoc, operation, req }: any) => {
+    const current = getGalleryIds(doc?.galleries)
+    const previous = getGalleryIds(previousDoc?.galleries)
+    // afterDelete has no operation: the image leaves every gallery
+    const added = operation ? current.filter((id) => !previous.includes(id)) : []
+    const removed = operation ? previous.filter((id) => !current.includes(id)) : current
+
+    try {
+      for (const galleryId of added.concat(removed)) {
+        // The latest version: a pending draft when it is newer than the published gallery
+        const gallery = await req.payload.findByID({
+          collection: 'galleries',
+          id: galleryId,
+          depth: 0,
+          draft: true,
+          req,
+        }).catch(() => null)
+        if (!gallery || gallery.galleryType === 'smart') continue
+
+        const rows: GalleryImageOrderRow[] = gallery.imageOrder || []
+        const listed = rows.some((row) => getRelationId(row.image) === doc.id)
+        const isAdded = added.includes(galleryId)
+        if (isAdded === listed) continue
+
+        // A pending draft gets the new order as another draft rather than being published with it.
+        // The live gallery still lists the image, since images missing from the order are appended.
+        const isDraft = gallery._status === 'draft'
+        await req.payload.update({
+          collection: 'galleries',
+          id: galleryId,
+          data: {
+            _status: gallery._status,
+            imageOrder: isAdded
+              ? [...rows, { image: doc.id }]
+              : rows.filter((row) => getRelationId(row.image) !== doc.id),
+          },
+          draft: isDraft,
+          depth: 0,
+          req,
+        })
+      }
+    } catch (error) {
+      console.error('❌ Failed to sync gallery image order:', error)
+    }
+
+    return doc
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Gear Matching
+ * Resolves EXIF camera and lens identifiers to entries in the gear collection
+ */
+import type { PayloadRequest } from 'payload'
+import type { ExtractedPhotoMetadata } from './photo-metadata'
+
+export type GearKind = 'camera-body' | 'lens'
+
+export interface GearIdentifier {
+  kind: GearKind
+  identifier: string
+  make?: string
+  // Raw EXIF model, which aliases often use without the make
+  model?: string
+}
+
+export interface GearMatchResult {
+  cameraBody?: string
+  lensGear?: string
+  unmatched: GearIdentifier[]
+}
+
+interface GearDoc {
+  id: string
+  category: string
+  brand: string
+  model: string
+  aliases?: string[] | null
+}
+
+/**
+ * Collapse an identifier to lowercase letters and digits so that
+ * "RF24-70mm F2.8 L IS USM" and "RF 24-70mm f/2.8L IS USM" compare equal
+ */
+export function normalizeGearIdentifier(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Build the camera and lens identifiers for a set of extracted metadata.
+ * Camera models usually repeat the make ("Canon EOS R5"), so it is only
+ * prefixed when missing.
+ */
+export function getGearIdentifiers(metadata: ExtractedPhotoMetadata): GearIdentifier[] {
+  const identifiers: GearIdentifier[] = []
+
+  if (metadata.model) {
+    const make = metadata.make
+    const includesMake = make && normalizeGearIdentifier(metadata.model).startsWith(normalizeGearIdentifier(make))
+    identifiers.push({
+      kind: 'camera-body',
+      identifier: make && !includesMake ? `${make} ${metadata.model}` : metadata.model,
+      make,
+      model: metadata.model,
+    })
+  }
+
+  if (metadata.lensModel) {
+    identifiers.push({
+      kind: 'lens',
+      identifier: metadata.lensModel,
+      make: metadata.make,
+    })
+  }
+
+  return identifiers
+}
+
+/**
+ * Find the gear entry for an identifier.
+ * Matches aliases first, then "brand model", then the bare model name,
+ * against both the full identifier and the raw EXIF model.
+ */
+export function findMatchingGear(gear: GearDoc[], { kind, identifier, model }: GearIdentifier): GearDoc | undefined {
+  const targets = [identifier, model]
+    .filter((value): value is string => Boolean(value))
+    .map(normalizeGearIdentifier)
+    .filter(Boolean)
+  if (targets.length === 0) return undefined
+
+  const candidates = gear.filter(item => item.category === kind)
+  const matches = (value: string) => targets.includes(normalizeGearIdentifier(value))
+
+  return (
+    candidates.find(item => item.aliases?.some(matches)) ||
+    candidates.find(item => matches(`${item.brand} ${item.model}`)) ||
+    candidates.find(item => matches(item.model))
+  )
+}
+
+/**
+ * Match extracted metadata against the gear collection
+ */
+export async function matchGearFromMetadata(
+  req: PayloadRequest,
+  metadata: ExtractedPhotoMetadata | null | undefined
+): Promise<GearMatchResult> {
+  const result: GearMatchResult = { unmatched: [] }
+  if (!metadata) return result
+
+  const identifiers = getGearIdentifiers(metadata)
+  if (identifiers.length === 0) return result
+
+  const { docs } = await req.payload.find({
+    collection: 'gear',
+    where: { category: { in: ['camera-body', 'lens'] } },
+    depth: 0,
+    pagination: false,
+    req,
+  })
+
+  for (const item of identifiers) {
+    const match = findMatchingGear(docs as GearDoc[], item)
+    if (!match) {
+      result.unmatched.push(item)
+    } else if (item.kind === 'camera-body') {
+      result.cameraBody = match.id
+    } else {
+      result.lensGear = match.id
+    }
+  }
+
+  return result
+}
+
+/**
+ * Fill empty cameraBody/lensGear relationships on Images document data
+ */
+export function applyGearMatches(data: Record<string, any>, matches: GearMatchResult): Record<string, any> {
+  const technical = { ...(data.technical || {}) }
+
+  if (matches.cameraBody && !technical.cameraBody) {
+    technical.cameraBody = matches.cameraBody
+  }
+  if (matches.lensGear && !technical.lensGear) {
+    technical.lensGear = matches.lensGear
+  }
+
+  return { ...data, technical }
+}
+
+/**
+ * Add unmatched identifiers to the gear review queue.
+ * Existing entries collect the image instead of creating duplicates,
+ * and ignored identifiers stay ignored.
+ */
+export async function queueUnmatchedGear(
+  req: PayloadRequest,
+  unmatched: GearIdentifier[],
+  imageId: string
+): Promise<void> {
+  for (const item of unmatched) {
+    try {
+      const { docs } = await req.payload.find({
+        collection: 'gear-review',
+        where: {
+          and: [
+            { kind: { equals: item.kind } },
+            { identifier: { equals: item.identifier } },
+          ],
+        },
+        depth: 0,
+        limit: 1,
+        req,
+      })
+
+      const existing = docs[0]
+      if (!existing) {
+        await req.payload.create({
+          collection: 'gear-review',
+          data: {
+            kind: item.kind,
+            identifier: item.identifier,
+            make: item.make,
+            images: [imageId],
+          },
+          req,
+        })
+        console.log(`⚠️ Queued unmatched ${item.kind} for review: ${item.identifier}`)
+        continue
+      }
+
+      const images = (existing.images || []).map((image: any) => (typeof image === 'object' ? image.id : image))
+      if (existing.status === 'ignored' || images.includes(imageId)) continue
+
+      await req.payload.update({
+        collection: 'gear-review',
+        id: existing.id,
+        data: { images: [...images, imageId] },
+        req,
+      })
+    } catch (error) {
+      console.error('❌ Failed to queue unmatched gear:', error)
+    }
+  }
+}
+
+/**
+ * Images afterChange hook that queues identifiers the upload hook could not match.
+ * The upload hook runs before the document has an ID, so it hands them over via context.
+ */
+export const createGearReviewHook = () => {
+  return async ({ doc, req, context }: any) => {
+    const unmatched: GearIdentifier[] | undefined = context?.unmatchedGear
+    if (!unmatched?.length) return doc
+
+    // Only queue once per request, even if the document is saved again
+    context.unmatchedGear = undefined
+    await queueUnmatchedGear(req, unmatched, doc.id)
+    return doc
+  }
+}
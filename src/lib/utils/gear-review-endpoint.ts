@@ -0,0 +1,64 @@
+import type { Endpoint } from 'payload'
+
+/**
+ * POST /api/gear-review/:id/create-gear
+ * Creates a gear entry from a queued EXIF identifier and links it,
+ * which also stores the alias and updates the affected images.
+ */
+export const createGearFromReviewEndpoint: Endpoint = {
+  path: '/:id/create-gear',
+  method: 'post',
+  handler: async (req) => {
+    if (!['admin', 'editor', 'photographer'].includes((req.user as any)?.role || '')) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const id = req.routeParams?.id as string | undefined
+    if (!id) {
+      return Response.json({ error: 'Review entry ID is required' }, { status: 400 })
+    }
+
+    try {
+      const entry = await req.payload.findByID({
+        collection: 'gear-review',
+        id,
+        depth: 0,
+        req,
+      })
+
+      if (entry.gear) {
+        return Response.json({ error: 'This identifier is already linked to gear' }, { status: 409 })
+      }
+
+      // EXIF models usually start with the make ("Canon EOS R5"), so strip it for the model field
+      const brand = entry.make || entry.identifier.split(/\s+/)[0]
+      const model = entry.identifier.toLowerCase().startsWith(brand.toLowerCase())
+        ? entry.identifier.slice(brand.length).trim() || entry.identifier
+        : entry.identifier
+
+      const gear = await req.payload.create({
+        collection: 'gear',
+        data: {
+          category: entry.kind,
+          name: entry.identifier,
+          brand,
+          model,
+          aliases: [entry.identifier],
+        },
+        req,
+      })
+
+      await req.payload.update({
+        collection: 'gear-review',
+        id,
+        data: { gear: gear.id },
+        req,
+      })
+
+      return Response.json({ success: true, gearId: gear.id })
+    } catch (error) {
+      console.error('❌ Failed to create gear from review queue:', error)
+      return Response.json({ error: 'Failed to create gear' }, { status: 500 })
+    }
+  },
+}
@@ -0,0 +1,202 @@
+/**
+ * Geo Search
+ * Bounding-box and radius queries over the capture coordinates of published, public images,
+ * and the point list behind the map explorer.
+ */
+import { unstable_cache } from 'next/cache'
+import type { Payload, Where } from 'payload'
+import type { GeoBounds, GeoImage, GeoPoint, GeoSearchResponse } from '@/types/geo'
+import { getPayloadClient } from '../api/payload-client'
+import { getListedGallery, getPublicImagesWhere } from './gallery-membership'
+
+export const GEO_DEFAULT_LIMIT = 24
+export const GEO_MAX_LIMIT = 100
+export const GEO_DEFAULT_RADIUS_KM = 50
+export const GEO_MAX_RADIUS_KM = 1000
+
+const EARTH_RADIUS_KM = 6371
+const KM_PER_DEGREE = 111.32
+
+// Public coordinates: rounded for approximate locations and empty for hidden ones
+const LATITUDE = 'location.mapCoordinates.latitude'
+const LONGITUDE = 'location.mapCoordinates.longitude'
+
+// Published images with coordinates that appear in at least one listed gallery
+async function getPublicGeotaggedWhere(payload: Payload): Promise<Where[]> {
+  return [
+    await getPublicImagesWhere(payload),
+    { [LATITUDE]: { exists: true } },
+    { [LONGITUDE]: { exists: true } },
+  ]
+}
+
+export function isValidLatitude(value: number): boolean {
+  return Number.isFinite(value) && value >= -90 && value <= 90
+}
+
+export function isValidLongitude(value: number): boolean {
+  return Number.isFinite(value) && value >= -180 && value <= 180
+}
+
+/**
+ * Great-circle distance in kilometres (haversine)
+ */
+export function getDistanceKm(from: Omit<GeoPoint, 'id'>, to: Omit<GeoPoint, 'id'>): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = toRadians(to.latitude - from.latitude)
+  const dLng = toRadians(to.longitude - from.longitude)
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+/**
+ * The box around a circle, used to narrow radius queries before measuring distances
+ */
+export function getRadiusBounds(center: Omit<GeoPoint, 'id'>, radiusKm: number): GeoBounds {
+  const latDelta = radiusKm / KM_PER_DEGREE
+  const south = Math.max(-90, center.latitude - latDelta)
+  const north = Math.min(90, center.latitude + latDelta)
+
+  // Near the poles the circle covers every longitude
+  const cosLat = Math.cos((center.latitude * Math.PI) / 180)
+  const lngDelta = cosLat > 0.01 ? radiusKm / (KM_PER_DEGREE * cosLat) : 180
+  if (lngDelta >= 180 || south === -90 || north === 90) {
+    return { west: -180, south, east: 180, north }
+  }
+
+  const wrap = (longitude: number) => ((((longitude + 180) % 360) + 360) % 360) - 180
+  return { west: wrap(center.longitude - lngDelta), south, east: wrap(center.longitude + lngDelta), north }
+}
+
+async function getBoundsWhere(payload: Payload, bounds: GeoBounds): Promise<Where> {
+  const latitude: Where = { [LATITUDE]: { greater_than_equal: bounds.south, less_than_equal: bounds.north } }
+
+  // A box crossing the antimeridian is the union of its two sides
+  const longitude: Where = bounds.west <= bounds.east
+    ? { [LONGITUDE]: { greater_than_equal: bounds.west, less_than_equal: bounds.east } }
+    : { or: [{ [LONGITUDE]: { greater_than_equal: bounds.west } }, { [LONGITUDE]: { less_than_equal: bounds.east } }] }
+
+  return { and: [...(await getPublicGeotaggedWhere(payload)), latitude, longitude] }
+}
+
+function toGeoImage(image: any): GeoImage {
+  const gallery = getListedGallery<any>(image.galleries)
+  return {
+    id: String(image.id),
+    latitude: image.location.mapCoordinates.latitude,
+    longitude: image.location.mapCoordinates.longitude,
+    title: image.title,
+    slug: image.slug,
+    gallerySlug: gallery?.slug || null,
+    thumbnail: image.imageUrls?.thumbnail || undefined,
+    // A hidden location keeps its place name private too
+    locationName: image.location?.visibility !== 'hidden' ? image.location?.name || undefined : undefined,
+    captureDate: image.captureDate || undefined,
+  }
+}
+
+/**
+ * Images captured inside a bounding box, newest capture first
+ */
+export async function findImagesInBounds(
+  bounds: GeoBounds,
+  options: { locale: string; limit?: number }
+): Promise<GeoSearchResponse> {
+  const payload = await getPayloadClient()
+  const result = await payload.find({
+    collection: 'images',
+    where: await getBoundsWhere(payload, bounds),
+    sort: '-captureDate',
+    limit: Math.min(GEO_MAX_LIMIT, options.limit || GEO_DEFAULT_LIMIT),
+    depth: 1,
+    locale: options.locale as any,
+  })
+
+  return { images: result.docs.map(toGeoImage), total: result.totalDocs }
+}
+
+/**
+ * Images captured within `radiusKm` of a point, nearest first
+ */
+export async function findImagesNear(
+  center: Omit<GeoPoint, 'id'>,
+  options: { locale: string; radiusKm?: number; limit?: number; excludeId?: string }
+): Promise<GeoSearchResponse> {
+  const radiusKm = Math.min(GEO_MAX_RADIUS_KM, options.radiusKm || GEO_DEFAULT_RADIUS_KM)
+  const limit = Math.min(GEO_MAX_LIMIT, options.limit || GEO_DEFAULT_LIMIT)
+  const payload = await getPayloadClient()
+
+  // Measure every image in the surrounding box first so the nearest are never cut off
+  const candidates = await payload.find({
+    collection: 'images',
+    where: await getBoundsWhere(payload, getRadiusBounds(center, radiusKm)),
+    select: { location: { mapCoordinates: true } },
+    pagination: false,
+    depth: 0,
+  })
+
+  const nearby = candidates.docs
+    .filter((doc) => String(doc.id) !== options.excludeId)
+    .map((doc) => ({
+      id: String(doc.id),
+      latitude: doc.location?.mapCoordinates?.latitude ?? NaN,
+      longitude: doc.location?.mapCoordinates?.longitude ?? NaN,
+    }))
+    .filter((point) => isValidLatitude(point.latitude) && isValidLongitude(point.longitude))
+    .map((point) => ({ id: point.id, distanceKm: getDistanceKm(center, point) }))
+    .filter((point) => point.distanceKm <= radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+
+  const closest = nearby.slice(0, limit)
+  if (!closest.length) {
+    return { images: [], total: nearby.length }
+  }
+
+  // Load the full documents of the closest images only, then restore their distance order
+  const result = await payload.find({
+    collection: 'images',
+    where: { id: { in: closest.map((point) => point.id) } },
+    limit: closest.length,
+    depth: 1,
+    locale: options.locale as any,
+  })
+  const docs = new Map(result.docs.map((doc) => [String(doc.id), doc]))
+
+  return {
+    images: closest
+      .filter((point) => docs.has(point.id))
+      .map((point) => ({ ...toGeoImage(docs.get(point.id)), distanceKm: point.distanceKm })),
+    total: nearby.length,
+  }
+}
+
+/**
+ * Coordinates of every public geotagged image, for the map explorer's markers
+ */
+export const getMapPoints = unstable_cache(
+  async (): Promise<GeoPoint[]> => {
+    const payload = await getPayloadClient()
+    const result = await payload.find({
+      collection: 'images',
+      where: { and: await getPublicGeotaggedWhere(payload) },
+      select: { location: { mapCoordinates: true } },
+      pagination: false,
+      depth: 0,
+    })
+
+    return (result.docs as any[])
+      .map((image) => ({
+        id: String(image.id),
+        latitude: image.location?.mapCoordinates?.latitude,
+        longitude: image.location?.mapCoordinates?.longitude,
+      }))
+      .filter((point) => isValidLatitude(point.latitude) && isValidLongitude(point.longitude))
+  },
+  ['map-points'],
+  {
+    tags: ['galleries', 'images'],
+    revalidate: 3600,
+  }
+)
@@ -5,15 +5,14 @@ import { unstable_cache } from 'next/cache'
 export async function getRedirects(depth = 1) {
   const payload = await getPayload({ config: configPromise })
 
-  // No redirects collection configured
-  // const { docs: redirects } = await payload.find({
-  //   collection: 'redirects',
-  //   depth,
-  //   limit: 0,
-  //   pagination: false,
-  // })
+  const { docs: redirects } = await payload.find({
+    collection: 'redirects',
+    depth,
+    limit: 0,
+    pagination: false,
+  })
 
-  return []
+  return redirects
 }
 
 /**
@@ -0,0 +1,143 @@
+/**
+ * Image Sitemap
+ * Builds sitemaps using Google's image extension (image:image) for published images
+ */
+import { SITE_CONFIG } from '@/config/site.config'
+import { locales } from '@/lib/i18n/config'
+import { getPayloadClient } from '../api/payload-client'
+import { getLicenseUrl, resolveImageLicense } from './licenses'
+import { getLocalizedValue } from './localization'
+import { getListedGallery, getPublicImagesWhere } from './gallery-membership'
+
+// Protocol limit for URLs in one sitemap file
+export const SITEMAP_URL_LIMIT = 50000
+
+// Every image is listed once per locale, so a page holds this many images
+const IMAGES_PER_SITEMAP = Math.floor(SITEMAP_URL_LIMIT / Math.max(1, locales.length))
+
+export interface ImageSitemapEntry {
+  pageUrl: string
+  imageUrl: string
+  title?: string
+  caption?: string
+  geoLocation?: string
+  licenseUrl: string
+}
+
+export function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+export function toAbsoluteUrl(url: string): string {
+  return url.startsWith('http') ? url : `${SITE_CONFIG.url.base}${url.startsWith('/') ? '' : '/'}${url}`
+}
+
+/**
+ * Number of image sitemap files needed for all published images
+ */
+export async function getImageSitemapCount(): Promise<number> {
+  const payload = await getPayloadClient()
+  const { totalDocs } = await payload.count({
+    collection: 'images',
+    where: await getPublicImagesWhere(payload),
+  })
+
+  return Math.max(1, Math.ceil(totalDocs / IMAGES_PER_SITEMAP))
+}
+
+/**
+ * Entries for one image sitemap file (1-based).
+ * Images in unpublished galleries or without a large derivative are left out.
+ */
+export async function getImageSitemapEntries(page: number): Promise<ImageSitemapEntry[]> {
+  const payload = await getPayloadClient()
+
+  const [images, siteMetadata] = await Promise.all([
+    payload.find({
+      collection: 'images',
+      where: await getPublicImagesWhere(payload),
+      sort: 'createdAt',
+      limit: IMAGES_PER_SITEMAP,
+      page,
+      depth: 1,
+    }),
+    payload.findGlobal({ slug: 'site-metadata', depth: 0 }).catch(() => null),
+  ])
+
+  const defaultLicense = (siteMetadata as any)?.legal?.defaultLicense
+  const entries: ImageSitemapEntry[] = []
+
+  for (const image of images.docs as any[]) {
+    const gallery = getListedGallery<any>(image.galleries)
+    const imageUrl = image.imageUrls?.large || image.imageUrls?.full
+    if (!imageUrl || !gallery) continue
+
+    const license = resolveImageLicense(image, defaultLicense)
+
+    for (const locale of locales) {
+      entries.push({
+        pageUrl: `${SITE_CONFIG.url.base}/${locale}/galleries/${gallery.slug}/images/${image.slug}`,
+        imageUrl: toAbsoluteUrl(imageUrl),
+        title: getLocalizedValue(image.title, locale) || undefined,
+        caption: getLocalizedValue(image.caption || image.description, locale) || undefined,
+        geoLocation: getLocalizedValue(image.location?.name, locale) || undefined,
+        licenseUrl: getLicenseUrl(license, locale),
+      })
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Render a <urlset> with one image:image per page
+ */
+export function renderImageSitemap(entries: ImageSitemapEntry[]): string {
+  const urls = entries.map(entry => {
+    const tags = [
+      `<image:loc>${escapeXML(entry.imageUrl)}</image:loc>`,
+      entry.title && `<image:title>${escapeXML(entry.title)}</image:title>`,
+      entry.caption && `<image:caption>${escapeXML(entry.caption)}</image:caption>`,
+      entry.geoLocation && `<image:geo_location>${escapeXML(entry.geoLocation)}</image:geo_location>`,
+      `<image:license>${escapeXML(entry.licenseUrl)}</image:license>`,
+    ].filter(Boolean)
+
+    return `  <url>
+    <loc>${escapeXML(entry.pageUrl)}</loc>
+    <image:image>
+      ${tags.join('\n      ')}
+    </image:image>
+  </url>`
+  })
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
+${urls.join('\n')}
+</urlset>`
+}
+
+/**
+ * Render a <sitemapindex> pointing at each image sitemap file
+ */
+export function renderSitemapIndex(urls: string[]): string {
+  const sitemaps = urls.map(url => `  <sitemap>
+    <loc>${escapeXML(url)}</loc>
+  </sitemap>`)
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${sitemaps.join('\n')}
+</sitemapindex>`
+}
+
+/**
+ * Public URL of an image sitemap file
+ */
+export function getImageSitemapUrl(page: number): string {
+  return `${SITE_CONFIG.url.base}/image-sitemap/${page}.xml`
+}
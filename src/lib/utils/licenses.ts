@@ -0,0 +1,61 @@
+/**
+ * Licenses
+ * Resolves the license that applies to an image and where it is published
+ */
+import { SITE_CONFIG } from '@/config/site.config'
+
+export type LicenseType =
+  | 'all-rights-reserved'
+  | 'cc-by'
+  | 'cc-by-sa'
+  | 'cc-by-nc'
+  | 'public-domain'
+  | 'custom'
+
+export const LICENSE_NAMES: Record<LicenseType, string> = {
+  'all-rights-reserved': 'All Rights Reserved',
+  'cc-by': 'Creative Commons Attribution 4.0 International (CC BY 4.0)',
+  'cc-by-sa': 'Creative Commons Attribution-ShareAlike 4.0 International (CC BY-SA 4.0)',
+  'cc-by-nc': 'Creative Commons Attribution-NonCommercial 4.0 International (CC BY-NC 4.0)',
+  'public-domain': 'Public Domain (CC0 1.0)',
+  custom: 'Custom License',
+}
+
+// Licenses with a canonical public deed; the rest point at the site's image rights page
+const LICENSE_URLS: Partial<Record<LicenseType, string>> = {
+  'cc-by': 'https://creativecommons.org/licenses/by/4.0/',
+  'cc-by-sa': 'https://creativecommons.org/licenses/by-sa/4.0/',
+  'cc-by-nc': 'https://creativecommons.org/licenses/by-nc/4.0/',
+  'public-domain': 'https://creativecommons.org/publicdomain/zero/1.0/',
+}
+
+/**
+ * The license for an image: its own rights override when enabled, otherwise the site default
+ */
+export function resolveImageLicense(
+  image: { rights?: { useCustomRights?: boolean | null; license?: string | null } | null },
+  defaultLicense?: string | null
+): LicenseType {
+  const license = image.rights?.useCustomRights && image.rights.license
+    ? image.rights.license
+    : defaultLicense
+
+  return license && license in LICENSE_NAMES ? (license as LicenseType) : 'all-rights-reserved'
+}
+
+/**
+ * Public URL describing a license
+ */
+export function getLicenseUrl(license: LicenseType, locale: string): string {
+  return LICENSE_URLS[license] || `${SITE_CONFIG.url.base}/${locale}/image-rights`
+}
+
+// Licenses that allow visitors to download and redistribute the file
+const DOWNLOADABLE_LICENSES: LicenseType[] = ['cc-by', 'cc-by-sa', 'cc-by-nc', 'public-domain']
+
+/**
+ * Whether a license permits public downloads
+ */
+export function isDownloadableLicense(license: LicenseType): boolean {
+  return DOWNLOADABLE_LICENSES.includes(license)
+}
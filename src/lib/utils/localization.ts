@@ -1,23 +1,45 @@
-// Helper function to get localized field values
+import { SITE_CONFIG } from '@/config/site.config'
+import { defaultLocale, locales } from '@/lib/i18n/config'
+
+// A value stored per locale ({ en: ..., fr: ... }) or a plain, unlocalized value
+export type LocalizedField<T> = Partial<Record<string, T>> | T
+
+function isLocaleMap<T>(field: LocalizedField<T>): field is Partial<Record<string, T>> {
+  return (
+    typeof field === 'object' &&
+    field !== null &&
+    !Array.isArray(field) &&
+    locales.some(locale => locale in field)
+  )
+}
+
+// Helper function to get localized field values, falling back to the default locale
 export function getLocalizedValue<T>(
-  field: { en: T } | T,
-  locale: 'en' = 'en'
+  field: LocalizedField<T>,
+  locale: string = defaultLocale
 ): T {
-  if (typeof field === 'object' && field !== null && 'en' in field) {
-    return field[locale] || field.en
+  if (isLocaleMap(field)) {
+    return (field[locale] || field[defaultLocale]) as T
   }
   return field as T
 }
 
 // Helper function to format dates
-export function formatDate(date: string, locale: 'en' = 'en'): string {
+export function formatDate(date: string, locale: string = defaultLocale): string {
   const options: Intl.DateTimeFormatOptions = {
     year: 'numeric',
     month: 'long',
     day: 'numeric',
   }
   
-  return new Intl.DateTimeFormat('en-US', options).format(
+  return new Intl.DateTimeFormat(locale, options).format(
     new Date(date)
   )
-}
\ No newline at end of file
+}
+
+// hreflang alternates for a path (without locale prefix) across every enabled locale
+export function getLanguageAlternates(path: string = ''): Record<string, string> {
+  return Object.fromEntries(
+    locales.map(locale => [locale, `${SITE_CONFIG.url.base}/${locale}${path}`])
+  )
+}
@@ -0,0 +1,219 @@
+/**
+ * Maintenance Mode
+ * Edge-safe helpers used by middleware to enforce Settings.maintenance
+ */
+
+export interface MaintenanceSettings {
+  enabled: boolean
+  message?: any
+  allowedIPs?: string[] | null
+  retryAfterMinutes?: number | null
+}
+
+export interface MaintenancePageText {
+  title: string
+  description: string
+  adminLink: string
+}
+
+// Middleware runs on every page request, so settings and sessions are cached briefly
+const SETTINGS_TTL = 30 * 1000
+const SESSION_TTL = 60 * 1000
+
+let settingsCache: { value: MaintenanceSettings; expires: number } | null = null
+const sessionCache = new Map<string, { isAdmin: boolean; expires: number }>()
+
+/**
+ * Read Settings.maintenance through the REST API.
+ * Fails open so a CMS outage does not lock everyone out of the site.
+ */
+export async function getMaintenanceSettings(origin: string): Promise<MaintenanceSettings> {
+  const now = Date.now()
+  if (settingsCache && settingsCache.expires > now) {
+    return settingsCache.value
+  }
+
+  let value: MaintenanceSettings = { enabled: false }
+  try {
+    const response = await fetch(`${origin}/api/globals/settings?depth=0`, {
+      headers: { Accept: 'application/json' },
+      cache: 'no-store',
+    })
+    if (response.ok) {
+      const settings = await response.json()
+      value = { ...settings?.maintenance, enabled: Boolean(settings?.maintenance?.enabled) }
+    }
+  } catch (error) {
+    console.error('❌ Failed to load maintenance settings:', error)
+  }
+
+  settingsCache = { value, expires: now + SETTINGS_TTL }
+  return value
+}
+
+/**
+ * Check whether the request comes from a logged-in admin
+ */
+export async function isAdminRequest(origin: string, token: string | undefined): Promise<boolean> {
+  if (!token) return false
+
+  const now = Date.now()
+  const cached = sessionCache.get(token)
+  if (cached && cached.expires > now) {
+    return cached.isAdmin
+  }
+
+  let isAdmin = false
+  try {
+    const response = await fetch(`${origin}/api/users/me`, {
+      headers: { Authorization: `JWT ${token}` },
+      cache: 'no-store',
+    })
+    if (response.ok) {
+      const { user } = await response.json()
+      isAdmin = user?.role === 'admin'
+    }
+  } catch (error) {
+    console.error('❌ Failed to verify maintenance bypass session:', error)
+  }
+
+  // Keep the cache from growing without bound
+  if (sessionCache.size > 500) sessionCache.clear()
+  sessionCache.set(token, { isAdmin, expires: now + SESSION_TTL })
+  return isAdmin
+}
+
+/**
+ * Client IP the allow-list is checked against. The platform-provided address wins; otherwise the
+ * rightmost X-Forwarded-For hop, which our own proxy appended. Earlier hops come from the client
+ * and can be forged, so they are never trusted.
+ */
+export function getTrustedClientIP(request: Request & { ip?: string }): string | null {
+  if (request.ip) return request.ip.trim()
+
+  const hops = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean)
+  return hops.length ? hops[hops.length - 1] : null
+}
+
+/**
+ * Check an IP against a list of addresses and CIDR ranges (IPv4 and IPv6)
+ */
+export function isIPAllowed(ip: string, allowed: string[] | null | undefined): boolean {
+  if (!ip || !allowed?.length) return false
+
+  const address = parseIP(ip)
+  if (!address) return false
+
+  return allowed.some(entry => {
+    const [range, prefixText] = entry.trim().split('/')
+    const network = parseIP(range)
+    if (!network || network.version !== address.version) return false
+
+    const bits = network.version === 4 ? 32 : 128
+    const prefix = prefixText === undefined ? bits : Number(prefixText)
+    if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits) return false
+
+    const shift = BigInt(bits - prefix)
+    return (address.value >> shift) === (network.value >> shift)
+  })
+}
+
+function parseIP(input: string): { version: 4 | 6; value: bigint } | null {
+  let ip = input.trim()
+
+  // IPv4-mapped IPv6 addresses (::ffff:192.0.2.1) are compared as IPv4
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)
+  if (mapped) ip = mapped[1]
+
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(ip)) {
+    const parts = ip.split('.').map(Number)
+    if (parts.some(part => part > 255)) return null
+    return { version: 4, value: parts.reduce((acc, part) => (acc << BigInt(8)) + BigInt(part), BigInt(0)) }
+  }
+
+  if (!ip.includes(':')) return null
+
+  // Expand "::" and parse the eight 16-bit groups
+  const [head, tail] = ip.split('::')
+  if (ip.split('::').length > 2) return null
+  const headGroups = head ? head.split(':') : []
+  const tailGroups = tail !== undefined && tail ? tail.split(':') : []
+  const missing = 8 - headGroups.length - tailGroups.length
+  if (tail === undefined ? missing !== 0 : missing < 1) return null
+
+  const groups = [...headGroups, ...Array(tail === undefined ? 0 : missing).fill('0'), ...tailGroups]
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/i.test(group))) return null
+
+  return {
+    version: 6,
+    value: groups.reduce((acc, group) => (acc << BigInt(16)) + BigInt(parseInt(group, 16)), BigInt(0)),
+  }
+}
+
+/**
+ * Flatten a Lexical rich text value into plain paragraphs
+ */
+export function richTextToParagraphs(richText: any): string[] {
+  const collect = (node: any): string =>
+    node?.text ?? (Array.isArray(node?.children) ? node.children.map(collect).join('') : '')
+
+  const blocks: any[] = richText?.root?.children || []
+  return blocks.map(collect).map(text => text.trim()).filter(Boolean)
+}
+
+function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Render a self-contained maintenance page.
+ * Kept as static HTML so it never depends on the app that is under maintenance.
+ */
+export function renderMaintenancePage({
+  locale,
+  siteName,
+  text,
+  message,
+}: {
+  locale: string
+  siteName: string
+  text: MaintenancePageText
+  message: string[]
+}): string {
+  const paragraphs = (message.length > 0 ? message : [text.description])
+    .map(paragraph => `<p>${escapeHTML(paragraph)}</p>`)
+    .join('\n      ')
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHTML(locale)}">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <meta name="robots" content="noindex">
+    <title>${escapeHTML(text.title)} | ${escapeHTML(siteName)}</title>
+    <style>
+      body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; font-family: system-ui, -apple-system, sans-serif; background: #fafafa; color: #171717; }
+      main { max-width: 32rem; padding: 2rem; text-align: center; }
+      h1 { font-family: Georgia, serif; font-weight: 500; font-size: 2rem; margin: 0 0 1rem; }
+      p { line-height: 1.6; color: #525252; }
+      a { color: inherit; font-size: 0.875rem; }
+      @media (prefers-color-scheme: dark) { body { background: #0a0a0a; color: #fafafa; } p { color: #a3a3a3; } }
+    </style>
+  </head>
+  <body>
+    <main>
+      <h1>${escapeHTML(text.title)}</h1>
+      ${paragraphs}
+      <p><a href="/admin">${escapeHTML(text.adminLink)}</a></p>
+    </main>
+  </body>
+</html>`
+}
@@ -0,0 +1,126 @@
+import type { Endpoint, PayloadRequest } from 'payload'
+import fs from 'fs/promises'
+import path from 'path'
+import { fetchImageBuffer } from './watermark'
+import { applyExtractedMetadata, extractPhotoMetadata, type ExtractedPhotoMetadata } from './photo-metadata'
+import { applyGearMatches, matchGearFromMetadata, queueUnmatchedGear } from './gear-matching'
+
+/**
+ * Read the original bytes for an image document.
+ * Prefers the uploaded source file on disk, falls back to fetching imageUrls.full.
+ */
+async function loadOriginalImage(req: PayloadRequest, image: any, sourceFile: any): Promise<Buffer | null> {
+  if (sourceFile?.filename) {
+    const staticDir = req.payload.collections.media?.config.upload?.staticDir
+    if (staticDir) {
+      try {
+        return await fs.readFile(path.join(staticDir, sourceFile.filename))
+      } catch (error) {
+        console.warn('⚠️ Source file not found on disk, trying image URL:', error)
+      }
+    }
+  }
+
+  const fullUrl = image.imageUrls?.full
+  if (!fullUrl) return null
+
+  return fetchImageBuffer(fullUrl)
+}
+
+/**
+ * POST /api/images/:id/extract-metadata
+ * Re-reads embedded EXIF/IPTC/XMP metadata for an existing image and applies
+ * it using the image's overwrite policy.
+ */
+export const extractMetadataEndpoint: Endpoint = {
+  path: '/:id/extract-metadata',
+  method: 'post',
+  handler: async (req) => {
+    if (!['admin', 'editor', 'photographer'].includes((req.user as any)?.role || '')) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const id = req.routeParams?.id as string | undefined
+    if (!id) {
+      return Response.json({ error: 'Image ID is required' }, { status: 400 })
+    }
+
+    try {
+      // Depth 0 keeps relationships as IDs so the document can be saved back as-is
+      const image = await req.payload.findByID({
+        collection: 'images',
+        id,
+        depth: 0,
+        draft: true,
+        req,
+      })
+
+      const sourceFile = image.sourceFile
+        ? await req.payload.findByID({
+            collection: 'media',
+            id: image.sourceFile as string,
+            depth: 0,
+            req,
+          })
+        : null
+
+      const buffer = await loadOriginalImage(req, image, sourceFile)
+      if (!buffer) {
+        return Response.json({ error: 'Original image file could not be loaded' }, { status: 404 })
+      }
+
+      // Stored files are re-encoded without metadata, so uploads fall back to what was read on upload
+      const fileMetadata = await extractPhotoMetadata(buffer)
+      const hasFileMetadata = Object.keys(fileMetadata).length > 0
+      const metadata = hasFileMetadata ? fileMetadata : (sourceFile?.exif as ExtractedPhotoMetadata | null) || {}
+
+      // Keep the metadata stored on the media document in sync with the file
+      if (sourceFile && hasFileMetadata) {
+        await req.payload.update({
+          collection: 'media',
+          id: sourceFile.id,
+          data: { exif: metadata as Record<string, unknown> },
+          req,
+        })
+      }
+
+      const overwrite = image.metadataPolicy?.overwrite || []
+      const matches = await matchGearFromMetadata(req, metadata)
+      const updates = applyGearMatches(applyExtractedMetadata(image, metadata, overwrite), matches)
+
+      await req.payload.update({
+        collection: 'images',
+        id,
+        draft: image._status !== 'published',
+        data: {
+          technical: updates.technical,
+          location: updates.location,
+          captureDate: updates.captureDate,
+          keywords: updates.keywords,
+          caption: updates.caption,
+          metadataPolicy: {
+            ...image.metadataPolicy,
+            lastExtractedAt: new Date().toISOString(),
+          },
+        },
+        req,
+      })
+
+      await queueUnmatchedGear(
+        req,
+        matches.unmatched.filter(item =>
+          item.kind === 'camera-body' ? !updates.technical.cameraBody : !updates.technical.lensGear
+        ),
+        id
+      )
+
+      return Response.json({
+        success: true,
+        extractedFields: Object.keys(metadata),
+      })
+    } catch (error) {
+      console.error('❌ Metadata re-extraction failed:', error)
+      return Response.json({ error: 'Metadata extraction failed' }, { status: 500 })
+    }
+  },
+}
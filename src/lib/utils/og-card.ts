@@ -0,0 +1,26 @@
+/**
+ * Open Graph Cards
+ * Builds URLs for the generated social preview cards used when `seo.ogImage` is empty
+ */
+import { getServerSideURL } from './getURL'
+
+export const OG_CARD_TYPES = ['gallery', 'image', 'journal'] as const
+export type OgCardType = (typeof OG_CARD_TYPES)[number]
+
+export const OG_CARD_COLLECTIONS: Record<OgCardType, 'galleries' | 'images' | 'blog-posts'> = {
+  gallery: 'galleries',
+  image: 'images',
+  journal: 'blog-posts',
+}
+
+export const OG_CARD_SIZE = { width: 1200, height: 630 }
+
+/**
+ * Build the card URL. `updatedAt` versions the URL so crawlers and CDNs
+ * fetch a new card whenever the document changes.
+ */
+export function getOgCardUrl(type: OgCardType, id: string, locale: string, updatedAt?: string | null): string {
+  const version = updatedAt ? new Date(updatedAt).getTime().toString(36) : ''
+  const query = new URLSearchParams({ locale, ...(version && { v: version }) })
+  return `${getServerSideURL()}/api/og/${type}/${id}?${query}`
+}
@@ -0,0 +1,235 @@
+/**
+ * Photo Metadata Extraction
+ * Parses embedded EXIF, IPTC and XMP metadata and maps it onto Images fields
+ */
+import exifr from 'exifr'
+
+/**
+ * Normalized metadata extracted from an image file.
+ * Stored on media documents and applied to Images on ingest.
+ */
+export interface ExtractedPhotoMetadata {
+  make?: string
+  model?: string
+  lensModel?: string
+  aperture?: string
+  shutterSpeed?: string
+  iso?: number
+  focalLength?: number
+  flash?: boolean
+  latitude?: number
+  longitude?: number
+  captureDate?: string
+  keywords?: string[]
+  caption?: string
+}
+
+/**
+ * Images fields that can be filled from embedded metadata.
+ * Values are used by the per-image overwrite policy.
+ */
+export const EXTRACTABLE_FIELDS = [
+  { label: 'Aperture', value: 'aperture' },
+  { label: 'Shutter Speed', value: 'shutterSpeed' },
+  { label: 'ISO', value: 'iso' },
+  { label: 'Focal Length', value: 'focalLength' },
+  { label: 'Flash', value: 'flash' },
+  { label: 'GPS Coordinates', value: 'coordinates' },
+  { label: 'Capture Date', value: 'captureDate' },
+  { label: 'Keywords', value: 'keywords' },
+  { label: 'Caption', value: 'caption' },
+] as const
+
+export type ExtractableField = (typeof EXTRACTABLE_FIELDS)[number]['value']
+
+/**
+ * Parse EXIF/IPTC/XMP from an image buffer.
+ * Returns an empty object when the file has no readable metadata.
+ */
+export async function extractPhotoMetadata(input: Buffer | Uint8Array | ArrayBuffer): Promise<ExtractedPhotoMetadata> {
+  let raw: Record<string, any> | undefined
+
+  try {
+    raw = await exifr.parse(input as Buffer, {
+      tiff: true,
+      exif: true,
+      gps: true,
+      iptc: true,
+      xmp: true,
+      // Keep Flash as its numeric bitmask instead of a description string
+      translateValues: false,
+      mergeOutput: true,
+    })
+  } catch (error) {
+    console.warn('⚠️ Could not parse embedded photo metadata:', error)
+    return {}
+  }
+
+  if (!raw) return {}
+
+  const metadata: ExtractedPhotoMetadata = {
+    make: cleanString(raw.Make),
+    model: cleanString(raw.Model),
+    lensModel: cleanString(raw.LensModel || raw.Lens),
+    aperture: formatAperture(raw.FNumber ?? raw.ApertureValue),
+    shutterSpeed: formatShutterSpeed(raw.ExposureTime),
+    iso: toNumber(raw.ISO ?? raw.ISOSpeedRatings ?? raw.PhotographicSensitivity),
+    focalLength: toNumber(raw.FocalLength),
+    flash: typeof raw.Flash === 'number' ? (raw.Flash & 1) === 1 : undefined,
+    latitude: toNumber(raw.latitude),
+    longitude: toNumber(raw.longitude),
+    captureDate: toISODate(raw.DateTimeOriginal ?? raw.CreateDate ?? raw.DateCreated),
+    keywords: toStringList(raw.Keywords ?? raw.subject),
+    caption: cleanString(toLangString(raw.Caption ?? raw.description ?? raw.ImageDescription)),
+  }
+
+  // Drop empty entries so the result stays small when stored as JSON
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined)
+  ) as ExtractedPhotoMetadata
+}
+
+/**
+ * Apply extracted metadata to Images document data.
+ * Empty fields are always filled; fields listed in `overwrite` replace manual values.
+ */
+export function applyExtractedMetadata(
+  data: Record<string, any>,
+  metadata: ExtractedPhotoMetadata | null | undefined,
+  overwrite: string[] = []
+): Record<string, any> {
+  if (!metadata || Object.keys(metadata).length === 0) {
+    return data
+  }
+
+  const shouldSet = (field: ExtractableField, current: unknown) =>
+    overwrite.includes(field) || isEmpty(current)
+
+  const technical = { ...(data.technical || {}) }
+  const technicalFields = ['aperture', 'shutterSpeed', 'iso', 'focalLength', 'flash'] as const
+  for (const field of technicalFields) {
+    // Flash defaults to false, so an unchecked box counts as not yet filled in
+    const current = field === 'flash' && technical.flash === false ? undefined : technical[field]
+    if (metadata[field] !== undefined && shouldSet(field, current)) {
+      technical[field] = metadata[field]
+    }
+  }
+
+  const location = { ...(data.location || {}) }
+  const coordinates = { ...(location.coordinates || {}) }
+  if (
+    metadata.latitude !== undefined &&
+    metadata.longitude !== undefined &&
+    shouldSet('coordinates', coordinates.latitude ?? coordinates.longitude)
+  ) {
+    coordinates.latitude = metadata.latitude
+    coordinates.longitude = metadata.longitude
+  }
+  location.coordinates = coordinates
+
+  const next: Record<string, any> = { ...data, technical, location }
+
+  if (metadata.captureDate && shouldSet('captureDate', data.captureDate)) {
+    next.captureDate = metadata.captureDate
+  }
+
+  if (metadata.keywords?.length && shouldSet('keywords', data.keywords)) {
+    // Joined so the keywords field hook splits, cleans and de-duplicates them
+    next.keywords = [metadata.keywords.join(', ')]
+  }
+
+  if (metadata.caption && shouldSet('caption', data.caption)) {
+    next.caption = metadata.caption
+  }
+
+  return next
+}
+
+/**
+ * Parse an aperture such as "f/2.8", "F2.8", "ƒ/11" or "8" to its f-number
+ */
+export function parseAperture(value: unknown): number | undefined {
+  if (typeof value === 'number') return value > 0 ? value : undefined
+  if (typeof value !== 'string') return undefined
+
+  const match = value.trim().match(/^(?:[fƒ]\s*\/?\s*)?(\d+(?:[.,]\d+)?)$/i)
+  const fNumber = match ? Number(match[1].replace(',', '.')) : NaN
+  return Number.isFinite(fNumber) && fNumber > 0 ? fNumber : undefined
+}
+
+/**
+ * Parse a shutter speed such as "1/250", "1/250s", "2s", "30 sec" or Canon's 1"5 to seconds
+ */
+export function parseShutterSpeed(value: unknown): number | undefined {
+  if (typeof value === 'number') return value > 0 ? value : undefined
+  if (typeof value !== 'string') return undefined
+
+  const text = value.trim().replace(/\s*(s|secs?|seconds?|")$/i, '').replace(/,/g, '.')
+  let seconds = NaN
+
+  const fraction = text.match(/^(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/)
+  const canon = text.match(/^(\d+)"(\d+)$/)
+  if (fraction) {
+    seconds = Number(fraction[1]) / Number(fraction[2])
+  } else if (canon) {
+    seconds = Number(`${canon[1]}.${canon[2]}`)
+  } else if (/^\d+(?:\.\d+)?$/.test(text)) {
+    seconds = Number(text)
+  }
+
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : undefined
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return true
+  if (Array.isArray(value)) return value.length === 0
+  return false
+}
+
+function cleanString(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined
+  // EXIF strings are often NUL-padded
+  const cleaned = value.replace(/\0/g, '').trim()
+  return cleaned.length > 0 ? cleaned : undefined
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = Array.isArray(value) ? Number(value[0]) : Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+function toISODate(value: unknown): string | undefined {
+  if (!value) return undefined
+  const date = value instanceof Date ? value : new Date(String(value))
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+// XMP language alternatives come through as { lang, value }
+function toLangString(value: unknown): string | undefined {
+  if (typeof value === 'string') return value
+  if (value && typeof value === 'object' && 'value' in value) {
+    return String((value as { value: unknown }).value)
+  }
+  return undefined
+}
+
+function toStringList(value: unknown): string[] | undefined {
+  if (!value) return undefined
+  const list = (Array.isArray(value) ? value : String(value).split(/[,;]/))
+    .map(item => cleanString(String(item)))
+    .filter((item): item is string => Boolean(item))
+  return list.length > 0 ? list : undefined
+}
+
+function formatAperture(value: unknown): string | undefined {
+  const fNumber = toNumber(value)
+  if (!fNumber) return undefined
+  return `f/${Number(fNumber.toFixed(1))}`
+}
+
+function formatShutterSpeed(value: unknown): string | undefined {
+  const seconds = toNumber(value)
+  if (!seconds) return undefined
+  if (seconds >= 1) return `${Number(seconds.toFixed(1))}s`
+  return `1/${Math.round(1 / seconds)}s`
+}
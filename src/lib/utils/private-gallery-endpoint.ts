@@ -0,0 +1,81 @@
+import type { Endpoint } from 'payload'
+import { defaultLocale, isLocale } from '@/lib/i18n/config'
+import { createShareLink, generateLinkSecret, isPrivateGallery, type PrivateGalleryDoc } from './private-gallery'
+
+const canManage = (req: any) => ['admin', 'editor', 'photographer'].includes(req.user?.role || '')
+
+/**
+ * POST /api/galleries/:id/share-link
+ * Creates a signed share link for a private gallery.
+ * Body: { days?: number, locale?: string }
+ */
+export const createShareLinkEndpoint: Endpoint = {
+  path: '/:id/share-link',
+  method: 'post',
+  handler: async (req) => {
+    if (!canManage(req)) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const id = req.routeParams?.id as string | undefined
+    if (!id) {
+      return Response.json({ error: 'Gallery ID is required' }, { status: 400 })
+    }
+
+    try {
+      const body = req.json ? await req.json().catch(() => ({})) : {}
+      const gallery = await req.payload.findByID({
+        collection: 'galleries',
+        id,
+        depth: 0,
+        req,
+      }) as unknown as PrivateGalleryDoc
+
+      if (!isPrivateGallery(gallery) || !gallery.privateAccess?.linkSecret) {
+        return Response.json({ error: 'Save the gallery as private before creating share links' }, { status: 409 })
+      }
+
+      const days = Number(body?.days) > 0 ? Number(body.days) : undefined
+      const locale = isLocale(body?.locale) ? body.locale : defaultLocale
+      const { url, expiresAt } = createShareLink(gallery, locale, days)
+
+      return Response.json({ success: true, url, expiresAt: expiresAt.toISOString() })
+    } catch (error) {
+      console.error('❌ Failed to create share link:', error)
+      return Response.json({ error: 'Failed to create share link' }, { status: 500 })
+    }
+  },
+}
+
+/**
+ * POST /api/galleries/:id/revoke-access
+ * Rotates the gallery's link secret, invalidating every share link and unlock issued so far
+ */
+export const revokeAccessEndpoint: Endpoint = {
+  path: '/:id/revoke-access',
+  method: 'post',
+  handler: async (req) => {
+    if (!canManage(req)) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const id = req.routeParams?.id as string | undefined
+    if (!id) {
+      return Response.json({ error: 'Gallery ID is required' }, { status: 400 })
+    }
+
+    try {
+      await req.payload.update({
+        collection: 'galleries',
+        id,
+        data: { privateAccess: { linkSecret: generateLinkSecret() } } as any,
+        req,
+      })
+
+      return Response.json({ success: true })
+    } catch (error) {
+      console.error('❌ Failed to revoke gallery access:', error)
+      return Response.json({ error: 'Failed to revoke access' }, { status: 500 })
+    }
+  },
+}
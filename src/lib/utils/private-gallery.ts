@@ -0,0 +1,178 @@
+/**
+ * Private Galleries
+ * Signed share links, password checks and access logging for client galleries
+ */
+import crypto from 'crypto'
+import bcrypt from 'bcrypt'
+import type { FieldHook, Payload } from 'payload'
+import { getServerSideURL } from './getURL'
+
+export type GalleryAccessMethod = 'link' | 'password'
+
+export interface PrivateGalleryDoc {
+  id: string
+  slug: string
+  visibility?: 'public' | 'private' | null
+  privateAccess?: {
+    password?: string | null
+    linkExpiryDays?: number | null
+    linkSecret?: string | null
+    allowProofing?: boolean | null
+  } | null
+}
+
+// How long a password unlock lasts before the client has to enter it again
+export const PASSWORD_ACCESS_DAYS = 7
+export const DEFAULT_LINK_EXPIRY_DAYS = 30
+
+const DAY = 24 * 60 * 60 * 1000
+const PASSWORD_SALT_ROUNDS = 12
+
+// Public queries add this condition to leave client galleries out
+export const notPrivateGallery = { visibility: { not_equals: 'private' } }
+
+export function isPrivateGallery(gallery: { visibility?: string | null } | null | undefined): boolean {
+  return gallery?.visibility === 'private'
+}
+
+/**
+ * New random per-gallery secret. Rotating it revokes every link and unlock issued so far.
+ */
+export function generateLinkSecret(): string {
+  return crypto.randomBytes(16).toString('hex')
+}
+
+function sign(gallery: PrivateGalleryDoc, expires: string): string {
+  return crypto
+    .createHmac('sha256', process.env.PAYLOAD_SECRET || '')
+    .update(`${gallery.id}:${gallery.privateAccess?.linkSecret || ''}:${expires}`)
+    .digest('base64url')
+}
+
+/**
+ * Create an access token ("<expiry>.<signature>") valid until `expiresAt`.
+ * Used both in share links and in the unlock cookie.
+ */
+export function createGalleryAccessToken(gallery: PrivateGalleryDoc, expiresAt: Date): string {
+  const expires = expiresAt.getTime().toString(36)
+  return `${expires}.${sign(gallery, expires)}`
+}
+
+/**
+ * Check an access token's signature and expiry
+ */
+export function verifyGalleryAccessToken(gallery: PrivateGalleryDoc, token: string | null | undefined): boolean {
+  if (!token || !gallery.privateAccess?.linkSecret) return false
+
+  const [expires, signature] = token.split('.')
+  if (!expires || !signature) return false
+  if (parseInt(expires, 36) < Date.now()) return false
+
+  const expected = Buffer.from(sign(gallery, expires))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
+
+function isPasswordHash(value: string): boolean {
+  return /^\$2[aby]\$\d{2}\$/.test(value)
+}
+
+export function hashGalleryPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, PASSWORD_SALT_ROUNDS)
+}
+
+/**
+ * Field hook that stores gallery passwords as bcrypt hashes.
+ * Values that are already hashed pass through, so saving an unchanged gallery keeps its password.
+ */
+export const hashGalleryPasswordHook: FieldHook = async ({ value }) => {
+  if (typeof value !== 'string' || !value || isPasswordHash(value)) return value
+  return hashGalleryPassword(value)
+}
+
+/**
+ * Check a submitted password against the gallery's bcrypt hash
+ */
+export async function verifyGalleryPassword(gallery: PrivateGalleryDoc, password: string | null | undefined): Promise<boolean> {
+  const hash = gallery.privateAccess?.password
+  if (!hash || !password) return false
+
+  return bcrypt.compare(password, hash)
+}
+
+export function getGalleryAccessCookieName(galleryId: string): string {
+  return `gallery-access-${galleryId}`
+}
+
+/**
+ * Build a share link that expires after `days`
+ */
+export function createShareLink(gallery: PrivateGalleryDoc, locale: string, days?: number | null): { url: string; expiresAt: Date } {
+  const expiresAt = new Date(Date.now() + (days || gallery.privateAccess?.linkExpiryDays || DEFAULT_LINK_EXPIRY_DAYS) * DAY)
+  const token = createGalleryAccessToken(gallery, expiresAt)
+  const query = new URLSearchParams({ token, locale })
+
+  return {
+    url: `${getServerSideURL()}/api/client-galleries/${gallery.slug}/access?${query}`,
+    expiresAt,
+  }
+}
+
+/**
+ * Find a published private gallery by slug, including its access fields
+ */
+export async function findPrivateGallery(payload: Payload, slug: string): Promise<(PrivateGalleryDoc & Record<string, any>) | null> {
+  const { docs } = await payload.find({
+    collection: 'galleries',
+    where: {
+      and: [
+        { slug: { equals: slug } },
+        { visibility: { equals: 'private' } },
+        { _status: { equals: 'published' } },
+      ],
+    },
+    limit: 1,
+    depth: 0,
+  })
+
+  return (docs[0] as any) || null
+}
+
+export function getPasswordAccessExpiry(): Date {
+  return new Date(Date.now() + PASSWORD_ACCESS_DAYS * DAY)
+}
+
+/**
+ * Record an access attempt so photographers can see when a client opened a gallery
+ */
+export async function logGalleryAccess(
+  payload: Payload,
+  {
+    galleryId,
+    method,
+    success,
+    ipAddress,
+    userAgent,
+  }: {
+    galleryId: string
+    method: GalleryAccessMethod
+    success: boolean
+    ipAddress?: string
+    userAgent?: string | null
+  }
+): Promise<void> {
+  try {
+    await payload.create({
+      collection: 'gallery-access-logs',
+      data: {
+        gallery: galleryId,
+        method,
+        success,
+        ipAddress,
+        userAgent: userAgent?.slice(0, 500) || undefined,
+      },
+    })
+  } catch (error) {
+    console.error('❌ Failed to log gallery access:', error)
+  }
+}
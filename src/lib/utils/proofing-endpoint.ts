@@ -0,0 +1,55 @@
+import type { Endpoint } from 'payload'
+import { formatFilenameList, formatLightroomFilter, getImageFilename } from './proofing'
+
+const canManage = (req: any) => ['admin', 'editor', 'photographer'].includes(req.user?.role || '')
+
+/**
+ * GET /api/proofing-selections/:id/filenames
+ * Exports the favorited images of a selection as a filename list.
+ * ?format=lightroom returns a comma-separated list for Lightroom's filter bar instead.
+ */
+export const exportFilenamesEndpoint: Endpoint = {
+  path: '/:id/filenames',
+  method: 'get',
+  handler: async (req) => {
+    if (!canManage(req)) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const id = req.routeParams?.id as string | undefined
+    if (!id) {
+      return Response.json({ error: 'Selection ID is required' }, { status: 400 })
+    }
+
+    try {
+      const selection: any = await req.payload.findByID({
+        collection: 'proofing-selections',
+        id,
+        depth: 1,
+        req,
+      })
+
+      const filenames: string[] = (selection.items || [])
+        .filter((item: any) => item.favorite && typeof item.image === 'object' && item.image)
+        .map((item: any) => getImageFilename(item.image))
+
+      const format = req.searchParams?.get('format')
+      if (format === 'lightroom') {
+        return new Response(formatLightroomFilter(filenames), {
+          headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+        })
+      }
+
+      const gallerySlug = typeof selection.gallery === 'object' ? selection.gallery?.slug : 'gallery'
+      return new Response(formatFilenameList(filenames), {
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${gallerySlug}-selection-${id}.txt"`,
+        },
+      })
+    } catch (error) {
+      console.error('❌ Failed to export proofing selection:', error)
+      return Response.json({ error: 'Failed to export selection' }, { status: 500 })
+    }
+  },
+}
@@ -0,0 +1,81 @@
+/**
+ * Client Proofing
+ * Favorites and notes submitted from private galleries, exported as filename lists
+ */
+
+export interface ProofingSelectionItem {
+  image: string
+  favorite: boolean
+  note?: string
+}
+
+export interface ProofingSubmission {
+  clientName: string
+  clientEmail?: string
+  message?: string
+  items: ProofingSelectionItem[]
+}
+
+const MAX_NOTE_LENGTH = 1000
+const MAX_MESSAGE_LENGTH = 2000
+
+/**
+ * Validate a submitted selection against the images of the gallery.
+ * Images outside the gallery are dropped; returns null when nothing usable remains.
+ */
+export function sanitizeProofingSubmission(body: any, galleryImageIds: Set<string>): ProofingSubmission | null {
+  const clientName = typeof body?.clientName === 'string' ? body.clientName.trim().slice(0, 100) : ''
+  if (!clientName || !Array.isArray(body?.items)) return null
+
+  const seen = new Set<string>()
+  const items: ProofingSelectionItem[] = []
+
+  for (const item of body.items) {
+    const image = typeof item?.image === 'string' ? item.image : ''
+    if (!galleryImageIds.has(image) || seen.has(image)) continue
+
+    const note = typeof item.note === 'string' ? item.note.trim().slice(0, MAX_NOTE_LENGTH) : ''
+    const favorite = item.favorite === true
+    if (!favorite && !note) continue
+
+    seen.add(image)
+    items.push({ image, favorite, ...(note && { note }) })
+  }
+
+  if (!items.some((item) => item.favorite)) return null
+
+  const clientEmail = typeof body.clientEmail === 'string' ? body.clientEmail.trim().slice(0, 200) : ''
+  const message = typeof body.message === 'string' ? body.message.trim().slice(0, MAX_MESSAGE_LENGTH) : ''
+
+  return {
+    clientName,
+    ...(clientEmail && { clientEmail }),
+    ...(message && { message }),
+    items,
+  }
+}
+
+/**
+ * Filename of an image as it was uploaded, falling back to its slug
+ */
+export function getImageFilename(image: { slug?: string | null; fileInfo?: { filename?: string | null } | null }): string {
+  return image.fileInfo?.filename || image.slug || ''
+}
+
+/**
+ * One filename per line, in selection order
+ */
+export function formatFilenameList(filenames: string[]): string {
+  return filenames.filter(Boolean).join('\n') + '\n'
+}
+
+/**
+ * Comma-separated names without extensions, for pasting into
+ * Lightroom's Library Filter (Text → Filename → Contains)
+ */
+export function formatLightroomFilter(filenames: string[]): string {
+  return filenames
+    .filter(Boolean)
+    .map((filename) => filename.replace(/\.[^./]+$/, ''))
+    .join(', ')
+}
@@ -18,6 +18,10 @@ export const RATE_LIMITS = {
   COMMENTS_PER_IP_PER_DAY: { windowMs: 24 * 60 * 60 * 1000, maxRequests: 50 },
   COMMENTS_PER_EMAIL_PER_HOUR: { windowMs: 60 * 60 * 1000, maxRequests: 5 },
   COMMENTS_PER_EMAIL_PER_DAY: { windowMs: 24 * 60 * 60 * 1000, maxRequests: 20 },
+  USAGE_EVENTS_PER_IP_PER_MINUTE: { windowMs: 60 * 1000, maxRequests: 120 },
+  GALLERY_PASSWORD_PER_IP_PER_HOUR: { windowMs: 60 * 60 * 1000, maxRequests: 20 },
+  PROOFING_SUBMISSIONS_PER_IP_PER_HOUR: { windowMs: 60 * 60 * 1000, maxRequests: 10 },
+  GALLERY_DOWNLOADS_PER_IP_PER_HOUR: { windowMs: 60 * 60 * 1000, maxRequests: 10 },
 } as const
 
 /**
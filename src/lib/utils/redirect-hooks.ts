@@ -0,0 +1,76 @@
+/**
+ * Redirect Hooks for PayloadCMS
+ * Keep old URLs working when a document's public path changes
+ */
+import type { PayloadRequest } from 'payload'
+import { normalizeRedirectPath } from './redirects'
+
+type PathResolver = (doc: any, req: PayloadRequest) => Promise<string | null> | string | null
+
+/**
+ * Collection afterChange hook that records a 301 redirect when a published
+ * document's path changes.
+ * Features:
+ * - Works from any path resolver, so parent slugs (e.g. an image's gallery) count too
+ * - Points existing redirects at the new path to avoid redirect chains
+ * - Removes redirects whose source is the new path to avoid loops
+ * - Ignores draft saves until the change is published
+ * - Optionally redirects subpaths (e.g. images inside a renamed gallery)
+ */
+export const createSlugRedirectHook = (getPath: PathResolver, { includeSubpaths = false } = {}) => {
+  return async ({ doc, previousDoc, operation, req }: any) => {
+    if (operation !== 'update' || !previousDoc?.slug) return doc
+    if (doc._status === 'draft' || previousDoc._status === 'draft') return doc
+
+    try {
+      const [oldPath, newPath] = await Promise.all([getPath(previousDoc, req), getPath(doc, req)])
+      if (!oldPath || !newPath) return doc
+
+      const source = normalizeRedirectPath(oldPath)
+      const destination = normalizeRedirectPath(newPath)
+      if (source === destination) return doc
+
+      // The new path is live again, so it must not redirect anywhere
+      await req.payload.delete({
+        collection: 'redirects',
+        where: { source: { equals: destination } },
+        req,
+      })
+
+      // Collapse A → B → C into A → C
+      await req.payload.update({
+        collection: 'redirects',
+        where: { destination: { equals: source } },
+        data: { destination },
+        req,
+      })
+
+      const { totalDocs } = await req.payload.count({
+        collection: 'redirects',
+        where: { source: { equals: source } },
+        req,
+      })
+
+      if (totalDocs > 0) {
+        await req.payload.update({
+          collection: 'redirects',
+          where: { source: { equals: source } },
+          data: { destination, type: '301', includeSubpaths },
+          req,
+        })
+      } else {
+        await req.payload.create({
+          collection: 'redirects',
+          data: { source, destination, type: '301', includeSubpaths },
+          req,
+        })
+      }
+
+      console.log(`✅ Created redirect ${source} → ${destination}`)
+    } catch (error) {
+      console.error('❌ Failed to create slug redirect:', error)
+    }
+
+    return doc
+  }
+}
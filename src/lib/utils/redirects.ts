@@ -0,0 +1,88 @@
+/**
+ * Redirects
+ * Edge-safe helpers for matching paths against the redirects collection
+ */
+import { SITE_CONFIG } from '@/config/site.config'
+
+export interface RedirectRule {
+  source: string
+  destination: string
+  type: '301' | '302'
+  locale?: string | null
+  includeSubpaths?: boolean | null
+}
+
+const localeCodes: string[] = SITE_CONFIG.i18n.locales.map(locale => locale.code)
+
+// Middleware runs on every page request, so the redirect list is cached briefly
+const REDIRECTS_TTL = 60 * 1000
+let redirectsCache: { rules: RedirectRule[]; expires: number } | null = null
+
+/**
+ * Normalize a path for storage and comparison: leading slash, no trailing
+ * slash, no query string and no locale prefix
+ */
+export function normalizeRedirectPath(value: string): string {
+  let path = value.trim().split(/[?#]/)[0]
+  if (!path.startsWith('/')) path = `/${path}`
+  path = path.replace(/\/{2,}/g, '/')
+
+  const [, firstSegment] = path.split('/')
+  if (localeCodes.includes(firstSegment)) {
+    path = path.slice(firstSegment.length + 1) || '/'
+  }
+
+  return path.length > 1 ? path.replace(/\/$/, '') : path
+}
+
+/**
+ * Find the redirect for a path (already stripped of its locale).
+ * Exact matches win over subpath matches; longer sources win over shorter ones.
+ */
+export function findRedirect(rules: RedirectRule[], path: string, locale: string): { destination: string; status: 301 | 302 } | null {
+  const applicable = rules.filter(rule => !rule.locale || rule.locale === locale)
+
+  const exact = applicable.find(rule => rule.source === path)
+  if (exact) {
+    return { destination: exact.destination, status: exact.type === '302' ? 302 : 301 }
+  }
+
+  const prefix = applicable
+    .filter(rule => rule.includeSubpaths && path.startsWith(`${rule.source}/`))
+    .sort((a, b) => b.source.length - a.source.length)[0]
+  if (prefix && !/^https?:\/\//.test(prefix.destination)) {
+    return {
+      destination: `${prefix.destination}${path.slice(prefix.source.length)}`,
+      status: prefix.type === '302' ? 302 : 301,
+    }
+  }
+
+  return null
+}
+
+/**
+ * Load all redirects through the REST API for use in middleware
+ */
+export async function fetchRedirects(origin: string): Promise<RedirectRule[]> {
+  const now = Date.now()
+  if (redirectsCache && redirectsCache.expires > now) {
+    return redirectsCache.rules
+  }
+
+  let rules: RedirectRule[] = redirectsCache?.rules || []
+  try {
+    const response = await fetch(`${origin}/api/redirects?depth=0&limit=0&pagination=false`, {
+      headers: { Accept: 'application/json' },
+      cache: 'no-store',
+    })
+    if (response.ok) {
+      const { docs } = await response.json()
+      rules = docs || []
+    }
+  } catch (error) {
+    console.error('❌ Failed to load redirects:', error)
+  }
+
+  redirectsCache = { rules, expires: now + REDIRECTS_TTL }
+  return rules
+}
@@ -36,17 +36,17 @@ export async function triggerRevalidation(type: 'collection' | 'global', identif
 // Hook factory for collections
 export const createCollectionHook = (collectionSlug: string) => ({
   afterChange: [
-    async ({ doc, req }: any) => {
-      // Only trigger revalidation if not during seed/migration
-      if (!req?.user?.bypassRevalidation) {
+    async ({ doc, req, context }: any) => {
+      // Only trigger revalidation if not during seed/migration or when the caller revalidates itself
+      if (!req?.user?.bypassRevalidation && !context?.skipRevalidation) {
         await triggerRevalidation('collection', collectionSlug, doc)
       }
     },
   ],
   afterDelete: [
-    async ({ doc, req }: any) => {
-      // Only trigger revalidation if not during seed/migration
-      if (!req?.user?.bypassRevalidation) {
+    async ({ doc, req, context }: any) => {
+      // Only trigger revalidation if not during seed/migration or when the caller revalidates itself
+      if (!req?.user?.bypassRevalidation && !context?.skipRevalidation) {
         await triggerRevalidation('collection', collectionSlug, doc)
       }
     },
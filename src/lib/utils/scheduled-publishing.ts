@@ -0,0 +1,157 @@
+/**
+ * Scheduled Publishing for PayloadCMS
+ * Publish and unpublish documents at a set time through the Payload jobs queue
+ */
+import type { CollectionSlug, Field, TaskConfig } from 'payload'
+import { triggerRevalidation } from './revalidation-hooks'
+
+export const SCHEDULED_COLLECTIONS = ['images', 'galleries', 'blog-posts'] as const
+
+export type ScheduledCollection = typeof SCHEDULED_COLLECTIONS[number]
+export type ScheduledAction = 'publish' | 'unpublish'
+
+const SCHEDULE_FIELDS: Record<ScheduledAction, 'publishAt' | 'unpublishAt'> = {
+  publish: 'publishAt',
+  unpublish: 'unpublishAt',
+}
+
+const isDue = (value: unknown, now = Date.now()): boolean => {
+  if (!value) return false
+  const time = new Date(value as string).getTime()
+  return !isNaN(time) && time <= now
+}
+
+/**
+ * Sidebar date fields for collections with scheduled publishing
+ */
+export const scheduledPublishingFields = (label: string): Field[] => [
+  {
+    name: 'publishAt',
+    type: 'date',
+    admin: {
+      position: 'sidebar',
+      date: { pickerAppearance: 'dayAndTime' },
+      description: `Publish this ${label} automatically at this time. Save it as a draft until then.`,
+    },
+  },
+  {
+    name: 'unpublishAt',
+    type: 'date',
+    admin: {
+      position: 'sidebar',
+      date: { pickerAppearance: 'dayAndTime' },
+      description: `Take this ${label} offline automatically at this time`,
+    },
+    validate: (value: unknown, { siblingData }: any) => {
+      if (value && siblingData?.publishAt && new Date(value as string) <= new Date(siblingData.publishAt)) {
+        return 'Unpublish time must be after the publish time'
+      }
+      return true
+    },
+  },
+]
+
+/**
+ * Collection afterChange hook that queues a publish/unpublish job whenever
+ * one of the schedule fields is set or moved.
+ * Jobs left behind by an earlier time re-check the document when they run,
+ * so moving or clearing a date never needs the old job cancelled.
+ */
+export const createSchedulePublishingHook = (collection: ScheduledCollection) => {
+  return async ({ doc, previousDoc, req }: any) => {
+    const actions = Object.keys(SCHEDULE_FIELDS) as ScheduledAction[]
+
+    for (const action of actions) {
+      const field = SCHEDULE_FIELDS[action]
+      const value = doc?.[field]
+      if (!value || value === previousDoc?.[field]) continue
+
+      try {
+        await req.payload.jobs.queue({
+          task: 'publishScheduled',
+          input: { collection, id: String(doc.id), action },
+          waitUntil: new Date(value),
+          req,
+        })
+      } catch (error) {
+        console.error(`❌ Failed to queue scheduled ${action} for ${collection} ${doc.id}:`, error)
+      }
+    }
+
+    return doc
+  }
+}
+
+/**
+ * Job task that flips a document's publish status once its schedule is due
+ * and revalidates the pages that show it
+ */
+export const publishScheduledTask: TaskConfig<'publishScheduled'> = {
+  slug: 'publishScheduled',
+  label: 'Publish Scheduled Content',
+  retries: 2,
+  inputSchema: [
+    {
+      name: 'collection',
+      type: 'select',
+      required: true,
+      options: SCHEDULED_COLLECTIONS.map((slug) => ({ label: slug, value: slug })),
+    },
+    { name: 'id', type: 'text', required: true },
+    {
+      name: 'action',
+      type: 'select',
+      required: true,
+      options: [
+        { label: 'Publish', value: 'publish' },
+        { label: 'Unpublish', value: 'unpublish' },
+      ],
+    },
+  ],
+  outputSchema: [{ name: 'result', type: 'text' }],
+  handler: async ({ input, req }) => {
+    const collection = input.collection as CollectionSlug
+    const field = SCHEDULE_FIELDS[input.action]
+
+    // Latest draft, so a scheduled publish releases the content that was lined up
+    const doc: any = await req.payload.findByID({
+      collection,
+      id: input.id,
+      draft: true,
+      depth: 0,
+      req,
+    }).catch(() => null)
+
+    // Deleted, cleared or moved to a later time since the job was queued
+    if (!doc || !isDue(doc[field])) {
+      return { output: { result: 'skipped' } }
+    }
+
+    const publish = input.action === 'publish'
+    const data: Record<string, unknown> = {
+      _status: publish ? 'published' : 'draft',
+      [field]: null,
+    }
+
+    if (input.collection === 'galleries') {
+      data.published = publish
+      if (publish) data.publishedAt = new Date().toISOString()
+    }
+
+    const updated = await req.payload.update({
+      collection,
+      id: input.id,
+      data,
+      draft: false,
+      depth: 1,
+      // Revalidated below once the change is saved
+      context: { skipRevalidation: true },
+      req,
+    })
+
+    await triggerRevalidation('collection', input.collection, updated)
+    console.log(`✅ Scheduled ${input.action} completed for ${input.collection} ${input.id}`)
+
+    return { output: { result: publish ? 'published' : 'unpublished' } }
+  },
+}
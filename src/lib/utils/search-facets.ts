@@ -0,0 +1,150 @@
+/**
+ * Search Facets
+ * Image metadata facets and camera setting ranges of /api/search and the search page,
+ * and their URL state.
+ * Safe to import from client components.
+ */
+import type { SearchFacetFilters, SearchFacetKey, SearchRangeKey } from '@/types/search'
+
+export interface SearchFacetDefinition {
+  key: SearchFacetKey
+  // Image field the facet groups by
+  field: string
+  // value: the stored value, text: free text grouped and matched trimmed and case-insensitively,
+  // relationship: a gear id, year: the capture year
+  kind: 'value' | 'text' | 'relationship' | 'year'
+}
+
+// Display order on the search page
+export const SEARCH_FACETS: SearchFacetDefinition[] = [
+  { key: 'style', field: 'photographyStyle', kind: 'value' },
+  { key: 'country', field: 'location.country', kind: 'text' },
+  { key: 'region', field: 'location.region', kind: 'text' },
+  { key: 'year', field: 'captureDate', kind: 'year' },
+  { key: 'camera', field: 'technical.cameraBody', kind: 'relationship' },
+  { key: 'lens', field: 'technical.lensGear', kind: 'relationship' },
+  { key: 'species', field: 'styleMetadata.wildlife.species', kind: 'text' },
+  { key: 'astroSubject', field: 'styleMetadata.astrophotography.subject', kind: 'value' },
+  { key: 'season', field: 'styleMetadata.landscape.season', kind: 'value' },
+  { key: 'timeOfDay', field: 'styleMetadata.landscape.timeOfDay', kind: 'value' },
+]
+
+export interface SearchRangeDefinition {
+  key: SearchRangeKey
+  // Numeric image field the range applies to
+  field: string
+}
+
+export const SEARCH_RANGES: SearchRangeDefinition[] = [
+  { key: 'focalLength', field: 'technical.focalLength' },
+  { key: 'iso', field: 'technical.iso' },
+  { key: 'aperture', field: 'technical.fNumber' },
+  { key: 'shutterSpeed', field: 'technical.exposureTime' },
+]
+
+// Range bounds as typed, e.g. { focalLength: { min: '200', max: '600' }, shutterSpeed: { max: '1/250' } }
+export type SearchRangeInputs = Partial<Record<SearchRangeKey, { min?: string; max?: string }>>
+
+/**
+ * URL parameters of a range's bounds, e.g. `focalLengthMin` and `focalLengthMax`
+ */
+export function getSearchRangeParams(key: SearchRangeKey): { min: string; max: string } {
+  return { min: `${key}Min`, max: `${key}Max` }
+}
+
+const MAX_VALUES_PER_FACET = 10
+const MAX_VALUE_LENGTH = 100
+
+/**
+ * Facet value of a free-text field: " Tamil Nadu" and "tamil nadu" are the same region
+ */
+export function normalizeFacetText(value: string): string {
+  return value.trim().toLowerCase()
+}
+
+/**
+ * Read facet filters from URL parameters; a facet may repeat (`?style=landscape&style=wildlife`)
+ */
+export function parseSearchFacetFilters(params: URLSearchParams): SearchFacetFilters {
+  const filters: SearchFacetFilters = {}
+
+  for (const facet of SEARCH_FACETS) {
+    const values = Array.from(new Set(params.getAll(facet.key).map((value) => (
+      facet.kind === 'text' ? normalizeFacetText(value) : value.trim()
+    ))))
+      .filter((value) => value && value.length <= MAX_VALUE_LENGTH)
+      .filter((value) => facet.kind !== 'year' || /^\d{4}$/.test(value))
+      .slice(0, MAX_VALUES_PER_FACET)
+
+    if (values.length) filters[facet.key] = values
+  }
+
+  return filters
+}
+
+/**
+ * Write facet filters to URL parameters in the format parseSearchFacetFilters reads
+ */
+export function appendSearchFacetFilters(params: URLSearchParams, filters: SearchFacetFilters): URLSearchParams {
+  for (const facet of SEARCH_FACETS) {
+    filters[facet.key]?.forEach((value) => params.append(facet.key, value))
+  }
+  return params
+}
+
+export function hasSearchFacetFilters(filters: SearchFacetFilters): boolean {
+  return SEARCH_FACETS.some((facet) => (filters[facet.key]?.length || 0) > 0)
+}
+
+/**
+ * Add or remove one facet value
+ */
+export function toggleSearchFacetFilter(
+  filters: SearchFacetFilters,
+  key: SearchFacetKey,
+  value: string
+): SearchFacetFilters {
+  const current = filters[key] || []
+  const values = current.includes(value) ? current.filter((item) => item !== value) : [...current, value]
+
+  const next = { ...filters }
+  if (values.length) {
+    next[key] = values
+  } else {
+    delete next[key]
+  }
+  return next
+}
+
+/**
+ * Read range bounds from URL parameters as typed; /api/search parses them into numbers
+ */
+export function readSearchRangeInputs(params: URLSearchParams): SearchRangeInputs {
+  const inputs: SearchRangeInputs = {}
+
+  for (const range of SEARCH_RANGES) {
+    const names = getSearchRangeParams(range.key)
+    const min = params.get(names.min)?.trim().slice(0, MAX_VALUE_LENGTH)
+    const max = params.get(names.max)?.trim().slice(0, MAX_VALUE_LENGTH)
+    if (min || max) inputs[range.key] = { min: min || undefined, max: max || undefined }
+  }
+
+  return inputs
+}
+
+export function hasSearchRangeInputs(inputs: SearchRangeInputs): boolean {
+  return SEARCH_RANGES.some((range) => inputs[range.key]?.min?.trim() || inputs[range.key]?.max?.trim())
+}
+
+/**
+ * Write range bounds to URL parameters, skipping empty ones
+ */
+export function appendSearchRangeInputs(params: URLSearchParams, inputs: SearchRangeInputs): URLSearchParams {
+  for (const range of SEARCH_RANGES) {
+    const names = getSearchRangeParams(range.key)
+    const bounds = inputs[range.key]
+    if (bounds?.min?.trim()) params.set(names.min, bounds.min.trim())
+    if (bounds?.max?.trim()) params.set(names.max, bounds.max.trim())
+  }
+  return params
+}
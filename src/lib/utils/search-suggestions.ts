@@ -0,0 +1,327 @@
+/**
+ * Search Suggestions
+ * Prefix matching for the header search dropdown. Titles, tags, locations, species and gear names
+ * of public content are loaded once into an in-memory index per locale and matched from there,
+ * so answering a keystroke never touches the database.
+ *
+ * The index is rebuilt when content is revalidated: its version lives in the data cache under the
+ * content tags, which /api/revalidate clears, and a version change triggers a background rebuild
+ * while the previous index keeps answering. The words of the index are also the vocabulary
+ * search typos are corrected against.
+ */
+import type { MongooseAdapter } from '@payloadcms/db-mongodb'
+import type { Payload } from 'payload'
+import { unstable_cache } from 'next/cache'
+import type {
+  SearchFacetKey,
+  SearchSuggestion,
+  SearchSuggestionGroup,
+  SearchSuggestionType,
+  SearchSuggestResponse,
+} from '@/types/search'
+import { getPayloadClient } from '../api/payload-client'
+import { buildSearchVocabulary, foldText, type SearchVocabulary } from './fuzzy-search'
+import { getLocalizedValue } from './localization'
+import { SEARCH_COLLECTIONS } from './search'
+
+export const SUGGEST_MIN_QUERY_LENGTH = 2
+export const SUGGEST_DEFAULT_LIMIT = 4
+export const SUGGEST_MAX_LIMIT = 10
+
+// Longest a request waits for the first build of an index before answering without suggestions
+const SUGGEST_BUILD_WAIT_MS = 250
+
+// Index keys checked per query, so short prefixes of a large index stay fast
+const SUGGEST_MAX_SCAN = 2000
+
+// Groups in dropdown order
+export const SUGGESTION_TYPES: SearchSuggestionType[] = ['gallery', 'image', 'blog', 'tag', 'location', 'species', 'gear']
+
+interface SuggestionEntry extends SearchSuggestion {
+  // Tie-break after match position: uses of a value or piece of gear, 1 for other documents
+  weight: number
+}
+
+interface SuggestionIndex {
+  entries: SuggestionEntry[]
+  // Normalized label suffixes starting at each word, sorted for binary search
+  keys: { key: string; entry: number; atStart: boolean }[]
+  // Words of every label, for correcting search typos
+  vocabulary: SearchVocabulary
+}
+
+interface SuggestionIndexState {
+  // Content version the index was (or is being) built from; null retries on the next request
+  version: number | null
+  index: SuggestionIndex | null
+  building: Promise<SuggestionIndex | null> | null
+}
+
+const suggestionIndexes = new Map<string, SuggestionIndexState>()
+
+// Cleared with the content it summarizes; a new value means the indexes are out of date
+const getSuggestionSourceVersion = unstable_cache(
+  async () => Date.now(),
+  ['search-suggestions-version'],
+  {
+    tags: ['galleries', 'images', 'blog-posts', 'collection_gear'],
+    revalidate: 3600,
+  }
+)
+
+function getCollection(payload: Payload, slug: string) {
+  return (payload.db as unknown as MongooseAdapter).collections[slug].collection
+}
+
+/**
+ * Lowercase without accents, so "ísland" suggests "Ísland" and "Island"
+ */
+export function normalizeSuggestionText(text: string): string {
+  return foldText(text).replace(/\s+/g, ' ').trim()
+}
+
+function searchPath(params: Record<string, string>): string {
+  return `/search?${new URLSearchParams(params)}`
+}
+
+function toSuggestionIndex(suggestions: Map<string, SuggestionEntry>): SuggestionIndex {
+  const entries = Array.from(suggestions.values())
+  const keys: SuggestionIndex['keys'] = []
+
+  entries.forEach((entry, entryIndex) => {
+    const normalized = normalizeSuggestionText(entry.label)
+    // Every word can start a match: "fox" finds "Red Fox"
+    Array.from(normalized.matchAll(/(^|[\s\-/(&,.])(?=[^\s\-/(&,.])/g)).forEach((match) => {
+      const start = match.index + match[1].length
+      keys.push({ key: normalized.slice(start), entry: entryIndex, atStart: start === 0 })
+    })
+  })
+
+  keys.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+  const vocabulary = buildSearchVocabulary(entries.map((entry) => ({ text: entry.label, weight: entry.weight })))
+  return { entries, keys, vocabulary }
+}
+
+async function buildSuggestionIndex(locale: string): Promise<SuggestionIndex> {
+  const startedAt = Date.now()
+  const payload = await getPayloadClient()
+  const suggestions = new Map<string, SuggestionEntry>()
+
+  // Documents link to themselves
+  const addDocument = (type: SearchSuggestionType, label: unknown, path: string, count?: number) => {
+    if (typeof label !== 'string' || !label.trim()) return
+    suggestions.set(`${type}:${path}`, { type, label: label.trim(), path, weight: count || 1, count })
+  }
+
+  // Values merge repeats of the same label and count their uses
+  const addValue = (type: SearchSuggestionType, label: unknown, path: (label: string) => string) => {
+    if (typeof label !== 'string' || !label.trim()) return
+    const key = `${type}:${normalizeSuggestionText(label)}`
+    const entry = suggestions.get(key)
+    if (entry) {
+      entry.weight += 1
+      entry.count = entry.weight
+    } else {
+      suggestions.set(key, { type, label: label.trim(), path: path(label.trim()), weight: 1, count: 1 })
+    }
+  }
+
+  const getFilter = (slug: string) => SEARCH_COLLECTIONS.find((collection) => collection.slug === slug)!.getFilter(payload)
+
+  const [galleries, images, posts] = await Promise.all([
+    getCollection(payload, 'galleries')
+      .find(await getFilter('galleries'), { projection: { title: 1, slug: 1, tags: 1 } })
+      .toArray(),
+    getCollection(payload, 'images')
+      .find(await getFilter('images'), {
+        projection: {
+          title: 1,
+          slug: 1,
+          galleries: 1,
+          tags: 1,
+          location: 1,
+          'styleMetadata.wildlife.species': 1,
+          'technical.cameraBody': 1,
+          'technical.lensGear': 1,
+        },
+      })
+      .toArray(),
+    getCollection(payload, 'blog-posts')
+      .find(await getFilter('blog-posts'), { projection: { title: 1, slug: 1, tags: 1 } })
+      .toArray(),
+  ])
+
+  const gallerySlugs = new Map(galleries.map((gallery) => [String(gallery._id), gallery.slug as string]))
+
+  for (const gallery of galleries) {
+    addDocument('gallery', getLocalizedValue(gallery.title, locale), `/galleries/${gallery.slug}`)
+    gallery.tags?.forEach((tag: string) => addValue('tag', tag, (label) => searchPath({ q: label })))
+  }
+
+  for (const post of posts) {
+    addDocument('blog', getLocalizedValue(post.title, locale), `/journal/${post.slug}`)
+    post.tags?.forEach((tag: string) => addValue('tag', tag, (label) => searchPath({ q: label })))
+  }
+
+  // Gear is suggested by name and filters the images shot with it
+  const gearUses = new Map<string, { facet: SearchFacetKey; count: number }>()
+  const addGearUse = (id: unknown, facet: SearchFacetKey) => {
+    if (!id) return
+    const use = gearUses.get(String(id))
+    if (use) use.count += 1
+    else gearUses.set(String(id), { facet, count: 1 })
+  }
+
+  for (const image of images) {
+    // The image URL lives under its first listed gallery; without one it isn't public
+    const gallerySlug = (image.galleries || []).map((id: unknown) => gallerySlugs.get(String(id))).find(Boolean)
+    if (!gallerySlug) continue
+
+    addDocument('image', getLocalizedValue(image.title, locale), `/galleries/${gallerySlug}/images/${image.slug}`)
+    image.tags?.forEach((tag: string) => addValue('tag', tag, (label) => searchPath({ q: label })))
+
+    const location = image.location || {}
+    addValue('location', location.country, (label) => searchPath({ country: label }))
+    addValue('location', location.region, (label) => searchPath({ region: label }))
+    addValue('location', location.name, (label) => searchPath({ q: label }))
+    addValue('location', location.city, (label) => searchPath({ q: label }))
+
+    addValue('species', image.styleMetadata?.wildlife?.species, (label) => searchPath({ species: label }))
+
+    addGearUse(image.technical?.cameraBody, 'camera')
+    addGearUse(image.technical?.lensGear, 'lens')
+  }
+
+  if (gearUses.size) {
+    const gear = await payload.find({
+      collection: 'gear',
+      where: { id: { in: Array.from(gearUses.keys()) } },
+      select: { name: true },
+      pagination: false,
+      depth: 0,
+      locale: locale as any,
+    })
+    for (const item of gear.docs) {
+      const use = gearUses.get(String(item.id))!
+      addDocument('gear', getLocalizedValue(item.name, locale), searchPath({ [use.facet]: String(item.id) }), use.count)
+    }
+  }
+
+  const index = toSuggestionIndex(suggestions)
+  console.log(`✅ Built ${locale} search suggestion index: ${index.entries.length} suggestions in ${Date.now() - startedAt}ms`)
+  return index
+}
+
+function startBuild(locale: string, version: number): SuggestionIndexState {
+  const state = suggestionIndexes.get(locale) || { version, index: null, building: null }
+  state.version = version
+  state.building = buildSuggestionIndex(locale)
+    .then((index) => {
+      state.index = index
+      return index
+    })
+    .catch((error) => {
+      console.error('❌ Failed to build search suggestion index:', error)
+      state.version = null
+      return state.index
+    })
+    .finally(() => {
+      state.building = null
+    })
+
+  suggestionIndexes.set(locale, state)
+  return state
+}
+
+/**
+ * The suggestion index for a locale, or null while its first build takes longer than the wait budget.
+ * An outdated index keeps answering while its replacement builds.
+ */
+async function getSuggestionIndex(locale: string): Promise<SuggestionIndex | null> {
+  const version = await getSuggestionSourceVersion()
+  let state = suggestionIndexes.get(locale)
+  if (!state || (state.version !== version && !state.building)) {
+    state = startBuild(locale, version)
+  }
+  if (state.index || !state.building) return state.index
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<null>((resolve) => {
+    timeoutId = setTimeout(() => resolve(null), SUGGEST_BUILD_WAIT_MS)
+  })
+  return Promise.race([state.building, timeout]).finally(() => clearTimeout(timeoutId))
+}
+
+// First key that is not before `prefix`
+function lowerBound(keys: SuggestionIndex['keys'], prefix: string): number {
+  let low = 0
+  let high = keys.length
+  while (low < high) {
+    const middle = (low + high) >> 1
+    if (keys[middle].key < prefix) low = middle + 1
+    else high = middle
+  }
+  return low
+}
+
+function matchSuggestions(index: SuggestionIndex, query: string, limit: number): SearchSuggestionGroup[] {
+  // Best match position per entry: the label's start beats a later word
+  const matches = new Map<number, boolean>()
+  for (let i = lowerBound(index.keys, query), scanned = 0; i < index.keys.length && scanned < SUGGEST_MAX_SCAN; i++, scanned++) {
+    const { key, entry, atStart } = index.keys[i]
+    if (!key.startsWith(query)) break
+    matches.set(entry, matches.get(entry) || atStart)
+  }
+
+  const ranked = Array.from(matches.entries())
+    .map(([entryIndex, atStart]) => ({ entry: index.entries[entryIndex], atStart }))
+    .sort((a, b) =>
+      Number(b.atStart) - Number(a.atStart) ||
+      b.entry.weight - a.entry.weight ||
+      a.entry.label.length - b.entry.label.length ||
+      a.entry.label.localeCompare(b.entry.label)
+    )
+
+  return SUGGESTION_TYPES
+    .map((type) => ({
+      type,
+      suggestions: ranked
+        .filter((match) => match.entry.type === type)
+        .slice(0, limit)
+        .map(({ entry }): SearchSuggestion => ({
+          type: entry.type,
+          label: entry.label,
+          path: entry.path,
+          ...(entry.count !== undefined && { count: entry.count }),
+        })),
+    }))
+    .filter((group) => group.suggestions.length > 0)
+}
+
+/**
+ * Suggestions whose label, or a word in it, starts with the query, grouped by type
+ */
+export async function getSearchSuggestions(options: {
+  query: string
+  locale: string
+  limit?: number
+}): Promise<SearchSuggestResponse> {
+  const query = normalizeSuggestionText(options.query).slice(0, 100)
+  const limit = Math.min(SUGGEST_MAX_LIMIT, Math.max(1, options.limit || SUGGEST_DEFAULT_LIMIT))
+  const index = await getSuggestionIndex(options.locale)
+
+  return {
+    query: options.query,
+    locale: options.locale,
+    groups: index && query.length >= SUGGEST_MIN_QUERY_LENGTH ? matchSuggestions(index, query, limit) : [],
+    ready: Boolean(index),
+  }
+}
+
+/**
+ * Words of public content for a locale, or null while the suggestion index is first being built
+ */
+export async function getSearchVocabulary(locale: string): Promise<SearchVocabulary | null> {
+  const index = await getSuggestionIndex(locale)
+  return index?.vocabulary || null
+}
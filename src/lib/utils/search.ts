@@ -0,0 +1,727 @@
+/**
+ * Site Search
+ * Relevance-ranked search over galleries, images and journal posts using MongoDB text indexes.
+ * Results from all collections are merged into one stream ordered by text score, with
+ * page and cursor pagination, highlighted snippets and image metadata facets.
+ * A query that finds nothing is retried with its typos corrected against the words of public content.
+ */
+import type { MongooseAdapter } from '@payloadcms/db-mongodb'
+import type { Payload } from 'payload'
+import { Types } from 'mongoose'
+import { SITE_CONFIG } from '@/config/site.config'
+import type {
+  HighlightSegment,
+  SearchFacet,
+  SearchFacetFilters,
+  SearchFacetKey,
+  SearchRangeFilters,
+  SearchRangeKey,
+  SearchResponse,
+  SearchResult,
+  SearchResultType,
+  SearchTypeFilter,
+} from '@/types/search'
+import { getPayloadClient } from '../api/payload-client'
+import { correctSearchQuery, escapeRegExp, getFoldedPattern, stemTerm, type SearchVocabulary } from './fuzzy-search'
+import { getListedGallery, getListedGalleryIds } from './gallery-membership'
+import { getLocalizedValue } from './localization'
+import { parseAperture, parseShutterSpeed } from './photo-metadata'
+import {
+  getSearchRangeParams,
+  hasSearchFacetFilters,
+  normalizeFacetText,
+  SEARCH_FACETS,
+  SEARCH_RANGES,
+  type SearchFacetDefinition,
+} from './search-facets'
+
+export const SEARCH_MIN_QUERY_LENGTH = 2
+export const SEARCH_MAX_QUERY_LENGTH = 100
+export const SEARCH_DEFAULT_LIMIT = 20
+export const SEARCH_MAX_LIMIT = 50
+
+// Page pagination merges the top results of every collection, so it stops this deep
+const SEARCH_MAX_OFFSET = 1000
+
+// MongoDB error code for a $text query without a text index
+const TEXT_INDEX_MISSING = 27
+
+const SNIPPET_LENGTH = 180
+
+// Values listed per facet, most frequent first
+const FACET_VALUE_LIMIT = 20
+
+interface SearchCollection {
+  slug: 'galleries' | 'images' | 'blog-posts'
+  type: SearchResultType
+  filter: SearchTypeFilter
+  // Text index weights: title > tags > caption > description
+  weights: Record<string, number>
+  // Fields a snippet is taken from, best first
+  snippetFields: string[]
+  // Narrowed by the image metadata facets; other collections drop out while a facet is selected
+  faceted?: boolean
+  getFilter: (payload: Payload) => Promise<Record<string, unknown>>
+  toResult: (doc: any, locale: string) => Omit<SearchResult, 'score' | 'highlights'>
+}
+
+function getCollection(payload: Payload, slug: string) {
+  return (payload.db as unknown as MongooseAdapter).collections[slug].collection
+}
+
+// Listed galleries as stored in the database, for raw queries
+async function getListedGalleryObjectIds(payload: Payload): Promise<Types.ObjectId[]> {
+  return (await getListedGalleryIds(payload)).map((id) => new Types.ObjectId(id))
+}
+
+// The array order is also the tie-break order for equal scores
+export const SEARCH_COLLECTIONS: SearchCollection[] = [
+  {
+    slug: 'galleries',
+    type: 'gallery',
+    filter: 'galleries',
+    weights: { title: 10, tags: 6, excerpt: 4, description: 2 },
+    snippetFields: ['excerpt', 'description'],
+    getFilter: async (payload) => ({
+      _id: { $in: await getListedGalleryObjectIds(payload) },
+    }),
+    toResult: (gallery) => ({
+      id: String(gallery.id),
+      type: 'gallery',
+      title: gallery.title,
+      slug: gallery.slug,
+      description: gallery.description,
+      excerpt: gallery.excerpt,
+      tags: gallery.tags || undefined,
+      thumbnail: gallery.coverImage || undefined,
+      imageCount: gallery.imageCount || 0,
+    }),
+  },
+  {
+    slug: 'images',
+    type: 'image',
+    filter: 'images',
+    weights: {
+      title: 10,
+      tags: 6,
+      caption: 4,
+      description: 2,
+      altText: 1,
+      'location.name': 1,
+      'location.city': 1,
+      'location.region': 1,
+      'location.country': 1,
+      photographyStyle: 1,
+    },
+    snippetFields: ['caption', 'description', 'altText'],
+    faceted: true,
+    // Images are public when at least one of their galleries is listed
+    getFilter: async (payload) => ({
+      _status: 'published',
+      galleries: { $in: await getListedGalleryObjectIds(payload) },
+    }),
+    toResult: (image) => {
+      const gallery = getListedGallery<any>(image.galleries)
+      return {
+        id: String(image.id),
+        type: 'image',
+        title: image.title,
+        slug: image.slug,
+        description: image.caption || image.description,
+        tags: image.tags || undefined,
+        thumbnail: image.imageUrls?.thumbnail,
+        photographyStyle: image.photographyStyle,
+        captureDate: image.captureDate,
+        gallery: gallery ? { title: gallery.title, slug: gallery.slug } : null,
+      }
+    },
+  },
+  {
+    slug: 'blog-posts',
+    type: 'blog',
+    filter: 'blog',
+    weights: { title: 10, tags: 6, subtitle: 4, excerpt: 4 },
+    snippetFields: ['excerpt', 'subtitle'],
+    getFilter: async () => ({ _status: 'published' }),
+    toResult: (post) => ({
+      id: String(post.id),
+      type: 'blog',
+      title: post.title,
+      slug: post.slug,
+      subtitle: post.subtitle,
+      excerpt: post.excerpt,
+      tags: post.tags || undefined,
+      thumbnail: post.featuredImage?.imageUrls?.thumbnail,
+      publishedAt: post.publishedAt || post.createdAt,
+    }),
+  },
+]
+
+// Stemming language of the text indexes, from the default locale
+const TEXT_INDEX_LANGUAGES: Record<string, string> = {
+  da: 'danish',
+  de: 'german',
+  en: 'english',
+  es: 'spanish',
+  fi: 'finnish',
+  fr: 'french',
+  hu: 'hungarian',
+  it: 'italian',
+  nb: 'norwegian',
+  nl: 'dutch',
+  pt: 'portuguese',
+  ro: 'romanian',
+  ru: 'russian',
+  sv: 'swedish',
+  tr: 'turkish',
+}
+
+export const SEARCH_TEXT_INDEX_NAME = 'search_text'
+
+/**
+ * Create the weighted text index of every searchable collection.
+ * MongoDB allows one text index per collection, so an existing one is replaced.
+ * Runs outside any transaction: indexes cannot be built on existing collections inside one.
+ */
+export async function createSearchTextIndexes(payload: Payload): Promise<void> {
+  for (const searchCollection of SEARCH_COLLECTIONS) {
+    const collection = getCollection(payload, searchCollection.slug)
+    // A fresh database has no collection yet
+    const indexes = await collection.indexes().catch(() => [])
+    for (const index of indexes) {
+      if (index.name && index.key && Object.values(index.key).includes('text')) {
+        await collection.dropIndex(index.name)
+      }
+    }
+
+    await collection.createIndex(
+      Object.fromEntries(Object.keys(searchCollection.weights).map((field) => [field, 'text'])),
+      {
+        name: SEARCH_TEXT_INDEX_NAME,
+        weights: searchCollection.weights,
+        default_language: TEXT_INDEX_LANGUAGES[SITE_CONFIG.i18n.defaultLocale] || 'none',
+        // Documents have no per-document language; keep MongoDB from reading a `language` field
+        language_override: 'searchLanguage',
+      }
+    )
+  }
+}
+
+/**
+ * Drop the text indexes created by createSearchTextIndexes
+ */
+export async function dropSearchTextIndexes(payload: Payload): Promise<void> {
+  for (const searchCollection of SEARCH_COLLECTIONS) {
+    await getCollection(payload, searchCollection.slug).dropIndex(SEARCH_TEXT_INDEX_NAME).catch(() => null)
+  }
+}
+
+// ============================================================================
+// HIGHLIGHTING
+// ============================================================================
+
+/**
+ * Regex matching any positive term of a search query, including quoted phrases, with or without accents.
+ * Negated terms ("-night") are left out.
+ */
+export function getHighlightPattern(query: string): RegExp | null {
+  const terms = (query.match(/"[^"]+"|\S+/g) || [])
+    .filter((term) => !term.startsWith('-'))
+    .map((term) => stemTerm(term.replace(/"/g, '').trim()))
+    .filter((term) => term.length >= SEARCH_MIN_QUERY_LENGTH)
+
+  return terms.length ? new RegExp(`(${terms.map(getFoldedPattern).join('|')})`, 'i') : null
+}
+
+/**
+ * Split text into matched and unmatched segments
+ */
+export function highlightText(text: string, pattern: RegExp | null): HighlightSegment[] {
+  if (!text) return []
+  if (!pattern) return [{ text, match: false }]
+
+  // split() with a capture group puts the matches at odd indexes
+  return text
+    .split(new RegExp(pattern.source, 'gi'))
+    .map((part, index) => ({ text: part, match: index % 2 === 1 }))
+    .filter((segment) => segment.text)
+}
+
+function getSnippet(doc: any, fields: string[], locale: string, pattern: RegExp | null): HighlightSegment[] {
+  const values = fields
+    .map((field) => getLocalizedValue(doc[field], locale))
+    .filter((value): value is string => typeof value === 'string' && value.trim().length > 0)
+
+  const text = (pattern && values.find((value) => pattern.test(value))) || values[0]
+  if (!text) return []
+
+  const matchIndex = pattern ? Math.max(0, text.search(pattern)) : 0
+  let start = Math.max(0, matchIndex - Math.floor(SNIPPET_LENGTH / 3))
+  if (start > 0) {
+    const wordStart = text.indexOf(' ', start)
+    start = wordStart === -1 || wordStart > matchIndex ? start : wordStart + 1
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH)
+
+  const snippet = `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`
+  return highlightText(snippet, pattern)
+}
+
+// ============================================================================
+// FACETS
+// ============================================================================
+
+// Free-text facets also carry a label: the stored spelling of the grouped value
+type FacetCounts = Partial<Record<SearchFacetKey, { value: string; label?: string; count: number }[]>>
+
+// Free-text values trimmed, for grouping and labels
+function trimmedField(field: string) {
+  return { $trim: { input: `$${field}` } }
+}
+
+function getFacetCondition(facet: SearchFacetDefinition, values: string[]): Record<string, unknown> {
+  if (facet.kind === 'year') {
+    return {
+      $or: values.map((value) => {
+        const year = parseInt(value, 10)
+        return { [facet.field]: { $gte: new Date(Date.UTC(year, 0, 1)), $lt: new Date(Date.UTC(year + 1, 0, 1)) } }
+      }),
+    }
+  }
+
+  if (facet.kind === 'relationship') {
+    const ids = values.filter((value) => Types.ObjectId.isValid(value)).map((value) => new Types.ObjectId(value))
+    return { [facet.field]: { $in: ids } }
+  }
+
+  if (facet.kind === 'text') {
+    const patterns = values.map((value) => new RegExp(`^\\s*${escapeRegExp(normalizeFacetText(value))}\\s*$`, 'i'))
+    return { [facet.field]: { $in: patterns } }
+  }
+
+  return { [facet.field]: { $in: values } }
+}
+
+// Range bounds accept what the camera fields show: "200mm", "f/2.8", "1/250s"
+const RANGE_PARSERS: Record<SearchRangeKey, (value: string) => number | undefined> = {
+  focalLength: (value) => parsePositiveNumber(value),
+  iso: (value) => parsePositiveNumber(value),
+  aperture: parseAperture,
+  shutterSpeed: parseShutterSpeed,
+}
+
+function parsePositiveNumber(value: string): number | undefined {
+  const number = parseFloat(value)
+  return Number.isFinite(number) && number >= 0 ? number : undefined
+}
+
+/**
+ * Read camera setting ranges from URL parameters, e.g. `?focalLengthMin=200&focalLengthMax=600&isoMax=800`.
+ * Bounds that can't be parsed are ignored.
+ */
+export function parseSearchRangeFilters(params: URLSearchParams): SearchRangeFilters {
+  const ranges: SearchRangeFilters = {}
+
+  for (const range of SEARCH_RANGES) {
+    const names = getSearchRangeParams(range.key)
+    const min = RANGE_PARSERS[range.key](params.get(names.min) || '')
+    const max = RANGE_PARSERS[range.key](params.get(names.max) || '')
+    if (min !== undefined || max !== undefined) ranges[range.key] = { min, max }
+  }
+
+  return ranges
+}
+
+export function hasSearchRangeFilters(ranges: SearchRangeFilters): boolean {
+  return SEARCH_RANGES.some((range) => ranges[range.key] !== undefined)
+}
+
+// Filter for the selected facet values and ranges, optionally leaving one facet out
+function getFacetMatch(
+  filters: SearchFacetFilters,
+  ranges: SearchRangeFilters,
+  exclude?: SearchFacetKey
+): Record<string, unknown> {
+  const conditions = SEARCH_FACETS
+    .filter((facet) => facet.key !== exclude && filters[facet.key]?.length)
+    .map((facet) => getFacetCondition(facet, filters[facet.key]!))
+
+  for (const range of SEARCH_RANGES) {
+    const bounds = ranges[range.key]
+    if (!bounds) continue
+    conditions.push({
+      [range.field]: {
+        ...(bounds.min !== undefined ? { $gte: bounds.min } : {}),
+        ...(bounds.max !== undefined ? { $lte: bounds.max } : {}),
+      },
+    })
+  }
+
+  return conditions.length ? { $and: conditions } : {}
+}
+
+function getFacetGroup(facet: SearchFacetDefinition): Record<string, unknown> {
+  if (facet.kind === 'year') return { _id: { $year: `$${facet.field}` }, count: { $sum: 1 } }
+  if (facet.kind === 'text') {
+    // Capitalized spellings sort first, so "India" labels the india group over "india"
+    return { _id: { $toLower: trimmedField(facet.field) }, label: { $min: trimmedField(facet.field) }, count: { $sum: 1 } }
+  }
+  return { _id: `$${facet.field}`, count: { $sum: 1 } }
+}
+
+/**
+ * Count the values of every facet among the images matching `match`.
+ * Each facet is counted with the other facets' selections applied but not its own.
+ */
+async function countFacets(
+  collection: ReturnType<typeof getCollection>,
+  match: Record<string, unknown>,
+  filters: SearchFacetFilters,
+  ranges: SearchRangeFilters
+): Promise<FacetCounts> {
+  const [result] = await collection.aggregate([
+    { $match: match },
+    {
+      $facet: Object.fromEntries(
+        SEARCH_FACETS.map((facet) => [
+          facet.key,
+          [
+            { $match: getFacetMatch(filters, ranges, facet.key) },
+            { $group: getFacetGroup(facet) },
+            { $match: { _id: { $nin: [null, ''] } } },
+            { $sort: facet.kind === 'year' ? { _id: -1 } : { count: -1, _id: 1 } },
+            { $limit: FACET_VALUE_LIMIT },
+          ],
+        ])
+      ),
+    },
+  ]).toArray()
+
+  const counts: FacetCounts = {}
+  for (const facet of SEARCH_FACETS) {
+    counts[facet.key] = (result?.[facet.key] || []).map((row: any) => ({ value: String(row._id), label: row.label, count: row.count }))
+  }
+  return counts
+}
+
+// Option labels of an image select field, by value
+function getSelectLabels(payload: Payload, path: string, locale: string): Map<string, string> {
+  let fields: any[] = payload.collections.images.config.flattenedFields
+  let field: any
+  for (const name of path.split('.')) {
+    field = fields?.find((candidate) => candidate.name === name)
+    fields = field?.flattenedFields
+  }
+
+  const labels = new Map<string, string>()
+  if (field?.type !== 'select') return labels
+
+  for (const option of field.options) {
+    if (typeof option === 'string') {
+      labels.set(option, option)
+    } else {
+      const label = typeof option.label === 'function' ? option.value : getLocalizedValue(option.label, locale)
+      labels.set(option.value, label || option.value)
+    }
+  }
+  return labels
+}
+
+/**
+ * Label the facet counts and keep selected values listed even when nothing matches them
+ */
+async function buildFacets(
+  payload: Payload,
+  facetCounts: FacetCounts,
+  filters: SearchFacetFilters,
+  locale: string
+): Promise<SearchFacet[]> {
+  // Gear is stored by id; look up the names of every listed camera and lens
+  const gearIds = new Set<string>()
+  SEARCH_FACETS.filter((facet) => facet.kind === 'relationship').forEach((facet) => {
+    facetCounts[facet.key]?.forEach((row) => gearIds.add(row.value))
+    filters[facet.key]?.forEach((value) => gearIds.add(value))
+  })
+  const validGearIds = Array.from(gearIds).filter((id) => Types.ObjectId.isValid(id))
+  const gearNames = new Map<string, string>()
+  if (validGearIds.length) {
+    const { docs } = await payload.find({
+      collection: 'gear',
+      where: { id: { in: validGearIds } },
+      depth: 0,
+      pagination: false,
+    })
+    docs.forEach((gear: any) => gearNames.set(String(gear.id), gear.name))
+  }
+
+  const facets: SearchFacet[] = []
+  for (const facet of SEARCH_FACETS) {
+    const selected = filters[facet.key] || []
+    const rows = [...(facetCounts[facet.key] || [])]
+    selected.forEach((value) => {
+      if (!rows.some((row) => row.value === value)) rows.push({ value, count: 0 })
+    })
+    if (!rows.length) continue
+
+    const selectLabels = facet.kind === 'value' ? getSelectLabels(payload, facet.field, locale) : null
+    facets.push({
+      key: facet.key,
+      values: rows.map((row) => ({
+        value: row.value,
+        label: row.label || (facet.kind === 'relationship' ? gearNames.get(row.value) : selectLabels?.get(row.value)) || row.value,
+        count: row.count,
+        selected: selected.includes(row.value),
+      })),
+    })
+  }
+  return facets
+}
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+export interface SearchCursor {
+  // Score, collection index and id of the last result returned
+  s: number
+  c: number
+  id: string
+}
+
+interface RankedRow {
+  id: string
+  score: number
+  collectionIndex: number
+}
+
+function encodeCursor(row: RankedRow): string {
+  return Buffer.from(JSON.stringify({ s: row.score, c: row.collectionIndex, id: row.id })).toString('base64url')
+}
+
+/**
+ * Parse a `nextCursor` from a previous response, or null when it is malformed
+ */
+export function decodeSearchCursor(cursor: string): SearchCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if (typeof parsed?.s === 'number' && typeof parsed?.c === 'number' && Types.ObjectId.isValid(parsed?.id)) {
+      return { s: parsed.s, c: parsed.c, id: parsed.id }
+    }
+  } catch {
+    // Not base64 JSON
+  }
+  return null
+}
+
+// Rows that rank after the cursor, for the collection at `collectionIndex`
+function getCursorMatch(cursor: SearchCursor, collectionIndex: number): Record<string, unknown> {
+  if (collectionIndex > cursor.c) return { _score: { $lte: cursor.s } }
+  if (collectionIndex < cursor.c) return { _score: { $lt: cursor.s } }
+  return {
+    $or: [
+      { _score: { $lt: cursor.s } },
+      { _score: cursor.s, _id: { $gt: new Types.ObjectId(cursor.id) } },
+    ],
+  }
+}
+
+function compareRows(a: RankedRow, b: RankedRow): number {
+  if (a.score !== b.score) return b.score - a.score
+  if (a.collectionIndex !== b.collectionIndex) return a.collectionIndex - b.collectionIndex
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+}
+
+function getTextMatch(searchCollection: SearchCollection, query: string, useTextIndex: boolean) {
+  // Filters alone list every matching image
+  if (!query) return {}
+  if (useTextIndex) return { $text: { $search: query } }
+
+  // Unranked fallback until the text indexes are created
+  const pattern = { $regex: getFoldedPattern(query), $options: 'i' }
+  return { $or: Object.keys(searchCollection.weights).map((field) => ({ [field]: pattern })) }
+}
+
+export interface SearchOptions {
+  // At least SEARCH_MIN_QUERY_LENGTH characters, or empty to list the images matching `filters` and `ranges`
+  query: string
+  locale: string
+  type?: SearchTypeFilter
+  limit?: number
+  page?: number
+  cursor?: SearchCursor | null
+  filters?: SearchFacetFilters
+  ranges?: SearchRangeFilters
+  // Words typos are corrected against; only loaded when a query finds nothing
+  getVocabulary?: () => Promise<SearchVocabulary | null>
+}
+
+type RankOptions = Required<Omit<SearchOptions, 'getVocabulary'>>
+
+async function rankResults(payload: Payload, options: RankOptions, useTextIndex: boolean) {
+  const { query, type, limit, page, cursor, filters, ranges } = options
+  const offset = cursor ? 0 : (page - 1) * limit
+  // Enough rows from each collection to fill the merged page, plus one to detect a next page
+  const take = offset + limit + 1
+  const isFiltered = hasSearchFacetFilters(filters) || hasSearchRangeFilters(ranges)
+
+  const perCollection = await Promise.all(
+    SEARCH_COLLECTIONS.map(async (searchCollection, collectionIndex) => {
+      if (isFiltered && !searchCollection.faceted) {
+        return { count: 0, rows: [] as RankedRow[], facetCounts: null }
+      }
+
+      const collection = getCollection(payload, searchCollection.slug)
+      const baseMatch = { ...getTextMatch(searchCollection, query, useTextIndex), ...(await searchCollection.getFilter(payload)) }
+      const match = searchCollection.faceted ? { ...baseMatch, ...getFacetMatch(filters, ranges) } : baseMatch
+      const count = await collection.countDocuments(match)
+
+      if (type !== 'all' && type !== searchCollection.filter) {
+        return { count, rows: [] as RankedRow[], facetCounts: null }
+      }
+
+      const facetCounts = searchCollection.faceted ? await countFacets(collection, baseMatch, filters, ranges) : null
+
+      const docs = await collection.aggregate([
+        { $match: match },
+        { $addFields: { _score: useTextIndex ? { $meta: 'textScore' } : { $literal: 0 } } },
+        ...(cursor ? [{ $match: getCursorMatch(cursor, collectionIndex) }] : []),
+        { $sort: { _score: -1, _id: 1 } },
+        { $limit: take },
+        { $project: { _score: 1 } },
+      ]).toArray()
+
+      return {
+        count,
+        rows: docs.map((doc): RankedRow => ({ id: String(doc._id), score: doc._score, collectionIndex })),
+        facetCounts,
+      }
+    })
+  )
+
+  const counts = {} as Record<SearchResultType, number>
+  let totalResults = 0
+  SEARCH_COLLECTIONS.forEach((searchCollection, index) => {
+    counts[searchCollection.type] = perCollection[index].count
+    if (type === 'all' || type === searchCollection.filter) totalResults += perCollection[index].count
+  })
+
+  const merged = perCollection.reduce<RankedRow[]>((rows, result) => rows.concat(result.rows), []).sort(compareRows)
+  const facetCounts = perCollection.find((result) => result.facetCounts)?.facetCounts || null
+  return { counts, totalResults, merged, offset, facetCounts }
+}
+
+/**
+ * Search published, public content and return one ranked page of results.
+ * Pass `cursor` from a previous response to continue after it, or `page` to jump.
+ * Selecting any facet in `filters` or range in `ranges` limits the results to images;
+ * without a query those images are listed unranked.
+ */
+export async function searchContent(options: SearchOptions): Promise<SearchResponse> {
+  const query = options.query.trim().slice(0, SEARCH_MAX_QUERY_LENGTH)
+  const limit = Math.min(SEARCH_MAX_LIMIT, Math.max(1, options.limit || SEARCH_DEFAULT_LIMIT))
+  const maxPage = Math.floor(SEARCH_MAX_OFFSET / limit) + 1
+  const page = Math.min(maxPage, Math.max(1, options.page || 1))
+  const cursor = options.cursor || null
+  const type = options.type || 'all'
+  const filters = options.filters || {}
+  const ranges = options.ranges || {}
+  const rankOptions = { query, locale: options.locale, type, limit, page, cursor, filters, ranges }
+
+  const payload = await getPayloadClient()
+
+  const rank = async (options: RankOptions) => {
+    try {
+      return await rankResults(payload, options, Boolean(options.query))
+    } catch (error: any) {
+      if (error?.code !== TEXT_INDEX_MISSING) throw error
+      console.warn('⚠️ Search text indexes are missing - run `pnpm db:migrate`. Falling back to unranked search.')
+      return rankResults(payload, options, false)
+    }
+  }
+
+  let ranked = await rank(rankOptions)
+
+  // Nothing found: search again with typos corrected, else offer a looser correction to try
+  let correctedQuery: string | null = null
+  let didYouMean: string | null = null
+  if (!ranked.totalResults && query && options.getVocabulary) {
+    const vocabulary = await options.getVocabulary()
+    const corrected = vocabulary && correctSearchQuery(query, vocabulary)
+    if (corrected) {
+      const retried = await rank({ ...rankOptions, query: corrected })
+      if (retried.totalResults) {
+        ranked = retried
+        correctedQuery = corrected
+      }
+    }
+    if (vocabulary && !correctedQuery) {
+      const suggestion = correctSearchQuery(query, vocabulary, 1)
+      didYouMean = suggestion && suggestion !== corrected ? suggestion : null
+    }
+  }
+
+  const { counts, totalResults, merged, offset, facetCounts } = ranked
+  const pageRows = merged.slice(offset, offset + limit)
+  const hasNextPage = cursor
+    ? merged.length > limit
+    : offset + limit < totalResults && page < maxPage
+
+  // Load the documents on this page through Payload for localized, populated values
+  const docsById = new Map<string, any>()
+  await Promise.all(
+    SEARCH_COLLECTIONS.map(async (searchCollection, collectionIndex) => {
+      const ids = pageRows.filter((row) => row.collectionIndex === collectionIndex).map((row) => row.id)
+      if (!ids.length) return
+
+      const { docs } = await payload.find({
+        collection: searchCollection.slug,
+        where: { id: { in: ids } },
+        depth: 1,
+        pagination: false,
+        locale: options.locale as any,
+      })
+      docs.forEach((doc: any) => docsById.set(`${collectionIndex}:${doc.id}`, doc))
+    })
+  )
+
+  const pattern = getHighlightPattern(correctedQuery || query)
+  const results: SearchResult[] = []
+  for (const row of pageRows) {
+    const doc = docsById.get(`${row.collectionIndex}:${row.id}`)
+    if (!doc) continue
+
+    const searchCollection = SEARCH_COLLECTIONS[row.collectionIndex]
+    results.push({
+      ...searchCollection.toResult(doc, options.locale),
+      score: row.score,
+      highlights: {
+        title: highlightText(getLocalizedValue(doc.title, options.locale) || '', pattern),
+        snippet: getSnippet(doc, searchCollection.snippetFields, options.locale, pattern),
+      },
+    })
+  }
+
+  const lastRow = pageRows[pageRows.length - 1]
+  const facets = facetCounts ? await buildFacets(payload, facetCounts, filters, options.locale) : []
+
+  return {
+    query,
+    correctedQuery,
+    didYouMean,
+    locale: options.locale,
+    results,
+    counts,
+    facets,
+    filters,
+    ranges,
+    pagination: {
+      limit,
+      page: cursor ? null : page,
+      totalResults,
+      totalPages: Math.ceil(totalResults / limit),
+      hasNextPage,
+      nextPage: !cursor && hasNextPage ? page + 1 : null,
+      nextCursor: hasNextPage && lastRow ? encodeCursor(lastRow) : null,
+    },
+  }
+}
@@ -1,10 +1,11 @@
 import { getSiteMetadata } from '@/lib/api/api-client'
 import { SITE_CONFIG } from '@/config/site.config'
+import type { Locale } from '@/lib/i18n/config'
 
 /**
  * Get personal data for SEO metadata - prioritizes SiteMetadata CMS over SITE_CONFIG
  */
-export async function getSEOPersonalData(locale: 'en') {
+export async function getSEOPersonalData(locale: Locale) {
   let siteMetadata
   try {
     siteMetadata = await getSiteMetadata(locale)
@@ -33,7 +34,7 @@ export async function getSEOPersonalData(locale: 'en') {
 /**
  * Generate standardized author metadata for SEO
  */
-export async function getSEOAuthor(locale: 'en') {
+export async function getSEOAuthor(locale: Locale) {
   const personalData = await getSEOPersonalData(locale)
   return {
     name: personalData.name,
@@ -44,7 +45,7 @@ export async function getSEOAuthor(locale: 'en') {
 /**
  * Generate copyright text for images using SiteMetadata defaults
  */
-export async function getDefaultCopyright(locale: 'en') {
+export async function getDefaultCopyright(locale: Locale) {
   const personalData = await getSEOPersonalData(locale)
   const currentYear = new Date().getFullYear()
   return `© ${personalData.legal.copyrightYear !== currentYear ? `${personalData.legal.copyrightYear}-${currentYear}` : currentYear} ${personalData.legal.copyrightHolder}`
@@ -0,0 +1,265 @@
+/**
+ * Smart Galleries
+ * Galleries whose images are selected by a saved metadata query instead of the
+ * image's `galleries` relationship. Membership is resolved when the gallery renders.
+ */
+import type { Payload, Where } from 'payload'
+import { triggerRevalidation } from './revalidation-hooks'
+
+export type SmartQueryOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'in'
+  | 'greater_than_equal'
+  | 'less_than_equal'
+  | 'year'
+
+export interface SmartQueryRule {
+  field?: string | null
+  operator?: SmartQueryOperator | null
+  value?: string | null
+}
+
+export interface SmartQuery {
+  match?: 'all' | 'any' | null
+  rules?: SmartQueryRule[] | null
+  sort?: string | null
+  limit?: number | null
+}
+
+export interface GalleryMembershipDoc {
+  id: string
+  galleryType?: 'manual' | 'smart' | null
+  smartQuery?: SmartQuery | null
+}
+
+type FieldKind = 'text' | 'number' | 'date' | 'boolean'
+
+// Image fields a smart gallery can filter on
+export const SMART_QUERY_FIELDS: { label: string; value: string; kind: FieldKind }[] = [
+  { label: 'Photography Style', value: 'photographyStyle', kind: 'text' },
+  { label: 'Country', value: 'location.country', kind: 'text' },
+  { label: 'Region', value: 'location.region', kind: 'text' },
+  { label: 'City', value: 'location.city', kind: 'text' },
+  { label: 'Tags', value: 'tags', kind: 'text' },
+  { label: 'Keywords', value: 'keywords', kind: 'text' },
+  { label: 'Capture Date', value: 'captureDate', kind: 'date' },
+  { label: 'Focal Length (mm)', value: 'technical.focalLength', kind: 'number' },
+  { label: 'ISO', value: 'technical.iso', kind: 'number' },
+  { label: 'Aperture (f-number)', value: 'technical.fNumber', kind: 'number' },
+  { label: 'Shutter Speed (seconds)', value: 'technical.exposureTime', kind: 'number' },
+  { label: 'Featured', value: 'featured', kind: 'boolean' },
+]
+
+export const SMART_QUERY_OPERATORS: { label: string; value: SmartQueryOperator }[] = [
+  { label: 'is', value: 'equals' },
+  { label: 'is not', value: 'not_equals' },
+  { label: 'contains', value: 'contains' },
+  { label: 'is one of (comma-separated)', value: 'in' },
+  { label: 'is at least / on or after', value: 'greater_than_equal' },
+  { label: 'is at most / on or before', value: 'less_than_equal' },
+  { label: 'is in year', value: 'year' },
+]
+
+export const SMART_QUERY_SORTS = [
+  { label: 'Newest capture first', value: '-captureDate' },
+  { label: 'Oldest capture first', value: 'captureDate' },
+  { label: 'Recently added first', value: '-createdAt' },
+  { label: 'Display order', value: 'sortOrder' },
+]
+
+export const DEFAULT_SMART_GALLERY_LIMIT = 200
+
+const FIELD_KINDS = new Map(SMART_QUERY_FIELDS.map((field) => [field.value, field.kind]))
+
+export function isSmartGallery(gallery: { galleryType?: string | null } | null | undefined): boolean {
+  return gallery?.galleryType === 'smart'
+}
+
+function parseValue(kind: FieldKind, raw: string): string | number | boolean | null {
+  const value = raw.trim()
+  if (!value) return null
+  if (kind === 'number') {
+    const number = Number(value)
+    return Number.isFinite(number) ? number : null
+  }
+  if (kind === 'boolean') return ['true', 'yes', '1'].includes(value.toLowerCase())
+  return value
+}
+
+function yearRange(value: string): [string, string] | null {
+  const year = parseInt(value, 10)
+  if (!Number.isInteger(year) || year < 1800 || year > 3000) return null
+  return [new Date(Date.UTC(year, 0, 1)).toISOString(), new Date(Date.UTC(year + 1, 0, 1)).toISOString()]
+}
+
+/**
+ * Translate one rule into a Payload where clause; invalid rules are skipped
+ */
+function ruleToWhere({ field, operator, value }: SmartQueryRule): Where | null {
+  const kind = field ? FIELD_KINDS.get(field) : undefined
+  if (!field || !kind || !operator || value == null) return null
+
+  if (operator === 'year') {
+    const range = kind === 'date' ? yearRange(value) : null
+    return range ? { [field]: { greater_than_equal: range[0], less_than: range[1] } } : null
+  }
+
+  if (operator === 'in') {
+    const values = value.split(',').map((item) => parseValue(kind, item)).filter((item) => item !== null)
+    return values.length ? { [field]: { in: values } } : null
+  }
+
+  const parsed = parseValue(kind, value)
+  if (parsed === null) return null
+  if (operator === 'contains') {
+    return kind === 'text' ? { [field]: { like: parsed } } : null
+  }
+
+  return { [field]: { [operator]: parsed } }
+}
+
+/**
+ * Where clause selecting the published images of a smart gallery.
+ * Returns null when the gallery has no usable rules, so an empty query never matches the whole library.
+ * Images that only belong to private client galleries are never included.
+ */
+export function buildSmartGalleryWhere(query: SmartQuery | null | undefined): Where | null {
+  const conditions = (query?.rules || []).map(ruleToWhere).filter((rule): rule is Where => rule !== null)
+  if (conditions.length === 0) return null
+
+  return {
+    and: [
+      { _status: { equals: 'published' } },
+      { 'galleries.visibility': { not_equals: 'private' } },
+      query?.match === 'any' ? { or: conditions } : { and: conditions },
+    ],
+  }
+}
+
+/**
+ * Where clause for the published images of any gallery, manual or smart
+ */
+export function getGalleryImagesWhere(gallery: GalleryMembershipDoc): Where | null {
+  if (isSmartGallery(gallery)) {
+    return buildSmartGalleryWhere(gallery.smartQuery)
+  }
+
+  return {
+    galleries: { in: [gallery.id] },
+    _status: { equals: 'published' },
+  }
+}
+
+/**
+ * Sort and limit for a gallery's images; manual galleries keep the caller's defaults
+ */
+export function getGalleryImagesOptions(
+  gallery: GalleryMembershipDoc,
+  defaults: { sort: string; limit: number }
+): { sort: string; limit: number } {
+  if (!isSmartGallery(gallery)) return defaults
+
+  return {
+    sort: gallery.smartQuery?.sort || '-captureDate',
+    limit: gallery.smartQuery?.limit || DEFAULT_SMART_GALLERY_LIMIT,
+  }
+}
+
+function getPath(doc: any, path: string): unknown {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), doc)
+}
+
+function matchesRule(image: any, rule: SmartQueryRule): boolean | null {
+  const where = ruleToWhere(rule)
+  if (!where) return null
+
+  const kind = FIELD_KINDS.get(rule.field!)!
+  const raw = getPath(image, rule.field!)
+  const values = (Array.isArray(raw) ? raw : [raw]).filter((item) => item != null)
+  const value = rule.value!
+
+  const compare = (item: unknown): number => {
+    if (kind === 'date') return new Date(item as string).getTime()
+    return Number(item)
+  }
+
+  switch (rule.operator) {
+    case 'equals':
+      return values.some((item) => item === parseValue(kind, value))
+    case 'not_equals':
+      return !values.some((item) => item === parseValue(kind, value))
+    case 'contains':
+      return values.some((item) => String(item).toLowerCase().includes(value.trim().toLowerCase()))
+    case 'in': {
+      const options = value.split(',').map((item) => parseValue(kind, item))
+      return values.some((item) => options.includes(item as any))
+    }
+    case 'greater_than_equal':
+      return values.some((item) => compare(item) >= compare(parseValue(kind, value)))
+    case 'less_than_equal':
+      return values.some((item) => compare(item) <= compare(parseValue(kind, value)))
+    case 'year': {
+      const range = yearRange(value)!
+      return values.some((item) => {
+        const time = compare(item)
+        return time >= new Date(range[0]).getTime() && time < new Date(range[1]).getTime()
+      })
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Evaluate a smart query against a single image document in memory.
+ * Mirrors buildSmartGalleryWhere, except for the private gallery check.
+ */
+export function imageMatchesSmartQuery(image: any, query: SmartQuery | null | undefined): boolean {
+  if (!image || image._status !== 'published') return false
+
+  const results = (query?.rules || []).map((rule) => matchesRule(image, rule)).filter((result) => result !== null)
+  if (results.length === 0) return false
+
+  return query?.match === 'any' ? results.some(Boolean) : results.every(Boolean)
+}
+
+async function findPublishedSmartGalleries(payload: Payload) {
+  const { docs } = await payload.find({
+    collection: 'galleries',
+    where: {
+      galleryType: { equals: 'smart' },
+      _status: { equals: 'published' },
+    },
+    pagination: false,
+    depth: 0,
+  })
+  return docs
+}
+
+/**
+ * Images afterChange/afterDelete hook that revalidates every smart gallery
+ * the image belonged to before the change or belongs to after it
+ */
+export const createSmartGalleryRevalidationHook = () => {
+  return async ({ doc, previousDoc, req }: any) => {
+    if (req?.user?.bypassRevalidation) return doc
+
+    try {
+      const galleries = await findPublishedSmartGalleries(req.payload)
+      const affected = galleries.filter((gallery) =>
+        imageMatchesSmartQuery(doc, gallery.smartQuery as SmartQuery) ||
+        imageMatchesSmartQuery(previousDoc, gallery.smartQuery as SmartQuery)
+      )
+
+      await Promise.all(
+        affected.map((gallery) => triggerRevalidation('collection', 'galleries', { slug: gallery.slug }))
+      )
+    } catch (error) {
+      console.error('❌ Failed to revalidate smart galleries:', error)
+    }
+
+    return doc
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Upload Hooks for PayloadCMS
+ * Fill image URL and file metadata fields from an uploaded media document
+ */
+import { applyExtractedMetadata, type ExtractedPhotoMetadata } from './photo-metadata'
+import { applyGearMatches, matchGearFromMetadata } from './gear-matching'
+
+interface MediaSize {
+  url?: string | null
+  width?: number | null
+  height?: number | null
+}
+
+interface MediaDoc {
+  id: string
+  url?: string | null
+  filename?: string | null
+  filesize?: number | null
+  mimeType?: string | null
+  width?: number | null
+  height?: number | null
+  sizes?: Record<string, MediaSize | undefined>
+  exif?: ExtractedPhotoMetadata | null
+}
+
+/**
+ * Map a media document onto the Images `imageUrls` group.
+ * Variants skipped by `withoutEnlargement` fall back to the next larger size.
+ */
+export function getImageUrlsFromMedia(media: MediaDoc) {
+  const full = media.url || ''
+  const large = media.sizes?.large?.url || full
+  const medium = media.sizes?.medium?.url || large
+  const thumbnail = media.sizes?.thumbnail?.url || medium
+
+  return { full, large, medium, thumbnail }
+}
+
+/**
+ * Map a media document onto the Images `fileInfo` group
+ */
+export function getFileInfoFromMedia(media: MediaDoc) {
+  return {
+    filename: media.filename || undefined,
+    filesize: media.filesize || undefined,
+    mimeType: media.mimeType || undefined,
+    dimensions: {
+      width: media.width || undefined,
+      height: media.height || undefined,
+    },
+  }
+}
+
+/**
+ * Collection beforeValidate hook that populates `imageUrls` and `fileInfo`
+ * from an upload relationship field.
+ * Features:
+ * - Runs on create and whenever the uploaded file changes
+ * - Leaves manually entered URLs alone when the upload is unchanged
+ * - Applies embedded EXIF/IPTC/XMP metadata using the image's overwrite policy
+ * - Links camera body and lens gear from EXIF identifiers, queueing unknown ones for review
+ * - Runs before validation so required fields can be satisfied by the upload
+ */
+export const createUploadDerivativesHook = ({
+  uploadField = 'sourceFile',
+  uploadCollection = 'media',
+} = {}) => {
+  return async ({ data, originalDoc, req, context }: any) => {
+    const upload = data?.[uploadField]
+    if (!upload) {
+      return data
+    }
+
+    const uploadId = typeof upload === 'object' ? upload.id : upload
+    const previousUpload = originalDoc?.[uploadField]
+    const previousId = typeof previousUpload === 'object' ? previousUpload?.id : previousUpload
+    const currentUrls = data.imageUrls || originalDoc?.imageUrls
+
+    if (uploadId === previousId && currentUrls?.full) {
+      return data
+    }
+
+    try {
+      const media: MediaDoc = typeof upload === 'object' && upload.url
+        ? upload
+        : await req.payload.findByID({
+            collection: uploadCollection,
+            id: uploadId,
+            depth: 0,
+            req,
+          })
+
+      const next = {
+        ...data,
+        imageUrls: {
+          ...currentUrls,
+          ...getImageUrlsFromMedia(media),
+        },
+        fileInfo: {
+          ...(data.fileInfo || originalDoc?.fileInfo),
+          ...getFileInfoFromMedia(media),
+        },
+      }
+
+      if (!media.exif) {
+        return next
+      }
+
+      // Compare against stored values too, since partial updates omit unchanged fields
+      const current = {
+        ...next,
+        technical: next.technical || originalDoc?.technical,
+        location: next.location || originalDoc?.location,
+        captureDate: next.captureDate ?? originalDoc?.captureDate,
+        keywords: next.keywords ?? originalDoc?.keywords,
+        caption: next.caption ?? originalDoc?.caption,
+      }
+      const policy = data.metadataPolicy || originalDoc?.metadataPolicy
+      const matches = await matchGearFromMetadata(req, media.exif)
+      const withGear = applyGearMatches(
+        applyExtractedMetadata(current, media.exif, policy?.overwrite || []),
+        matches
+      )
+
+      // Only queue identifiers whose relationship is still empty after matching
+      context.unmatchedGear = matches.unmatched.filter(item =>
+        item.kind === 'camera-body' ? !withGear.technical.cameraBody : !withGear.technical.lensGear
+      )
+
+      return {
+        ...withGear,
+        metadataPolicy: {
+          ...policy,
+          lastExtractedAt: new Date().toISOString(),
+        },
+      }
+    } catch (error) {
+      console.error('❌ Failed to populate image URLs from upload:', error)
+      return data
+    }
+  }
+}
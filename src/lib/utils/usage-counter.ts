@@ -0,0 +1,128 @@
+/**
+ * Usage Counter
+ * First-party view and download counting, batched into Images `usage` and BlogPosts `viewCount`
+ */
+import crypto from 'crypto'
+import type { MongooseAdapter } from '@payloadcms/db-mongodb'
+import { getPayloadClient } from '../api/payload-client'
+
+export type UsageEvent = 'view' | 'download'
+export type UsageCollection = 'images' | 'blog-posts'
+
+interface PendingUsage {
+  views: number
+  downloads: number
+  lastViewed?: Date
+}
+
+// Flush buffered counts at most this often
+const FLUSH_INTERVAL = 30 * 1000
+// Flush early once this many documents are waiting
+const MAX_PENDING = 200
+// The same session counts once per document per event type within this window
+const DEDUP_WINDOW = 30 * 60 * 1000
+
+const pending = new Map<string, PendingUsage>()
+const seen = new Map<string, number>()
+let flushTimer: ReturnType<typeof setTimeout> | null = null
+
+const BOT_PATTERN = /bot|crawl|spider|slurp|bingpreview|facebookexternalhit|embedly|quora link preview|whatsapp|telegram|discord|slack|headless|lighthouse|pagespeed|gtmetrix|pingdom|uptime|monitor|curl|wget|python-requests|axios|node-fetch|go-http-client|java\//i
+
+/**
+ * Detect crawlers, link previewers, monitors and scripted clients by user agent
+ */
+export function isBotUserAgent(userAgent: string | null | undefined): boolean {
+  if (!userAgent) return true
+  return BOT_PATTERN.test(userAgent)
+}
+
+/**
+ * Returns true the first time a session reports an event for a document
+ * within the de-duplication window
+ */
+export function isFirstInSession(sessionKey: string, event: UsageEvent, collection: UsageCollection, id: string): boolean {
+  const now = Date.now()
+  const key = crypto.createHash('sha1').update(`${sessionKey}:${event}:${collection}:${id}`).digest('hex')
+
+  // Drop expired entries occasionally so the map stays small
+  if (seen.size > 10000 || Math.random() < 0.01) {
+    seen.forEach((expires, entry) => {
+      if (expires < now) seen.delete(entry)
+    })
+  }
+
+  const expires = seen.get(key)
+  if (expires && expires > now) return false
+
+  seen.set(key, now + DEDUP_WINDOW)
+  return true
+}
+
+/**
+ * Buffer a usage event; counts are written to the database in batches
+ */
+export function recordUsage(event: UsageEvent, collection: UsageCollection, id: string): void {
+  // Blog posts only track views
+  if (collection === 'blog-posts' && event === 'download') return
+
+  const key = `${collection}:${id}`
+  const entry = pending.get(key) || { views: 0, downloads: 0 }
+
+  if (event === 'view') {
+    entry.views++
+    entry.lastViewed = new Date()
+  } else {
+    entry.downloads++
+  }
+  pending.set(key, entry)
+
+  if (pending.size >= MAX_PENDING) {
+    void flushUsage()
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(() => void flushUsage(), FLUSH_INTERVAL)
+  }
+}
+
+/**
+ * Write buffered counts with atomic increments.
+ * Goes through the database adapter rather than payload.update so counting
+ * does not create document versions or trigger revalidation on every batch.
+ */
+export async function flushUsage(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer)
+    flushTimer = null
+  }
+  if (pending.size === 0) return
+
+  const batch = new Map(pending)
+  pending.clear()
+
+  try {
+    const payload = await getPayloadClient()
+    const models = (payload.db as unknown as MongooseAdapter).collections
+
+    await Promise.all(
+      Array.from(batch.entries()).map(async ([key, usage]) => {
+        const [collection, id] = key.split(/:(.+)/) as [UsageCollection, string]
+
+        const update = collection === 'images'
+          ? {
+              $inc: { 'usage.viewCount': usage.views, 'usage.downloadCount': usage.downloads },
+              ...(usage.lastViewed && { $max: { 'usage.lastViewed': usage.lastViewed } }),
+            }
+          : { $inc: { viewCount: usage.views } }
+
+        try {
+          await models[collection].updateOne({ _id: id, _status: 'published' }, update)
+        } catch (error) {
+          console.error(`❌ Failed to write usage for ${key}:`, error)
+        }
+      })
+    )
+
+    console.log(`✅ Flushed usage counts for ${batch.size} documents`)
+  } catch (error) {
+    console.error('❌ Usage flush failed:', error)
+  }
+}
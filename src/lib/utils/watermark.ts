@@ -0,0 +1,230 @@
+/**
+ * Watermarking
+ * Composites the Settings watermark onto served image derivatives
+ */
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+import sharp from 'sharp'
+import type { CollectionAfterReadHook, PayloadRequest, Where } from 'payload'
+import type { Image, Setting } from '@/config/payload-types'
+import { getServerSideURL } from './getURL'
+
+export type WatermarkPosition = 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left' | 'center'
+
+export interface WatermarkOptions {
+  opacity: number
+  position: WatermarkPosition
+}
+
+// Derivatives served through the watermark route. `full` resolves to the
+// watermarked large derivative for visitors and the clean original for editors.
+export const WATERMARKED_SIZES = ['large', 'medium', 'full'] as const
+export type WatermarkedSize = (typeof WATERMARKED_SIZES)[number]
+
+// Uploads live outside public/ so every file request goes through the media access check
+export const MEDIA_STATIC_DIR = process.env.MEDIA_STATIC_DIR || path.resolve(process.cwd(), 'media')
+const MEDIA_FILE_PATH = '/api/media/file/'
+
+// Which uploads visitors may load directly changes rarely, so it is cached briefly
+const DIRECT_MEDIA_TTL = 60 * 1000
+let directMediaCache: { value: string[] | null; expires: number } | null = null
+
+// Watermark width as a fraction of the photo width
+const WATERMARK_SCALE = 0.2
+// Margin from the edges as a fraction of the photo width
+const WATERMARK_MARGIN = 0.03
+
+/**
+ * Build the public URL for a watermarked derivative.
+ * `version` changes whenever the image or watermark settings change so
+ * browser and next/image caches pick up the new file.
+ */
+export function getWatermarkedImageUrl(id: string, size: WatermarkedSize, version?: string): string {
+  const query = version ? `?v=${version}` : ''
+  return `${getServerSideURL()}/api/watermark/${id}/${size}${query}`
+}
+
+/**
+ * Short stable hash used for cache keys and URL versions
+ */
+export function hashParts(...parts: unknown[]): string {
+  return crypto
+    .createHash('sha1')
+    .update(parts.map(part => String(part ?? '')).join('|'))
+    .digest('hex')
+    .slice(0, 16)
+}
+
+/**
+ * Fetch an image by URL. Our own uploads are read from disk, since the media access rules
+ * for visitors would keep the server from loading clean files over HTTP.
+ */
+export async function fetchImageBuffer(url: string): Promise<Buffer | null> {
+  const absoluteUrl = url.startsWith('http') ? url : `${getServerSideURL()}${url}`
+
+  const { origin, pathname } = new URL(absoluteUrl)
+  if (origin === new URL(getServerSideURL()).origin && pathname.startsWith(MEDIA_FILE_PATH)) {
+    const filename = path.basename(decodeURIComponent(pathname.slice(MEDIA_FILE_PATH.length)))
+    const file = await fs.readFile(path.join(MEDIA_STATIC_DIR, filename)).catch(() => null)
+    if (file) return file
+  }
+
+  const response = await fetch(absoluteUrl)
+  if (!response.ok) return null
+
+  return Buffer.from(await response.arrayBuffer())
+}
+
+/**
+ * Composite a watermark onto an image.
+ * The watermark is scaled relative to the photo so it looks the same on every derivative.
+ */
+export async function compositeWatermark(
+  image: Buffer,
+  watermark: Buffer,
+  { opacity, position }: WatermarkOptions
+): Promise<Buffer> {
+  const base = sharp(image).rotate()
+  const { width = 0, height = 0 } = await base.metadata()
+
+  const markWidth = Math.max(1, Math.round(width * WATERMARK_SCALE))
+  const alpha = Math.round((Math.min(Math.max(opacity, 0), 100) / 100) * 255)
+
+  // Scale the watermark, then multiply its alpha channel by the configured opacity
+  const mark = await sharp(watermark)
+    .resize({ width: markWidth, withoutEnlargement: false })
+    .ensureAlpha()
+    .composite([
+      {
+        input: Buffer.from([255, 255, 255, alpha]),
+        raw: { width: 1, height: 1, channels: 4 },
+        tile: true,
+        blend: 'dest-in',
+      },
+    ])
+    .png()
+    .toBuffer({ resolveWithObject: true })
+
+  const margin = Math.round(width * WATERMARK_MARGIN)
+  const markHeight = mark.info.height
+  const left = position.endsWith('left')
+    ? margin
+    : position === 'center'
+      ? Math.round((width - markWidth) / 2)
+      : width - markWidth - margin
+  const top = position.startsWith('top')
+    ? margin
+    : position === 'center'
+      ? Math.round((height - markHeight) / 2)
+      : height - markHeight - margin
+
+  return base
+    .composite([{ input: mark.data, left: Math.max(0, left), top: Math.max(0, top) }])
+    .jpeg({ quality: 85 })
+    .toBuffer()
+}
+
+/**
+ * Images afterRead hook that points public image URLs at the watermark route.
+ * Features:
+ * - Leaves URLs clean for authenticated editors and when watermarking is off
+ * - Skips images opted out through `rights.excludeFromWatermark`
+ * - Leaves thumbnails and the watermark image itself untouched
+ * - Versions URLs by image and settings timestamps so caches refresh on change
+ */
+export const createWatermarkUrlsHook = (): CollectionAfterReadHook<Image> => {
+  return async ({ doc, req, context }) => {
+    if (!doc?.imageUrls || context?.skipWatermark) return doc
+    if (['admin', 'editor', 'photographer'].includes(req?.user?.role || '')) return doc
+    if (doc.rights?.excludeFromWatermark) return doc
+
+    try {
+      // Look the settings up once per request rather than once per image
+      if (!context.watermarkSettings) {
+        context.watermarkSettings = req.payload.findGlobal({
+          slug: 'settings',
+          depth: 0,
+          context: { skipWatermark: true },
+        })
+      }
+      const settings = await (context.watermarkSettings as Promise<Setting>)
+      const watermark = settings?.photography?.watermark
+
+      if (!watermark?.enabled || !watermark.image || watermark.image === doc.id) {
+        return doc
+      }
+
+      const version = hashParts(doc.updatedAt, settings.updatedAt)
+      const imageUrls = { ...doc.imageUrls }
+      for (const size of WATERMARKED_SIZES) {
+        if (imageUrls[size]) {
+          imageUrls[size] = getWatermarkedImageUrl(doc.id, size, version)
+        }
+      }
+
+      return { ...doc, imageUrls }
+    } catch (error) {
+      console.error('❌ Failed to apply watermark URLs:', error)
+      return doc
+    }
+  }
+}
+
+/**
+ * IDs of the uploads visitors may load in every size, or null when watermarking is off
+ * and every file is public: images opted out of watermarking and the watermark itself
+ */
+async function getDirectMediaIds(req: PayloadRequest): Promise<string[] | null> {
+  const now = Date.now()
+  if (directMediaCache && directMediaCache.expires > now) {
+    return directMediaCache.value
+  }
+
+  const settings = await req.payload.findGlobal({
+    slug: 'settings',
+    depth: 0,
+    context: { skipWatermark: true },
+  })
+  const watermark = settings.photography?.watermark
+
+  let value: string[] | null = null
+  if (watermark?.enabled && watermark.image) {
+    const watermarkId = typeof watermark.image === 'object' ? watermark.image.id : watermark.image
+    const { docs } = await req.payload.find({
+      collection: 'images',
+      where: {
+        or: [
+          { 'rights.excludeFromWatermark': { equals: true } },
+          { id: { equals: watermarkId } },
+        ],
+      },
+      select: { sourceFile: true },
+      pagination: false,
+      depth: 0,
+      context: { skipWatermark: true },
+    })
+    value = docs
+      .map((doc) => (typeof doc.sourceFile === 'object' ? doc.sourceFile?.id : doc.sourceFile))
+      .filter((id): id is string => Boolean(id))
+  }
+
+  directMediaCache = { value, expires: now + DIRECT_MEDIA_TTL }
+  return value
+}
+
+/**
+ * Media read access for visitors loading a file. While watermarking is on, clean large, medium
+ * and original files are only served through the watermark route; thumbnails stay direct.
+ */
+export async function getMediaFileAccess(req: PayloadRequest, filename: string | undefined): Promise<boolean | Where> {
+  const directIds = await getDirectMediaIds(req)
+  if (!directIds) return true
+
+  return {
+    or: [
+      { 'sizes.thumbnail.filename': { equals: filename } },
+      { id: { in: directIds } },
+    ],
+  }
+}
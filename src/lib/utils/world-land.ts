@@ -0,0 +1,140 @@
+/**
+ * World Land
+ * Self-hosted base map of the map explorer: Natural Earth 1:110m land outlines (public domain,
+ * via world-atlas) projected equirectangularly into the 360 × 180 box of world-map.ts.
+ * Rendered on the server so the map needs no tile server and the outlines stay out of client bundles.
+ */
+
+// One subpath per landmass; rings crossing the antimeridian are split at the map edges
+const WORLD_LAND_SUBPATHS = [
+  'M120.4 170 120.1 170.5 119.8 171 117.7 170.9 115.5 170.9 114.3 170.6 114.3 170.5 113.7 170.3 116 170.3 118.1 170.4 118.9 170 119.4 169.6 120.4 170Z',
+  'M20.8 169.5 18.9 169.6 17.6 169.3 17 168.9 16.9 168.9 16.3 168.6 16.9 168.2 18.8 168.4 19.8 168.7 20.5 169 20.8 169.5Z',
+  'M134.8 168 136.1 168.5 136.5 169.1 136.6 169.5 136.7 170 135.1 170.3 133.5 170.6 131.6 170.8 129.5 171 127.1 171 125.8 170.6 126 170.2 128.1 169.9 129 169.6 129.6 169.2 130.1 168.8 130.7 168.5 131.3 168 131.8 168 133.3 167.8 134.8 168Z',
+  'M58.8 163.5 60.1 163.7 61.3 163.5 60.7 163.8 59.8 164.1 58.4 164 57.4 163.7 57.6 163.3 58.8 163.5Z',
+  'M54.4 163.5 56 163.9 55.4 163.8 54.1 163.7 52.7 163.5 53.4 163.2 54.4 163.5Z',
+  'M81 161.9 82.1 162.1 83.2 162 83.8 162.5 83 162.4 81.8 162.5 80.6 162.4 79.2 162.5 78.2 162.3 77.7 161.9 78.3 161.7 79.6 161.9 81 161.9Z',
+  'M111.5 161 111.7 161.4 111.5 161.8 111.2 162.2 110 162.3 108.9 162.5 107.6 162.5 108.1 162.1 106.9 162.2 105.8 162.4 105 162.1 105 161.7 106.1 161.3 106.8 161.2 107.9 161.2 108.2 160.7 108.3 160.3 108.3 159.5 108.8 159 109.7 158.9 110.3 159.3 110.5 159.6 110.9 160.1 111.3 160.5 111.5 161Z',
+  'M0 174.7 0.1 174.7 0.9 174.1 2.7 174.5 2.9 174.4 3.1 174.3 3.5 174.2 3.8 174.1 3.9 174.1 4.1 174.1 4.2 174.1 5.6 174.5 6.9 174.1 7.1 174.1 10 173.9 11 174.1 11.5 174.2 13 174.6 15.8 174.8 18.1 175.1 21.9 175.4 24.8 175.1 29.1 175.3 31.5 175.6 34.1 175.3 36.9 175 37.1 174.6 33.2 174.5 29.9 174.3 29.1 173.9 26.4 173.7 26.6 173.2 27 172.8 27.3 172.5 27.1 172 25.5 171.8 24.7 171.4 23.2 171.1 25.6 171.2 27.9 171 29.4 171.3 31.1 171 32.8 170.7 33.6 170.3 33.2 169.9 31.9 169.7 30.5 169.4 28.4 169.3 26.6 169.2 24.7 169.1 24 168.7 22.7 168.4 21.9 168 21.6 166.9 22.1 167 23 167.3 24.7 167.2 26.3 167.1 27.1 167.5 28.7 167.4 30 167.2 31.3 166.9 32.4 166.6 33.9 166.5 33.9 166.1 33.5 165.7 33.8 165.4 35.1 165.2 35.7 165.5 37.2 165.3 38.4 165.1 39.8 165.1 41.1 165 42.5 164.7 43.6 164.5 44.8 164.3 45.6 164.4 46.3 164.4 47.7 164.3 49.1 164.5 50.4 164.5 51.8 164.3 53.1 164.4 54.6 164.5 56 164.5 57.4 164.5 58.9 164.5 60.3 164.5 61.3 164.2 62.5 164 63.8 164.2 65 164.1 66.1 163.7 66.7 164 67.1 164.4 67.7 164.7 68.7 164.4 69.9 164.8 71.3 164.9 72.4 165.2 73.9 165.1 75.1 164.9 76.6 165 78 165.1 79.4 165.3 79.9 164.9 79.2 164.5 78.7 164.2 77.5 164.1 76.9 163.7 76.7 163.4 76.3 162.6 77.1 162.8 78.4 162.8 79.7 162.8 80.9 162.9 81.9 163.2 82.3 163.6 83.7 163.6 85 163.5 86.3 163.3 87.6 163.2 88.6 163.4 89.9 163.3 90.8 162.6 91.6 163 92.7 163.2 94 163.1 94.8 163.5 96.1 163.5 97.3 163.6 98.5 163.9 99.3 163.5 99.7 163.1 100.7 163.5 102.1 163.4 103.1 163.6 103.8 164 105.1 163.9 106.1 163.7 107.2 163.4 108.4 163.3 109.8 163.1 111.1 163 112 162.8 112.6 162.5 112.9 162 112.7 161.6 112.4 161.2 112.1 160.9 111.8 160.5 111.5 160.1 111.5 159.7 111.6 159.3 112 159 112.4 158.5 112.6 158.2 112.4 157.7 112.3 157.3 112.7 156.9 113.3 156.6 113.9 156.2 114.6 155.9 115.4 155.6 115.8 155.2 116.4 154.9 117 154.6 118 154.6 118.6 154.3 119.3 154.1 120.1 154 120.8 153.7 121.4 153.4 122.2 153.3 122.8 153.5 122.4 153.9 121.4 154.2 121 154.4 120.2 154.2 119.4 154.3 118.7 154.5 118 154.8 117.5 155.1 117.4 155.5 117.4 155.9 117.9 156.2 117.2 156.4 116.3 156.5 115.7 156.8 115.1 157.1 114.5 157.6 114.3 158 114.7 158.4 115.2 158.7 116 158.9 116.8 159.2 117.2 159.6 117.4 160 117.7 160.4 118.2 160.7 118.5 161.1 118.6 162 118.9 162.4 119 162.8 119.3 163.2 119.2 163.7 118.6 164.1 118 164.4 116.7 164.6 116.3 164.9 115.6 165.3 114.1 165.6 112.8 165.8 111.6 166 110.2 166.2 109.4 166.6 107.8 166.7 106 166.6 104.4 166.7 102.8 166.7 103.1 167.1 104.6 167.3 105.7 167.6 106.3 167.9 105.2 168.2 103.5 168.1 102.1 168.4 102 168.8 102 169.2 103.2 169.5 103.4 169.9 104.6 170.3 106.8 170.4 108.6 170.7 110 171 111.8 171.3 114.3 171.5 116.7 171.7 118.4 172 120.3 172.4 121.3 172.8 121.8 173.2 123 172.9 124.6 172.6 126.4 172.3 128.5 172 130.2 171.7 132.7 171.7 135.2 171.8 137.2 172.1 137.8 171.7 139.2 171.4 141.8 171.3 143.7 171.1 145.6 170.9 147.7 170.8 149.9 170.6 151.4 170.3 150.7 170 150.3 169.6 150.3 169.3 148.4 169.3 146.3 169.5 144.4 169.5 144.1 169.1 144.2 168.3 144.7 168.1 146.1 167.9 147.8 167.7 149 167.4 150.2 167.1 151.1 166.7 152.5 166.5 153.8 166.4 154.5 166.3 156.1 166.2 157.5 166.1 158.8 165.9 160 165.7 161.1 165.4 162.5 165.1 163.4 164.8 164.3 164.5 164.6 164.1 163.5 163.9 163.9 163.5 164.6 163.1 165.6 163 166.7 162.7 167.7 162.4 168.5 162 169 161.5 169.7 161.3 170.9 161.3 171.4 161.7 172.6 161.7 172.6 161.3 173.1 160.9 174.2 161 174.5 161.4 175.7 161.5 177 161.3 178.2 161.2 179.3 161.2 179.8 161.6 180.9 161.3 181.9 161.1 183 161 184.1 160.9 185.2 160.6 186.3 160.5 187.1 160.2 187.7 159.9 188.5 160.1 189.5 160 190.3 160.5 190.8 160.8 192 160.6 192.4 160.2 193.4 160 194.7 160 195.1 160.4 195.9 160 197 159.9 198.2 159.9 199.3 159.9 200.4 160 201.5 160.1 201.9 160.4 202.6 160.7 203.7 160.5 204.8 160.5 206 160.5 207.1 160.5 208.1 160.3 209.2 160.2 210 159.9 211 159.8 212 159.7 212.8 159.4 213.3 158.8 213.9 158.5 214.9 158.7 215.3 159 216.2 159.2 217.2 159.2 217.9 159.5 218.6 159.8 219.7 159.5 220 159.1 220.9 158.9 222 158.6 222.9 158.5 224.1 158.3 224.9 158.1 225.7 157.8 226.5 157.6 227.4 157.7 228.3 157.4 229 157.1 229.9 157.1 230.8 156.9 230.9 156.5 231.8 156.2 232.6 156.1 233.6 155.9 234.5 155.8 235.4 155.9 236.4 156 237.2 156.2 237.3 156.7 238.1 157 238.7 157.3 239.9 157.4 240.6 157.7 241.4 158 242.4 158 243.2 157.8 244.1 157.4 245 157.6 246 157.7 246.9 157.9 247.9 157.9 248.9 157.9 249.7 159 249.7 159.2 249.6 159.7 248.6 159.9 247.8 160.3 247.9 160.7 249.1 160.7 248.9 161.1 248.4 161.4 247.9 161.9 248.7 162.2 249.9 162.3 251 162.1 251.6 161.7 251.9 161.3 252.5 161 253.1 160.7 253.3 160.4 253.9 159.9 254.5 159.8 255.6 159.7 256.6 159.6 257.6 159.5 258.1 159.1 258.4 158.7 259.1 158.3 260.1 158.1 260.9 157.9 261.5 157.5 262.1 157.4 262.8 157.2 263.8 157.3 264.7 157.2 265.7 157.1 266.8 157.1 267.5 156.9 268 156.2 268.4 156.5 268.8 157 269.7 157.1 270.6 157.2 271.6 157.1 272.6 157.2 273.5 157.2 274.2 157.1 275 157.2 275.8 157.4 276.7 157.2 277.8 157.2 278.7 157.1 279.7 157.2 280.4 156.9 280.9 156.6 281.6 156.3 282.8 155.6 283.5 155.7 284.2 156 284.9 156.3 286.2 156.9 287.2 157 288.1 157 289.2 156.8 290.2 156.7 291.1 156.4 291.7 156.1 292.9 156.1 293.6 155.9 294.4 156.1 294.9 156.4 295.6 156.7 296.7 156.7 297.4 156.9 298.6 157.2 299.8 157.3 300.9 157.2 301.7 156.9 302.3 156.6 303.2 156.5 304.1 156.6 305.2 156.7 306.1 156.6 307 156.6 307.9 156.7 308.8 156.8 309.7 156.6 310.8 156.4 311.8 156.4 312.9 156.4 313.9 156.3 314.8 156.2 315 155.7 315.1 155.3 315.7 155.6 315.9 156 316.2 156.4 316.6 156.8 317.5 157 318.6 156.9 319.9 156.9 320.8 156.8 322.1 156.8 323.1 156.8 324.4 156.8 325.5 156.9 326.2 157.2 326 157.6 326.6 157.9 327.7 158.1 328.8 158.4 330.1 158.6 331.5 158.7 332.5 158.9 333.6 158.9 334.3 158.6 335.2 158.8 335.9 159.1 336.8 159.4 338 159.5 339.2 159.6 339.7 160 340.8 160.2 341.6 160.6 342.7 160.7 343.8 160.7 344.9 160.8 346.1 160.8 347.3 160.8 348.4 161 349.5 161.2 350.5 161.4 351.2 161.7 351.1 162.1 350.6 162.4 350.1 162.9 349.8 163.2 349.3 163.7 348 163.8 347.4 164.2 346.1 164.4 345.6 164.8 345 165.1 344.2 165.5 343.8 165.9 343.6 166.2 343.5 166.7 343.5 167.1 344.1 167.5 344.3 167.8 344.7 168.2 346.6 168.3 347 168.8 345.2 168.9 343.7 169.1 341.8 169.2 340.9 169.7 340.7 170.2 340.3 170.6 339.8 170.9 341.1 171.3 341.6 171.7 342.5 172.1 343.7 172.4 345.1 172.7 346.6 173 348.9 173.3 349.4 173.8 352.3 174 352.5 174.1 353.2 174.4 356 174.2 358.3 174.5 360 174.7 360 180 0 180Z',
+  'M112.2 143.8 113.5 144.5 114.9 144.7 114.5 145.2 113.5 145.2 113 144.9 112.7 145.3 111.9 145.6 110.8 145.5 110 145.2 109 145.1 107.7 144.5 106.7 144 105.3 142.8 106.2 143 107.6 143.7 108.9 144.1 109.4 143.6 109.7 142.9 110.7 142.5 111.4 142.6 111.7 143.1 112.2 143.8Z',
+  'M121.5 141.1 122.3 141.5 122 141.9 120.6 142.2 120.2 141.8 119.3 142.3 118.8 141.8 120 141.3 120.8 141.5 121.5 141.1Z',
+  'M250.3 139.7 248.7 139.8 248.7 139.2 248.9 138.8 248.9 138.6 249.6 138.9 250.5 139.1 250.6 139.3 250.3 139.7Z',
+  'M325.4 130.8 326.4 131.1 326.9 131 327.7 130.8 328.3 130.9 328.4 132.1 328 132.4 327.9 133.2 327.6 132.9 326.9 133.6 326.7 133.6 326 133.5 325.4 132.7 325.3 132 324.7 131.2 324.7 130.7 325.4 130.8Z',
+  'M353 130.9 353.2 131.3 354 130.9 354.2 131.3 354.2 131.8 353.9 132.2 353.2 133 352.7 133.4 353.1 133.9 352.3 133.9 351.5 134.2 351.2 134.9 350.6 135.9 349.8 136.4 349.3 136.6 348.4 136.6 347.8 136.3 346.7 136.2 346.5 135.9 347 135.1 348.3 134.1 348.9 133.9 349.7 133.6 350.5 133 351.1 132.5 351.6 131.8 352 131.5 352.1 131 352.8 130.5 353 130.9Z',
+  'M354.6 126.2 355.3 127.2 355.4 126.5 355.8 126.8 356 127.6 356.8 127.9 357.4 128 358 127.6 358.5 127.7 358.3 128.6 358 129.2 357.2 129.1 356.9 129.4 357 129.9 356.9 130.1 356.5 130.6 356 131.3 355.2 131.7 355.1 131.4 354.7 131.3 355.2 130.5 354.9 129.9 353.8 129.5 353.9 129.1 354.6 128.8 354.7 128 354.7 127.4 354.3 126.7 354.3 126.5 353.8 126.1 353.1 125.2 352.6 124.5 353 124.5 353.6 125 354.3 125.3 354.6 126.2Z',
+  'M347.1 112.2 346.7 112.4 346.2 112.1 345.5 111.7 344.8 111.1 344.2 110.4 344 110.1 344.5 110.1 345 110.5 345.5 110.8 345.8 111.1 346.6 111.7 347.1 112.2Z',
+  'M358.4 107.3 358.7 107.6 358.6 108.2 357.9 108.3 357.4 108.2 357.3 107.7 357.7 107.4 358.1 107.5 358.4 107.3Z',
+  'M0 106.6 -0.6 106.8 -1.3 107 -1.4 106.6 -0.9 106.4 -0.6 106.4 0 106.1 0.2 106 0.1 106.5 0 106.6Z',
+  'M360 106.6 359.4 106.8 358.7 107 358.6 106.6 359.1 106.4 359.4 106.4 360 106.1 360.2 106 360.1 106.5 360 106.6Z',
+  'M347.8 106.5 347.5 106.6 347.2 106.2 347.2 105.9 347.8 106.5Z',
+  'M347.1 104.9 347.3 105.7 347 105.6 346.8 105.7 346.7 105.4 346.6 104.6 347.1 104.9Z',
+  'M230.1 103.6 230.2 104.8 230.5 105.2 230.4 105.7 230.2 106 229.9 105.4 229.7 105.7 229.9 106.5 229.8 106.9 229.5 107.1 229.4 108 229 109.1 228.5 110.5 227.9 112.4 227.5 113.8 227.1 114.9 226.3 115.2 225.4 115.6 224.8 115.3 224 115 223.8 114.5 223.7 113.6 223.3 112.8 223.3 112.1 223.4 111.3 223.9 111.2 223.9 110.8 224.4 110.1 224.5 109.4 224.2 109 224 108.3 224 107.4 224.3 106.9 224.4 106.2 224.9 106.2 225.5 106 225.9 105.8 226.3 105.8 226.9 105.2 227.7 104.6 228 104.1 227.9 103.7 228.3 103.8 228.8 103.1 228.9 102.5 229.2 102 229.5 102.5 229.8 102.9 230.1 103.6Z',
+  'M323.6 103.8 323.9 104.5 324.6 104.2 324.9 104.6 325.4 105 325.3 105.4 325.5 106.3 325.6 106.8 325.9 106.9 326.2 107.8 326.1 108.3 326.4 109 327.5 109.5 328.2 110 328.8 110.4 328.7 110.6 329.3 111.3 329.7 112.3 330.1 112.1 330.5 112.6 330.7 112.4 330.9 113.5 331.6 114.1 332.1 114.5 332.9 115.3 333.1 116.1 333.2 116.6 333.1 117.3 333.6 118.1 333.5 119 333.3 119.5 333.1 120.4 333.1 120.9 332.9 121.6 332.4 122.6 331.7 123 331.3 123.8 331 124.3 330.7 125.2 330.3 125.7 330.1 126.4 329.9 127.1 330 127.4 329.4 127.8 328.3 127.8 327.4 128.2 326.9 128.6 326.3 129 325.5 128.6 324.9 128.4 325 127.9 324.5 128.1 323.6 128.8 322.7 128.5 322.2 128.4 321.6 128.3 320.6 128 320 127.4 319.8 126.6 319.6 126.1 319.1 125.7 318.1 125.6 318.4 125.1 318.2 124.4 317.7 125.1 316.8 125.3 317.4 124.7 317.5 124.1 317.9 123.6 317.8 122.9 317 123.8 316.4 124.1 316 124.9 315.2 124.5 315.2 123.9 314.6 123.2 314.1 122.8 314.3 122.6 313 122 312.3 122 311.3 121.5 309.5 121.6 308.2 121.9 307.1 122.3 306.1 122.2 305.1 122.7 304.2 123 304 123.5 303.7 123.9 302.8 123.9 302.2 124 301.3 123.8 300.6 123.9 299.9 124 299.3 124.5 299 124.5 298.5 124.7 298 125.1 297.3 125 296.6 125 295.6 124.4 295 124.2 295 123.6 295.5 123.5 295.7 123.3 295.7 122.9 295.8 122.2 295.7 121.6 295.2 120.6 295 120 295 119.5 294.6 118.8 294.6 118.5 294.2 118.1 294 117.3 293.5 116.5 293.3 116.1 293.8 116.5 293.4 115.6 293.9 115.9 294.2 116.3 294.2 115.8 293.7 115 293.6 114.7 293.4 114.4 293.5 113.8 293.7 113.6 293.8 113.1 293.7 112.5 294.1 111.8 294.2 112.5 294.6 111.8 295.5 111.5 295.9 111.1 296.7 110.7 297.2 110.6 297.4 110.7 298.2 110.4 298.8 110.3 299 110 299.3 110 299.8 110 300.9 109.7 301.4 109.2 301.7 108.7 302.2 108.2 302.3 107.8 302.3 107.3 303 106.4 303.4 107.3 303.9 107.1 303.5 106.6 303.8 106.1 304.3 106.3 304.4 105.6 304.9 105.1 305.2 104.7 305.7 104.5 305.7 104.2 306.1 104.3 306.1 104.1 306.6 104 307.1 103.8 307.8 104.3 308.4 104.9 309 104.9 309.6 105 309.4 104.4 309.9 103.6 310.3 103.4 310.2 103.1 310.6 102.5 311.2 102.2 311.7 102.3 312.6 102.1 312.6 101.6 311.8 101.3 312.4 101.1 313 101.4 313.6 101.8 314.4 102 314.7 101.9 315.3 102.2 315.9 102 316.3 102 316.5 101.9 317 102.4 316.7 102.9 316.3 103.3 316 103.3 316.1 103.7 315.8 104.2 315.4 104.7 315.5 105 316.3 105.6 317.1 105.9 317.6 106.2 318.3 106.8 318.6 106.8 319.1 107.1 319.3 107.4 320.2 107.7 320.9 107.4 321.1 106.8 321.3 106.4 321.4 105.8 321.7 105 321.6 104.6 321.6 104.3 321.5 103.7 321.7 102.9 321.8 102.7 321.7 102.4 321.9 101.9 322.1 101.3 322.1 101 322.5 100.7 322.8 101.2 322.9 101.8 323.1 101.9 323.2 102.3 323.5 102.8 323.6 103.4 323.6 103.8Z',
+  'M342.1 100.5 342.4 100.8 341.7 100.8 341.3 100.2 341.9 100.4 342.1 100.5Z',
+  'M300.7 100.2 300.3 100.3 299 99.6 299.9 99.4 300.4 99.7 300.8 100 300.7 100.2Z',
+  'M340.9 99.9 340.5 99.9 339.9 99.8 339.6 99.6 339.7 99.2 340.4 99.4 340.7 99.6 340.9 99.9Z',
+  'M341.7 99.6 341.5 99.8 340.8 98.9 340.6 98.3 340.9 98.3 341.3 99.1 341.7 99.6Z',
+  'M304.4 100.1 303.6 100.4 303.5 100.2 303.6 99.9 304 99.3 305 98.9 305.1 98.7 305.9 98.4 306.6 98.4 307 98.3 307.3 98.4 307 98.7 305.9 99.1 305.1 99.4 304.4 100.1Z',
+  'M297.9 98.1 298.3 98.4 298.9 98.3 299.1 98.7 298 98.9 297.3 99 296.7 99 297.1 98.5 297.6 98.4 297.9 98.1Z',
+  'M302.9 98.1 302.8 98.7 301.3 98.9 299.9 98.8 299.9 98.4 300.7 98.2 301.3 98.5 302 98.5 302.9 98.1Z',
+  'M339.9 98.3 339.9 98.5 339.1 98.1 338.6 97.8 338.2 97.4 338.4 97.3 338.8 97.6 339.6 98 339.9 98.3Z',
+  'M337.5 97.3 337.3 97.4 336.9 97.2 336.5 96.8 336.5 96.6 337.1 97 337.5 97.3Z',
+  'M288.6 96.8 290.5 96.9 290.8 96.5 292.6 96.9 293 97.6 294.5 97.8 295.7 98.4 294.6 98.8 293.5 98.3 292.6 98.4 291.5 98.3 290.6 98.1 289.4 97.7 288.7 97.6 288.3 97.8 286.5 97.4 286.3 96.9 285.4 96.9 286.1 95.9 287.3 96 288.1 96.3 288.5 96.4 288.6 96.8Z',
+  'M314.7 96.2 314.2 96.9 314.1 96.1 314.3 95.8 314.5 95.4 314.7 95.7 314.7 96.2Z',
+  'M335.9 96.8 335.6 96.9 335.2 96.5 334.7 95.9 334.5 95.1 334.7 95 334.8 95.3 335.1 95.6 335.5 96.2 336 96.5 335.9 96.8Z',
+  'M332 95.5 331.5 95.6 331.3 95.8 330.8 96.1 330.2 96.3 329.7 96.3 328.9 96 328.3 95.7 328.4 95.4 329.3 95.6 329.8 95.5 330 95 330.1 95 330.2 95.5 330.8 95.5 331.1 95.1 331.6 94.8 331.5 94.2 332.1 94.1 332.3 94.3 332.3 94.9 332 95.5Z',
+  'M307.2 93.5 306.9 93.8 306.2 93.6 306 93.2 307 93.1 307.2 93.5Z',
+  'M310.5 93.1 310.8 93.9 310 93.4 309.2 93.4 308.6 93.4 307.9 93.4 308.1 92.8 309.4 92.8 310.5 93.1Z',
+  'M333.1 94.5 332.8 94.8 332.6 94.2 332.4 93.8 332 93.5 331.4 93 330.7 92.7 330.9 92.5 331.5 92.8 331.8 93 332.2 93.2 332.6 93.7 333 94 333.1 94.5Z',
+  'M314.1 91.2 314.4 92.8 315.5 93.4 316.3 92.3 317.4 91.7 318.3 91.7 319.2 92.1 319.9 92.4 321 92.6 322.7 93.3 324.6 93.9 325.3 94.4 325.8 94.9 326 95.5 327.6 96.1 327.9 96.6 327 96.7 327.2 97.4 328.1 98 328.7 99.1 329.3 99.1 329.3 99.5 330 99.7 329.7 99.9 330.8 100.3 330.7 100.6 330 100.7 329.8 100.4 328.9 100.3 327.9 100.1 327.1 99.5 326.6 98.9 326 98.1 324.7 97.6 323.9 97.9 323.3 98.2 323.4 99 322.6 99.3 322.1 99.2 321 99.1 320.1 98.3 319.1 98.1 318.9 98.4 317.6 98.4 318 97.6 318.7 97.3 318.4 96.2 317.9 95.4 316 94.5 315.2 94.5 313.7 93.5 313.4 94 313 94.1 312.8 93.7 312.8 93.3 312 92.8 313.1 92.5 313.8 92.5 313.7 92.2 312.2 92.2 311.8 91.6 310.9 91.4 310.5 90.9 311.9 90.7 312.4 90.4 314 90.8 314.1 91.2Z',
+  'M305.2 88.6 304.4 89.6 303.7 89.8 302.7 89.6 301.1 89.6 300.2 89.8 300 90.5 300.9 91.4 301.5 91 303.3 90.6 303.3 91.1 302.8 90.9 302.4 91.5 301.5 91.9 302.5 93.2 302.3 93.5 303.2 94.7 303.2 95.3 302.6 95.6 302.2 95.3 302.7 94.5 301.7 94.9 301.5 94.6 301.6 94.2 300.9 93.6 301 92.6 300.3 92.9 300.4 94.1 300.4 95.5 299.8 95.7 299.4 95.4 299.7 94.5 299.5 93.5 299.1 93.5 298.8 92.8 299.2 92.1 299.3 91.4 299.8 89.8 300 89.4 300.9 88.7 301.7 89 302.9 89.1 304.1 89.1 305.1 88.4 305.2 88.6Z',
+  'M308.7 88.9 308.6 89.7 308.1 89.6 308 90.3 308.4 90.8 308.1 90.9 307.7 90.3 307.4 89 307.6 88.2 307.9 87.8 308 88.4 308.6 88.5 308.7 88.9Z',
+  'M285.8 95.9 284.7 95.9 283.9 95 282.6 94.2 282.2 93.6 281.4 92.8 280.9 92.1 280.1 90.7 279.3 89.8 279 89 278.6 88.2 277.7 87.5 277.2 86.7 276.4 86.1 275.4 85 275.3 84.5 275.9 84.6 277.5 84.8 278.4 85.7 279.1 86.4 279.7 86.8 280.6 87.9 281.7 87.9 282.5 88.6 283.1 89.4 283.8 89.9 283.4 90.7 284 91.1 284.4 91.1 284.5 91.8 284.9 92.3 285.6 92.4 286.1 93.1 285.9 94.3 285.8 95.9Z',
+  'M297.9 88.2 299 89.1 297.8 89.2 297.5 89.9 297.5 90.8 296.6 91.5 296.5 92.5 296.1 94 296 93.7 294.9 94.1 294.5 93.5 293.8 93.4 293.3 93.1 292.1 93.5 291.7 93 291 93 290.2 92.9 290.1 91.6 289.6 91.3 289.1 90.5 289 89.6 289.1 88.7 289.7 88 290.4 88.3 291.2 88.1 291.4 87.3 291.8 87.1 293 86.9 293.7 86.1 294.2 85.5 294.6 85.1 295.5 84.6 296.2 83.9 296.7 83.1 297.1 83.1 297.6 83.6 297.7 84 298.3 84.3 299.2 84.6 299.1 85 298.4 85 298.6 85.5 297.9 85.9 297.3 86.8 298 87.7 297.9 88.2Z',
+  'M306.4 81.6 306.5 82.2 306.5 82.8 306.2 83.7 305.8 82.7 305.4 83.2 305.7 84 305.4 84.4 304.2 83.8 303.9 83.1 304.2 82.6 303.6 82.2 303.3 82.6 302.8 82.5 302.1 83.1 301.9 82.8 302.3 82 302.9 81.7 303.5 81.3 303.8 81.8 304.6 81.5 304.8 81 305.5 81 305.4 80.2 306.2 80.7 306.3 81.2 306.4 81.6Z',
+  'M261.2 83.8 260.3 84 259.9 83.2 259.7 81.8 260.1 80.2 260.8 80.7 261.3 81.4 261.8 82.5 261.6 83.5 261.2 83.8Z',
+  'M119.1 79.9 118.2 80 118 79.9 118.3 79.6 118.3 79.2 118.9 79.1 119.1 79.1 119.1 79.9Z',
+  'M304 79.7 303.6 80.1 303.3 80.7 303 81 302.4 80.3 302.6 80 302.8 79.7 302.9 79.1 303.5 79.1 303.3 79.7 304.1 78.8 304 79.7Z',
+  'M298.5 80.7 297.2 81.6 297.7 80.9 298.4 80.3 299 79.6 299.5 78.6 299.7 79.4 299 80 298.5 80.7Z',
+  'M301.9 78.1 302.5 78.4 303.1 78.4 303.1 78.8 302.6 79.3 302 79.6 302 79.1 302 78.6 301.9 78.1Z',
+  'M305.5 77.8 305.8 79 305 78.7 305 79 305.3 79.6 304.8 79.9 304.8 79.2 304.5 79.1 304.3 78.5 304.9 78.6 304.9 78.2 304.3 77.4 305.2 77.5 305.5 77.8Z',
+  'M301.5 76.9 301.3 77.8 300.8 77.3 300.3 76.5 301.2 76.6 301.5 76.9Z',
+  'M301.3 71.5 301.9 71.8 302.2 71.5 302.3 71.8 302.2 72.2 302.5 72.9 302.3 73.7 301.7 74.1 301.5 74.9 301.7 75.7 302.3 75.8 302.7 75.7 304 76.2 303.9 76.8 304.2 77 304.1 77.5 303.3 77 302.9 76.4 302.7 76.8 302 76.2 301.1 76.4 300.6 76.1 300.7 75.7 301 75.5 300.7 75.2 300.6 75.6 300.1 75 299.9 74.6 299.9 73.6 300.3 74 300.4 72.4 300.7 71.5 301.3 71.5Z',
+  'M114.4 71.8 114.2 72 113.4 72 112.8 72.1 112.8 71.6 112.9 71.5 113.7 71.5 114.2 71.6 114.4 71.8Z',
+  'M103.1 72.1 102.8 72.3 102.2 72.1 101.7 71.8 101.8 71.5 102.2 71.5 102.4 71.5 103.1 71.6 103.6 71.8 103.8 72.1 103.1 72.1Z',
+  'M107.4 70.1 108.3 70.3 108.4 70.1 109.2 70.1 109.8 70.4 110 70.4 110.2 70.7 110.8 70.7 110.7 71 111.2 71 111.7 71.4 111.3 71.8 110.8 71.6 110.4 71.6 110 71.6 109.9 71.8 109.5 71.8 109.3 71.6 109 71.7 108.6 72.4 108.3 72.2 108.3 72 107.6 71.8 107.2 71.9 106.5 71.8 106.1 72 105.5 71.7 105.6 71.3 106.6 71.5 107.3 71.6 107.7 71.3 107.2 70.9 107.2 70.5 106.6 70.4 106.8 70.1 107.4 70.1Z',
+  'M290.3 71.3 289.5 71.8 288.7 71.5 288.6 70.6 289.1 70.2 290.2 69.9 290.8 69.9 291 70.3 290.6 70.7 290.3 71.3Z',
+  'M24.5 70.9 24.3 71.1 24.1 70.9 24.1 70.7 23.9 70.3 24 70.2 24.1 70 24.1 69.8 24.1 69.7 24.2 69.8 24.6 69.9 24.8 70 24.9 70.1 25.2 70.5 24.8 70.8 24.5 70.9Z',
+  'M23.9 69.4 23.6 69.4 23.4 69.2 23.3 69.1 23.4 69 23.7 69.1 24 69.2 23.9 69.4Z',
+  'M23.2 68.8 23.2 68.9 22.7 68.9 22.7 68.8 23.2 68.8Z',
+  'M22.3 68.7 22.2 68.7 21.9 68.7 21.7 68.5 21.7 68.4 22 68.3 22.1 68.3 22.3 68.7Z',
+  'M20.7 68 20.5 68.1 20.2 67.9 20.3 67.9 20.4 67.8 20.6 67.8 20.7 68Z',
+  'M100.3 67.2 100.7 67.6 101.7 67.5 102 67.7 102.9 68.3 103.5 68.8 103.8 68.8 104.4 69 104.3 69.3 105.1 69.3 105.8 69.7 105.7 69.9 105 70.1 104.4 70.1 103.7 70 102.2 70.1 102.9 69.6 102.5 69.3 101.9 69.3 101.5 69 101.3 68.4 100.7 68.4 99.8 68.2 99.5 68 98.2 67.8 97.8 67.6 98.2 67.4 97.2 67.3 96.5 67.8 96.1 67.8 95.9 68.1 95.5 68.2 95 68.1 95.6 67.8 95.8 67.4 96.2 67.2 96.7 67 97.5 66.9 97.7 66.8 98.6 66.9 99.4 66.9 100.3 67.2Z',
+  'M102.5 66.2 102.2 66.3 102 65.7 101.6 65.4 101.8 64.8 102.1 64.8 102.5 65.7 102.5 66.2Z',
+  'M301.2 67.2 300.7 68 300.2 67.2 300.1 66.4 300.7 65.5 301.5 64.7 302 65 301.8 65.6 301.2 67.2Z',
+  'M102.2 63.4 101.1 63.6 101 63.2 101.5 63.1 102.2 63.2 102.2 63.4Z',
+  'M103 63.4 102.8 64.1 102.6 64 102.7 63.5 102.2 63.1 102.2 63 103 63.4Z',
+  'M314.6 55.9 314.8 56.2 314.2 56.8 313.8 56.5 313.3 56.7 313 57.3 312.4 57 312.4 56.5 312.9 55.9 313.5 56.1 313.9 55.6 314.6 55.9Z',
+  'M214.6 54.3 213.9 54.8 214 54.9 214 55 213 55.4 212.5 55.3 212.3 54.9 212.7 54.9 212.8 54.9 212.9 54.6 213.7 54.6 214.6 54.3Z',
+  'M203.7 54.3 204.2 54.6 205 54.6 205.8 54.6 205.7 54.8 206.3 54.7 206.2 55 204.7 55.1 204.7 54.9 203.5 54.7 203.7 54.3Z',
+  'M195.5 51.8 195.2 52.6 195.3 52.9 195.1 53.4 194.3 53 193.8 52.9 192.4 52.4 192.6 51.9 193.7 52 194.8 51.9 195.5 51.8Z',
+  'M189.2 48.8 189.8 49.5 189.7 50.8 189.2 50.8 188.8 51.1 188.4 50.8 188.4 49.6 188.2 49 188.7 49.1 189.2 48.8Z',
+  'M321 52.9 320.6 53.7 320.8 54.2 320.3 54.9 319 55.3 317.2 55.4 315.8 56.5 315.1 56.2 315.1 55.4 313.3 55.6 312.2 56.1 311 56.1 312 56.9 311.3 58.5 310.7 59 310.2 58.6 310.4 57.7 309.8 57.4 309.4 56.7 310.4 56.4 310.9 55.8 311.9 55.2 312.6 54.6 314.6 54.3 315.7 54.5 316.7 52.7 317.4 53.2 318.9 52.2 319.4 51.8 320.1 50.6 319.9 49.4 320.3 48.8 321.4 48.6 321.9 50 321.9 50.8 321 51.8 321 52.9Z',
+  'M189.6 47.8 189.2 48.6 188.8 48.4 188.5 47.7 188.7 47.4 189.4 47 189.6 47.8Z',
+  'M323.9 45.8 324.6 46 325.3 45.6 325.5 46.7 324.1 47 323.2 48 321.6 47.3 321.1 48.4 320 48.4 319.8 47.4 320.3 46.7 321.4 46.6 321.7 45.2 322 44.4 323.1 45.5 323.9 45.8Z',
+  'M116.3 43.5 117.1 43.6 118 43.6 117.5 44 117.1 44 115.9 43.6 115.6 43.3 116 43 116.3 43.5Z',
+  'M118.2 40.9 117.7 40.9 116.4 40.6 115.5 40.1 115.8 40 117.1 40.3 118.2 40.7 118.2 40.9Z',
+  'M56.5 41.5 56 41.6 54.3 41.2 54 40.8 53.2 40.5 53 40.2 51.9 40 51.6 39.5 51.6 39.2 52.7 39.4 53.3 39.6 54.2 39.7 54.6 40.1 55.1 40.5 56.1 40.9 56.5 41.5Z',
+  'M123.9 39.3 123.2 40.2 123.9 39.9 124.5 40.1 124.2 40.4 125.1 40.7 125.5 40.4 126.5 40.8 126.2 41.5 126.9 41.3 127 41.8 127.4 42.5 126.9 43.3 126.5 43.4 125.8 43.2 126 42.4 125.8 42.2 124.6 43.1 124 43.1 124.7 42.6 123.7 42.4 122.7 42.4 120.7 42.4 120.6 42.1 121.2 41.7 120.8 41.5 121.6 40.9 122.6 39.3 123.3 38.7 124.1 38.4 124.6 38.4 124.4 38.7 123.9 39.3Z',
+  'M47.3 36 48.3 35.9 47.9 37 48.8 37.8 48.4 37.8 47.8 37.4 47.4 36.9 46.9 36.6 46.8 36.1 46.8 35.8 47.3 36Z',
+  'M323.6 39.3 324.7 41 323.2 40.7 322.6 42.1 323.5 43.2 323.5 43.9 322.7 43.3 322.1 44 321.9 43.2 322 42.2 321.9 41.1 322.1 40.4 322.2 39 321.6 38.1 321.7 36.7 322.6 36.2 322.2 35.8 322.7 35.6 322.9 36.3 323.3 37.3 323.2 38.2 323.6 39.3Z',
+  'M173.2 37.7 171.4 38.3 170 38.2 170.8 37.1 170.3 36.1 171.7 35.3 172.4 34.9 173.3 34.8 174.3 35.4 173.8 36.1 174 36.8 173.2 37.7Z',
+  'M192.7 34.4 192.1 35.2 191 34.6 190.9 34.2 192.4 33.9 192.7 34.4Z',
+  'M27 32.9 26 33.3 25.5 33 25.3 32.5 26.2 32.2 26.8 32 27.4 32.1 27.9 32.4 27 32.9Z',
+  'M177 31.4 175.9 32.4 176.9 32.3 178 32.3 177.8 33.1 176.9 34 177.9 34.1 178.9 35.4 179.6 35.5 180.2 36.7 180.5 37.1 181.7 37.3 181.6 37.9 181 38.2 181.4 38.7 180.5 39.2 179.2 39.2 177.5 39.5 177 39.3 176.4 39.8 175.5 39.7 174.8 40 174.2 39.8 175.7 38.8 176.6 38.6 175 38.4 174.7 38 175.8 37.7 175.2 37.2 175.4 36.5 176.9 36.6 177.1 36 176.4 35.4 175.2 35.2 174.9 34.9 175.3 34.5 175 34.2 174.4 34.7 174.4 33.7 173.8 33.2 174.2 32.2 175 31.4 175.8 31.4 177 31.4Z',
+  'M14.4 30.1 13.8 30.2 13.2 30.1 12.5 29.8 13.5 29.6 14.3 29.7 14.4 30.1Z',
+  'M100.7 27.8 100.3 28.4 99.9 28.3 99.6 28 99.7 27.9 100.1 27.6 100.5 27.6 100.7 27.8Z',
+  'M98.1 27.3 96.9 27.8 96.2 27.8 96 27.5 96.8 27.1 98.1 27.1 98.1 27.3Z',
+  'M8.3 26.2 8.9 26.4 9.5 26.3 10.3 26.6 11.3 26.7 11.2 26.8 10.5 27 9.7 26.8 9.3 26.6 8.4 26.7 8.2 26.6 8.3 26.2Z',
+  'M94.8 24.3 95 24.8 95.5 24.6 96.1 24.9 97.2 25.2 98.4 25.5 98.4 26 99.2 25.9 99.9 26.3 99 26.6 97.5 26.3 96.9 25.9 95.9 26.4 94.5 26.9 94.1 26.4 92.8 26.5 93.6 26 93.8 25.2 94.1 24.3 94.8 24.3Z',
+  'M165.5 23.5 165.3 24.2 166.4 24.9 165.1 25.6 162.2 26.3 161.3 26.5 160 26.4 157.2 26 158.2 25.6 156 25.1 157.8 24.9 157.8 24.6 155.7 24.4 156.3 23.7 157.9 23.6 159.4 24.3 160.9 23.7 162.2 24 163.8 23.5 165.5 23.5Z',
+  'M104.1 22.9 103 22.9 102.8 22.4 103.2 21.9 104.1 21.7 104.9 22 104.9 22.4 104.8 22.6 104.1 22.9Z',
+  'M0 21 2.5 21.8 5.1 22.8 5 23.4 5.7 23.7 5.4 22.9 8.1 23.1 10.1 24 9.1 24.5 7.5 24.6 7.4 25.5 7 25.7 6.1 25.7 5.3 25.4 4 25.1 3.8 24.6 2.8 24.5 1.6 24.6 1.1 24.3 1.3 23.9 0.1 24.1 0.6 24.6 0 25 -1.3 25.5 -2.6 25.4 -1.7 25.9 -1.1 26.7 -0.6 27 -0.5 27.4 -0.8 27.7 -2.6 27.5 -5.4 28.2 -6.3 28.3 -7.9 29.1 -9.3 29.7 -9.7 30.1 -11.1 29.4 -13.7 30.2 -14.2 29.8 -15.1 30.3 -16.5 30.1 -16.8 30.8 -18 31.8 -17.9 32.2 -16.8 32.4 -16.9 33.8 -17.9 33.9 -18.3 34.7 -17.9 35.1 -19.6 35.7 -20 36.8 -21.5 37 -21.8 38.1 -23.2 39 -23.6 38.3 -24 36.8 -24.6 34.6 -24.1 33.2 -23.2 32.6 -23.2 32.2 -21.6 31.9 -19.9 30.7 -18.1 29.7 -16.3 28.9 -15.5 27.4 -16.7 27.5 -17.3 28.4 -19.9 29.5 -20.7 28.2 -23.3 28.6 -25.8 30.2 -25 30.9 -27.2 31.1 -28.7 31.2 -28.7 30.5 -30.2 30.3 -31.5 30.8 -34.5 30.7 -37.8 31 -41 32.9 -44.9 35.3 -43.3 35.4 -42.8 36 -41.8 36.2 -41.2 35.7 -40.1 35.8 -38.7 36.9 -38.6 37.8 -39.4 38.8 -39.5 40 -39.9 41.6 -41.4 43 -41.8 43.7 -43.1 44.9 -44.5 46 -45.1 46.6 -46.5 47.2 -47.1 47.2 -47.7 46.7 -49.1 47.4 -49.2 47.8 -49.6 47.7 -50 48.1 -50.3 48.4 -50.3 49.1 -50.8 49.3 -51 49.5 -51.4 49.8 -52 50 -52.5 50.2 -52.5 50.7 -52.6 50.8 -52.2 50.9 -51.6 51.4 -50.8 52.6 -50.5 53.2 -50.5 54.4 -50.9 54.9 -51.8 55.1 -52.6 55.5 -53.5 55.6 -53.6 55.1 -53.4 54.3 -53.9 53.3 -53.1 53.1 -53.8 52.3 -54.3 52.1 -54.4 52.2 -54.7 52.3 -54.8 52.1 -55 52.1 -55.3 51.9 -55 51.5 -54.8 51.3 -54.9 51.2 -54.6 50.6 -54.7 50.4 -55.3 50.3 -55.7 50.1 -57.1 50.4 -57.9 50.8 -58.9 51.1 -58.4 50.6 -58.6 50.2 -57.8 49.6 -58.4 49.1 -59.2 49.4 -60.4 50.1 -61 50.7 -62 50.8 -62.5 51.3 -61.9 51.9 -61.1 52.1 -61.1 52.6 -60.3 52.8 -59.2 52.1 -58.3 52.5 -57.6 52.5 -57.5 53.1 -58.9 53.3 -59.4 53.9 -60.3 54.4 -60.8 55.1 -59.8 55.6 -59.4 56.6 -58.8 57.5 -58.1 58.3 -58.1 59.1 -58.7 59.3 -58.5 59.9 -57.9 60.2 -58.1 61 -58.3 61.8 -58.9 61.9 -59.6 62.9 -60.4 64.3 -61.3 65.5 -62.7 66.4 -64.1 67.2 -65.2 67.3 -65.8 67.8 -66.2 67.5 -66.8 67.9 -68.2 68.4 -69.2 68.6 -69.6 69.7 -70.1 69.7 -70.4 69 -70.1 68.6 -71.5 68.3 -72 68.4 -73.3 69.3 -74.1 70.2 -74.3 70.9 -73.6 72 -72.6 73.3 -71.7 73.9 -71.1 74.7 -70.7 76.6 -70.8 78.3 -71.6 79 -72.8 79.6 -73.6 80.5 -74.8 81.4 -75.2 80.8 -74.9 80.1 -75.7 79.5 -76.5 79.4 -76.9 78.8 -77.4 77.8 -78.3 77.4 -79.2 77.4 -79 76.6 -79.9 76.6 -80 77.7 -80.5 79.2 -80.8 80 -80.8 80.8 -80.1 80.8 -79.7 81.7 -79.5 82.6 -79 83.1 -78.4 83.3 -77.9 83.8 -77.6 83.9 -77 84.5 -76.6 85.1 -76.6 85.8 -76.7 86.3 -76.6 86.6 -76.5 87.2 -76.1 87.5 -75.8 88.4 -75.8 88.7 -76.5 88.8 -77.4 88 -78.6 87.2 -78.7 86.7 -79.3 86.1 -79.4 85.2 -79.8 84.7 -79.7 84 -79.9 83.5 -80.3 83.2 -80.5 82.7 -81 82.1 -81.5 81.6 -81.7 82.2 -81.9 81.7 -81.7 81 -81.4 80.1 -81.5 79.3 -81.2 78.6 -81.6 78 -81.5 76.9 -81.9 76.4 -82.2 75.2 -82.4 73.9 -82.8 73.1 -83.5 73.6 -84.6 74.3 -85.2 74.2 -85.8 74 -85.5 72.7 -85.7 71.8 -86.5 70.6 -86.3 70.3 -86.9 70.1 -87.6 69.3 -87.9 68.8 -88 68.3 -88.2 67.8 -88.6 67.2 -89.5 67.2 -89.4 67.6 -89.7 68.2 -90.2 68 -90.3 68.1 -90.6 68 -91 67.9 -91.1 68.3 -91.8 68.3 -93 68.5 -93 69.3 -93.5 69.8 -94.9 70.5 -96.1 71.7 -96.8 72.3 -97.8 73 -97.8 73.4 -98.3 73.7 -99.2 74 -99.7 74.1 -100 74.9 -99.8 76.2 -99.7 77 -100.1 77.9 -100.1 79.6 -100.7 79.7 -101.1 80.5 -100.8 80.8 -101.7 81.1 -102.1 81.7 -102.5 82 -103.4 81.1 -103.9 79.7 -104.3 78.7 -104.6 78.2 -105.1 77.3 -105.4 76 -105.6 75.4 -106.5 74 -106.9 72.1 -107.2 70.8 -107.2 69.6 -107.4 68.6 -108.8 69.2 -109.5 69.1 -110.8 67.9 -110.4 67.5 -110.7 67.2 -111.8 66.3 -112.6 66.1 -112.9 65.3 -113.6 64.6 -115.5 64.8 -117.1 64.8 -118.5 64.9 -120.4 64.6 -121.5 64.4 -122.6 64.3 -123 63 -123.5 62.9 -124.3 63 -125.3 63.5 -126.5 63.2 -127.5 62.4 -128.5 62.1 -129.1 61.2 -129.9 59.9 -130.4 60 -131.1 59.7 -131.4 60.1 -132 60 -131.8 60.5 -131.9 60.7 -131.6 61.4 -131.2 62.3 -130.7 62.5 -130.5 62.9 -129.8 63.3 -129.8 63.7 -129.9 64.1 -129.8 64.4 -129.5 64.7 -129.3 65 -129.2 65.2 -129.3 64.5 -129 64 -128.7 63.9 -128.4 64.2 -128.4 64.8 -128.6 65.4 -128.4 65.8 -128.2 65.7 -128.2 66 -127.4 65.8 -126.6 65.8 -126 65.9 -125.3 65.2 -124.6 64.6 -123.9 63.9 -123.6 63.6 -123.5 63.7 -123.6 64.1 -123.7 64.3 -123.6 65.1 -123.2 65.8 -122.6 66.1 -121.9 66.3 -121.3 66.4 -120.8 67 -120.6 67.3 -120.2 67.5 -120.2 67.7 -120.6 68.3 -120.7 68.6 -121.1 68.9 -121.5 69.6 -122 69.5 -122.2 69.8 -122.3 70.3 -122.2 70.9 -122.3 71.1 -122.8 71.1 -123.4 71.4 -123.5 71.9 -123.7 72.1 -124.3 72.1 -124.7 72.4 -124.7 72.8 -125.2 73.1 -125.8 73 -126.4 73.3 -126.9 73.3 -127.6 73.6 -127.8 74.1 -127.8 74.4 -128.8 74.8 -130.4 75.3 -131.3 76 -131.8 76.1 -132.1 76 -132.6 76.4 -133.3 76.6 -134.1 76.7 -134.4 76.7 -134.6 77 -134.9 77 -135 77.3 -135.5 77.3 -135.8 77.4 -136.5 77.4 -136.8 76.8 -136.7 76.2 -136.9 75.9 -137.1 75.2 -137.4 74.8 -137.2 74.7 -137.3 74.3 -137.2 74.1 -137.2 73.7 -137.3 73.2 -137.7 72.9 -137.7 72.5 -138.2 72.2 -138.8 71.3 -139.1 70.5 -139.8 69.8 -140.2 69.7 -140.9 68.7 -141 68 -140.9 67.4 -141.5 66.3 -142 65.9 -142.5 65.7 -142.8 65.1 -142.8 64.9 -143.1 64.4 -143.4 64.2 -143.7 63.4 -144.4 62.6 -144.9 61.9 -145.4 61.9 -145.2 61.4 -145.2 61 -145 60.6 -145.1 60.5 -145.4 60.9 -145.6 61.7 -145.8 62.2 -146.1 62.4 -146.4 62 -146.9 61.6 -147.6 60.1 -147.7 60.2 -147.3 61.3 -146.7 62.3 -145.9 63.9 -145.5 64.4 -145.2 65 -144.3 66.1 -144.5 66.2 -144.5 66.9 -143.3 67.8 -143.1 68 -142.8 69 -143 69.2 -142.9 70.2 -142.5 71.4 -142.1 71.6 -141.6 72 -141 73.2 -140.7 74.1 -140.2 74.6 -138.8 75.5 -138.3 76.1 -137.7 76.7 -137.4 77 -136.9 77.3 -136.7 77.6 -136.7 78 -137.3 78.3 -136.9 78.5 -136.5 78.7 -136.3 79.1 -135.9 79.6 -135.4 79.6 -134.4 79.3 -133.4 79.2 -132.5 78.9 -132 78.8 -131.6 78.6 -131.1 78.6 -130.7 78.6 -130.3 78.4 -129.7 78.3 -129.3 78 -128.9 78 -128.9 78.3 -129 78.8 -129 79.4 -129.2 79.7 -129.4 80.8 -129.9 81.9 -130.5 83.2 -131.4 84.7 -132.3 85.8 -133.4 87.1 -134.4 88 -135.9 88.9 -136.9 89.7 -138 90.9 -138.2 91.4 -138.4 91.7 -139.1 92.1 -139.4 92.5 -139.7 92.6 -139.9 93.3 -140.2 93.7 -140.4 94.3 -140.8 94.7 -141.3 95.9 -141.2 96.5 -140.6 96.8 -140.5 97.1 -140.8 97.7 -140.7 98 -140.8 98.5 -140.5 99.1 -140 100.1 -139.7 100.3 -139.5 100.8 -139.6 101.8 -139.4 102.6 -139.4 104.2 -139.2 104.7 -139.5 105.4 -139.9 106.1 -140.5 106.7 -141.5 107.1 -142.6 107.6 -143.7 108.7 -144.1 108.8 -144.8 109.6 -145.2 109.8 -145.3 110.5 -144.8 111.3 -144.6 111.8 -144.6 112.1 -144.4 112.1 -144.5 113.1 -144.6 113.5 -144.4 113.7 -144.5 114.1 -145 114.5 -145.8 114.8 -147 115.4 -147.4 115.7 -147.3 116.1 -147.1 116.2 -147.2 116.7 -147.4 117.5 -147.5 118.3 -147.8 118.8 -148.5 119.3 -148.7 119.4 -149.1 119.9 -149.4 120.4 -149.9 121.1 -151.1 122.2 -151.8 122.8 -152.5 123.2 -153.6 123.6 -154.1 123.7 -154.2 123.9 -154.8 123.8 -155.3 124 -156.4 123.8 -157 123.9 -157.4 123.9 -158.5 124.3 -159.3 124.4 -159.9 124.8 -160.4 124.8 -160.8 124.5 -161.1 124.4 -161.6 124 -161.6 124.1 -161.8 123.9 -161.7 123.3 -162.1 122.6 -161.8 122.4 -161.8 121.7 -162.4 120.7 -162.9 119.9 -163.7 118.6 -164.4 117.8 -164.8 117.1 -165 116.1 -165.3 115.4 -165.6 113.9 -165.6 112.7 -165.7 112.1 -166.1 111.7 -166.6 110.9 -167.2 109.7 -167.4 109 -168.2 108.1 -168.3 107.3 -168.4 106.7 -168.2 105.8 -167.9 104.9 -167.8 104.4 -167.5 103.5 -167.3 103.1 -166.7 102.5 -166.4 102 -166.3 101.3 -166.3 100.7 -166.6 100.4 -166.9 99.8 -167.1 99.2 -167.1 99 -166.8 98.6 -167.1 97.6 -167.3 96.9 -167.8 96.3 -167.7 96.1 -167.8 95.8 -168.1 95 -168.9 94 -169.9 93 -170.6 92.1 -171.2 91.1 -171.2 90.8 -171 90.5 -170.7 89.7 -170.5 89 -170.7 88.8 -170.4 87.7 -170.2 86.9 -170.6 86.3 -171.1 86.1 -171.3 85.6 -171.5 85.5 -171.5 85.2 -172.5 85.6 -172.9 85.5 -173.3 85.8 -174.1 85.7 -174.6 85.1 -175 84.4 -175.7 83.7 -176.4 83.7 -177.3 83.7 -178.1 83.9 -178.9 84.1 -180.5 84.7 -181.1 85 -182 85.3 -182.9 85 -183.3 85 -184 84.8 -184.6 84.8 -185.8 85 -186.5 85.3 -187.5 85.7 -187.7 85.6 -188 85.6 -189 85.2 -189.9 84.4 -190.8 83.9 -191.4 83.2 -191.7 83.1 -192.4 82.7 -192.9 82.2 -193.1 81.8 -193.2 81.1 -193.7 80.5 -194.1 80.1 -194.3 80 -194.6 79.8 -194.7 79.3 -194.8 79.1 -195.1 79 -195.7 78.5 -196.1 78.5 -196.3 78.2 -196.3 78 -196.6 77.8 -196.7 77.6 -196.8 76.8 -196.7 76.4 -197.1 75.6 -197.6 75.3 -197.2 75.1 -196.7 74.4 -196.5 73.9 -196.6 73.3 -196.3 72.8 -196.1 71.9 -196.3 70.9 -196.4 70.4 -196.3 69.9 -196.5 69.4 -197.1 69 -197 68.6 -197 68.1 -196.6 67.8 -196.3 67.3 -196.3 67 -196 66.3 -195.4 65.6 -195.1 65.5 -194.8 64.9 -194.8 64.4 -194.4 63.7 -193.8 63.4 -193.1 62.4 -192.6 62 -191.7 61.9 -190.9 61.2 -190.4 60.9 -189.6 60.1 -189.8 58.8 -189.4 58 -189.3 57.4 -188.7 56.8 -187.7 56.3 -186.9 55.9 -186.2 54.9 -185.9 54.2 -185.2 54.2 -184.6 54.7 -183.6 54.6 -182.6 54.8 -182.2 54.8 -181.2 54.3 -180.1 54.1 -179.5 53.7 -178.5 53.4 -176.8 53.2 -175.2 53.1 -174.7 53.3 -173.7 52.9 -172.7 52.9 -172.3 53.1 -171.6 53.1 -170.5 52.6 -169.8 52.8 -169.8 53.3 -169 52.9 -168.9 53.1 -169.4 53.6 -169.4 54.1 -169.1 54.3 -169.2 55.2 -169.8 55.7 -169.7 56.2 -169.1 56.2 -168.9 56.7 -168.5 56.9 -167.3 57.2 -166.9 57.1 -166.1 57.3 -164.8 57.7 -164.3 58.6 -163.4 58.8 -162 59.2 -160.9 59.7 -160.4 59.5 -159.9 59 -160.2 58.2 -159.9 57.8 -159.1 57.3 -158.5 57.2 -157.1 57.4 -156.8 57.8 -156.4 57.8 -156.1 58 -155.1 58.1 -154.8 58.4 -153.5 58.4 -152.5 58.7 -151.6 59 -151.1 59.1 -150.3 58.8 -149.9 58.5 -149 58.4 -148.3 58.6 -148 59.1 -147.8 58.7 -147 59 -146.2 59 -145.7 58.8 -145.4 58.5 -145.5 58.4 -145.2 57.9 -145 57.2 -144.9 56.9 -144.5 56.1 -144 55.4 -144.1 54.6 -143.9 54.2 -144.2 53.7 -143.8 53.3 -144.4 53.4 -145.3 53.2 -146 53.8 -147.5 53.9 -148.3 53.4 -149.4 53.3 -149.6 53.7 -150.3 53.9 -151.3 53.3 -152.4 53.3 -153 52.3 -153.7 51.8 -153.2 51 -153.8 50.5 -152.7 49.6 -151.2 49.5 -150.8 48.8 -148.9 48.9 -147.7 48.3 -146.5 48 -144.8 48 -143.1 48.7 -141.7 49.1 -140.5 48.9 -139.6 49 -138.4 48.5 -138.3 48 -138.5 47.4 -139.1 47 -139.7 46.9 -140 46.6 -141.3 45.7 -142.5 45.3 -143.3 44.8 -142.6 44.6 -141.8 43.8 -142.3 43.4 -140.9 43 -140.9 42.7 -141.8 42.9 -142.6 43 -143.2 43.3 -144.2 43.4 -145 43.7 -145 44.3 -144.5 44.6 -143.5 44.5 -143.7 44.9 -144.8 45.1 -146.1 45.6 -146.7 45.4 -146.5 45 -147.5 44.7 -147.4 44.5 -146.4 44.1 -146.7 43.9 -148.3 43.7 -148.3 43.3 -149.3 43.4 -149.6 44 -150.4 44.7 -150.4 45 -150.9 45.2 -151.2 45.1 -151.4 46.3 -152 46.7 -152.3 47.4 -152 48 -151.9 48.4 -151 48.7 -151.2 48.9 -152.4 49 -152.8 49.3 -153.6 49.8 -154 49.4 -153.9 49.2 -154.6 49.1 -155.1 49.1 -156.3 49.3 -155.6 49.9 -156.1 50 -156.7 50 -157.2 49.5 -157.4 49.7 -157.1 50.3 -156.6 50.8 -157 51 -156.5 51.5 -156 51.8 -156 52.3 -156.9 52.1 -156.6 52.6 -157.2 52.7 -156.8 53.6 -157.5 53.6 -158.3 53.2 -158.7 52.4 -158.9 51.7 -159.3 51.2 -159.8 50.7 -159.8 50.4 -160 50.3 -160 50.1 -160.6 49.7 -160.7 49.3 -160.6 48.6 -160.5 48.3 -160.6 48.1 -160.8 48 -161.1 47.7 -161.6 47.5 -162.5 47.2 -163.1 46.8 -164 46.5 -164.8 45.8 -164.6 45.7 -165.1 45.3 -165.1 44.9 -165.7 44.8 -166 45.2 -166.3 44.9 -166.3 44.5 -166.1 44.4 -166.9 44.3 -167.7 44.6 -167.6 45.1 -167.7 45.4 -167.4 45.9 -166.5 46.4 -166 47.2 -164.9 48 -164.1 48 -163.8 48.3 -164.1 48.5 -163.2 48.8 -162.5 49.1 -161.6 49.6 -161.5 49.8 -161.7 50.2 -162.3 49.7 -163.1 49.6 -163.5 50.2 -162.8 50.6 -162.9 51.1 -163.4 51.2 -163.9 52 -164.3 52.1 -164.3 51.8 -164.1 51.2 -163.9 51 -164.3 50.5 -164.6 50 -165 49.8 -165.3 49.4 -165.9 49.2 -166.4 48.8 -167.1 48.7 -167.9 48.3 -168.8 47.6 -169.5 47.1 -169.8 46.1 -170.3 46 -171.1 45.6 -171.6 45.8 -172.2 46.2 -172.6 46.3 -173.5 46.9 -175.4 46.6 -176.9 46.9 -177 47.5 -177 48.1 -177.9 48.8 -179.2 49 -179.3 49.3 -179.9 49.9 -180.3 50.7 -179.9 51.3 -180.5 51.7 -180.7 52.4 -181.4 52.6 -182.1 53.3 -183.4 53.3 -184.4 53.3 -185 53.7 -185.4 54.1 -185.9 54 -186.2 53.6 -186.5 53.1 -187.5 52.9 -187.9 53.2 -188.4 53 -188.9 53.1 -188.7 52.3 -188.8 51.7 -189.3 51.6 -189.5 51.3 -189.4 50.6 -189 50.2 -189 49.8 -188.8 49.2 -188.8 48.8 -189 48.5 -189 48.1 -189 47.4 -189.4 47 -188 46.3 -186.8 46.4 -185.4 46.4 -184.3 46.6 -183.5 46.5 -181.9 46.6 -181.4 46 -181.2 44 -182.2 42.9 -183 42.4 -184.5 42 -184.6 41.3 -183.3 41.1 -181.6 41.4 -181.9 40.2 -181 40.7 -178.7 39.9 -178.4 39.1 -177.5 38.9 -176.7 38.7 -176.2 38.4 -175.3 36.9 -173.9 36.5 -173.1 36.5 -172.9 36.3 -172.1 36.3 -171.9 36.5 -171.2 36 -171.4 35.6 -171.5 35 -171.9 34.5 -171.9 33.5 -171.7 33.2 -171.5 32.9 -170.6 32.8 -170.2 32.6 -169.4 32.3 -169.5 32.8 -169.7 33.1 -169.6 33.4 -169.1 33.5 -169.3 33.9 -169.6 33.8 -170.4 34.5 -170.1 35 -170.1 35.4 -169.1 35.6 -169.1 36 -168 35.8 -167.5 35.5 -166.4 35.9 -165.9 36.2 -165.2 35.9 -163.6 35.5 -162.4 35.1 -161.4 35.3 -161.3 35.6 -160.3 35.6 -160.1 35.1 -158.7 34.8 -158.9 34 -158.9 33.2 -158.4 32.6 -157.5 32.2 -156.7 33 -155.9 33 -155.7 32.2 -155.6 31.6 -155.9 31.7 -156.6 31.4 -156.7 30.8 -155.4 30.5 -154.1 30.4 -153.1 30.6 -152 30.5 -150.9 30 -151.9 29.5 -153.7 29.6 -155.5 29.9 -157.1 30.2 -157.7 29.6 -158.7 29.3 -158.5 28.3 -158.9 27.4 -158.5 26.8 -157.6 26.2 -155.3 25.1 -154.6 24.9 -154.7 24.5 -156.1 24 -157.8 24.3 -158.8 25 -158.6 25.6 -160.2 26.4 -162.2 27.3 -162.9 28.7 -162.2 29.4 -161.2 29.9 -162.1 31 -163.2 31.3 -163.6 33 -164.1 33.9 -165.3 33.8 -165.9 34.6 -167.1 34.6 -167.4 33.7 -168.2 32.6 -169 31.1 -169.6 30.5 -171.6 31.7 -172.9 31.9 -174.3 31.4 -174.7 30.3 -175 28 -174.1 27.4 -171.4 26.5 -169.5 25.5 -167.6 24.1 -165.2 22.2 -163.6 21.4 -160.8 20.2 -158.6 19.7 -157 19.8 -155.5 19 -153.6 19 -151.8 18.8 -148.7 19.5 -150 19.8 -148.9 20.4 -147.9 20.1 -146.2 20.7 -143.5 20.9 -139.7 22.1 -138.9 22.5 -138.9 23.2 -140 23.7 -141.6 24 -146.1 23.2 -146.8 23.4 -145.2 24.1 -145.1 25.6 -143.8 25.9 -143 26.1 -142.9 25.7 -143.5 25.2 -142.8 24.9 -140.4 25.5 -139.6 25.2 -140.2 24.5 -137.9 23.5 -137 23.6 -136 23.9 -135.5 23.2 -136.3 22.6 -135.8 22 -136.5 21.4 -133.7 21.8 -133.2 22.3 -134.4 22.4 -134.4 23 -133.7 23.3 -132.1 23.1 -131.9 22.5 -129.8 22 -126.3 21.1 -125.5 21.2 -126.5 21.8 -125.3 21.9 -124.6 21.6 -122.7 21.5 -121.2 21.1 -120.1 21.7 -118.9 21.1 -120 20.5 -119.4 20.1 -116.5 20.5 -115.1 20.8 -111.5 21.9 -110.8 21.4 -111.8 20.9 -111.9 20.6 -113.1 20.5 -112.7 20.1 -113.3 19.3 -113.3 19 -111.5 18.1 -110.8 17.2 -110.1 17 -107.4 17.2 -107.2 17.8 -108.2 18.6 -107.5 18.9 -107.2 19.6 -107.4 21 -106.3 21.6 -106.8 22.3 -108.7 23.7 -107.6 23.8 -107.2 23.5 -106.1 23.2 -105.8 22.7 -104.9 22.2 -105.5 21.7 -105.1 21 -106.2 20.9 -106.4 20.4 -105.6 19.4 -106.9 18.6 -105.1 17.9 -105.3 17.2 -104.8 17.1 -104.3 17.7 -104.7 18.7 -103.6 18.8 -104.1 18.1 -102.4 17.7 -100.3 17.7 -98.5 18.3 -99.4 17.4 -99.5 16.4 -97.7 16.1 -95.3 16.2 -93.2 16.1 -94 15.5 -92.8 14.9 -91.7 14.9 -89.7 14.4 -87.1 14.2 -86.8 14 -84.1 13.9 -83.3 14.1 -81.1 13.6 -79.2 13.6 -79 13.1 -78 12.7 -75.6 12.3 -73.9 12.6 -75.3 12.9 -73 13 -72.8 13.5 -71.8 13.3 -68.9 13.3 -66.7 13.8 -65.9 14.2 -66.1 14.7 -67.2 15 -69.8 15.5 -70.6 15.8 -69.4 16 -67.9 16.2 -67 16 -66.5 16.7 -66 16.4 -64.4 16.2 -61.2 16.4 -61 16.9 -56.8 17 -56.7 16.3 -54.6 16.4 -53 16.4 -51.4 17 -50.9 17.6 -51.5 18 -50.3 18.8 -48.7 19.2 -47.7 18.2 -46.1 18.6 -44.4 18.3 -42.5 18.7 -41.8 18.4 -40.1 18.5 -40.9 17.6 -39.5 17.2 -30.5 17.8 -29.6 18.4 -27 19.2 -23 19 -21 19.1 -20.2 19.5 -20.3 20.3 -19.1 20.6 -17.7 20.4 -15.9 20.3 -14.1 20.5 -12.2 20.4 -10.4 21.3 -9.2 21 -10 20.3 -9.5 19.9 -6.4 20.2 -4.3 20.1 -1.4 20.6 0 21Z',
+  'M360 21 362.5 21.8 365.1 22.8 365 23.4 365.7 23.7 365.4 22.9 368.1 23.1 370.1 24 369.1 24.5 367.5 24.6 367.4 25.5 367 25.7 366.1 25.7 365.3 25.4 364 25.1 363.8 24.6 362.8 24.5 361.6 24.6 361.1 24.3 361.3 23.9 360.1 24.1 360.6 24.6 360 25 358.7 25.5 357.4 25.4 358.3 25.9 358.9 26.7 359.4 27 359.5 27.4 359.2 27.7 357.4 27.5 354.6 28.2 353.7 28.3 352.1 29.1 350.7 29.7 350.3 30.1 348.9 29.4 346.3 30.2 345.8 29.8 344.9 30.3 343.5 30.1 343.2 30.8 342 31.8 342.1 32.2 343.2 32.4 343.1 33.8 342.1 33.9 341.7 34.7 342.1 35.1 340.4 35.7 340 36.8 338.5 37 338.2 38.1 336.8 39 336.4 38.3 336 36.8 335.4 34.6 335.9 33.2 336.8 32.6 336.8 32.2 338.4 31.9 340.1 30.7 341.9 29.7 343.7 28.9 344.5 27.4 343.3 27.5 342.7 28.4 340.1 29.5 339.3 28.2 336.7 28.6 334.2 30.2 335 30.9 332.8 31.1 331.3 31.2 331.3 30.5 329.8 30.3 328.5 30.8 325.5 30.7 322.2 31 319 32.9 315.1 35.3 316.7 35.4 317.2 36 318.2 36.2 318.8 35.7 319.9 35.8 321.3 36.9 321.4 37.8 320.6 38.8 320.5 40 320.1 41.6 318.6 43 318.2 43.7 316.9 44.9 315.5 46 314.9 46.6 313.5 47.2 312.9 47.2 312.3 46.7 310.9 47.4 310.8 47.8 310.4 47.7 310 48.1 309.7 48.4 309.7 49.1 309.2 49.3 309 49.5 308.6 49.8 308 50 307.5 50.2 307.5 50.7 307.4 50.8 307.8 50.9 308.4 51.4 309.2 52.6 309.5 53.2 309.5 54.4 309.1 54.9 308.2 55.1 307.4 55.5 306.5 55.6 306.4 55.1 306.6 54.3 306.1 53.3 306.9 53.1 306.2 52.3 305.7 52.1 305.6 52.2 305.3 52.3 305.2 52.1 305 52.1 304.7 51.9 305 51.5 305.2 51.3 305.1 51.2 305.4 50.6 305.3 50.4 304.7 50.3 304.3 50.1 302.9 50.4 302.1 50.8 301.1 51.1 301.6 50.6 301.4 50.2 302.2 49.6 301.6 49.1 300.8 49.4 299.6 50.1 299 50.7 298 50.8 297.5 51.3 298.1 51.9 298.9 52.1 298.9 52.6 299.7 52.8 300.8 52.1 301.7 52.5 302.4 52.5 302.5 53.1 301.1 53.3 300.6 53.9 299.7 54.4 299.2 55.1 300.2 55.6 300.6 56.6 301.2 57.5 301.9 58.3 301.9 59.1 301.3 59.3 301.5 59.9 302.1 60.2 301.9 61 301.7 61.8 301.1 61.9 300.4 62.9 299.6 64.3 298.7 65.5 297.3 66.4 295.9 67.2 294.8 67.3 294.2 67.8 293.8 67.5 293.2 67.9 291.8 68.4 290.8 68.6 290.4 69.7 289.9 69.7 289.6 69 289.9 68.6 288.5 68.3 288 68.4 286.7 69.3 285.9 70.2 285.7 70.9 286.4 72 287.4 73.3 288.3 73.9 288.9 74.7 289.3 76.6 289.2 78.3 288.4 79 287.2 79.6 286.4 80.5 285.2 81.4 284.8 80.8 285.1 80.1 284.3 79.5 283.5 79.4 283.1 78.8 282.6 77.8 281.7 77.4 280.8 77.4 281 76.6 280.1 76.6 280 77.7 279.5 79.2 279.2 80 279.2 80.8 279.9 80.8 280.3 81.7 280.5 82.6 281 83.1 281.6 83.3 282.1 83.8 282.4 83.9 283 84.5 283.4 85.1 283.4 85.8 283.3 86.3 283.4 86.6 283.5 87.2 283.9 87.5 284.2 88.4 284.2 88.7 283.5 88.8 282.6 88 281.4 87.2 281.3 86.7 280.7 86.1 280.6 85.2 280.2 84.7 280.3 84 280.1 83.5 279.7 83.2 279.5 82.7 279 82.1 278.5 81.6 278.3 82.2 278.1 81.7 278.3 81 278.6 80.1 278.5 79.3 278.8 78.6 278.4 78 278.5 76.9 278.1 76.4 277.8 75.2 277.6 73.9 277.2 73.1 276.5 73.6 275.4 74.3 274.8 74.2 274.2 74 274.5 72.7 274.3 71.8 273.5 70.6 273.7 70.3 273.1 70.1 272.4 69.3 272.1 68.8 272 68.3 271.8 67.8 271.4 67.2 270.5 67.2 270.6 67.6 270.3 68.2 269.8 68 269.7 68.1 269.4 68 269 67.9 268.9 68.3 268.2 68.3 267 68.5 267 69.3 266.5 69.8 265.1 70.5 263.9 71.7 263.2 72.3 262.2 73 262.2 73.4 261.7 73.7 260.8 74 260.3 74.1 260 74.9 260.2 76.2 260.3 77 259.9 77.9 259.9 79.6 259.3 79.7 258.9 80.5 259.2 80.8 258.3 81.1 257.9 81.7 257.5 82 256.6 81.1 256.1 79.7 255.7 78.7 255.4 78.2 254.9 77.3 254.6 76 254.4 75.4 253.5 74 253.1 72.1 252.8 70.8 252.8 69.6 252.6 68.6 251.2 69.2 250.5 69.1 249.2 67.9 249.6 67.5 249.3 67.2 248.2 66.3 247.4 66.1 247.1 65.3 246.4 64.6 244.5 64.8 242.9 64.8 241.5 64.9 239.6 64.6 238.5 64.4 237.4 64.3 237 63 236.5 62.9 235.7 63 234.7 63.5 233.5 63.2 232.5 62.4 231.5 62.1 230.9 61.2 230.1 59.9 229.6 60 228.9 59.7 228.6 60.1 228 60 228.2 60.5 228.1 60.7 228.4 61.4 228.8 62.3 229.3 62.5 229.5 62.9 230.2 63.3 230.2 63.7 230.1 64.1 230.2 64.4 230.5 64.7 230.7 65 230.8 65.2 230.7 64.5 231 64 231.3 63.9 231.6 64.2 231.6 64.8 231.4 65.4 231.6 65.8 231.8 65.7 231.8 66 232.6 65.8 233.4 65.8 234 65.9 234.7 65.2 235.4 64.6 236.1 63.9 236.4 63.6 236.5 63.7 236.4 64.1 236.3 64.3 236.4 65.1 236.8 65.8 237.4 66.1 238.1 66.3 238.7 66.4 239.2 67 239.4 67.3 239.8 67.5 239.8 67.7 239.4 68.3 239.3 68.6 238.9 68.9 238.5 69.6 238 69.5 237.8 69.8 237.7 70.3 237.8 70.9 237.7 71.1 237.2 71.1 236.6 71.4 236.5 71.9 236.3 72.1 235.7 72.1 235.3 72.4 235.3 72.8 234.8 73.1 234.2 73 233.6 73.3 233.1 73.3 232.4 73.6 232.2 74.1 232.2 74.4 231.2 74.8 229.6 75.3 228.7 76 228.2 76.1 227.9 76 227.4 76.4 226.7 76.6 225.9 76.7 225.6 76.7 225.4 77 225.1 77 225 77.3 224.5 77.3 224.2 77.4 223.5 77.4 223.2 76.8 223.3 76.2 223.1 75.9 222.9 75.2 222.6 74.8 222.8 74.7 222.7 74.3 222.8 74.1 222.8 73.7 222.7 73.2 222.3 72.9 222.3 72.5 221.8 72.2 221.2 71.3 220.9 70.5 220.2 69.8 219.8 69.7 219.1 68.7 219 68 219.1 67.4 218.5 66.3 218 65.9 217.5 65.7 217.2 65.1 217.2 64.9 216.9 64.4 216.6 64.2 216.3 63.4 215.6 62.6 215.1 61.9 214.6 61.9 214.8 61.4 214.8 61 215 60.6 214.9 60.5 214.6 60.9 214.4 61.7 214.2 62.2 213.9 62.4 213.6 62 213.1 61.6 212.4 60.1 212.3 60.2 212.7 61.3 213.3 62.3 214.1 63.9 214.5 64.4 214.8 65 215.7 66.1 215.5 66.2 215.5 66.9 216.7 67.8 216.9 68 217.2 69 217 69.2 217.1 70.2 217.5 71.4 217.9 71.6 218.4 72 219 73.2 219.3 74.1 219.8 74.6 221.2 75.5 221.7 76.1 222.3 76.7 222.6 77 223.1 77.3 223.3 77.6 223.3 78 222.7 78.3 223.1 78.5 223.5 78.7 223.7 79.1 224.1 79.6 224.6 79.6 225.6 79.3 226.6 79.2 227.5 78.9 228 78.8 228.4 78.6 228.9 78.6 229.3 78.6 229.7 78.4 230.3 78.3 230.7 78 231.1 78 231.1 78.3 231 78.8 231 79.4 230.8 79.7 230.6 80.8 230.1 81.9 229.5 83.2 228.6 84.7 227.7 85.8 226.6 87.1 225.6 88 224.1 88.9 223.1 89.7 222 90.9 221.8 91.4 221.6 91.7 220.9 92.1 220.6 92.5 220.3 92.6 220.1 93.3 219.8 93.7 219.6 94.3 219.2 94.7 218.7 95.9 218.8 96.5 219.4 96.8 219.5 97.1 219.2 97.7 219.3 98 219.2 98.5 219.5 99.1 220 100.1 220.3 100.3 220.5 100.8 220.4 101.8 220.6 102.6 220.6 104.2 220.8 104.7 220.5 105.4 220.1 106.1 219.5 106.7 218.5 107.1 217.4 107.6 216.3 108.7 215.9 108.8 215.2 109.6 214.8 109.8 214.7 110.5 215.2 111.3 215.4 111.8 215.4 112.1 215.6 112.1 215.5 113.1 215.4 113.5 215.6 113.7 215.5 114.1 215 114.5 214.2 114.8 213 115.4 212.6 115.7 212.7 116.1 212.9 116.2 212.8 116.7 212.6 117.5 212.5 118.3 212.2 118.8 211.5 119.3 211.3 119.4 210.9 119.9 210.6 120.4 210.1 121.1 208.9 122.2 208.2 122.8 207.5 123.2 206.4 123.6 205.9 123.7 205.8 123.9 205.2 123.8 204.7 124 203.6 123.8 203 123.9 202.6 123.9 201.5 124.3 200.7 124.4 200.1 124.8 199.6 124.8 199.2 124.5 198.9 124.4 198.4 124 198.4 124.1 198.2 123.9 198.3 123.3 197.9 122.6 198.2 122.4 198.2 121.7 197.6 120.7 197.1 119.9 196.3 118.6 195.6 117.8 195.2 117.1 195 116.1 194.7 115.4 194.4 113.9 194.4 112.7 194.3 112.1 193.9 111.7 193.4 110.9 192.8 109.7 192.6 109 191.8 108.1 191.7 107.3 191.6 106.7 191.8 105.8 192.1 104.9 192.2 104.4 192.5 103.5 192.7 103.1 193.3 102.5 193.6 102 193.7 101.3 193.7 100.7 193.4 100.4 193.1 99.8 192.9 99.2 192.9 99 193.2 98.6 192.9 97.6 192.7 96.9 192.2 96.3 192.3 96.1 192.2 95.8 191.9 95 191.1 94 190.1 93 189.4 92.1 188.8 91.1 188.8 90.8 189 90.5 189.3 89.7 189.5 89 189.3 88.8 189.6 87.7 189.8 86.9 189.4 86.3 188.9 86.1 188.7 85.6 188.5 85.5 188.5 85.2 187.5 85.6 187.1 85.5 186.7 85.8 185.9 85.7 185.4 85.1 185 84.4 184.3 83.7 183.6 83.7 182.7 83.7 181.9 83.9 181.1 84.1 179.5 84.7 178.9 85 178 85.3 177.1 85 176.7 85 176 84.8 175.4 84.8 174.2 85 173.5 85.3 172.5 85.7 172.3 85.6 172 85.6 171 85.2 170.1 84.4 169.2 83.9 168.6 83.2 168.3 83.1 167.6 82.7 167.1 82.2 166.9 81.8 166.8 81.1 166.3 80.5 165.9 80.1 165.7 80 165.4 79.8 165.3 79.3 165.2 79.1 164.9 79 164.3 78.5 163.9 78.5 163.7 78.2 163.7 78 163.4 77.8 163.3 77.6 163.2 76.8 163.3 76.4 162.9 75.6 162.4 75.3 162.8 75.1 163.3 74.4 163.5 73.9 163.4 73.3 163.7 72.8 163.9 71.9 163.7 70.9 163.6 70.4 163.7 69.9 163.5 69.4 162.9 69 163 68.6 163 68.1 163.4 67.8 163.7 67.3 163.7 67 164 66.3 164.6 65.6 164.9 65.5 165.2 64.9 165.2 64.4 165.6 63.7 166.2 63.4 166.9 62.4 167.4 62 168.3 61.9 169.1 61.2 169.6 60.9 170.4 60.1 170.2 58.8 170.6 58 170.7 57.4 171.3 56.8 172.3 56.3 173.1 55.9 173.8 54.9 174.1 54.2 174.8 54.2 175.4 54.7 176.4 54.6 177.4 54.8 177.8 54.8 178.8 54.3 179.9 54.1 180.5 53.7 181.5 53.4 183.2 53.2 184.8 53.1 185.3 53.3 186.3 52.9 187.3 52.9 187.7 53.1 188.4 53.1 189.5 52.6 190.2 52.8 190.2 53.3 191 52.9 191.1 53.1 190.6 53.6 190.6 54.1 190.9 54.3 190.8 55.2 190.2 55.7 190.3 56.2 190.9 56.2 191.1 56.7 191.5 56.9 192.7 57.2 193.1 57.1 193.9 57.3 195.2 57.7 195.7 58.6 196.6 58.8 198 59.2 199.1 59.7 199.6 59.5 200.1 59 199.8 58.2 200.1 57.8 200.9 57.3 201.5 57.2 202.9 57.4 203.2 57.8 203.6 57.8 203.9 58 204.9 58.1 205.2 58.4 206.5 58.4 207.5 58.7 208.4 59 208.9 59.1 209.7 58.8 210.1 58.5 211 58.4 211.7 58.6 212 59.1 212.2 58.7 213 59 213.8 59 214.3 58.8 214.6 58.5 214.5 58.4 214.8 57.9 215 57.2 215.1 56.9 215.5 56.1 216 55.4 215.9 54.6 216.1 54.2 215.8 53.7 216.2 53.3 215.6 53.4 214.7 53.2 214 53.8 212.5 53.9 211.7 53.4 210.6 53.3 210.4 53.7 209.7 53.9 208.7 53.3 207.6 53.3 207 52.3 206.3 51.8 206.8 51 206.2 50.5 207.3 49.6 208.8 49.5 209.2 48.8 211.1 48.9 212.3 48.3 213.5 48 215.2 48 216.9 48.7 218.3 49.1 219.5 48.9 220.4 49 221.6 48.5 221.7 48 221.5 47.4 220.9 47 220.3 46.9 220 46.6 218.7 45.7 217.5 45.3 216.7 44.8 217.4 44.6 218.2 43.8 217.7 43.4 219.1 43 219.1 42.7 218.2 42.9 217.4 43 216.8 43.3 215.8 43.4 215 43.7 215 44.3 215.5 44.6 216.5 44.5 216.3 44.9 215.2 45.1 213.9 45.6 213.3 45.4 213.5 45 212.5 44.7 212.6 44.5 213.6 44.1 213.3 43.9 211.7 43.7 211.7 43.3 210.7 43.4 210.4 44 209.6 44.7 209.6 45 209.1 45.2 208.8 45.1 208.6 46.3 208 46.7 207.7 47.4 208 48 208.1 48.4 209 48.7 208.8 48.9 207.6 49 207.2 49.3 206.4 49.8 206 49.4 206.1 49.2 205.4 49.1 204.9 49.1 203.7 49.3 204.4 49.9 203.9 50 203.3 50 202.8 49.5 202.6 49.7 202.9 50.3 203.4 50.8 203 51 203.5 51.5 204 51.8 204 52.3 203.1 52.1 203.4 52.6 202.8 52.7 203.2 53.6 202.5 53.6 201.7 53.2 201.3 52.4 201.1 51.7 200.7 51.2 200.2 50.7 200.2 50.4 200 50.3 200 50.1 199.4 49.7 199.3 49.3 199.4 48.6 199.5 48.3 199.4 48.1 199.2 48 198.9 47.7 198.4 47.5 197.5 47.2 196.9 46.8 196 46.5 195.2 45.8 195.4 45.7 194.9 45.3 194.9 44.9 194.3 44.8 194 45.2 193.7 44.9 193.7 44.5 193.9 44.4 193.1 44.3 192.3 44.6 192.4 45.1 192.3 45.4 192.6 45.9 193.5 46.4 194 47.2 195.1 48 195.9 48 196.2 48.3 195.9 48.5 196.8 48.8 197.5 49.1 198.4 49.6 198.5 49.8 198.3 50.2 197.7 49.7 196.9 49.6 196.5 50.2 197.2 50.6 197.1 51.1 196.6 51.2 196.1 52 195.7 52.1 195.7 51.8 195.9 51.2 196.1 51 195.7 50.5 195.4 50 195 49.8 194.7 49.4 194.1 49.2 193.6 48.8 192.9 48.7 192.1 48.3 191.2 47.6 190.5 47.1 190.2 46.1 189.7 46 188.9 45.6 188.4 45.8 187.8 46.2 187.4 46.3 186.5 46.9 184.6 46.6 183.1 46.9 183 47.5 183 48.1 182.1 48.8 180.8 49 180.7 49.3 180.1 49.9 179.7 50.7 180.1 51.3 179.5 51.7 179.3 52.4 178.6 52.6 177.9 53.3 176.6 53.3 175.6 53.3 175 53.7 174.6 54.1 174.1 54 173.8 53.6 173.5 53.1 172.5 52.9 172.1 53.2 171.6 53 171.1 53.1 171.3 52.3 171.2 51.7 170.7 51.6 170.5 51.3 170.6 50.6 171 50.2 171 49.8 171.2 49.2 171.2 48.8 171 48.5 171 48.1 171 47.4 170.6 47 172 46.3 173.2 46.4 174.6 46.4 175.7 46.6 176.5 46.5 178.1 46.6 178.6 46 178.8 44 177.8 42.9 177 42.4 175.5 42 175.4 41.3 176.7 41.1 178.4 41.4 178.1 40.2 179 40.7 181.3 39.9 181.6 39.1 182.5 38.9 183.3 38.7 183.8 38.4 184.7 36.9 186.1 36.5 186.9 36.5 187.1 36.3 187.9 36.3 188.1 36.5 188.8 36 188.6 35.6 188.5 35 188.1 34.5 188.1 33.5 188.3 33.2 188.5 32.9 189.4 32.8 189.8 32.6 190.6 32.3 190.5 32.8 190.3 33.1 190.4 33.4 190.9 33.5 190.7 33.9 190.4 33.8 189.6 34.5 189.9 35 189.9 35.4 190.9 35.6 190.9 36 192 35.8 192.5 35.5 193.6 35.9 194.1 36.2 194.8 35.9 196.4 35.5 197.6 35.1 198.6 35.3 198.7 35.6 199.7 35.6 199.9 35.1 201.3 34.8 201.1 34 201.1 33.2 201.6 32.6 202.5 32.2 203.3 33 204.1 33 204.3 32.2 204.4 31.6 204.1 31.7 203.4 31.4 203.3 30.8 204.6 30.5 205.9 30.4 206.9 30.6 208 30.5 209.1 30 208.1 29.5 206.3 29.6 204.5 29.9 202.9 30.2 202.3 29.6 201.3 29.3 201.5 28.3 201.1 27.4 201.5 26.8 202.4 26.2 204.7 25.1 205.4 24.9 205.3 24.5 203.9 24 202.2 24.3 201.2 25 201.4 25.6 199.8 26.4 197.8 27.3 197.1 28.7 197.8 29.4 198.8 29.9 197.9 31 196.8 31.3 196.4 33 195.9 33.9 194.7 33.8 194.1 34.6 192.9 34.6 192.6 33.7 191.8 32.6 191 31.1 190.4 30.5 188.4 31.7 187.1 31.9 185.7 31.4 185.3 30.3 185 28 185.9 27.4 188.6 26.5 190.5 25.5 192.4 24.1 194.8 22.2 196.4 21.4 199.2 20.2 201.4 19.7 203 19.8 204.5 19 206.4 19 208.2 18.8 211.3 19.5 210 19.8 211.1 20.4 212.1 20.1 213.8 20.7 216.5 20.9 220.3 22.1 221.1 22.5 221.1 23.2 220 23.7 218.4 24 213.9 23.2 213.2 23.4 214.8 24.1 214.9 25.6 216.2 25.9 217 26.1 217.1 25.7 216.5 25.2 217.2 24.9 219.6 25.5 220.4 25.2 219.8 24.5 222.1 23.5 223 23.6 224 23.9 224.5 23.2 223.7 22.6 224.2 22 223.5 21.4 226.3 21.8 226.8 22.3 225.6 22.4 225.6 23 226.3 23.3 227.9 23.1 228.1 22.5 230.2 22 233.7 21.1 234.5 21.2 233.5 21.8 234.7 21.9 235.4 21.6 237.3 21.5 238.8 21.1 239.9 21.7 241.1 21.1 240 20.5 240.6 20.1 243.5 20.5 244.9 20.8 248.5 21.9 249.2 21.4 248.2 20.9 248.1 20.6 246.9 20.5 247.3 20.1 246.7 19.3 246.7 19 248.5 18.1 249.2 17.2 249.9 17 252.6 17.2 252.8 17.8 251.8 18.6 252.5 18.9 252.8 19.6 252.6 21 253.7 21.6 253.2 22.3 251.3 23.7 252.4 23.8 252.8 23.5 253.9 23.2 254.2 22.7 255.1 22.2 254.5 21.7 254.9 21 253.8 20.9 253.6 20.4 254.4 19.4 253.1 18.6 254.9 17.9 254.7 17.2 255.2 17.1 255.7 17.7 255.3 18.7 256.4 18.8 255.9 18.1 257.6 17.7 259.7 17.7 261.5 18.3 260.6 17.4 260.5 16.4 262.3 16.1 264.7 16.2 266.8 16.1 266 15.5 267.2 14.9 268.3 14.9 270.3 14.4 272.9 14.2 273.2 14 275.9 13.9 276.7 14.1 278.9 13.6 280.8 13.6 281 13.1 282 12.7 284.4 12.3 286.1 12.6 284.7 12.9 287 13 287.2 13.5 288.2 13.3 291.1 13.3 293.3 13.8 294.1 14.2 293.9 14.7 292.8 15 290.2 15.5 289.4 15.8 290.6 16 292.1 16.2 293 16 293.5 16.7 294 16.4 295.6 16.2 298.8 16.4 299 16.9 303.2 17 303.3 16.3 305.4 16.4 307 16.4 308.6 17 309.1 17.6 308.5 18 309.7 18.8 311.3 19.2 312.3 18.2 313.9 18.6 315.6 18.3 317.5 18.7 318.2 18.4 319.9 18.5 319.1 17.6 320.5 17.2 329.5 17.8 330.4 18.4 333 19.2 337 19 339 19.1 339.8 19.5 339.7 20.3 340.9 20.6 342.3 20.4 344.1 20.3 345.9 20.5 347.8 20.4 349.6 21.3 350.8 21 350 20.3 350.5 19.9 353.6 20.2 355.7 20.1 358.6 20.6 360 21Z',
+  'M229.1 48.7 229.6 49.4 230.1 49.5 230.4 49.7 229.6 49.8 229.4 50.6 229.2 51 228.9 51.2 228.9 51.7 229.2 52.4 230.1 52.6 230.8 53.1 232.3 53.3 233.8 53 233.9 52.8 233.7 52.1 233.9 51 233.1 50.7 233.4 50 232.7 50 232.9 49.1 233.9 49.4 234.7 49 234 48.4 233.7 47.9 232.9 48.1 232.8 48.9 232.5 48.2 232.4 48 232.7 47.6 232.5 47.2 231.3 46.9 230.9 46 230.3 45.7 230.3 45.4 231.3 45.5 231.3 44.8 232.2 44.6 233 44.7 233.2 43.8 233 43.1 232 43.2 231.2 43 230 43.4 229.1 43.6 228.6 44.2 227.7 44.4 226.7 45.4 227.6 46.3 227.5 47 228.6 48.2 229.1 48.7Z',
+  'M84.4 20.9 83.7 21.2 82.4 20.9 81.6 21 80.2 20.6 81.1 20.3 81.8 19.9 82.8 20.1 83.4 20.3 83.7 20.5 84.4 20.9Z',
+  'M360 18.5 360 19.2 358.9 19.2 358.7 18.9 360 18.5Z',
+  'M0 18.5 0.1 18.4 1 18.4 2.4 18.7 2.3 18.9 1.3 19.1 0 19.2 0 18.5Z',
+  'M89.5 20.5 89.5 21.5 90.8 20.7 92 21.4 91.7 22.1 92.7 22.8 93.7 22.1 94.4 21.2 94.5 20.1 95.9 20.2 97.4 20.3 98.7 20.8 98.8 21.3 98 21.9 98.7 22.4 98.6 22.9 96.7 23.6 95.3 23.7 94.2 23.4 93.9 23.9 93 24.8 92.7 25.2 91.5 25.9 90.1 26 89.3 26.4 89.2 27 88.1 27.2 86.8 28 85.8 29.1 85.4 29.9 85.3 31.1 86.8 31.2 87.2 32.2 87.7 32.9 89.1 32.7 91 33.1 92 33.5 92.7 34 93.9 34.3 95 34.7 96.6 34.8 97.7 34.9 97.6 35.7 97.9 36.7 98.6 37.8 100.1 38.8 100.9 38.5 101.4 37.4 100.9 35.9 100.2 35.3 101.8 34.9 102.9 34.2 103.5 33.5 103.4 32.8 102.7 31.9 101.5 31.2 102.7 30.1 102.2 29.2 101.9 27.7 102.6 27.4 104.3 27.7 105.3 27.8 106.2 27.6 107.1 27.9 108.3 28.5 108.6 28.9 110.4 28.9 110.4 29.8 110.7 31 111.6 31.2 112.3 31.8 113.8 31.2 114.8 30.1 115.4 29.7 116.2 30.6 117.5 31.8 118.6 33 118.2 33.7 119.5 34.2 120.4 34.8 122 35.1 122.7 35.4 123.1 36.2 123.8 36.4 124.2 36.7 124.3 37.9 123.6 38.2 122.9 38.6 121.2 38.9 120 39.8 118.3 39.9 116.1 39.7 114.6 39.7 113.6 39.8 112.8 40.5 111.5 40.9 110 42.3 108.9 43.2 109.7 43 111.3 41.7 113.4 40.9 114.9 40.8 115.8 41.3 114.9 41.9 115.2 43 115.5 43.8 116.8 44.3 118.5 44.1 119.5 43 119.5 43.7 120.2 44.1 119 44.7 116.7 45.3 115.8 45.7 114.6 46.5 113.9 46.4 113.8 45.5 115.6 44.7 114 44.7 112.9 44.9 113 45.2 112 45.7 110.9 46 109.9 46.3 109.3 47 109.2 47.1 109.2 47.7 109.5 48.2 109.9 48.2 109.8 47.9 110.1 48.1 110 48.4 109.4 48.5 108.9 48.5 108.1 48.7 107.7 48.7 107.1 48.8 106.3 49.1 107.8 48.9 108.1 49.1 106.7 49.4 106 49.4 106 49.2 105.7 49.5 106 49.6 105.8 50.3 105.1 51.1 105 50.8 104.8 50.8 104.5 50.5 104.7 51 104.9 51.2 104.9 51.6 104.6 52 104.1 52.8 104 52.7 104.3 52.1 103.8 51.7 103.6 50.9 103.5 51.3 103.7 51.9 103 51.8 103.7 52.1 103.7 53 104 53.1 104.1 53.4 104.3 54.4 103.6 55.2 102.6 55.5 101.9 56.1 101.4 56.1 100.9 56.5 100.8 56.8 99.7 57.5 99.1 58 98.7 58.6 98.5 59.3 98.7 60 99 60.8 99.5 61.5 99.5 62 99.9 63.1 99.9 63.8 99.9 64.2 99.6 64.8 99.3 64.9 98.8 64.8 98.7 64.4 98.3 64.1 97.8 63.3 97.3 62.5 97.1 62.1 97.3 61.4 97.1 60.9 96.3 60.1 95.9 59.9 94.9 60.4 94.7 60.3 94.2 59.8 93.6 59.6 92.5 59.7 91.6 59.6 90.8 59.7 90.4 59.8 90.6 60.1 90.6 60.5 90.8 60.7 90.6 60.8 90.2 60.7 89.8 60.9 89.1 60.9 88.4 60.3 87.5 60.4 86.8 60.2 86.2 60.3 85.3 60.5 84.4 61.3 83.4 61.7 82.9 62.2 82.6 62.6 82.6 63.3 82.7 63.8 82.9 64.1 82.5 65 82.3 65.7 82.2 67.1 82.1 67.6 82.3 68.1 82.6 68.6 82.8 69.4 83.5 70.1 83.7 70.7 84.1 71.2 85.2 71.4 85.6 71.9 86.5 71.6 87.2 71.5 88 71.3 88.6 71.1 89.2 70.7 89.5 70.1 89.5 69.3 89.7 69 90.4 68.7 91.5 68.5 92.3 68.5 92.9 68.5 93.2 68.7 93.2 69.2 92.6 69.7 92.4 70.4 92.6 70.5 92.4 71 92.2 71.7 91.9 71.5 91.7 71.5 91.7 71.6 91.9 71.7 91.9 71.9 91.7 72.4 91.8 72.5 91.7 72.9 91.8 73 91.6 73.5 91.4 73.7 91.3 73.8 91.1 74.1 91.4 74.3 91.5 74.1 91.8 74.3 91.9 74.3 92.1 74.1 92.4 74.1 92.5 74.2 92.6 74.2 93.1 74.2 93.6 74.2 93.9 74.1 94 74 94.3 74 94.6 74.1 94.8 74.1 95 74 95.5 74.1 95.6 74.2 95.9 74.4 96.2 74.6 96.6 74.7 96.9 75 96.8 75.1 96.7 75.3 96.8 75.7 96.6 76 96.5 76.4 96.4 76.9 96.5 77.1 96.5 77.6 96.4 77.7 96.3 78.1 96.3 78.4 96.1 78.6 96.2 78.9 96.3 79.1 96.6 79.6 97 80 97.5 80.4 97.8 80.8 97.8 81 98.2 81 98.3 81 98.6 81.2 99.1 81.1 99.5 80.9 100.1 80.7 100.4 80.4 101 80.4 100.9 80.5 101.5 80.6 101.9 80.8 102.3 81.1 102.6 81.3 103.2 81.4 103.9 80.7 104.3 80.6 104.3 80.2 104.5 79.4 105.1 78.9 105.7 78.9 105.8 78.7 106.6 78.8 107.4 78.3 107.8 78 108.2 77.6 108.6 77.6 108.9 77.9 108.7 78.2 108.6 78.5 108.1 78.6 108.4 79 108.4 79.6 107.9 80.1 108.3 80.9 108.7 80.9 109 80.1 108.6 79.8 108.6 79 109.8 78.6 109.7 78.2 110.1 77.8 110.4 78.5 111.1 78.6 111.8 79.1 111.8 79.4 112.7 79.5 113.8 79.4 114.3 79.8 115.1 79.9 115.7 79.6 115.7 79.4 116.9 79.3 118.1 79.3 117.3 79.6 117.6 80.1 118.4 80.1 119.2 80.6 119.3 81.4 119.8 81.4 120.2 81.6 120.9 82 121.5 82.7 121.5 83.2 121.9 83.2 122.5 83.7 122.9 84 124.1 84.2 124.2 84 125 84 126 84.2 126.4 84.4 127.1 84.6 128.2 85.4 128.3 85.8 128.7 85.8 128.9 86.4 129.5 88.1 130 88.3 130.1 89 129.3 89.8 129.6 90.1 131.4 90.2 131.4 91.2 132.2 90.6 133.4 90.9 135.1 91.6 135.6 92.1 135.4 92.7 136.6 92.4 138.5 92.9 140 92.9 141.5 93.7 142.8 94.8 143.5 95.1 144.4 95.1 144.8 95.5 145.1 96.7 145.3 97.3 144.9 99 144.4 99.6 143 101 142.3 102.2 141.6 103 141.3 103.1 141 103.8 141.1 105.7 140.8 107.2 140.7 107.9 140.4 108.3 140.2 109.6 139.2 110.9 139.1 111.9 138.2 112.4 138 113 136.9 113 135.4 113.4 134.6 113.8 133.5 114.1 132.4 114.9 131.5 115.9 131.4 116.6 131.5 117.2 131.3 118.2 131.1 118.7 130.4 119.2 129.3 121 128.4 121.8 127.7 122.2 127.3 123.2 126.6 123.8 126.2 124.4 125.1 125 124.3 124.8 123.8 124.9 122.9 124.4 122.2 124.5 121.6 123.9 121.5 124.4 122.8 125.3 122.6 126 123.3 126.4 123.2 126.9 122.3 128.2 120.8 128.7 118.8 128.9 117.7 128.8 117.9 129.4 117.7 130.2 117.9 130.7 117.3 131 116.2 131.2 115.3 130.8 114.9 131.1 115 132.1 115.7 132.4 116.2 132 116.5 132.6 115.6 132.9 114.8 133.5 114.7 134.5 114.4 135 113.5 135 112.7 135.6 112.4 136.3 113.4 137 114.4 137.2 114 138.1 112.8 138.7 112.2 139.9 111.3 140.3 110.9 140.7 111.2 141.8 111.8 142.4 111.4 142.3 110.5 142.3 110.1 142.5 109.2 142.9 109 143.8 108.6 143.9 107.4 143.5 106.3 142.8 105.1 142.3 104.7 141.6 105 141 104.5 140.4 104.4 138.7 104.8 137.7 105.9 136.9 104.4 136.6 105.3 135.8 105.6 134.1 106.8 134.5 107.3 132.4 106.6 132.1 106.3 133.4 105.7 133.2 106 131.8 106.3 129.9 106.8 129.3 106.5 128.3 106.4 127.2 106.8 127.1 107.4 125.5 108.1 123.9 108.6 122.4 108.3 120.9 108.6 120.1 108.5 118.9 109.1 117.6 109.3 115.7 109.6 113.6 109.9 111.4 109.8 109.8 109.6 108.3 108.6 107.8 108.5 107.4 106.6 106.4 104.8 105.3 104 104.6 103.6 103.8 103.7 103.5 102.9 102.2 101.9 100.4 101 98.4 100.6 97.9 100.2 97.2 99.5 96.5 98.7 96.1 99.1 95.7 98.6 94.7 98.9 94 99.7 93.4 100.2 92.7 100 92.2 99.6 92.7 99 92.2 99.2 92 99.1 91.1 99.4 90.9 99.6 90.3 100 89.6 99.9 89.2 100.5 89 101.1 88.6 101 88.3 101.4 88.2 101.3 87.7 101.6 87.4 102.1 87.3 102.5 86.7 102.9 86.2 102.5 85.9 102.7 85.3 102.5 84.4 102.7 84.2 102.5 83.3 102.1 82.8 101.8 82.5 101.6 81.9 101.8 81.7 101.6 81.6 101.4 81.3 100.9 81 100.4 81.1 100.2 81.4 99.8 81.7 99.6 81.7 99.5 81.9 100 82.5 99.7 82.6 99.6 82.7 99.1 82.8 98.9 82.2 98.8 82.4 98.5 82.3 98.3 81.9 97.9 81.8 97.6 81.7 97.2 81.7 97.2 81.9 97 81.8 96.5 81.6 96.3 81.3 96.4 81.2 96.4 80.9 96.1 80.7 95.7 80.5 95.4 80.4 95.3 80.1 95 79.9 95.1 80.2 94.9 80.4 94.7 80.2 94.3 80.1 94.2 79.9 94.2 79.6 94.3 79.2 94.1 79.1 94.3 78.9 93.9 78.6 93.5 78.2 93.3 77.9 92.8 77.5 92.3 77.1 92.4 76.9 92.6 77.1 92.7 77 92.5 76.7 92.2 76.6 92.1 76.9 91.5 76.8 91.2 76.7 90.7 76.5 90.2 76.5 89.9 76.3 89.4 76.1 88.8 76.1 88.3 75.9 87.8 75.5 86.6 74.4 86.1 74.1 85.3 73.8 84.7 73.9 83.9 74.2 83.4 74.3 82.7 74.1 82 73.9 81.1 73.4 80.3 73.3 79.2 72.8 78.3 72.4 78.1 72.1 77.5 72 76.5 71.7 76.1 71.3 75 70.7 74.5 70.1 74.3 69.6 74.6 69.5 74.5 69.2 74.7 68.9 74.7 68.6 74.4 68.1 74.3 67.7 74 67.2 73.1 66.2 72.1 65.5 71.6 64.8 70.7 64.4 70.6 64.2 70.7 63.6 70.2 63.3 69.6 62.8 69.4 62.1 68.8 62.1 68.2 61.5 67.8 61 67.7 60.7 67.2 60 66.8 59.2 66.9 58.8 66.1 58.4 65.8 58.5 65.2 58.2 65.1 58.6 65.2 59.1 65.3 59.8 65.7 60.2 66.4 60.9 66.6 61.2 66.7 61.2 66.9 61.6 67 61.6 67.2 62.2 67.5 62.5 67.8 62.8 68.4 63.3 68.7 64.3 69 64.7 69.3 65.2 69.3 65.7 69.8 65.7 70.2 66.2 70.6 66.6 70.6 66.8 70.1 67.2 70 67.2 69.7 66.6 69 66 68.3 65.5 67.8 65.3 67.8 64.5 67.7 64 67.2 63.7 66.5 63.2 66.4 63.4 66.2 63.1 65.5 62.9 64.9 62.3 65 62.2 65.4 62.3 65.8 61.9 65.8 61.4 65.1 60.7 64.5 60.4 64.1 59.8 63.7 59.2 63.3 58.4 62.9 57.5 62.7 57 62.1 56.4 61.6 56.3 61.5 56 60.9 55.9 60.6 55.7 59.6 55.6 59.4 55.4 59.3 54.8 58.3 53.8 57.5 52.4 57.5 52.2 57 51.9 56.3 51 56.1 50.2 55.6 49.7 55.8 48.9 55.8 48 55.5 47.2 55.9 46.3 56.1 44.5 55.9 43.1 55.6 42.3 55.3 41.8 55.4 41.6 56.9 42 57.4 42.9 57.7 42.6 57.5 41.8 57.2 41 57 41 55.1 40 54.4 39.6 52.6 39.2 52 38.3 52.2 37.7 50.9 37.2 50.7 36.4 49.5 35.7 49.5 35.2 48.9 34.8 48 34.5 47.8 33.6 46.5 32.8 45.9 31.9 45 31.8 43.4 31.8 42.2 31.5 40.1 30.5 39.2 30.3 37.4 29.9 36 30 34.1 29.5 32.9 29.1 31.8 29.3 32 30 31.4 30.1 30.3 30.3 29.4 30.6 28.3 30.8 28.1 30.3 28.6 29.3 29.7 29 29.4 28.7 28.1 29.3 27.4 29.9 26 30.6 26.7 31.1 25.8 31.9 24.7 32.3 23.7 32.6 23.4 33 21.9 33.5 21.6 34 20.4 34.4 19.7 34.4 18.8 34.6 17.8 35 16.9 35.3 15.2 35.6 15.1 35.4 16.2 35 17.1 34.7 18.2 34.1 19.4 34 19.9 33.6 21.3 33 21.5 32.8 22.3 32.4 22.4 31.7 23 31.1 21.8 31.4 21.5 31.2 20.9 31.6 20.3 31.1 20 31.4 19.6 30.9 18.6 31.3 18 31.3 17.9 30.7 18.1 30.4 17.5 30 16.2 30.2 15.3 29.7 14.7 29.5 14.6 28.9 13.9 28.5 14.3 27.9 15.1 27.4 15.4 26.9 16.2 26.8 16.9 26.9 17.7 26.5 18.5 26.5 19.2 26.2 19 25.8 18.5 25.6 19.2 25.2 18.6 25.2 17.5 25.4 17.2 25.7 16.5 25.4 15 25.6 13.6 25.3 13.2 24.9 11.9 24.3 13.3 23.9 15.5 23.4 16.3 23.4 16.2 23.9 18.3 23.9 17.5 23.3 16.3 22.9 15.6 22.4 14.6 22 13.2 21.6 13.8 21.1 15.6 21.1 16.8 20.6 17.1 20.1 18.1 19.7 19.1 19.6 21 19.1 21.9 19.2 23.4 18.6 24.9 18.9 25.7 19.3 26.1 19.1 27.8 19.2 27.7 19.4 29.3 19.6 30.3 19.5 32.4 19.8 34.3 19.9 35.1 20 36.4 19.8 37.9 20.1 39 20.3 40.9 20.5 42.5 21 43.5 21.1 44.4 20.7 45.6 20.4 47.1 20.5 48.6 20.1 50.2 19.8 50.9 20.2 51.6 20 51.9 19.5 52.6 19.6 54.2 20.5 55.6 19.8 55.7 20.6 56.9 20.4 57.3 20.1 58.5 20.2 60.1 20.6 62.4 21 63.8 21.2 64.8 21.1 66.1 21.6 64.7 22.1 66.5 22.3 69.2 22.2 70.1 22 71.1 22.6 72.2 22.1 71.2 21.7 71.8 21.3 73 21.3 73.9 21.2 74.7 21.4 75.7 22 76.8 21.9 78.5 22.4 80.1 22.2 81.6 22.2 81.4 21.6 82.3 21.4 83.9 21.8 83.9 22.7 84.5 21.9 85.3 21.9 85.8 20.9 84.7 20.3 83.5 19.9 83.6 18.8 84.8 18.1 86.1 18.2 87.1 18.7 88.5 19.8 87.6 20.3 89.5 20.5Z',
+  'M65.8 16.9 65.3 17.3 67.6 17 68.9 17.5 70.1 17 71 17.4 71.8 18.3 72.3 17.9 71.6 16.9 72.5 16.8 73.5 16.9 74.6 17.3 75.2 18.3 75.5 19 77.2 19.5 79 20 78.9 20.4 77.3 20.5 77.9 20.9 77.6 21.2 75.8 21.1 74 20.8 72.9 20.9 71 21.2 68 21.4 66.7 21.5 66.1 21 64.8 20.7 63.9 20.8 62.7 20 63.3 19.9 64.9 19.8 66.3 19.8 67.6 19.6 65.7 19.4 63.5 19.5 62.1 19.5 61.6 19.1 63.9 18.7 62.3 18.7 60.6 18.4 61.4 17.7 62.1 17.3 64.8 16.7 65.8 16.9Z',
+  'M75.5 16.6 74.6 17.2 73.1 16.5 73.4 16.4 74.7 16.4 75.5 16.6Z',
+  'M103.7 16.9 103.7 17.2 102.7 17.1 101.6 17.1 100.5 17.3 100.2 17.2 99.1 16.7 99.2 16.3 99.6 16.2 101.9 16.3 103.7 16.9Z',
+  'M93.4 16.8 94.2 17.5 95.1 16.7 97.7 16.2 99.4 17.3 99.2 17.9 101.2 17.6 102.2 17.2 104.4 17.8 105.8 18.2 105.9 18.7 107.8 18.4 108.8 19.1 111.2 19.5 112.1 19.9 113 20.8 111.2 21.3 113.5 21.9 115.1 22.2 116.6 23.1 118.1 23.1 117.8 23.8 116.1 25 114.9 24.6 113.3 23.6 112 23.7 111.9 24.3 112.9 24.9 114.3 25.4 114.7 25.6 115.3 26.6 115 27.3 113.7 27.1 111.2 26.3 112.6 27.1 113.7 27.7 113.8 28.1 111.1 27.7 109 27.1 107.8 26.6 108.1 26.3 106.6 25.8 105.2 25.3 105.2 25.6 102.3 25.8 101.4 25.4 102.1 24.7 104 24.7 106 24.5 105.7 24.2 106.1 23.7 107.3 22.7 107.1 22.3 106.7 21.9 105.2 21.4 103.1 21.1 103.8 20.9 102.7 20.2 101.8 20.2 101 19.8 100.5 20.1 98.7 20.3 95.1 20 92.9 19.7 91.3 19.6 90.5 19.2 91.5 18.8 90.1 18.8 89.8 17.8 90.6 16.9 91.6 16.5 94.2 16.2 93.4 16.8Z',
+  'M79.6 16.2 80.8 16.4 82.6 16.2 82.9 16.5 81.9 17 83.5 17.4 83.3 18.3 81.6 18.7 80.7 18.6 80 18.3 77.5 17.5 77.5 17.2 79.6 17.3 78.5 16.6 79.6 16.2Z',
+  'M323.6 16.8 322.1 16.8 320 16.7 319.9 16.6 320.8 16.2 322.1 16.1 323.5 16.5 323.6 16.8Z',
+  'M86.8 17.2 85.7 18 84.6 17.9 84 17.1 84 16.6 84.5 16.1 85.5 15.9 87.6 15.9 89.5 16.1 88 17 86.8 17.2Z',
+  'M59.5 18.6 56.9 19.1 56.4 18.7 54.1 18.1 54.4 17.8 55.2 17 56.1 16.3 55.1 15.7 58.5 15.6 59.9 15.8 62.4 15.8 63.4 16.1 64.5 16.5 63.2 16.8 60.8 17.5 59.5 18.2 59.5 18.6Z',
+  'M330.7 14.9 329.6 15.3 328 15.2 326.1 14.8 326.4 14.5 328.2 14.7 330.7 14.9Z',
+  'M86.4 15 85.8 15.4 84.4 15.3 83.2 15.1 83.7 14.6 85.1 14.4 86 14.7 86.4 15Z',
+  'M325.1 14.4 324.3 15.2 320.6 15.2 319 15.4 317 14.7 317.5 14.1 318.8 13.9 321.5 13.9 325.1 14.4Z',
+  'M81.5 13.3 82.3 13.7 82.3 14.3 81.8 15 80.2 15.1 79.1 14.9 79.1 14.4 77.5 14.4 77.4 13.7 78.5 13.7 80 13.4 81.4 13.4 81.5 13.3Z',
+  'M71.8 13.8 72.2 14.2 73.1 14 74.1 14 74.3 14.5 73.7 15 70.3 15.1 67.8 15.6 66.3 15.6 66.1 15.3 68.2 14.8 63.7 15 62.3 14.8 63.7 13.8 64.6 13.5 67.4 13.9 69.2 14.5 70.9 14.5 69.5 13.6 70.4 13.2 71.4 13.3 71.8 13.8Z',
+  'M237.5 19.3 236.9 19.4 233.7 19.2 233.4 18.8 231.6 18.5 231.5 18 232.5 17.8 232.4 17.2 234.4 16.4 233.5 16.2 235.9 15.4 235.6 14.9 237.9 14.4 241.2 13.7 244.5 13.6 246.2 13.2 248.2 13.1 248.9 13.5 248.2 13.8 244.6 14.3 241.6 14.7 238.5 15.7 237 16.7 235.4 17.6 235.6 18.5 237.5 19.3Z',
+  'M85.3 12.9 86.4 13.2 88.4 13.2 89.3 13.5 89 13.9 90.2 14.2 90.8 14.4 92.2 14.4 93.6 14.5 95.2 14.3 97.2 14.2 98.9 14.3 99.9 14.7 100.2 15.1 99.5 15.3 98.1 15.6 96.8 15.4 93.9 15.6 91.9 15.6 90.2 15.5 87.6 15.2 87.2 14.6 87.1 14.1 86.1 13.7 84 13.6 82.9 13.2 83.3 12.8 85.3 12.9Z',
+  'M63.8 12.4 63.7 13.1 62.9 13.5 62 13.5 60.1 13.9 58.5 14.1 57.1 13.9 58.8 13.1 60.9 12.5 62.4 12.5 63.8 12.4Z',
+  'M86.2 12.5 85.7 12.5 83.8 12.4 83.6 12.2 85.6 12.2 86.3 12.4 86.2 12.5Z',
+  'M69.8 12.3 67.9 12.6 66.5 12.3 67.3 11.9 68.7 11.8 70.1 12 69.8 12.3Z',
+  'M204.7 12.1 202.5 12.6 200.7 12.3 201.4 12.1 200.8 11.7 202.9 11.5 203.3 11.9 204.7 12.1Z',
+  'M70.3 11.4 69.1 11.6 67.5 11.6 67.5 11.4 68.5 11.1 69 11.2 70.3 11.4Z',
+  'M84.2 11.9 82.7 12.2 81.9 11.9 81.4 11.5 81.4 11.1 82.7 11.2 83.2 11.2 84.4 11.6 84.2 11.9Z',
+  'M79.9 11.7 80.3 12.1 78.7 12 77.1 11.7 74.8 11.6 75.8 11.3 74.6 11.1 74.5 10.7 76.5 10.8 79.2 11.2 79.9 11.7Z',
+  'M285.1 11.7 279.4 12.1 281.3 10.8 282.1 10.7 282.8 10.7 285.4 11.3 285.1 11.7Z',
+  'M198.3 10.3 201.5 11 199 11.4 198.5 12.2 197.6 12.4 197.1 13.2 195.9 13.2 193.8 12.6 194.7 12.3 193.2 12 191.2 11.1 190.4 10.3 193.2 10 193.7 10.3 195.1 10.3 195.5 10 197 9.9 198.3 10.3Z',
+  'M205.4 9.6 207.4 9.9 205.9 10.5 203 10.6 200.1 10.4 199.9 10.2 198.5 10.1 197.4 9.7 200.5 9.4 201.9 9.6 202.9 9.3 205.4 9.6Z',
+  'M231.1 9.5 229.8 9.6 228.9 9.7 228.8 9.8 227.6 10 226.5 9.8 227.1 9.4 224.8 9.4 226.8 9.2 228.3 9.2 228.5 9.5 229.1 9.2 230 9.1 231.5 9.3 231.1 9.5Z',
+  'M279.9 11.1 277.8 11.2 275 11 273.3 10.6 272.5 9.9 271.2 9.7 273.8 9 275.9 8.7 277.9 9.3 280.2 10.2 279.9 11.1Z',
+  'M93 10.3 94.2 10.7 92.8 11 91 11.7 89.2 11.8 87.1 11.7 86 11.2 86.1 10.9 86.9 10.6 85 10.6 83.9 10.3 83.3 9.8 84 9.4 84.7 9.1 85.7 9 85.3 8.8 87.6 8.7 88.9 9.3 90.6 9.5 92.2 9.7 93 10.3Z',
+  'M111.5 6.9 114.2 7 116.3 7.1 118.1 7.4 118.1 7.6 115.7 8.1 113.2 8.3 112.3 8.5 114.5 8.5 112.2 9.1 110.5 9.4 108.8 10.2 106.8 10.4 106.1 10.6 103.1 10.7 104.5 10.8 103.8 11 104.6 11.5 103.7 11.8 102.1 12.1 101.6 12.5 100.2 12.8 100.4 13 102.1 13 102.1 13.2 99.4 13.8 96.8 13.5 93.9 13.7 92.4 13.6 90.5 13.5 90.4 13 92.2 12.8 91.7 12.1 92.4 12 95 12.5 93.7 11.8 92 11.6 92.8 11.2 94.6 11 94.9 10.7 93.5 10.3 93.1 9.7 95.8 9.8 96.6 9.9 98.2 9.5 95.9 9.4 92.4 9.5 90.6 9.1 89.8 8.7 88.6 8.4 88.4 8.1 89.9 7.9 91.1 7.9 93 7.7 94.5 7.3 95.7 7.4 96.8 7.7 97.6 7.1 98.9 7 100.7 6.9 103.7 6.8 104.3 6.9 107.2 6.8 109.3 6.8 111.5 6.9Z',
+  'M152.9 6.5 159.2 7.3 157.3 7.7 153.5 7.7 148.1 7.8 148.6 8 152.1 7.9 155.2 8.2 157.1 7.9 157.9 8.3 156.8 8.8 159.4 8.5 164.2 8.1 167.2 8.3 167.8 8.7 163.7 9.4 163.2 9.7 160 9.8 162.3 9.9 161.1 10.6 160.3 11.2 160.3 12.4 161.5 13 160 13.1 158.3 13.4 160.2 13.9 160.4 14.8 159.3 14.8 160.6 15.7 158.4 15.8 159.6 16.2 159.2 16.5 157.8 16.7 156.4 16.7 157.7 17.4 157.7 17.8 155.7 17.4 155.2 17.7 156.6 17.9 157.9 18.5 158.2 19.3 156.5 19.5 155.7 19.1 154.5 18.6 154.8 19.2 153.6 19.8 156.3 19.8 157.7 19.9 155 20.7 152.3 21.5 149.3 21.9 148.2 21.9 147.2 22.3 145.8 23.3 143.6 24 143 24.1 141.6 24.3 140.2 24.5 139.3 25.2 139.3 25.9 138.8 26.5 137.2 27.3 137.6 28.1 137.1 28.9 136.6 29.9 135.2 30 133.7 29.1 131.7 29.1 130.8 28.6 130.1 27.6 128.4 26.4 127.9 25.7 127.7 24.8 126.3 23.9 126.7 23.2 126 22.8 127 21.6 128.5 21.3 128.9 20.9 129.1 20.1 128 20.4 127.4 20.6 126.5 20.7 125.3 20.4 125.2 19.7 125.6 19.2 126.6 19.2 128.6 19.4 126.9 18.8 126 18.5 125 18.6 124.2 18.3 125.3 17.4 124.7 17 123.9 16.3 122.7 15.3 121.4 14.9 121.4 14.5 118.7 13.9 116.6 13.8 113.9 13.9 111.5 13.9 110.3 13.6 108.6 13 111.2 12.7 113.2 12.6 109 12.4 106.7 12 106.8 11.6 110.6 11.1 114.3 10.6 114.7 10.2 112 9.9 112.9 9.5 116.3 8.8 117.8 8.7 117.4 8.2 119.7 8 122.8 7.8 125.9 7.8 127 8.1 129.6 7.6 132 7.9 133.4 8 135.5 8.3 133.1 7.8 133.2 7.4 136.6 6.8 140.1 6.8 141.4 6.5 144.9 6.4 152.9 6.5Z',
+]
+
+export const WORLD_LAND_PATH = WORLD_LAND_SUBPATHS.join('')
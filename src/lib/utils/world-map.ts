@@ -0,0 +1,65 @@
+/**
+ * World Map
+ * Equirectangular projection and marker clustering for the map explorer.
+ * Map coordinates span a 360 × 180 box, matching the base map in world-land.ts.
+ * Safe to import from client components.
+ */
+import type { GeoBounds, GeoPoint } from '@/types/geo'
+
+export const WORLD_MAP_WIDTH = 360
+export const WORLD_MAP_HEIGHT = 180
+
+/**
+ * Map coordinates of a latitude/longitude; x grows east, y grows south
+ */
+export function projectPoint(latitude: number, longitude: number): { x: number; y: number } {
+  return { x: longitude + 180, y: 90 - latitude }
+}
+
+/**
+ * Latitude/longitude bounds of a map viewBox
+ */
+export function viewBoxToBounds(x: number, y: number, width: number, height: number): GeoBounds {
+  return {
+    west: Math.max(-180, x - 180),
+    east: Math.min(180, x + width - 180),
+    north: Math.min(90, 90 - y),
+    south: Math.max(-90, 90 - y - height),
+  }
+}
+
+export interface MapCluster<T extends GeoPoint = GeoPoint> {
+  // Stable while the same points share a cell
+  key: string
+  x: number
+  y: number
+  points: T[]
+}
+
+/**
+ * Group points whose map coordinates fall in the same grid cell.
+ * Pass a smaller `cellSize` as the map zooms in to split clusters apart.
+ */
+export function clusterPoints<T extends GeoPoint>(points: T[], cellSize: number): MapCluster<T>[] {
+  const cells = new Map<string, T[]>()
+  for (const point of points) {
+    const { x, y } = projectPoint(point.latitude, point.longitude)
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`
+    const cell = cells.get(key)
+    if (cell) {
+      cell.push(point)
+    } else {
+      cells.set(key, [point])
+    }
+  }
+
+  return Array.from(cells.entries()).map(([key, cellPoints]) => {
+    const projected = cellPoints.map((point) => projectPoint(point.latitude, point.longitude))
+    return {
+      key: cellPoints.length === 1 ? cellPoints[0].id : key,
+      x: projected.reduce((sum, point) => sum + point.x, 0) / projected.length,
+      y: projected.reduce((sum, point) => sum + point.y, 0) / projected.length,
+      points: cellPoints,
+    }
+  })
+}
@@ -0,0 +1,176 @@
+/**
+ * ZIP Streaming
+ * Minimal ZIP writer for gallery downloads. Files are stored uncompressed:
+ * JPEG and WebP derivatives do not shrink further, and storing keeps CPU use low.
+ */
+
+export interface ZipEntry {
+  name: string
+  data: Buffer
+  modified?: Date
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time fields used by the ZIP format
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: (Math.max(date.getFullYear() - 1980, 0) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+// 32- and 16-bit fields at their maximum mean "see the ZIP64 extra field or record"
+const MAX_32 = 0xffffffff
+const MAX_16 = 0xffff
+
+function writeUInt64LE(buffer: Buffer, value: number, offset: number): void {
+  buffer.writeBigUInt64LE(BigInt(value), offset)
+}
+
+/**
+ * ZIP64 extended information extra field holding the given 64-bit values
+ */
+function zip64Extra(values: number[]): Buffer {
+  const extra = Buffer.alloc(4 + values.length * 8)
+  extra.writeUInt16LE(0x0001, 0)
+  extra.writeUInt16LE(values.length * 8, 2)
+  values.forEach((value, index) => writeUInt64LE(extra, value, 4 + index * 8))
+  return extra
+}
+
+/**
+ * End of central directory, preceded by the ZIP64 record and locator when the archive
+ * has too many files or its directory starts or ends past 4 GB
+ */
+function endOfCentralDirectory(count: number, size: number, offset: number): Buffer {
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Math.min(count, MAX_16), 8)
+  end.writeUInt16LE(Math.min(count, MAX_16), 10)
+  end.writeUInt32LE(Math.min(size, MAX_32), 12)
+  end.writeUInt32LE(Math.min(offset, MAX_32), 16)
+
+  if (count < MAX_16 && size < MAX_32 && offset < MAX_32) {
+    return end
+  }
+
+  const record = Buffer.alloc(56)
+  record.writeUInt32LE(0x06064b50, 0)
+  writeUInt64LE(record, 44, 4)
+  record.writeUInt16LE(45, 12)
+  record.writeUInt16LE(45, 14)
+  writeUInt64LE(record, count, 24)
+  writeUInt64LE(record, count, 32)
+  writeUInt64LE(record, size, 40)
+  writeUInt64LE(record, offset, 48)
+
+  const locator = Buffer.alloc(20)
+  locator.writeUInt32LE(0x07064b50, 0)
+  writeUInt64LE(locator, offset + size, 8)
+  locator.writeUInt32LE(1, 16)
+
+  return Buffer.concat([record, locator, end])
+}
+
+/**
+ * Stream entries into a ZIP archive, one file at a time.
+ * Switches to ZIP64 records where needed, so archives may exceed 4 GB and 65,535 files.
+ */
+export function createZipStream(entries: AsyncIterable<ZipEntry>): ReadableStream<Uint8Array> {
+  const iterator = entries[Symbol.asyncIterator]()
+  const central: Buffer[] = []
+  let directorySize = 0
+  let offset = 0
+  let count = 0
+  let finished = false
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (finished) return
+
+      try {
+        const { value: entry, done } = await iterator.next()
+
+        if (done) {
+          const end = endOfCentralDirectory(count, directorySize, offset)
+          controller.enqueue(new Uint8Array(Buffer.concat([...central, end])))
+          controller.close()
+          finished = true
+          return
+        }
+
+        const name = Buffer.from(entry.name, 'utf8')
+        const crc = crc32(entry.data)
+        const { time, date } = dosDateTime(entry.modified || new Date())
+        const size = entry.data.length
+        const largeFile = size >= MAX_32
+        const largeOffset = offset >= MAX_32
+        const version = largeFile || largeOffset ? 45 : 20
+
+        // Local file header; bit 11 marks UTF-8 file names
+        const localExtra = largeFile ? zip64Extra([size, size]) : Buffer.alloc(0)
+        const local = Buffer.alloc(30)
+        local.writeUInt32LE(0x04034b50, 0)
+        local.writeUInt16LE(version, 4)
+        local.writeUInt16LE(0x0800, 6)
+        local.writeUInt16LE(0, 8)
+        local.writeUInt16LE(time, 10)
+        local.writeUInt16LE(date, 12)
+        local.writeUInt32LE(crc, 14)
+        local.writeUInt32LE(Math.min(size, MAX_32), 18)
+        local.writeUInt32LE(Math.min(size, MAX_32), 22)
+        local.writeUInt16LE(name.length, 26)
+        local.writeUInt16LE(localExtra.length, 28)
+
+        const centralExtra = largeFile || largeOffset
+          ? zip64Extra([...(largeFile ? [size, size] : []), ...(largeOffset ? [offset] : [])])
+          : Buffer.alloc(0)
+        const header = Buffer.alloc(46)
+        header.writeUInt32LE(0x02014b50, 0)
+        header.writeUInt16LE(version, 4)
+        header.writeUInt16LE(version, 6)
+        header.writeUInt16LE(0x0800, 8)
+        header.writeUInt16LE(0, 10)
+        header.writeUInt16LE(time, 12)
+        header.writeUInt16LE(date, 14)
+        header.writeUInt32LE(crc, 16)
+        header.writeUInt32LE(Math.min(size, MAX_32), 20)
+        header.writeUInt32LE(Math.min(size, MAX_32), 24)
+        header.writeUInt16LE(name.length, 28)
+        header.writeUInt16LE(centralExtra.length, 30)
+        header.writeUInt32LE(Math.min(offset, MAX_32), 42)
+        central.push(header, name, centralExtra)
+        directorySize += header.length + name.length + centralExtra.length
+
+        controller.enqueue(new Uint8Array(Buffer.concat([local, name, localExtra, entry.data])))
+        offset += local.length + name.length + localExtra.length + size
+        count++
+      } catch (error) {
+        finished = true
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await iterator.return?.()
+    },
+  })
+}
@@ -1,13 +1,96 @@
 import createMiddleware from 'next-intl/middleware'
 import { NextRequest, NextResponse } from 'next/server'
+import { SITE_CONFIG } from '@/config/site.config'
+import {
+  getMaintenanceSettings,
+  getTrustedClientIP,
+  isAdminRequest,
+  isIPAllowed,
+  renderMaintenancePage,
+  richTextToParagraphs,
+  type MaintenancePageText,
+} from '@/lib/utils/maintenance'
+import { fetchRedirects, findRedirect, normalizeRedirectPath } from '@/lib/utils/redirects'
+import { defaultLocale, isLocale, locales, negotiateLocale } from '@/lib/i18n/config'
+import { loadMessages } from '@/lib/i18n/load-messages'
 
+// Unprefixed paths are redirected to the best match for the browser's Accept-Language
 const intlMiddleware = createMiddleware({
-  locales: ['en'],
-  defaultLocale: 'en',
-  localePrefix: 'always'
+  locales,
+  defaultLocale,
+  localePrefix: 'always',
+  localeDetection: true
 })
 
-export default function middleware(request: NextRequest) {
+// Feeds have file extensions, so they need their own matcher entry and skip the locale middleware
+const FEED_PATH = /^\/[^/]+\/(journal|galleries)\/(feed\.xml|atom\.xml|feed\.json)$/
+
+// Private client galleries must never be indexed
+const CLIENT_GALLERY_PATH = /^\/[^/]+\/client(\/|$)/
+
+// Locale from the first path segment, falling back to Accept-Language negotiation
+function getRequestLocale(request: NextRequest): string {
+  const [, firstSegment] = request.nextUrl.pathname.split('/')
+  return isLocale(firstSegment) ? firstSegment : negotiateLocale(request.headers.get('accept-language'))
+}
+
+/**
+ * Serve a 503 maintenance page unless the visitor is allow-listed or a logged-in admin.
+ * /admin and /api (including /api/health) are outside the matcher and stay reachable;
+ * the journal and gallery feeds are matched explicitly so they are covered too.
+ */
+async function handleMaintenance(request: NextRequest): Promise<NextResponse | null> {
+  const origin = request.nextUrl.origin
+  const maintenance = await getMaintenanceSettings(origin)
+  if (!maintenance.enabled) return null
+
+  const clientIP = getTrustedClientIP(request)
+  if (clientIP && isIPAllowed(clientIP, maintenance.allowedIPs)) return null
+  if (await isAdminRequest(origin, request.cookies.get('payload-token')?.value)) return null
+
+  const locale = getRequestLocale(request)
+  const retryAfter = Math.max(1, maintenance.retryAfterMinutes || 30) * 60
+
+  const html = renderMaintenancePage({
+    locale,
+    siteName: SITE_CONFIG.site.name,
+    text: (await loadMessages(locale)).maintenance as MaintenancePageText,
+    message: richTextToParagraphs(maintenance.message),
+  })
+
+  return new NextResponse(html, {
+    status: 503,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Retry-After': String(retryAfter),
+      'Cache-Control': 'no-store',
+      'X-Robots-Tag': 'noindex',
+    },
+  })
+}
+
+/**
+ * Apply the redirects collection. Sources are stored without the locale prefix,
+ * and internal destinations keep the visitor's locale.
+ */
+async function handleRedirects(request: NextRequest): Promise<NextResponse | null> {
+  const { pathname, search, origin } = request.nextUrl
+  const locale = getRequestLocale(request)
+
+  const rules = await fetchRedirects(origin)
+  if (rules.length === 0) return null
+
+  const match = findRedirect(rules, normalizeRedirectPath(pathname), locale)
+  if (!match) return null
+
+  const destination = /^https?:\/\//.test(match.destination)
+    ? match.destination
+    : `${origin}/${locale}${match.destination === '/' ? '' : match.destination}${search}`
+
+  return NextResponse.redirect(destination, match.status)
+}
+
+export default async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl
   
   // Security: Block suspicious requests
@@ -27,12 +110,26 @@ export default function middleware(request: NextRequest) {
     return new NextResponse('Not Found', { status: 404 })
   }
   
+  const maintenanceResponse = await handleMaintenance(request)
+  if (maintenanceResponse) {
+    return maintenanceResponse
+  }
+
+  if (FEED_PATH.test(pathname)) {
+    return NextResponse.next()
+  }
+
+  const redirectResponse = await handleRedirects(request)
+  if (redirectResponse) {
+    return redirectResponse
+  }
+
   // Rate limiting headers (basic implementation)
   const response = intlMiddleware(request)
   
   // Security headers
   if (response) {
-    response.headers.set('X-Robots-Tag', 'index, follow')
+    response.headers.set('X-Robots-Tag', CLIENT_GALLERY_PATH.test(pathname) ? 'noindex, nofollow' : 'index, follow')
     response.headers.set('X-DNS-Prefetch-Control', 'on')
     
     // Cache control for static assets
@@ -52,7 +149,7 @@ export default function middleware(request: NextRequest) {
 export const config = {
   matcher: [
     '/((?!api|_next|_vercel|.*\\..*|admin).*)',
-    '/',
-    '/en/:path*'
+    '/:locale/:section(journal|galleries)/:feed(feed\\.xml|atom\\.xml|feed\\.json)',
+    '/'
   ]
 }
\ No newline at end of file
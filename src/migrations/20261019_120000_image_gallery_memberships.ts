@@ -0,0 +1,79 @@
+/**
+ * Image gallery memberships
+ * Converts the single `gallery` relationship on images into the `galleries` relationship
+ * and seeds each gallery's `imageOrder` from the images' previous `sortOrder`.
+ * Versions are converted too, so drafts and restores keep their gallery.
+ */
+import type { MigrateDownArgs, MigrateUpArgs, MongooseAdapter } from '@payloadcms/db-mongodb'
+import type { ClientSession } from 'mongoose'
+import { Types } from 'mongoose'
+
+function getModels({ payload, session }: MigrateUpArgs) {
+  const db = payload.db as unknown as MongooseAdapter
+  return {
+    images: db.collections.images.collection,
+    imageVersions: db.versions.images.collection,
+    galleries: db.collections.galleries.collection,
+    galleryVersions: db.versions.galleries.collection,
+    // The adapter and mongoose resolve different mongodb driver versions, so the session type differs
+    options: { session: session as unknown as ClientSession },
+  }
+}
+
+export async function up(args: MigrateUpArgs): Promise<void> {
+  const { images, imageVersions, galleries, galleryVersions, options } = getModels(args)
+
+  const toList = (path: string) => ({ $cond: [{ $ifNull: [path, false] }, [path], []] })
+
+  const converted = await images.updateMany(
+    { gallery: { $exists: true } },
+    [{ $set: { galleries: toList('$gallery') } }, { $unset: 'gallery' }],
+    options
+  )
+  await imageVersions.updateMany(
+    { 'version.gallery': { $exists: true } },
+    [{ $set: { 'version.galleries': toList('$version.gallery') } }, { $unset: 'version.gallery' }],
+    options
+  )
+
+  const galleryDocs = await galleries.find({}, { ...options, projection: { _id: 1 } }).toArray()
+  for (const gallery of galleryDocs) {
+    const members = await images
+      .find({ galleries: gallery._id }, { ...options, projection: { _id: 1 } })
+      .sort({ sortOrder: 1, createdAt: 1 })
+      .toArray()
+
+    const imageOrder = members.map((image) => ({
+      id: new Types.ObjectId().toHexString(),
+      image: image._id,
+    }))
+
+    await galleries.updateOne({ _id: gallery._id }, { $set: { imageOrder } }, options)
+    await galleryVersions.updateMany(
+      { parent: gallery._id, latest: true },
+      { $set: { 'version.imageOrder': imageOrder } },
+      options
+    )
+  }
+
+  args.payload.logger.info(`✅ Moved ${converted.modifiedCount} images to gallery memberships across ${galleryDocs.length} galleries`)
+}
+
+export async function down(args: MigrateDownArgs): Promise<void> {
+  const { images, imageVersions, galleries, galleryVersions, options } = getModels(args)
+
+  // Images keep only their first gallery
+  await images.updateMany(
+    { galleries: { $exists: true } },
+    [{ $set: { gallery: { $first: '$galleries' } } }, { $unset: 'galleries' }],
+    options
+  )
+  await imageVersions.updateMany(
+    { 'version.galleries': { $exists: true } },
+    [{ $set: { 'version.gallery': { $first: '$version.galleries' } } }, { $unset: 'version.galleries' }],
+    options
+  )
+
+  await galleries.updateMany({}, { $unset: { imageOrder: '' } }, options)
+  await galleryVersions.updateMany({}, { $unset: { 'version.imageOrder': '' } }, options)
+}
@@ -0,0 +1,16 @@
+/**
+ * Search text indexes
+ * Creates the weighted text indexes used to rank site search results.
+ * Re-run (down, then up) after changing the default locale so stemming follows its language.
+ */
+import type { MigrateDownArgs, MigrateUpArgs } from '@payloadcms/db-mongodb'
+import { createSearchTextIndexes, dropSearchTextIndexes } from '../lib/utils/search'
+
+export async function up({ payload }: MigrateUpArgs): Promise<void> {
+  await createSearchTextIndexes(payload)
+  payload.logger.info('✅ Created search text indexes')
+}
+
+export async function down({ payload }: MigrateDownArgs): Promise<void> {
+  await dropSearchTextIndexes(payload)
+}
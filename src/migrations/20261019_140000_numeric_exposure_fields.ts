@@ -0,0 +1,94 @@
+/**
+ * Numeric exposure fields
+ * Backfills `technical.fNumber` and `technical.exposureTime` from the free-text aperture and
+ * shutter speed of existing images and their versions. Values that can't be parsed are logged
+ * so they can be corrected by hand; saving the corrected image fills the numbers in.
+ */
+import type { MigrateDownArgs, MigrateUpArgs, MongooseAdapter } from '@payloadcms/db-mongodb'
+import type { ClientSession } from 'mongoose'
+import { parseAperture, parseShutterSpeed } from '../lib/utils/photo-metadata'
+
+function getModels({ payload, session }: MigrateUpArgs) {
+  const db = payload.db as unknown as MongooseAdapter
+  return {
+    images: db.collections.images.collection,
+    imageVersions: db.versions.images.collection,
+    // The adapter and mongoose resolve different mongodb driver versions, so the session type differs
+    options: { session: session as unknown as ClientSession },
+  }
+}
+
+interface UnparsedValue {
+  id: string
+  field: 'aperture' | 'shutterSpeed'
+  value: unknown
+}
+
+/**
+ * Set the numeric fields on every document with exposure text; versions keep them under `version.`
+ */
+async function backfill(
+  collection: ReturnType<typeof getModels>['images'],
+  root: '' | 'version.',
+  options: ReturnType<typeof getModels>['options']
+): Promise<{ updated: number; unparsed: UnparsedValue[] }> {
+  const prefix = `${root}technical.`
+  const docs = await collection
+    .find(
+      { $or: [{ [`${prefix}aperture`]: { $nin: [null, ''] } }, { [`${prefix}shutterSpeed`]: { $nin: [null, ''] } }] },
+      { ...options, projection: { [`${prefix}aperture`]: 1, [`${prefix}shutterSpeed`]: 1 } }
+    )
+    .toArray()
+
+  const unparsed: UnparsedValue[] = []
+  const operations = docs.map((doc) => {
+    const technical = (root ? doc.version?.technical : doc.technical) || {}
+    const fNumber = parseAperture(technical.aperture) ?? null
+    const exposureTime = parseShutterSpeed(technical.shutterSpeed) ?? null
+
+    if (technical.aperture && fNumber === null) {
+      unparsed.push({ id: String(doc._id), field: 'aperture', value: technical.aperture })
+    }
+    if (technical.shutterSpeed && exposureTime === null) {
+      unparsed.push({ id: String(doc._id), field: 'shutterSpeed', value: technical.shutterSpeed })
+    }
+
+    return {
+      updateOne: {
+        filter: { _id: doc._id },
+        update: { $set: { [`${prefix}fNumber`]: fNumber, [`${prefix}exposureTime`]: exposureTime } },
+      },
+    }
+  })
+
+  if (operations.length) {
+    await collection.bulkWrite(operations, options)
+  }
+
+  return { updated: operations.length, unparsed }
+}
+
+export async function up(args: MigrateUpArgs): Promise<void> {
+  const { images, imageVersions, options } = getModels(args)
+
+  const current = await backfill(images, '', options)
+  await backfill(imageVersions, 'version.', options)
+
+  for (const { id, field, value } of current.unparsed) {
+    args.payload.logger.warn(`⚠️ Image ${id}: could not parse ${field} "${value}"`)
+  }
+  args.payload.logger.info(
+    `✅ Backfilled numeric exposure fields on ${current.updated} images (${current.unparsed.length} values could not be parsed)`
+  )
+}
+
+export async function down(args: MigrateDownArgs): Promise<void> {
+  const { images, imageVersions, options } = getModels(args)
+
+  await images.updateMany({}, { $unset: { 'technical.fNumber': '', 'technical.exposureTime': '' } }, options)
+  await imageVersions.updateMany(
+    {},
+    { $unset: { 'version.technical.fNumber': '', 'version.technical.exposureTime': '' } },
+    options
+  )
+}
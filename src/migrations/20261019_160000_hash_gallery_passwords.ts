@@ -0,0 +1,64 @@
+/**
+ * Hash gallery passwords
+ * Replaces the plaintext `privateAccess.password` of existing galleries and their versions with
+ * bcrypt hashes. Clients keep using the same passwords. Hashes cannot be reversed, so down is a no-op.
+ */
+import type { MigrateDownArgs, MigrateUpArgs, MongooseAdapter } from '@payloadcms/db-mongodb'
+import type { ClientSession } from 'mongoose'
+import { hashGalleryPassword } from '../lib/utils/private-gallery'
+
+function getModels({ payload, session }: MigrateUpArgs) {
+  const db = payload.db as unknown as MongooseAdapter
+  return {
+    galleries: db.collections.galleries.collection,
+    galleryVersions: db.versions.galleries.collection,
+    // The adapter and mongoose resolve different mongodb driver versions, so the session type differs
+    options: { session: session as unknown as ClientSession },
+  }
+}
+
+/**
+ * Hash every plaintext password; versions keep it under `version.`
+ */
+async function hashPasswords(
+  collection: ReturnType<typeof getModels>['galleries'],
+  root: '' | 'version.',
+  options: ReturnType<typeof getModels>['options']
+): Promise<number> {
+  const path = `${root}privateAccess.password`
+  const docs = await collection
+    .find({ [path]: { $type: 'string', $not: /^\$2[aby]\$\d{2}\$/ } }, { ...options, projection: { [path]: 1 } })
+    .toArray()
+
+  const operations = await Promise.all(
+    docs.map(async (doc) => {
+      const password = (root ? doc.version?.privateAccess : doc.privateAccess)?.password
+      const hash = password ? await hashGalleryPassword(password) : null
+      return {
+        updateOne: {
+          filter: { _id: doc._id },
+          update: { $set: { [path]: hash } },
+        },
+      }
+    })
+  )
+
+  if (operations.length) {
+    await collection.bulkWrite(operations, options)
+  }
+
+  return operations.length
+}
+
+export async function up(args: MigrateUpArgs): Promise<void> {
+  const { galleries, galleryVersions, options } = getModels(args)
+
+  const updated = await hashPasswords(galleries, '', options)
+  await hashPasswords(galleryVersions, 'version.', options)
+
+  args.payload.logger.info(`✅ Hashed the passwords of ${updated} galleries`)
+}
+
+export async function down(_args: MigrateDownArgs): Promise<void> {
+  // Plaintext passwords cannot be recovered from their hashes
+}
@@ -0,0 +1,56 @@
+/**
+ * Blog post publish dates
+ * Backfills `publishedAt` on posts that were published before the field existed. Their creation
+ * date is the best record of when they went out. Every version of such a post gets the date too, so
+ * publishing a pending draft later does not count as a first publish.
+ */
+import type { MigrateDownArgs, MigrateUpArgs, MongooseAdapter } from '@payloadcms/db-mongodb'
+import type { ClientSession } from 'mongoose'
+
+function getModels({ payload, session }: MigrateUpArgs) {
+  const db = payload.db as unknown as MongooseAdapter
+  return {
+    posts: db.collections['blog-posts'].collection,
+    postVersions: db.versions['blog-posts'].collection,
+    // The adapter and mongoose resolve different mongodb driver versions, so the session type differs
+    options: { session: session as unknown as ClientSession },
+  }
+}
+
+export async function up(args: MigrateUpArgs): Promise<void> {
+  const { posts, postVersions, options } = getModels(args)
+
+  const docs = await posts
+    .find({ _status: 'published', publishedAt: null }, { ...options, projection: { createdAt: 1 } })
+    .toArray()
+
+  if (docs.length) {
+    await posts.bulkWrite(
+      docs.map((doc) => ({
+        updateOne: {
+          filter: { _id: doc._id },
+          update: { $set: { publishedAt: doc.createdAt } },
+        },
+      })),
+      options
+    )
+    await postVersions.bulkWrite(
+      docs.map((doc) => ({
+        updateMany: {
+          filter: { parent: doc._id, 'version.publishedAt': null },
+          update: { $set: { 'version.publishedAt': doc.createdAt } },
+        },
+      })),
+      options
+    )
+  }
+
+  args.payload.logger.info(`✅ Backfilled publish dates on ${docs.length} blog posts`)
+}
+
+export async function down(args: MigrateDownArgs): Promise<void> {
+  const { posts, postVersions, options } = getModels(args)
+
+  await posts.updateMany({}, { $unset: { publishedAt: '' } }, options)
+  await postVersions.updateMany({}, { $unset: { 'version.publishedAt': '' } }, options)
+}
@@ -0,0 +1,66 @@
+/**
+ * Public map coordinates
+ * Existing images predate location visibility, so they are marked exact and their GPS coordinates
+ * are copied to `location.mapCoordinates`, which geo search, the map and nearby photos read.
+ * Versions get the same values so restoring or publishing an older draft keeps them.
+ */
+import type { MigrateDownArgs, MigrateUpArgs, MongooseAdapter } from '@payloadcms/db-mongodb'
+import type { ClientSession } from 'mongoose'
+
+function getModels({ payload, session }: MigrateUpArgs) {
+  const db = payload.db as unknown as MongooseAdapter
+  return {
+    images: db.collections.images.collection,
+    imageVersions: db.versions.images.collection,
+    // The adapter and mongoose resolve different mongodb driver versions, so the session type differs
+    options: { session: session as unknown as ClientSession },
+  }
+}
+
+/**
+ * Copy the coordinates of every image without a visibility; versions keep them under `version.`
+ */
+async function backfillMapCoordinates(
+  collection: ReturnType<typeof getModels>['images'],
+  root: '' | 'version.',
+  options: ReturnType<typeof getModels>['options']
+): Promise<number> {
+  const location = `${root}location`
+  const result = await collection.updateMany(
+    { [`${location}.visibility`]: null },
+    [
+      {
+        $set: {
+          [`${location}.visibility`]: 'exact',
+          [`${location}.mapCoordinates`]: {
+            latitude: { $ifNull: [`$${location}.coordinates.latitude`, null] },
+            longitude: { $ifNull: [`$${location}.coordinates.longitude`, null] },
+          },
+        },
+      },
+    ],
+    options
+  )
+
+  return result.modifiedCount
+}
+
+export async function up(args: MigrateUpArgs): Promise<void> {
+  const { images, imageVersions, options } = getModels(args)
+
+  const updated = await backfillMapCoordinates(images, '', options)
+  await backfillMapCoordinates(imageVersions, 'version.', options)
+
+  args.payload.logger.info(`✅ Backfilled map coordinates on ${updated} images`)
+}
+
+export async function down(args: MigrateDownArgs): Promise<void> {
+  const { images, imageVersions, options } = getModels(args)
+
+  await images.updateMany({}, { $unset: { 'location.visibility': '', 'location.mapCoordinates': '' } }, options)
+  await imageVersions.updateMany(
+    {},
+    { $unset: { 'version.location.visibility': '', 'version.location.mapCoordinates': '' } },
+    options
+  )
+}
@@ -0,0 +1,39 @@
+import * as migration_20261019_120000_image_gallery_memberships from './20261019_120000_image_gallery_memberships'
+import * as migration_20261019_130000_search_text_indexes from './20261019_130000_search_text_indexes'
+import * as migration_20261019_140000_numeric_exposure_fields from './20261019_140000_numeric_exposure_fields'
+import * as migration_20261019_160000_hash_gallery_passwords from './20261019_160000_hash_gallery_passwords'
+import * as migration_20261019_170000_blog_post_published_at from './20261019_170000_blog_post_published_at'
+import * as migration_20261019_180000_map_coordinates from './20261019_180000_map_coordinates'
+
+export const migrations = [
+  {
+    up: migration_20261019_120000_image_gallery_memberships.up,
+    down: migration_20261019_120000_image_gallery_memberships.down,
+    name: '20261019_120000_image_gallery_memberships',
+  },
+  {
+    up: migration_20261019_130000_search_text_indexes.up,
+    down: migration_20261019_130000_search_text_indexes.down,
+    name: '20261019_130000_search_text_indexes',
+  },
+  {
+    up: migration_20261019_140000_numeric_exposure_fields.up,
+    down: migration_20261019_140000_numeric_exposure_fields.down,
+    name: '20261019_140000_numeric_exposure_fields',
+  },
+  {
+    up: migration_20261019_160000_hash_gallery_passwords.up,
+    down: migration_20261019_160000_hash_gallery_passwords.down,
+    name: '20261019_160000_hash_gallery_passwords',
+  },
+  {
+    up: migration_20261019_170000_blog_post_published_at.up,
+    down: migration_20261019_170000_blog_post_published_at.down,
+    name: '20261019_170000_blog_post_published_at',
+  },
+  {
+    up: migration_20261019_180000_map_coordinates.up,
+    down: migration_20261019_180000_map_coordinates.down,
+    name: '20261019_180000_map_coordinates',
+  },
+]
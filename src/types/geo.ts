@@ -0,0 +1,33 @@
+import type { LocalizedField } from '@/lib/utils/localization'
+
+export interface GeoPoint {
+  id: string
+  latitude: number
+  longitude: number
+}
+
+// West may be greater than east when the box crosses the antimeridian
+export interface GeoBounds {
+  west: number
+  south: number
+  east: number
+  north: number
+}
+
+export interface GeoImage extends GeoPoint {
+  title: LocalizedField<string>
+  slug: string
+  // The gallery the image's own URL lives under
+  gallerySlug: string | null
+  thumbnail?: string
+  locationName?: LocalizedField<string>
+  captureDate?: string
+  // Only set for radius queries
+  distanceKm?: number
+}
+
+export interface GeoSearchResponse {
+  images: GeoImage[]
+  // All matches, of which `images` holds the first `limit`
+  total: number
+}
@@ -1,11 +1,13 @@
+import type { LocalizedField } from '@/lib/utils/localization'
+
 export interface PayloadImage {
   id: string
-  title: string | { en: string; ta: string }
+  title: LocalizedField<string>
   slug: string
-  description?: string | { en: string; ta: string } | null
-  caption?: string | { en: string; ta: string } | null
-  altText?: string | { en: string; ta: string }
-  alt?: { en: string; ta: string } // Legacy field support
+  description?: LocalizedField<string> | null
+  caption?: LocalizedField<string> | null
+  altText?: LocalizedField<string>
+  alt?: LocalizedField<string> // Legacy field support
   
   imageUrls: {
     full?: string
@@ -47,7 +49,7 @@ export interface PayloadImage {
   }
   
   // Additional Payload CMS fields
-  gallery?: string
+  galleries?: string[]
   photographyStyle?: string
   captureDate?: string
   updatedAt?: string
@@ -0,0 +1,126 @@
+import type { LocalizedField } from '@/lib/utils/localization'
+
+export type SearchResultType = 'gallery' | 'image' | 'blog'
+
+// Filter values accepted by /api/search `type`
+export type SearchTypeFilter = 'all' | 'galleries' | 'images' | 'blog'
+
+// A run of text, marked when it matched one of the search terms
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+// URL parameters of the image metadata facets
+export type SearchFacetKey =
+  | 'style'
+  | 'country'
+  | 'region'
+  | 'camera'
+  | 'lens'
+  | 'year'
+  | 'species'
+  | 'astroSubject'
+  | 'season'
+  | 'timeOfDay'
+
+// Selected values per facet; values of one facet are OR-ed, facets are AND-ed
+export type SearchFacetFilters = Partial<Record<SearchFacetKey, string[]>>
+
+// Numeric camera settings that can be filtered by range
+export type SearchRangeKey = 'focalLength' | 'iso' | 'aperture' | 'shutterSpeed'
+
+// Inclusive bounds; shutter speed is in seconds, aperture is the f-number
+export interface SearchRange {
+  min?: number
+  max?: number
+}
+
+export type SearchRangeFilters = Partial<Record<SearchRangeKey, SearchRange>>
+
+export interface SearchFacetValue {
+  value: string
+  label: string
+  count: number
+  selected: boolean
+}
+
+export interface SearchFacet {
+  key: SearchFacetKey
+  values: SearchFacetValue[]
+}
+
+export interface SearchResult {
+  id: string
+  type: SearchResultType
+  score: number
+  title: LocalizedField<string>
+  slug: string
+  description?: LocalizedField<string>
+  excerpt?: LocalizedField<string>
+  subtitle?: LocalizedField<string>
+  tags?: string[]
+  thumbnail?: string
+  imageCount?: number
+  photographyStyle?: string
+  publishedAt?: string
+  captureDate?: string
+  gallery?: {
+    title: LocalizedField<string>
+    slug: string
+  } | null
+  highlights: {
+    title: HighlightSegment[]
+    snippet: HighlightSegment[]
+  }
+}
+
+export interface SearchResponse {
+  query: string
+  // Typo-corrected query the results were found with when the query itself found nothing
+  correctedQuery: string | null
+  // Looser correction to offer when neither found anything
+  didYouMean: string | null
+  locale: string
+  results: SearchResult[]
+  // Matches per result type, regardless of the `type` filter
+  counts: Record<SearchResultType, number>
+  // Image facets; counts ignore the facet's own selection so values can be combined
+  facets: SearchFacet[]
+  filters: SearchFacetFilters
+  ranges: SearchRangeFilters
+  pagination: {
+    limit: number
+    page: number | null
+    totalResults: number
+    totalPages: number
+    hasNextPage: boolean
+    nextPage: number | null
+    nextCursor: string | null
+  }
+}
+
+// Suggestions are grouped by what they point at: a document, or a value to search or filter by
+export type SearchSuggestionType = SearchResultType | 'tag' | 'location' | 'species' | 'gear'
+
+export interface SearchSuggestion {
+  type: SearchSuggestionType
+  label: string
+  // Site path without the locale prefix
+  path: string
+  // Public documents using a tag, location, species or piece of gear
+  count?: number
+}
+
+export interface SearchSuggestionGroup {
+  type: SearchSuggestionType
+  suggestions: SearchSuggestion[]
+}
+
+export interface SearchSuggestResponse {
+  query: string
+  locale: string
+  groups: SearchSuggestionGroup[]
+  // False while the suggestion index is first being built; groups are empty then
+  ready: boolean
+}